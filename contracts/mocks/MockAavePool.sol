@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @title MockAToken - aToken of MockAavePool, a 1:1 receipt for the underlying token
+contract MockAToken is ERC20 {
+    address public immutable UNDERLYING_ASSET_ADDRESS;
+    address public immutable POOL;
+    uint8 private immutable DECIMALS;
+
+    constructor(
+        address _underlying,
+        address _pool,
+        string memory _name,
+        string memory _symbol,
+        uint8 _decimals
+    ) ERC20(_name, _symbol) {
+        UNDERLYING_ASSET_ADDRESS = _underlying;
+        POOL = _pool;
+        DECIMALS = _decimals;
+    }
+
+    function mint(address _to, uint256 _amount) external {
+        require(msg.sender == POOL, "MockAToken: caller not the pool");
+        _mint(_to, _amount);
+    }
+
+    function burn(address _from, uint256 _amount) external {
+        require(msg.sender == POOL, "MockAToken: caller not the pool");
+        _burn(_from, _amount);
+    }
+
+    function decimals() public view override returns (uint8) {
+        return DECIMALS;
+    }
+}
+
+/// @title MockAavePool - Aave V2 and V3 style lending pool for tests without a fork
+/// @notice Has no constructor so its code can be placed at the mainnet pool address with hardhat_setCode,
+///         reserves are registered afterwards with setReserve
+contract MockAavePool {
+    using SafeERC20 for IERC20;
+
+    mapping(address => address) public aTokens;
+    address[] private reserves;
+
+    function setReserve(address _asset, address _aToken) external {
+        if (aTokens[_asset] == address(0)) {
+            reserves.push(_asset);
+        }
+        aTokens[_asset] = _aToken;
+    }
+
+    function getReservesList() external view returns (address[] memory) {
+        return reserves;
+    }
+
+    /// @notice Reports the user's aToken balances as collateral, in 8 decimal USD with every reserve at $1
+    /// @dev Nothing can be borrowed, so there is no debt and the health factor is infinite
+    function getUserAccountData(
+        address _user
+    )
+        external
+        view
+        returns (
+            uint256 totalCollateralBase,
+            uint256 totalDebtBase,
+            uint256 availableBorrowsBase,
+            uint256 currentLiquidationThreshold,
+            uint256 ltv,
+            uint256 healthFactor
+        )
+    {
+        for (uint256 i = 0; i < reserves.length; i++) {
+            MockAToken aToken = MockAToken(aTokens[reserves[i]]);
+            totalCollateralBase += (aToken.balanceOf(_user) * 1e8) / 10 ** aToken.decimals();
+        }
+        return (totalCollateralBase, 0, 0, 0, 0, type(uint256).max);
+    }
+
+    /// @notice Aave V3 entry point
+    function supply(address _asset, uint256 _amount, address _onBehalfOf, uint16) external {
+        _deposit(_asset, _amount, _onBehalfOf);
+    }
+
+    /// @notice Aave V2 entry point
+    function deposit(address _asset, uint256 _amount, address _onBehalfOf, uint16) external {
+        _deposit(_asset, _amount, _onBehalfOf);
+    }
+
+    function withdraw(address _asset, uint256 _amount, address _to) external returns (uint256) {
+        MockAToken aToken = _getAToken(_asset);
+        uint256 amount = _amount == type(uint256).max ? aToken.balanceOf(msg.sender) : _amount;
+        aToken.burn(msg.sender, amount);
+        IERC20(_asset).safeTransfer(_to, amount);
+        return amount;
+    }
+
+    function _deposit(address _asset, uint256 _amount, address _onBehalfOf) internal {
+        MockAToken aToken = _getAToken(_asset);
+        IERC20(_asset).safeTransferFrom(msg.sender, address(this), _amount);
+        aToken.mint(_onBehalfOf, _amount);
+    }
+
+    function _getAToken(address _asset) internal view returns (MockAToken) {
+        require(aTokens[_asset] != address(0), "MockAavePool: unknown reserve");
+        return MockAToken(aTokens[_asset]);
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+/// @title MockAggregatorV3 - Chainlink price feed for tests without a fork
+/// @notice Has no constructor so its code can be placed at the mainnet feed address with hardhat_setCode.
+///         The price is never stale unless setUpdatedAt pins the update time.
+contract MockAggregatorV3 {
+    int256 public latestAnswer;
+    uint256 public pinnedUpdatedAt;
+
+    function setAnswer(int256 _answer) external {
+        latestAnswer = _answer;
+    }
+
+    /// @param _updatedAt The update time to report, 0 to report the current block
+    function setUpdatedAt(uint256 _updatedAt) external {
+        pinnedUpdatedAt = _updatedAt;
+    }
+
+    function decimals() external pure returns (uint8) {
+        return 8;
+    }
+
+    function description() external pure returns (string memory) {
+        return "MOCK / USD";
+    }
+
+    function version() external pure returns (uint256) {
+        return 4;
+    }
+
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        updatedAt = pinnedUpdatedAt == 0 ? block.timestamp : pinnedUpdatedAt;
+        return (1, latestAnswer, updatedAt, updatedAt, 1);
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+/// @title MockCreateX - CreateX CREATE2 deployment for tests without a fork
+/// @notice Has no constructor so its code can be placed at the CreateX address with hardhat_setCode.
+///         Only supports unguarded salts (no sender guard, no cross-chain flag), which CreateX
+///         guards as keccak256(abi.encode(salt)), so addresses match the real factory.
+contract MockCreateX {
+    event ContractCreation(address indexed newContract, bytes32 indexed salt);
+
+    function deployCreate2(bytes32 _salt, bytes memory _initCode) external payable returns (address newContract) {
+        bytes32 guardedSalt = _guard(_salt);
+        assembly {
+            newContract := create2(callvalue(), add(_initCode, 0x20), mload(_initCode), guardedSalt)
+        }
+        require(newContract != address(0) && newContract.code.length != 0, "MockCreateX: creation failed");
+        emit ContractCreation(newContract, guardedSalt);
+    }
+
+    function computeCreate2Address(bytes32 _salt, bytes32 _initCodeHash) external view returns (address) {
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), _salt, _initCodeHash)))));
+    }
+
+    function _guard(bytes32 _salt) internal view returns (bytes32) {
+        address saltSender = address(bytes20(_salt));
+        require(saltSender != msg.sender && saltSender != address(0), "MockCreateX: guarded salt");
+        return keccak256(abi.encode(_salt));
+    }
+}
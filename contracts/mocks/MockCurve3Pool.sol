@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @title MockCurve3Pool - Curve 3pool style pool that swaps its coins 1:1, adjusted for decimals
+/// @notice Has no constructor so its code can be placed at the mainnet pool address with hardhat_setCode,
+///         the coins are set afterwards with setCoins and the pool must hold enough of each coin to pay out
+/* solhint-disable func-name-mixedcase, var-name-mixedcase */
+contract MockCurve3Pool {
+    using SafeERC20 for IERC20;
+
+    event TokenExchange(
+        address indexed buyer,
+        int128 sold_id,
+        uint256 tokens_sold,
+        int128 bought_id,
+        uint256 tokens_bought
+    );
+
+    address[3] public coins;
+
+    function setCoins(address[3] calldata _coins) external {
+        coins = _coins;
+    }
+
+    function get_dy(int128 i, int128 j, uint256 dx) public view returns (uint256) {
+        uint8 decimalsIn = IERC20Metadata(coins[uint128(i)]).decimals();
+        uint8 decimalsOut = IERC20Metadata(coins[uint128(j)]).decimals();
+        if (decimalsOut >= decimalsIn) {
+            return dx * 10 ** (decimalsOut - decimalsIn);
+        }
+        return dx / 10 ** (decimalsIn - decimalsOut);
+    }
+
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external {
+        uint256 dy = get_dy(i, j, dx);
+        require(dy >= min_dy, "MockCurve3Pool: slippage");
+        IERC20(coins[uint128(i)]).safeTransferFrom(msg.sender, address(this), dx);
+        IERC20(coins[uint128(j)]).safeTransfer(msg.sender, dy);
+        emit TokenExchange(msg.sender, i, dx, j, dy);
+    }
+}
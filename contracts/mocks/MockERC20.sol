@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title MockERC20 - Mintable token standing in for mainnet tokens in tests without a fork
+/// @notice Anyone can mint, tests fund accounts with mint instead of impersonating whales
+contract MockERC20 is ERC20 {
+    uint8 private immutable DECIMALS;
+
+    constructor(string memory _name, string memory _symbol, uint8 _decimals) ERC20(_name, _symbol) {
+        DECIMALS = _decimals;
+    }
+
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+
+    function decimals() public view override returns (uint8) {
+        return DECIMALS;
+    }
+}
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {IERC4626} from "../interfaces/common/IERC4626.sol";
+
+/// @title MockERC4626 - Vault standing in for ERC4626 protocols (Fluid, Spark, Yearn V3...) in tests without a fork
+/// @notice Yield is simulated by minting the underlying token straight to the vault
+/// @dev Implements the repo's IERC4626 rather than extending OpenZeppelin's ERC4626, whose IERC4626
+///      artifact would make getContractAt('IERC4626', ...) ambiguous. The share math matches
+///      OpenZeppelin's, including the virtual shares of the decimals offset.
+contract MockERC4626 is ERC20, IERC4626 {
+    using Math for uint256;
+    using SafeERC20 for IERC20;
+
+    IERC20 private immutable ASSET;
+    uint8 private immutable DECIMALS;
+    uint8 private immutable DECIMALS_OFFSET;
+
+    /// @param _decimalsOffset Share decimals minus asset decimals, to match the mainnet vault
+    constructor(
+        address _asset,
+        string memory _name,
+        string memory _symbol,
+        uint8 _decimalsOffset
+    ) ERC20(_name, _symbol) {
+        ASSET = IERC20(_asset);
+        DECIMALS = IERC20Metadata(_asset).decimals() + _decimalsOffset;
+        DECIMALS_OFFSET = _decimalsOffset;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return DECIMALS;
+    }
+
+    function asset() external view returns (address) {
+        return address(ASSET);
+    }
+
+    function totalAssets() public view returns (uint256) {
+        return ASSET.balanceOf(address(this));
+    }
+
+    function convertToShares(uint256 _assets) external view returns (uint256) {
+        return _convertToShares(_assets, Math.Rounding.Floor);
+    }
+
+    function convertToAssets(uint256 _shares) external view returns (uint256) {
+        return _convertToAssets(_shares, Math.Rounding.Floor);
+    }
+
+    function maxDeposit(address) external pure returns (uint256) {
+        return type(uint256).max;
+    }
+
+    function maxMint(address) external pure returns (uint256) {
+        return type(uint256).max;
+    }
+
+    function maxWithdraw(address _owner) public view returns (uint256) {
+        return _convertToAssets(balanceOf(_owner), Math.Rounding.Floor);
+    }
+
+    function maxRedeem(address _owner) public view returns (uint256) {
+        return balanceOf(_owner);
+    }
+
+    function previewDeposit(uint256 _assets) public view returns (uint256) {
+        return _convertToShares(_assets, Math.Rounding.Floor);
+    }
+
+    function previewMint(uint256 _shares) public view returns (uint256) {
+        return _convertToAssets(_shares, Math.Rounding.Ceil);
+    }
+
+    function previewWithdraw(uint256 _assets) public view returns (uint256) {
+        return _convertToShares(_assets, Math.Rounding.Ceil);
+    }
+
+    function previewRedeem(uint256 _shares) public view returns (uint256) {
+        return _convertToAssets(_shares, Math.Rounding.Floor);
+    }
+
+    function deposit(uint256 _assets, address _receiver) external returns (uint256 shares) {
+        shares = previewDeposit(_assets);
+        _deposit(_receiver, _assets, shares);
+    }
+
+    function mint(uint256 _shares, address _receiver) external returns (uint256 assets) {
+        assets = previewMint(_shares);
+        _deposit(_receiver, assets, _shares);
+    }
+
+    function withdraw(uint256 _assets, address _receiver, address _owner) external returns (uint256 shares) {
+        require(_assets <= maxWithdraw(_owner), "MockERC4626: over max withdraw");
+        shares = previewWithdraw(_assets);
+        _withdraw(_receiver, _owner, _assets, shares);
+    }
+
+    function redeem(uint256 _shares, address _receiver, address _owner) external returns (uint256 assets) {
+        require(_shares <= maxRedeem(_owner), "MockERC4626: over max redeem");
+        assets = previewRedeem(_shares);
+        _withdraw(_receiver, _owner, assets, _shares);
+    }
+
+    function _convertToShares(uint256 _assets, Math.Rounding _rounding) internal view returns (uint256) {
+        return _assets.mulDiv(totalSupply() + 10 ** DECIMALS_OFFSET, totalAssets() + 1, _rounding);
+    }
+
+    function _convertToAssets(uint256 _shares, Math.Rounding _rounding) internal view returns (uint256) {
+        return _shares.mulDiv(totalAssets() + 1, totalSupply() + 10 ** DECIMALS_OFFSET, _rounding);
+    }
+
+    function _deposit(address _receiver, uint256 _assets, uint256 _shares) internal {
+        ASSET.safeTransferFrom(msg.sender, address(this), _assets);
+        _mint(_receiver, _shares);
+        emit Deposit(msg.sender, _receiver, _assets, _shares);
+    }
+
+    function _withdraw(address _receiver, address _owner, uint256 _assets, uint256 _shares) internal {
+        if (msg.sender != _owner) {
+            _spendAllowance(_owner, msg.sender, _shares);
+        }
+        _burn(_owner, _shares);
+        ASSET.safeTransfer(_receiver, _assets);
+        emit Withdraw(msg.sender, _receiver, _owner, _assets, _shares);
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+import {SequenceExecutor} from "../SequenceExecutor.sol";
+import {IEip712TypedDataSafeModule} from "../interfaces/IEip712TypedDataSafeModule.sol";
+
+/// @title SequenceExecutorProfiler - SequenceExecutor that reports the gas used by each action
+/// @notice Never deployed: the bundle simulator (test/bundle-simulator.ts) swaps its code in for the
+///         SequenceExecutor's in a snapshot of a local node. ActionProfiled is emitted from the Safe after
+///         each action, so the logs of the transaction can be split by action.
+contract SequenceExecutorProfiler is SequenceExecutor {
+    event ActionProfiled(uint256 index, uint256 gasUsed);
+
+    constructor(address _adminVault) SequenceExecutor(_adminVault) {}
+
+    function _executeAction(
+        Sequence memory _currSequence,
+        uint256 _index,
+        IEip712TypedDataSafeModule.Bundle calldata _bundle,
+        bytes calldata _signature,
+        uint16 _strategyId
+    ) internal override {
+        uint256 gasBefore = gasleft();
+        super._executeAction(_currSequence, _index, _bundle, _signature, _strategyId);
+        emit ActionProfiled(_index, gasBefore - gasleft());
+    }
+}
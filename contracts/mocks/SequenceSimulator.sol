@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: LicenseRef-Brava-Commercial-License-1.0
+pragma solidity =0.8.28;
+
+/// @title SequenceSimulator - replays the steps of a failed Safe execution to find the failing one
+/// @notice Never deployed: the revert decoder (test/revert-decoder.ts) places its code at a scratch address
+///         with an eth_call state override and runs it in the Safe context through Safe.simulateAndRevert.
+///         Unlike SequenceExecutor, which reverts without data when an action fails, it reports which
+///         step failed and what it reverted with.
+contract SequenceSimulator {
+    struct Step {
+        address target;
+        bytes data;
+    }
+
+    error SequenceSimulator_StepFailed(uint256 index, bytes returnData);
+
+    /// @notice Delegatecalls each step in order, reverts with the index and revert data of the first failure
+    function simulate(Step[] calldata _steps) external {
+        for (uint256 i = 0; i < _steps.length; ++i) {
+            // solhint-disable-next-line avoid-low-level-calls
+            (bool success, bytes memory returnData) = _steps[i].target.delegatecall(_steps[i].data);
+            if (!success) {
+                revert SequenceSimulator_StepFailed(i, returnData);
+            }
+        }
+    }
+}
@@ -1,10 +1,10 @@
-import '@nomicfoundation/hardhat-ledger';
 import '@nomicfoundation/hardhat-toolbox';
 import '@nomiclabs/hardhat-solhint';
 import '@openzeppelin/hardhat-upgrades';
 // import '@tenderly/hardhat-tenderly';
 import 'dotenv/config';
 import { HardhatUserConfig } from 'hardhat/config';
+import { FORK_BLOCK_NUMBER } from './test/constants';
 
 const config: HardhatUserConfig = {
   solidity: '0.8.28',
@@ -17,10 +17,17 @@ const config: HardhatUserConfig = {
       chainId: 1,
     },
     hardhat: {
-      forking: {
-        url: 'https://mainnet.gateway.tenderly.co/' + process.env.TENDERLY_API_KEY!,
-        blockNumber: 23096055,
-      },
+      // FORK=false runs the tests against local mocks, see test/mock-protocols.ts
+      forking:
+        process.env.FORK === 'false'
+          ? undefined
+          : {
+              // FORK_RPC_URL points the fork at the RPC cache proxy, see scripts/rpc-cache.ts
+              url:
+                process.env.FORK_RPC_URL ??
+                'https://mainnet.gateway.tenderly.co/' + process.env.TENDERLY_API_KEY!,
+              blockNumber: FORK_BLOCK_NUMBER,
+            },
     },
     localhost: {
       url: 'http://127.0.0.1:8545',
@@ -28,7 +35,6 @@ const config: HardhatUserConfig = {
     mainnet: {
       url: process.env.MAINNET_RPC_URL || 'https://eth.llamarpc.com',
       chainId: 1,
-      ledgerAccounts: [process.env.LEDGER_ACCOUNT!],
     },
   },
   tenderly: {
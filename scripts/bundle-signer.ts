@@ -0,0 +1,160 @@
+import fs from 'fs';
+import 'dotenv/config';
+import { ethers } from 'ethers';
+import {
+  DEFAULT_DOMAIN_NAME,
+  DEFAULT_DOMAIN_VERSION,
+  EIP712_TYPES,
+  createEIP712Domain,
+  hashBundleForSigning,
+  parseBundle,
+  recoverBundleSigner,
+  serializeBundle,
+} from '../test/utils-eip712';
+import { getScriptSigner, getSignerKind } from './deployments/signers';
+
+// Builds, signs and verifies EIP-712 bundles without a hardhat network
+// Usage:
+// npx ts-node scripts/bundle-signer.ts build|sign|verify
+//
+// build:  BUNDLE_DESCRIPTION_FILE=description.json BUNDLE_FILE=bundle.json
+//         The description is a bundle where only chainId and sequence are required per chain
+//         sequence, the other fields default like createBundle. Use expiresIn (seconds from now)
+//         instead of expiry for a relative expiry.
+// sign:   BUNDLE_FILE=bundle.json SAFE_ADDRESS=0x... SIGNATURE_FILE=signature.json
+//         SIGNER_TYPE (or --signer) selects the signer, see scripts/deployments/signers.ts:
+//         SIGNER_TYPE=keystore  KEYSTORE_FILE=key.json KEYSTORE_PASSWORD=...
+//         SIGNER_TYPE=local     MNEMONIC="..." [DERIVATION_PATH=m/44'/60'/0'/0/0] or PRIVATE_KEY=0x...
+//         SIGNER_TYPE=ledger    [DERIVATION_PATH=m/44'/60'/0'/0/0]
+// verify: BUNDLE_FILE=bundle.json SIGNATURE_FILE=signature.json (or SIGNATURE=0x... SAFE_ADDRESS=0x...)
+//         [EXPECTED_SIGNER=0x...]
+// DOMAIN_NAME and DOMAIN_VERSION must match the values the module was initialized with
+// (default BravaSafeModule / 1.0.0). The printed digest is the value returned by
+// EIP712TypedDataSafeModule.getBundleHash for the same Safe and bundle.
+
+interface SignatureFile {
+  safeAddress: string;
+  signer: string;
+  digest: string;
+  signature: string;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+  return value;
+}
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function getDomain(): { name: string; version: string } {
+  return {
+    name: process.env.DOMAIN_NAME ?? DEFAULT_DOMAIN_NAME,
+    version: process.env.DOMAIN_VERSION ?? DEFAULT_DOMAIN_VERSION,
+  };
+}
+
+async function build() {
+  const description = readJson(requireEnv('BUNDLE_DESCRIPTION_FILE'));
+  if (description.expiry === undefined && description.expiresIn !== undefined) {
+    description.expiry = Math.floor(Date.now() / 1000) + Number(description.expiresIn);
+  }
+  const bundle = parseBundle(description);
+  const file = requireEnv('BUNDLE_FILE');
+  fs.writeFileSync(file, JSON.stringify(serializeBundle(bundle), null, 2));
+  console.log(`Wrote bundle with ${bundle.sequences.length} chain sequences to ${file}`);
+  console.log(`Expires at ${new Date(Number(bundle.expiry) * 1000).toISOString()}`);
+}
+
+async function sign() {
+  const bundle = parseBundle(readJson(requireEnv('BUNDLE_FILE')));
+  const safeAddress = ethers.getAddress(requireEnv('SAFE_ADDRESS'));
+  const { name, version } = getDomain();
+  const digest = hashBundleForSigning(bundle, safeAddress, name, version);
+
+  if (getSignerKind() === 'safe') {
+    throw new Error('Bundles are signed by a Safe owner, use a local, ledger or keystore signer');
+  }
+  // Signed offline, no provider is needed
+  const { kind, signer, getAddress } = await getScriptSigner();
+  const signerAddress = await getAddress();
+  if (kind === 'ledger') {
+    console.log(`Confirm the signature on the Ledger for ${signerAddress}`);
+  }
+  const signed = {
+    signer: signerAddress,
+    signature: await signer.signTypedData(
+      createEIP712Domain(safeAddress, 1, name, version),
+      EIP712_TYPES,
+      bundle
+    ),
+  };
+
+  const recovered = recoverBundleSigner(bundle, signed.signature, safeAddress, name, version);
+  if (recovered !== signed.signer) {
+    throw new Error(`Signature recovers to ${recovered}, expected ${signed.signer}`);
+  }
+
+  const output: SignatureFile = { safeAddress, digest, ...signed };
+  const file = requireEnv('SIGNATURE_FILE');
+  fs.writeFileSync(file, JSON.stringify(output, null, 2));
+  console.log(`Digest: ${digest}`);
+  console.log(`Signed by ${signed.signer}, wrote ${file}`);
+}
+
+async function verify() {
+  const bundle = parseBundle(readJson(requireEnv('BUNDLE_FILE')));
+  const signatureFile: Partial<SignatureFile> = process.env.SIGNATURE_FILE
+    ? readJson(process.env.SIGNATURE_FILE)
+    : {};
+  const signature = process.env.SIGNATURE ?? signatureFile.signature;
+  const safeAddress = process.env.SAFE_ADDRESS ?? signatureFile.safeAddress;
+  if (!signature || !safeAddress) {
+    throw new Error('Set SIGNATURE_FILE, or SIGNATURE and SAFE_ADDRESS');
+  }
+  const { name, version } = getDomain();
+
+  const digest = hashBundleForSigning(bundle, safeAddress, name, version);
+  const signer = recoverBundleSigner(bundle, signature, safeAddress, name, version);
+  console.log(`Safe: ${ethers.getAddress(safeAddress)}`);
+  console.log(`Digest: ${digest}`);
+  console.log(`Signer: ${signer}`);
+  if (Number(bundle.expiry) * 1000 <= Date.now()) {
+    console.log(
+      `WARNING: bundle expired at ${new Date(Number(bundle.expiry) * 1000).toISOString()}`
+    );
+  }
+
+  const expected = process.env.EXPECTED_SIGNER ?? signatureFile.signer;
+  if (expected && ethers.getAddress(expected) !== signer) {
+    console.log(`INVALID: expected signer ${ethers.getAddress(expected)}`);
+    process.exitCode = 1;
+  } else if (signatureFile.digest && signatureFile.digest !== digest) {
+    console.log(`INVALID: signature file digest ${signatureFile.digest} does not match`);
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const command = process.argv[2];
+  if (command === 'build') {
+    await build();
+  } else if (command === 'sign') {
+    await sign();
+  } else if (command === 'verify') {
+    await verify();
+  } else {
+    throw new Error(`Unknown command: ${command}, expected build, sign or verify`);
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
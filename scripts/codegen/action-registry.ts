@@ -0,0 +1,281 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+/**
+ * Action registry generator
+ *
+ * Reads every compiled action under contracts/actions and collects what the test helpers need to
+ * encode it: the protocolName() and actionType() the contract reports, and the Params struct its
+ * _parseInputs decodes the call data into. renderActionRegistry turns the result into
+ * test/action-registry.ts, so a new action is usable from encodeAction without editing lists by hand.
+ */
+
+const ACTIONS_SOURCE_DIR = 'contracts/actions/';
+const INPUT_STRUCT_NAME = 'Params';
+// Address the runtime code is placed at to call the pure metadata functions
+const PROBE_ADDRESS = '0x00000000000000000000000000000000000ac710';
+
+// A struct member in ABI JSON form, so it can be passed straight to ethers.ParamType.from
+export interface ActionParam {
+  name: string;
+  type: string;
+  components?: ActionParam[];
+}
+
+export interface CollectedAction {
+  contract: string;
+  protocolName: string;
+  actionType: number;
+  // null when the action does not decode its call data into a Params struct
+  params: ActionParam[] | null;
+}
+
+type AstNode = { id: number; nodeType: string; [key: string]: any };
+
+// Indexes the declarations a struct member can refer to: top level declarations and the
+// declarations inside contracts, libraries and interfaces
+function indexAst(sourceUnit: AstNode, nodes: Map<number, AstNode>) {
+  for (const node of sourceUnit.nodes as AstNode[]) {
+    nodes.set(node.id, node);
+    if (node.nodeType === 'ContractDefinition') {
+      (node.nodes as AstNode[]).forEach((member) => nodes.set(member.id, member));
+    }
+  }
+}
+
+function resolveParam(name: string, typeName: AstNode, nodes: Map<number, AstNode>): ActionParam {
+  switch (typeName.nodeType) {
+    case 'ElementaryTypeName':
+      return { name, type: typeName.typeDescriptions.typeString.replace(' payable', '') };
+    case 'ArrayTypeName': {
+      const base = resolveParam(name, typeName.baseType, nodes);
+      const length = typeName.length ? typeName.length.value : '';
+      return { ...base, type: `${base.type}[${length}]` };
+    }
+    case 'UserDefinedTypeName': {
+      const declaration = nodes.get(typeName.referencedDeclaration);
+      switch (declaration?.nodeType) {
+        case 'StructDefinition':
+          return {
+            name,
+            type: 'tuple',
+            components: declaration.members.map((member: AstNode) =>
+              resolveParam(member.name, member.typeName, nodes)
+            ),
+          };
+        case 'EnumDefinition':
+          return { name, type: 'uint8' };
+        case 'ContractDefinition':
+          return { name, type: 'address' };
+        case 'UserDefinedValueTypeDefinition':
+          return resolveParam(name, declaration.underlyingType, nodes);
+      }
+      throw new Error(`Unsupported type ${typeName.typeDescriptions.typeString} for ${name}`);
+    }
+  }
+  throw new Error(`Unsupported type node ${typeName.nodeType} for ${name}`);
+}
+
+function findInputStruct(contract: AstNode, nodes: Map<number, AstNode>): AstNode | undefined {
+  // linearizedBaseContracts starts with the contract itself, so overrides win over base structs
+  for (const baseId of contract.linearizedBaseContracts as number[]) {
+    const struct = (nodes.get(baseId)?.nodes as AstNode[] | undefined)?.find(
+      (node) => node.nodeType === 'StructDefinition' && node.name === INPUT_STRUCT_NAME
+    );
+    if (struct) {
+      return struct;
+    }
+  }
+  return undefined;
+}
+
+function isAction(abi: any[]): boolean {
+  const functions = abi.filter((item) => item.type === 'function').map((item) => item.name);
+  return ['executeAction', 'actionType', 'protocolName'].every((name) => functions.includes(name));
+}
+
+/**
+ * Collects the metadata of every deployable action contract from the compiled artifacts
+ * The protocolName() and actionType() values are read by placing the runtime code on the
+ * hardhat network, so this must run against a hardhat network
+ * @param hre The hardhat runtime environment
+ * @returns The actions, sorted by contract name
+ */
+export async function collectActionMetadata(
+  hre: HardhatRuntimeEnvironment
+): Promise<CollectedAction[]> {
+  const names = (await hre.artifacts.getAllFullyQualifiedNames()).filter((name) =>
+    name.startsWith(ACTIONS_SOURCE_DIR)
+  );
+  // Build infos are large, load and index each one once
+  const buildInfos = new Map<
+    string,
+    { sources: Record<string, any>; nodes: Map<number, AstNode> }
+  >();
+  const actions: CollectedAction[] = [];
+
+  for (const fullyQualifiedName of names) {
+    const artifact = await hre.artifacts.readArtifact(fullyQualifiedName);
+    if (artifact.deployedBytecode === '0x' || !isAction(artifact.abi)) {
+      continue;
+    }
+
+    const debugFile = path.join(
+      hre.config.paths.artifacts,
+      artifact.sourceName,
+      `${artifact.contractName}.dbg.json`
+    );
+    const buildInfoFile = path.resolve(
+      path.dirname(debugFile),
+      JSON.parse(fs.readFileSync(debugFile, 'utf8')).buildInfo
+    );
+    if (!buildInfos.has(buildInfoFile)) {
+      const { output } = JSON.parse(fs.readFileSync(buildInfoFile, 'utf8'));
+      const nodes = new Map<number, AstNode>();
+      Object.values(output.sources).forEach((source: any) => indexAst(source.ast, nodes));
+      buildInfos.set(buildInfoFile, { sources: output.sources, nodes });
+    }
+    const { sources, nodes } = buildInfos.get(buildInfoFile)!;
+    const contractNode = (sources[artifact.sourceName].ast.nodes as AstNode[]).find(
+      (node) => node.nodeType === 'ContractDefinition' && node.name === artifact.contractName
+    );
+    if (!contractNode) {
+      throw new Error(`Contract definition not found for ${fullyQualifiedName}`);
+    }
+    const struct = findInputStruct(contractNode, nodes);
+
+    await hre.network.provider.send('hardhat_setCode', [PROBE_ADDRESS, artifact.deployedBytecode]);
+    const probe = new ethers.Contract(PROBE_ADDRESS, artifact.abi, hre.ethers.provider);
+
+    actions.push({
+      contract: artifact.contractName,
+      protocolName: await probe.protocolName(),
+      actionType: Number(await probe.actionType()),
+      params: struct
+        ? struct.members.map((member: AstNode) => resolveParam(member.name, member.typeName, nodes))
+        : null,
+    });
+  }
+  await hre.network.provider.send('hardhat_setCode', [PROBE_ADDRESS, '0x']);
+
+  return actions.sort((a, b) => a.contract.localeCompare(b.contract));
+}
+
+function getTsType(param: ActionParam): string {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    return `${getTsType({ ...param, type: array[1] })}[]`;
+  }
+  if (param.type === 'tuple') {
+    const members = param.components!.map((c) => `${c.name}: ${getTsType(c)}`).join('; ');
+    return `{ ${members} }`;
+  }
+  if (param.type.startsWith('uint') || param.type.startsWith('int')) {
+    return 'BigNumberish';
+  }
+  return param.type === 'bool' ? 'boolean' : 'string';
+}
+
+function getDefaultValue(param: ActionParam): unknown {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    const length = array[2] ? Number(array[2]) : 0;
+    return Array.from({ length }, () => getDefaultValue({ ...param, type: array[1] }));
+  }
+  if (param.type === 'tuple') {
+    return Object.fromEntries(param.components!.map((c) => [c.name, getDefaultValue(c)]));
+  }
+  if (param.type.startsWith('uint') || param.type.startsWith('int')) {
+    return 0;
+  }
+  if (param.type === 'bool') {
+    return false;
+  }
+  if (param.type === 'address') {
+    return ethers.ZeroAddress;
+  }
+  const fixedBytes = param.type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    return ethers.zeroPadValue('0x', Number(fixedBytes[1]));
+  }
+  return param.type === 'bytes' ? '0x' : '';
+}
+
+function renderValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderValue).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, item]) => `${key}: ${renderValue(item)}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+// Renders a line, broken over several lines when it doesn't fit (prettier's print width)
+function renderEntries(prefix: string, entries: string[], suffix: string, indent: string): string {
+  const inline = `${indent}${prefix}{ ${entries.join(', ')} }${suffix}`;
+  if (inline.length <= 100) {
+    return inline;
+  }
+  return [
+    `${indent}${prefix}{`,
+    ...entries.map((entry) => `${indent}  ${entry},`),
+    `${indent}}${suffix}`,
+  ].join('\n');
+}
+
+/**
+ * Renders the collected actions as the test/action-registry.ts module
+ * @param actions The collected actions
+ * @returns The module source
+ */
+export function renderActionRegistry(actions: CollectedAction[]): string {
+  const withParams = actions.filter((action) => action.params);
+  const lines: string[] = [
+    '// Generated by scripts/generate-action-registry.ts from the compiled action contracts, do not edit.',
+    '// Re-run `npx hardhat run scripts/generate-action-registry.ts` after adding or changing an action.',
+    "import { BigNumberish } from 'ethers';",
+    '',
+  ];
+
+  for (const action of withParams) {
+    lines.push(`export interface ${action.contract}Params {`);
+    action.params!.forEach((param) => lines.push(`  ${param.name}: ${getTsType(param)};`));
+    lines.push('}', '');
+  }
+
+  lines.push('export interface ActionParamsMap {');
+  withParams.forEach((action) => lines.push(`  ${action.contract}: ${action.contract}Params;`));
+  lines.push('}', '');
+
+  lines.push('export const actionRegistry = {');
+  for (const action of actions) {
+    lines.push(`  ${action.contract}: {`);
+    lines.push(`    protocolName: '${action.protocolName}',`);
+    lines.push(`    actionType: ${action.actionType},`);
+    if (action.params) {
+      lines.push('    params: [');
+      action.params.forEach((param) => lines.push(`      ${renderValue(param)},`));
+      lines.push('    ],');
+    } else {
+      lines.push('    params: null,');
+    }
+    lines.push('  },');
+  }
+  lines.push('} as const;', '');
+
+  lines.push('// Zero values for every input, merged under the values passed to the builders');
+  lines.push('export const actionParamDefaults: ActionParamsMap = {');
+  for (const action of withParams) {
+    const entries = action.params!.map(
+      (param) => `${param.name}: ${renderValue(getDefaultValue(param))}`
+    );
+    lines.push(renderEntries(`${action.contract}: `, entries, ',', '  '));
+  }
+  lines.push('};', '');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import {
+  ActionResolver,
+  EncodedSequence,
+  decodeSequence,
+  formatDecodedSequence,
+  resolveActionsFromAddresses,
+  resolveActionsFromAdminVault,
+} from '../test/sequence-decoder';
+import { AdminVault } from '../typechain-types';
+import { loadLedger } from './deployments/ledger';
+
+// Prints a readable summary of a sequence, or of every sequence in a signed bundle
+// Usage:
+// SEQUENCE_FILE=bundle.json npx hardhat run scripts/decode-sequence.ts --network mainnet
+// The file holds a SequenceExecutor sequence ({ name, callData, actionIds }), an EIP-712 Sequence
+// or a Bundle ({ expiry, sequences: [{ chainId, sequence }] }).
+// Action IDs are resolved with the actions in the network's deployment ledger, then with
+// AdminVault.getActionAddress when ADMIN_VAULT_ADDRESS (or the ledger AdminVault) is known.
+
+async function getResolver(): Promise<ActionResolver> {
+  const ledger = await loadLedger();
+  const addresses = Object.fromEntries(
+    Object.entries(ledger.actions).map(([name, action]) => [name, action.address])
+  );
+  const adminVaultAddress = process.env.ADMIN_VAULT_ADDRESS ?? ledger.external.AdminVault;
+  if (!adminVaultAddress) {
+    return resolveActionsFromAddresses(addresses);
+  }
+  const adminVault = (await ethers.getContractAt(
+    'AdminVault',
+    adminVaultAddress
+  )) as unknown as AdminVault;
+  return resolveActionsFromAdminVault(adminVault, addresses);
+}
+
+async function main() {
+  const file = process.env.SEQUENCE_FILE;
+  if (!file) {
+    throw new Error('SEQUENCE_FILE is required');
+  }
+  const content = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const sequences: { chainId?: string; sequence: EncodedSequence }[] = Array.isArray(
+    content.sequences
+  )
+    ? content.sequences.map((entry: any) => ({
+        chainId: String(entry.chainId),
+        sequence: entry.sequence,
+      }))
+    : [{ sequence: content }];
+
+  const chainId = (await ethers.provider.getNetwork()).chainId.toString();
+  const resolveAction = await getResolver();
+  let errors = 0;
+  for (const { chainId: sequenceChainId, sequence } of sequences) {
+    if (sequenceChainId && sequenceChainId !== chainId) {
+      console.log(`Skipping sequence ${sequence.name} for chain ${sequenceChainId}`);
+      continue;
+    }
+    const decoded = await decodeSequence(sequence, resolveAction);
+    console.log(formatDecodedSequence(decoded));
+    errors += decoded.actions.filter((action) => action.error).length;
+  }
+  if (errors > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
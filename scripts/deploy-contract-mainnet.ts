@@ -1,6 +1,8 @@
 import { ethers, tenderly, run } from 'hardhat';
 import { Signer } from 'ethers';
 import 'dotenv/config';
+import { deployWithLedger, loadLedger } from './deployments/ledger';
+import { getScriptSigner, getSendingSigner } from './deployments/signers';
 
 // ===== EDIT THESE VALUES BEFORE RUNNING =====
 // Set the contract name to deploy
@@ -19,17 +21,23 @@ const CONSTRUCTOR_ARGS = [
 // Usage: 
 // Set environment variables:
 // CONTRACT_NAME=BuyCover CONTRACT_ARGS="0x123,0x456" npx hardhat run scripts/deploy-contract-mainnet.ts --network mainnet
+// SIGNER_TYPE=ledger (or local, keystore) selects the deployer, see scripts/deployments/signers.ts
 
 async function deployContract(
   deployer: Signer,
   contractName: string,
   constructorArgs: any[] = []
 ) {
-  console.log(`Deploying ${contractName}...`);
-  const factory = await ethers.getContractFactory(contractName, deployer);
-  const contract = await factory.deploy(...constructorArgs);
-  await contract.waitForDeployment();
-  
+  // Reuses a matching deployment from the ledger, so a failed run can simply be re-run
+  const ledger = await loadLedger();
+  const { contract } = await deployWithLedger(
+    ledger,
+    contractName,
+    contractName,
+    deployer,
+    constructorArgs
+  );
+
   const contractAddress = await contract.getAddress();
   console.log(`${contractName} deployed to: ${contractAddress}`);
   
@@ -74,46 +82,6 @@ async function verifyContractOnTenderly(
   }
 }
 
-async function checkLedgerStatus() {
-  // Check if Ledger is configured in the network settings
-  const networkConfig = (await ethers.provider.getNetwork()).name;
-  console.log(`Using network: ${networkConfig}`);
-  
-  // Check for Ledger config in .env
-  if (process.env.LEDGER_ENABLED === 'true') {
-    if (!process.env.LEDGER_ACCOUNT) {
-      throw new Error("LEDGER_ACCOUNT is not set in .env file but LEDGER_ENABLED is true");
-    }
-    console.log(`Ledger configured with account: ${process.env.LEDGER_ACCOUNT}`);
-    console.log("Please make sure your Ledger is connected, unlocked, and the Ethereum app is open");
-    console.log("Also ensure 'Contract Data' (or 'Blind Signing') is enabled in the Ethereum app settings");
-  } else {
-    console.log("Not using Ledger. Will use private key if configured in the environment.");
-  }
-}
-
-async function getSigners() {
-  try {
-    const signers = await ethers.getSigners();
-    if (!signers || signers.length === 0) {
-      throw new Error("No signers available. Check your network configuration and Ledger/private key setup.");
-    }
-    return signers;
-  } catch (error: any) {
-    console.error("Error getting signers:", error.message);
-    if (error.message.includes("ledger")) {
-      console.error("\nLEDGER ISSUE DETECTED!");
-      console.error("Please check:");
-      console.error("1. Your Ledger device is connected and unlocked");
-      console.error("2. The Ethereum app is open on your Ledger");
-      console.error("3. 'Contract Data' or 'Blind Signing' is enabled in the Ethereum app settings");
-      console.error("4. No other application (like MetaMask) is connected to your Ledger");
-      console.error("5. Your .env file contains LEDGER_ENABLED=true and LEDGER_ACCOUNT=0xYourAddress");
-    }
-    throw error;
-  }
-}
-
 async function main() {
   try {
     // Validate input parameters
@@ -127,19 +95,15 @@ async function main() {
     
     console.log("Starting contract deployment to mainnet...");
     
-    // Check Ledger configuration
-    await checkLedgerStatus();
-    
-    // Get deployer account (Ledger if configured, private key otherwise)
-    const signers = await getSigners();
-    const deployer = signers[0];
-    
-    if (!deployer) {
-      throw new Error("No deployer account available. Check your Ledger or private key configuration.");
-    }
+    // Get deployer account (SIGNER_TYPE selects a local key, Ledger or keystore)
+    const scriptSigner = await getScriptSigner({
+      provider: ethers.provider,
+      getAccounts: () => ethers.getSigners(),
+    });
+    const deployer = getSendingSigner(scriptSigner, "Contract deployments");
     
-    const deployerAddress = await deployer.getAddress();
-    console.log(`Deploying with account: ${deployerAddress}`);
+    const deployerAddress = await scriptSigner.getAddress();
+    console.log(`Deploying with ${scriptSigner.kind} account: ${deployerAddress}`);
     
     // Get network information
     const network = await ethers.provider.getNetwork();
@@ -0,0 +1,179 @@
+import 'dotenv/config';
+import { ethers, config, network } from 'hardhat';
+import { HttpNetworkConfig } from 'hardhat/types';
+import { CREATE_X_ADDRESS } from '../../test/constants';
+import { ProxyAdmin__factory, TransparentUpgradeableProxy__factory } from '../../typechain-types';
+import {
+  deployDeterministicProxy,
+  predictProxyAddress,
+  predictProxyAdminAddress,
+  readProxySlots,
+} from './deterministic-proxy';
+import { deployWithLedger, loadLedger, saveLedger } from './ledger';
+import { ScriptSigner, getScriptSigner, getSendingSigner } from './signers';
+
+// Deploys a contract behind a TransparentUpgradeableProxy at the same address on every chain
+// (see contracts/docs/DETERMINISTIC_PROXY_DEPLOYMENT.md)
+// Usage:
+// PROXY_LABEL=brava.SafeDeployment.v1 IMPLEMENTATION_CONTRACT=SafeDeployment \
+//   INIT_FUNCTION=initialize INIT_ARGS="0x123,0x456" npx hardhat run scripts/deployments/deploy-proxy.ts --network mainnet
+//
+// IMPLEMENTATION_CONTRACT is deployed with CONTRACT_ARGS (comma separated), or set
+// IMPLEMENTATION_ADDRESS to use an existing implementation. INIT_FUNCTION/INIT_ARGS are only
+// called on the first upgrade, leave them unset to upgrade an initialized proxy. The proxy is recorded in the ledger as PROXY_NAME (defaults to the
+// contract name) and the implementation as <PROXY_NAME>Implementation.
+// PROXY_ADMIN_OWNER transfers the ProxyAdmin ownership (e.g. to a Safe) once the proxy is upgraded.
+// DRY_RUN=true prints the predicted proxy and ProxyAdmin addresses, and their state on every
+// network in hardhat.config.ts, without sending anything. The prediction depends on the deployer,
+// set DEPLOYER_ADDRESS when the network has no signer.
+// SIGNER_TYPE selects the deployer (local, ledger or keystore, see ./signers.ts).
+
+const NETWORK_TIMEOUT_MS = 10_000;
+
+function splitArgs(value: string | undefined): string[] {
+  return value ? value.split(',').map((arg) => arg.trim()) : [];
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms)
+    ),
+  ]);
+}
+
+async function describeNetwork(url: string, proxy: string, proxyAdmin: string): Promise<string> {
+  const provider = new ethers.JsonRpcProvider(url, undefined, { staticNetwork: true });
+  try {
+    const state = async () => {
+      const { chainId } = await provider.getNetwork();
+      if ((await provider.getCode(CREATE_X_ADDRESS)) === '0x') {
+        return `chain ${chainId}, CreateX not deployed`;
+      }
+      if ((await provider.getCode(proxy)) === '0x') {
+        return `chain ${chainId}, not deployed`;
+      }
+      const slots = await readProxySlots(proxy, provider);
+      if (slots.admin !== proxyAdmin) {
+        return `chain ${chainId}, address taken by another contract`;
+      }
+      const owner = await ProxyAdmin__factory.connect(proxyAdmin, provider).owner();
+      return `chain ${chainId}, deployed, implementation ${slots.implementation}, admin owner ${owner}`;
+    };
+    return await withTimeout(state(), NETWORK_TIMEOUT_MS);
+  } catch (error) {
+    return `unreachable (${error instanceof Error ? error.message : String(error)})`;
+  } finally {
+    provider.destroy();
+  }
+}
+
+async function getDeployerAddress(scriptSigner: ScriptSigner): Promise<string> {
+  if (process.env.DEPLOYER_ADDRESS) {
+    return ethers.getAddress(process.env.DEPLOYER_ADDRESS);
+  }
+  return scriptSigner.getAddress();
+}
+
+async function dryRun(label: string, scriptSigner: ScriptSigner) {
+  const deployer = await getDeployerAddress(scriptSigner);
+  const proxy = predictProxyAddress(label, deployer);
+  const proxyAdmin = predictProxyAdminAddress(proxy);
+  console.log(`Label:      ${label}`);
+  console.log(`Deployer:   ${deployer}`);
+  console.log(`Proxy:      ${proxy}`);
+  console.log(`ProxyAdmin: ${proxyAdmin}`);
+
+  for (const [name, networkConfig] of Object.entries(config.networks)) {
+    const url = (networkConfig as HttpNetworkConfig).url;
+    if (!url) {
+      continue;
+    }
+    console.log(`  ${name}: ${await describeNetwork(url, proxy, proxyAdmin)}`);
+  }
+}
+
+async function main() {
+  const label = process.env.PROXY_LABEL;
+  if (!label) {
+    throw new Error('PROXY_LABEL is not set, e.g. PROXY_LABEL=brava.SafeDeployment.v1');
+  }
+  const scriptSigner = await getScriptSigner({
+    provider: ethers.provider,
+    getAccounts: () => ethers.getSigners(),
+  });
+  if (process.env.DRY_RUN === 'true') {
+    await dryRun(label, scriptSigner);
+    return;
+  }
+
+  const contractName = process.env.IMPLEMENTATION_CONTRACT;
+  const name = process.env.PROXY_NAME ?? contractName;
+  if (!contractName || !name) {
+    throw new Error('IMPLEMENTATION_CONTRACT is not set');
+  }
+  const signer = getSendingSigner(scriptSigner, 'Proxy deployments');
+  const deployer = await scriptSigner.getAddress();
+  const ledger = await loadLedger();
+  ledger.deployer ??= deployer;
+
+  const implementation =
+    process.env.IMPLEMENTATION_ADDRESS ??
+    (await (
+      await deployWithLedger(
+        ledger,
+        `${name}Implementation`,
+        contractName,
+        signer,
+        splitArgs(process.env.CONTRACT_ARGS)
+      )
+    ).contract.getAddress());
+
+  const initFunction = process.env.INIT_FUNCTION;
+  const initData = initFunction
+    ? (await ethers.getContractFactory(contractName)).interface.encodeFunctionData(
+        initFunction,
+        splitArgs(process.env.INIT_ARGS)
+      )
+    : undefined;
+
+  console.log(`Deploying ${name} proxy (${label}) on ${network.name}...`);
+  const deployment = await deployDeterministicProxy({ label, implementation, initData, signer });
+  console.log(`${name} proxy at: ${deployment.proxy}`);
+  console.log(`  implementation: ${deployment.implementation}`);
+  console.log(`  ProxyAdmin:     ${deployment.admin}`);
+  if (!deployment.deployTxHash && !deployment.upgradeTxHash) {
+    console.log('  already deployed and upgraded, nothing sent');
+  }
+
+  const code = await ethers.provider.getCode(deployment.proxy);
+  ledger.contracts[name] = {
+    contract: 'TransparentUpgradeableProxy',
+    address: deployment.proxy,
+    args: [CREATE_X_ADDRESS, deployer, '0x'],
+    bytecodeHash: ethers.keccak256(TransparentUpgradeableProxy__factory.bytecode),
+    codeHash: ethers.keccak256(code),
+    txHash: deployment.deployTxHash ?? ledger.contracts[name]?.txHash ?? '',
+    timestamp: Date.now(),
+  };
+  console.log(`Ledger written to ${saveLedger(ledger)}`);
+
+  const newOwner = process.env.PROXY_ADMIN_OWNER;
+  if (newOwner) {
+    const proxyAdmin = ProxyAdmin__factory.connect(deployment.admin, signer);
+    if ((await proxyAdmin.owner()) === ethers.getAddress(newOwner)) {
+      console.log(`ProxyAdmin already owned by ${newOwner}`);
+    } else {
+      await (await proxyAdmin.transferOwnership(newOwner)).wait();
+      console.log(`ProxyAdmin ownership transferred to ${newOwner}`);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,192 @@
+import { AbiCoder, Provider, Signer, ethers } from 'ethers';
+import { CREATE_X_ADDRESS } from '../../test/constants';
+import {
+  ICreateX__factory,
+  ProxyAdmin__factory,
+  TransparentUpgradeableProxy__factory,
+} from '../../typechain-types';
+
+/**
+ * Deterministic proxies
+ *
+ * Deploys TransparentUpgradeableProxies through CreateX so a contract gets the same address on
+ * every chain (contracts/docs/DETERMINISTIC_PROXY_DEPLOYMENT.md). The address only depends on:
+ * - the label, hashed into the CreateX salt. The salt carries no sender guard and no cross-chain
+ *   flag, so CreateX guards it as keccak256(abi.encode(salt)) on every chain
+ * - the proxy init code, whose constructor args are fixed: CreateX as the initial implementation
+ *   (it has code wherever CreateX is deployed), the deployer as the ProxyAdmin owner, no init call
+ * The real implementation is set afterwards with ProxyAdmin.upgradeAndCall, and the ERC1967
+ * implementation and admin slots are checked once it is.
+ */
+
+// ERC1967 storage slots
+export const IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+export const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
+export interface ProxySlots {
+  implementation: string;
+  admin: string; // the ProxyAdmin created by the proxy constructor
+}
+
+export interface DeterministicProxyOptions {
+  label: string; // descriptive and versioned, e.g. brava.SafeDeployment.v1
+  implementation: string;
+  // Called on the implementation by the first upgrade only, later upgrades keep the storage and
+  // throw if it is set
+  initData?: string;
+  signer: Signer; // deploys the proxy and owns its ProxyAdmin
+}
+
+export interface DeterministicProxyDeployment extends ProxySlots {
+  proxy: string;
+  deployTxHash?: string; // unset when the proxy was already deployed
+  upgradeTxHash?: string; // unset when it already pointed at the implementation
+}
+
+/**
+ * Hashes a label into the salt passed to CreateX
+ * @param label The proxy label, must end with a version (e.g. .v1) so a redeploy gets a new one
+ * @returns keccak256(abi.encodePacked(label))
+ */
+export function getProxySalt(label: string): string {
+  if (!/v\d+$/.test(label)) {
+    throw new Error(`Proxy label ${label} must end with a version, e.g. ${label}.v1`);
+  }
+  return ethers.keccak256(ethers.toUtf8Bytes(label));
+}
+
+/**
+ * Guards a salt the way CreateX does for a salt without sender guard or cross-chain flag
+ * @param salt The salt passed to CreateX
+ * @returns The salt CreateX uses in CREATE2
+ */
+export function getGuardedSalt(salt: string): string {
+  return ethers.keccak256(AbiCoder.defaultAbiCoder().encode(['bytes32'], [salt]));
+}
+
+/**
+ * Builds the proxy creation code, identical on every chain for a given owner
+ * @param initialOwner The ProxyAdmin owner, the deployer
+ * @returns The TransparentUpgradeableProxy init code
+ */
+export function getProxyInitCode(initialOwner: string): string {
+  const args = AbiCoder.defaultAbiCoder().encode(
+    ['address', 'address', 'bytes'],
+    [CREATE_X_ADDRESS, initialOwner, '0x']
+  );
+  return ethers.concat([TransparentUpgradeableProxy__factory.bytecode, args]);
+}
+
+/**
+ * Predicts the address of a proxy
+ * @param label The proxy label
+ * @param initialOwner The ProxyAdmin owner, the deployer
+ * @returns The proxy address, the same on every chain CreateX is deployed on
+ */
+export function predictProxyAddress(label: string, initialOwner: string): string {
+  return ethers.getCreate2Address(
+    CREATE_X_ADDRESS,
+    getGuardedSalt(getProxySalt(label)),
+    ethers.keccak256(getProxyInitCode(initialOwner))
+  );
+}
+
+/**
+ * Predicts the address of the ProxyAdmin, the first contract the proxy creates
+ * @param proxy The proxy address
+ */
+export function predictProxyAdminAddress(proxy: string): string {
+  return ethers.getCreateAddress({ from: proxy, nonce: 1 });
+}
+
+/**
+ * Reads the ERC1967 implementation and admin slots of a proxy
+ * @param proxy The proxy address
+ * @param provider The provider of the chain the proxy is on
+ */
+export async function readProxySlots(proxy: string, provider: Provider): Promise<ProxySlots> {
+  const read = async (slot: string) =>
+    ethers.getAddress(ethers.dataSlice(await provider.getStorage(proxy, slot), 12));
+  return { implementation: await read(IMPLEMENTATION_SLOT), admin: await read(ADMIN_SLOT) };
+}
+
+/**
+ * Checks the ERC1967 slots of a proxy, throws on a mismatch
+ * @param proxy The proxy address
+ * @param expected The expected implementation and ProxyAdmin
+ * @param provider The provider of the chain the proxy is on
+ */
+export async function verifyProxySlots(proxy: string, expected: ProxySlots, provider: Provider) {
+  const slots = await readProxySlots(proxy, provider);
+  for (const key of ['implementation', 'admin'] as const) {
+    if (slots[key] !== ethers.getAddress(expected[key])) {
+      throw new Error(`Proxy ${proxy} ${key} slot is ${slots[key]}, expected ${expected[key]}`);
+    }
+  }
+}
+
+/**
+ * Deploys a proxy at its predicted address and upgrades it to an implementation
+ * Re-running is safe: an existing proxy is not redeployed, and is only upgraded when it
+ * points at another implementation. initData is refused once the proxy is initialized rather
+ * than dropped, so the storage can't silently keep the values of an earlier deployment
+ * @param options The label, implementation, init call and deployer
+ * @returns The proxy, its slots and the transactions sent
+ */
+export async function deployDeterministicProxy(
+  options: DeterministicProxyOptions
+): Promise<DeterministicProxyDeployment> {
+  const { label, signer } = options;
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error('The deployer must be connected to a provider');
+  }
+  const owner = await signer.getAddress();
+  const implementation = ethers.getAddress(options.implementation);
+  const proxy = predictProxyAddress(label, owner);
+  const expected = { implementation, admin: predictProxyAdminAddress(proxy) };
+  const result: DeterministicProxyDeployment = { proxy, ...expected };
+
+  if ((await provider.getCode(proxy)) === '0x') {
+    if ((await provider.getCode(CREATE_X_ADDRESS)) === '0x') {
+      const { chainId } = await provider.getNetwork();
+      throw new Error(`CreateX is not deployed at ${CREATE_X_ADDRESS} on chain ${chainId}`);
+    }
+    const createX = ICreateX__factory.connect(CREATE_X_ADDRESS, signer);
+    const tx = await createX['deployCreate2(bytes32,bytes)'](
+      getProxySalt(label),
+      getProxyInitCode(owner)
+    );
+    await tx.wait();
+    result.deployTxHash = tx.hash;
+  }
+
+  const slots = await readProxySlots(proxy, provider);
+  if (slots.admin !== expected.admin) {
+    throw new Error(`${proxy} is not the ${label} proxy, its admin slot is ${slots.admin}`);
+  }
+
+  if (slots.implementation !== implementation) {
+    const proxyAdmin = ProxyAdmin__factory.connect(expected.admin, signer);
+    const adminOwner = await proxyAdmin.owner();
+    if (adminOwner !== owner) {
+      throw new Error(`ProxyAdmin ${expected.admin} of ${label} is owned by ${adminOwner}`);
+    }
+    // The proxy is created without an init call, the first upgrade initializes the storage
+    const isFirstUpgrade = slots.implementation === ethers.getAddress(CREATE_X_ADDRESS);
+    const initData = options.initData ?? '0x';
+    if (!isFirstUpgrade && initData !== '0x') {
+      throw new Error(
+        `${label} proxy ${proxy} is already initialized (implementation ${slots.implementation}), ` +
+          'upgrade it without initData or use a new label'
+      );
+    }
+    const tx = await proxyAdmin.upgradeAndCall(proxy, implementation, initData);
+    await tx.wait();
+    result.upgradeTxHash = tx.hash;
+  }
+
+  await verifyProxySlots(proxy, expected, provider);
+  return result;
+}
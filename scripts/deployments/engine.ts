@@ -0,0 +1,272 @@
+import { BaseContract, Signer } from 'ethers';
+import { ethers } from 'hardhat';
+import { CHAINLINK_ETH_USD_ORACLE, tokenConfig } from '../../test/constants';
+import { deployBravaSafe, getBaseSetup, getTypedContract } from '../../test/utils';
+import {
+  AdminVault,
+  EIP712TypedDataSafeModule,
+  IAggregatorV3,
+  ISafe,
+  Logger,
+  SafeDeployment,
+  SafeSetupRegistry,
+  SequenceExecutor,
+  TokenRegistry,
+} from '../../typechain-types';
+import {
+  DeploymentLedger,
+  deployWithLedger,
+  loadLedger,
+  registerActionWithLedger,
+  registerPoolWithLedger,
+  saveLedger,
+} from './ledger';
+import { DeploymentManifest, ManifestArg, ManifestContract, isManifestRef } from './manifest';
+import { SafeBatch } from './safe-batch';
+
+type BaseSetup = Awaited<ReturnType<typeof getBaseSetup>>;
+
+export interface DeploymentResult {
+  ledger: DeploymentLedger;
+  contracts: Record<string, BaseContract>;
+  // Actions and pools proposed but still waiting for the AdminVault delay
+  pending: string[];
+}
+
+/**
+ * Collects the base setup addresses the manifest can reference
+ * @param baseSetup The deployed base setup
+ * @param feeRecipient The recipient of gas refund fees
+ * @returns Addresses keyed by contract name
+ */
+export async function getBaseSetupAddresses(
+  baseSetup: BaseSetup,
+  feeRecipient: string
+): Promise<Record<string, string>> {
+  return {
+    AdminVault: await baseSetup.adminVault.getAddress(),
+    Logger: await baseSetup.logger.getAddress(),
+    SequenceExecutor: await baseSetup.sequenceExecutor.getAddress(),
+    SafeDeployment: await baseSetup.safeDeployment.getAddress(),
+    SafeSetupRegistry: await baseSetup.safeSetupRegistry.getAddress(),
+    TokenRegistry: await baseSetup.tokenRegistry.getAddress(),
+    EIP712TypedDataSafeModule: await baseSetup.eip712Module.getAddress(),
+    FeeRecipient: feeRecipient,
+  };
+}
+
+/**
+ * Reuses the base setup recorded in the ledger, or deploys a new one
+ * Every action takes the AdminVault as a constructor argument, so a run that deployed a new
+ * AdminVault would redeploy the whole manifest instead of resuming it. The recorded contracts
+ * are reused when they were deployed by the same account and all still have code.
+ * @param deployer The deployer, owns the AdminVault
+ * @returns The base setup, connected to the deployer
+ */
+export async function getBaseSetupWithLedger(deployer: Signer): Promise<BaseSetup> {
+  const ledger = await loadLedger();
+  const { external } = ledger;
+  const names = [
+    'AdminVault',
+    'Logger',
+    'SequenceExecutor',
+    'SafeDeployment',
+    'SafeSetupRegistry',
+    'TokenRegistry',
+    'EIP712TypedDataSafeModule',
+  ];
+  const recorded =
+    ledger.deployer === (await deployer.getAddress()) &&
+    (
+      await Promise.all(
+        names.map(async (name) =>
+          external[name] ? (await ethers.provider.getCode(external[name])) !== '0x' : false
+        )
+      )
+    ).every(Boolean);
+  if (!recorded) {
+    console.log('Deploying base setup');
+    return getBaseSetup(deployer);
+  }
+
+  console.log(
+    `Reusing the base setup recorded in the ledger, AdminVault at ${external.AdminVault}`
+  );
+  const safeDeployment = await getTypedContract<SafeDeployment>(
+    'SafeDeployment',
+    external.SafeDeployment,
+    deployer
+  );
+  const eip712Module = await getTypedContract<EIP712TypedDataSafeModule>(
+    'EIP712TypedDataSafeModule',
+    external.EIP712TypedDataSafeModule,
+    deployer
+  );
+  const safeAddress = await deployBravaSafe(deployer, safeDeployment, eip712Module);
+  return {
+    logger: await getTypedContract<Logger>('Logger', external.Logger, deployer),
+    adminVault: await getTypedContract<AdminVault>('AdminVault', external.AdminVault, deployer),
+    safe: await getTypedContract<ISafe>('ISafe', safeAddress, deployer),
+    signer: deployer,
+    sequenceExecutor: await getTypedContract<SequenceExecutor>(
+      'SequenceExecutor',
+      external.SequenceExecutor,
+      deployer
+    ),
+    safeDeployment,
+    eip712Module,
+    safeSetupRegistry: await getTypedContract<SafeSetupRegistry>(
+      'SafeSetupRegistry',
+      external.SafeSetupRegistry,
+      deployer
+    ),
+    tokenRegistry: await getTypedContract<TokenRegistry>(
+      'TokenRegistry',
+      external.TokenRegistry,
+      deployer
+    ),
+    mockChainlinkOracle: await getTypedContract<IAggregatorV3>(
+      'IAggregatorV3',
+      CHAINLINK_ETH_USD_ORACLE
+    ),
+  };
+}
+
+/**
+ * Orders the manifest contracts so every contract is deployed after the contracts it references
+ * @param manifest The deployment manifest
+ * @param known Names that are already available (external addresses)
+ * @returns The contracts in deployment order
+ */
+export function resolveDeploymentOrder(
+  manifest: DeploymentManifest,
+  known: string[]
+): ManifestContract[] {
+  const byName = new Map<string, ManifestContract>();
+  for (const entry of manifest.contracts) {
+    if (byName.has(entry.name) || known.includes(entry.name)) {
+      throw new Error(`Duplicate manifest entry: ${entry.name}`);
+    }
+    byName.set(entry.name, entry);
+  }
+
+  const ordered: ManifestContract[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (entry: ManifestContract, trail: string[]) => {
+    const current = state.get(entry.name);
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      throw new Error(`Circular dependency: ${[...trail, entry.name].join(' -> ')}`);
+    }
+    state.set(entry.name, 'visiting');
+    for (const arg of entry.args) {
+      if (!isManifestRef(arg) || known.includes(arg.ref)) {
+        continue;
+      }
+      const dependency = byName.get(arg.ref);
+      if (!dependency) {
+        throw new Error(`${entry.name} references unknown contract ${arg.ref}`);
+      }
+      visit(dependency, [...trail, entry.name]);
+    }
+    state.set(entry.name, 'done');
+    ordered.push(entry);
+  };
+
+  for (const entry of manifest.contracts) {
+    visit(entry, []);
+  }
+  return ordered;
+}
+
+function resolveArg(arg: ManifestArg, addresses: Record<string, string>): unknown {
+  if (!isManifestRef(arg)) {
+    return arg;
+  }
+  const address = addresses[arg.ref];
+  if (!address) {
+    throw new Error(`Unresolved reference: ${arg.ref}`);
+  }
+  return address;
+}
+
+/**
+ * Deploys every contract in the manifest and registers its actions and pools in the AdminVault
+ * Progress is persisted in the network's deployment ledger, re-running resumes at the first
+ * missing step: matching deployments are reused and pending proposals are added once ready
+ * @param deployer The signer deploying the contracts, must be able to propose and add actions/pools
+ * @param adminVault The AdminVault to register actions and pools in
+ * @param manifest The deployment manifest
+ * @param external Addresses the manifest may reference (AdminVault, Logger, TokenRegistry, ...)
+ * @param batch Optional Safe batch, when set the registrations are added to it instead of being
+ * sent by the deployer (for AdminVaults whose roles are held by a Safe)
+ * @returns The ledger, the deployed contract instances and the registrations still pending
+ */
+export async function deployManifest(
+  deployer: Signer,
+  adminVault: AdminVault,
+  manifest: DeploymentManifest,
+  external: Record<string, string>,
+  batch?: SafeBatch
+): Promise<DeploymentResult> {
+  const ledger = await loadLedger();
+  ledger.deployer = await deployer.getAddress();
+  ledger.external = external;
+  saveLedger(ledger);
+
+  const addresses: Record<string, string> = { ...external };
+  const contracts: Record<string, BaseContract> = {};
+  for (const entry of resolveDeploymentOrder(manifest, Object.keys(external))) {
+    const args = entry.args.map((arg) => resolveArg(arg, addresses));
+    const { contract } = await deployWithLedger(
+      ledger,
+      entry.name,
+      entry.contract ?? entry.name,
+      deployer,
+      args
+    );
+    addresses[entry.name] = await contract.getAddress();
+    contracts[entry.name] = contract;
+  }
+
+  const pending: string[] = [];
+  const vault = adminVault.connect(deployer);
+
+  console.log('Adding actions to admin vault');
+  for (const entry of manifest.contracts.filter((c) => c.action)) {
+    const status = await registerActionWithLedger(
+      ledger,
+      vault,
+      entry.name,
+      addresses[entry.name],
+      batch
+    );
+    if (status !== 'added') {
+      pending.push(entry.name);
+    }
+  }
+
+  console.log('Adding pools to admin vault');
+  for (const pool of manifest.pools) {
+    const address = tokenConfig[pool.token].address;
+    const status = await registerPoolWithLedger(
+      ledger,
+      vault,
+      pool.protocol,
+      address,
+      pool.token,
+      batch
+    );
+    if (status !== 'added') {
+      pending.push(`${pool.protocol} ${pool.token}`);
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`${pending.length} registrations pending, re-run once the delay has passed`);
+  }
+  return { ledger, contracts, pending };
+}
@@ -0,0 +1,560 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseContract, ContractTransactionResponse } from 'ethers';
+import { ethers, network } from 'hardhat';
+import { getBytes4 } from '../../test/shared-utils';
+import { AdminVault, TokenRegistry } from '../../typechain-types';
+import { DEPLOYMENTS_DIR, DeploymentLedger } from './ledger';
+import { SafeBatch, addToBatch } from './safe-batch';
+
+/**
+ * Governance queue
+ *
+ * Every action, pool, fee config, role and token change goes through propose -> wait delay -> execute.
+ * This module records proposals as they are made (or picks up the action and pool proposals the
+ * deploy scripts left in the ledger), reports which ones have passed their delay and executes them
+ * in a later run, so the same flow works on mainnet where the delay is not 0.
+ * The queue is persisted per network in deployments/<network>.governance.json.
+ * When the roles are held by a Safe, set a batch on the contracts and every transaction is
+ * appended to a Safe Transaction Builder batch instead of being sent.
+ */
+
+export type ProposalKind = 'action' | 'pool' | 'feeConfig' | 'role' | 'token';
+export type ProposalStatus = 'pending' | 'executed' | 'cancelled';
+
+export interface QueuedProposal {
+  kind: ProposalKind;
+  // action
+  actionId?: string;
+  // action, pool and token
+  address?: string;
+  // pool
+  protocol?: string;
+  // role (the role name, e.g. POOL_PROPOSER_ROLE)
+  role?: string;
+  account?: string;
+  // fee config
+  recipient?: string;
+  minBasis?: string;
+  maxBasis?: string;
+  // Timestamp (seconds) from which the proposal can be executed, 0 while the proposal is
+  // waiting in a Safe batch
+  executableAt: number;
+  status: ProposalStatus;
+  proposeTxHash?: string;
+  executeTxHash?: string;
+  cancelTxHash?: string;
+}
+
+export interface GovernanceQueue {
+  network: string;
+  chainId: number;
+  proposals: Record<string, QueuedProposal>;
+}
+
+export interface GovernanceContracts {
+  adminVault: AdminVault;
+  tokenRegistry?: TokenRegistry;
+  // When set, transactions are added to this Safe batch instead of being sent
+  batch?: SafeBatch;
+}
+
+export interface ProposalState {
+  key: string;
+  proposal: QueuedProposal;
+  // Proposal time currently stored on chain, 0 when the proposal does not exist (yet)
+  onChainTime: number;
+  ready: boolean;
+  secondsRemaining: number;
+}
+
+export interface QueueReport {
+  timestamp: number;
+  // Timestamp a proposal made now would unlock at, from getDelayTimestamp
+  nextDelayTimestamp: number;
+  ready: ProposalState[];
+  // Includes proposals exported to a Safe batch that has not been executed yet
+  waiting: ProposalState[];
+  // Pending in the queue but no longer proposed on chain (executed or cancelled elsewhere)
+  missing: ProposalState[];
+}
+
+/**
+ * Returns the path of the governance queue file for a network
+ * @param networkName The hardhat network name
+ * @returns The queue file path
+ */
+export function getQueuePath(networkName: string = network.name): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.governance.json`);
+}
+
+/**
+ * Loads the governance queue for the current network, or starts an empty one
+ * @returns The governance queue
+ */
+export async function loadQueue(): Promise<GovernanceQueue> {
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const file = getQueuePath();
+  if (!fs.existsSync(file)) {
+    return { network: network.name, chainId, proposals: {} };
+  }
+
+  const queue = JSON.parse(fs.readFileSync(file, 'utf8')) as GovernanceQueue;
+  if (queue.chainId !== chainId) {
+    throw new Error(
+      `Governance queue ${file} was written for chain ${queue.chainId}, connected to chain ${chainId}`
+    );
+  }
+  return queue;
+}
+
+/**
+ * Writes the governance queue to disk
+ * @param queue The governance queue
+ * @returns The path of the written file
+ */
+export function saveQueue(queue: GovernanceQueue): string {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const file = getQueuePath(queue.network);
+  fs.writeFileSync(file, JSON.stringify(queue, null, 2));
+  return file;
+}
+
+/**
+ * Returns the key a proposal is stored under in the queue
+ * Only one fee config can be pending at a time, so it always uses the same key
+ * @param proposal The proposal
+ * @returns The proposal key
+ */
+export function getProposalKey(proposal: QueuedProposal): string {
+  switch (proposal.kind) {
+    case 'action':
+      return `action:${proposal.actionId}:${proposal.address!.toLowerCase()}`;
+    case 'pool':
+      return `pool:${proposal.protocol}:${proposal.address!.toLowerCase()}`;
+    case 'feeConfig':
+      return 'feeConfig';
+    case 'role':
+      return `role:${proposal.role}:${proposal.account!.toLowerCase()}`;
+    case 'token':
+      return `token:${proposal.address!.toLowerCase()}`;
+  }
+}
+
+function requireTokenRegistry(contracts: GovernanceContracts): TokenRegistry {
+  if (!contracts.tokenRegistry) {
+    throw new Error('A TokenRegistry is required for token proposals');
+  }
+  return contracts.tokenRegistry;
+}
+
+/**
+ * Reads the proposal time currently stored on chain for a proposal
+ * @param proposal The proposal
+ * @param contracts The governance contracts
+ * @returns The proposal time, 0 when the proposal no longer exists
+ */
+export async function getOnChainProposalTime(
+  proposal: QueuedProposal,
+  contracts: GovernanceContracts
+): Promise<number> {
+  const { adminVault } = contracts;
+  switch (proposal.kind) {
+    case 'action':
+      return Number(await adminVault.getActionProposalTime(proposal.actionId!, proposal.address!));
+    case 'pool':
+      return Number(await adminVault.getPoolProposalTime(proposal.protocol!, proposal.address!));
+    case 'feeConfig': {
+      const pending = await adminVault.pendingFeeConfig();
+      const matches =
+        pending.recipient.toLowerCase() === proposal.recipient!.toLowerCase() &&
+        pending.minBasis.toString() === proposal.minBasis &&
+        pending.maxBasis.toString() === proposal.maxBasis;
+      return matches ? Number(pending.proposalTime) : 0;
+    }
+    case 'role':
+      return Number(
+        await adminVault.getRoleProposalTime(ethers.id(proposal.role!), proposal.account!)
+      );
+    case 'token':
+      return Number(await requireTokenRegistry(contracts).tokenProposals(proposal.address!));
+  }
+}
+
+interface GovernanceCall {
+  contract: BaseContract;
+  method: string;
+  args: unknown[];
+}
+
+function getProposalCall(proposal: QueuedProposal, contracts: GovernanceContracts): GovernanceCall {
+  const { adminVault } = contracts;
+  switch (proposal.kind) {
+    case 'action':
+      return {
+        contract: adminVault,
+        method: 'proposeAction',
+        args: [proposal.actionId, proposal.address],
+      };
+    case 'pool':
+      return {
+        contract: adminVault,
+        method: 'proposePool',
+        args: [proposal.protocol, proposal.address],
+      };
+    case 'feeConfig':
+      return {
+        contract: adminVault,
+        method: 'proposeFeeConfig',
+        args: [proposal.recipient, proposal.minBasis, proposal.maxBasis],
+      };
+    case 'role':
+      return {
+        contract: adminVault,
+        method: 'proposeRole',
+        args: [ethers.id(proposal.role!), proposal.account],
+      };
+    case 'token':
+      return {
+        contract: requireTokenRegistry(contracts),
+        method: 'proposeToken',
+        args: [proposal.address],
+      };
+  }
+}
+
+function getExecutionCall(
+  proposal: QueuedProposal,
+  contracts: GovernanceContracts
+): GovernanceCall {
+  const { adminVault } = contracts;
+  switch (proposal.kind) {
+    case 'action':
+      return {
+        contract: adminVault,
+        method: 'addAction',
+        args: [proposal.actionId, proposal.address],
+      };
+    case 'pool':
+      return {
+        contract: adminVault,
+        method: 'addPool',
+        args: [proposal.protocol, proposal.address],
+      };
+    case 'feeConfig':
+      return { contract: adminVault, method: 'setFeeConfig', args: [] };
+    case 'role':
+      return {
+        contract: adminVault,
+        method: 'grantRole',
+        args: [ethers.id(proposal.role!), proposal.account],
+      };
+    case 'token':
+      return {
+        contract: requireTokenRegistry(contracts),
+        method: 'approveToken',
+        args: [proposal.address],
+      };
+  }
+}
+
+function getCancellationCall(
+  proposal: QueuedProposal,
+  contracts: GovernanceContracts
+): GovernanceCall {
+  const { adminVault } = contracts;
+  switch (proposal.kind) {
+    case 'action':
+      return {
+        contract: adminVault,
+        method: 'cancelActionProposal',
+        args: [proposal.actionId, proposal.address],
+      };
+    case 'pool':
+      return {
+        contract: adminVault,
+        method: 'cancelPoolProposal',
+        args: [proposal.protocol, proposal.address],
+      };
+    case 'feeConfig':
+      return { contract: adminVault, method: 'cancelFeeConfigProposal', args: [] };
+    case 'role':
+      return {
+        contract: adminVault,
+        method: 'cancelRoleProposal',
+        args: [ethers.id(proposal.role!), proposal.account],
+      };
+    case 'token':
+      return {
+        contract: requireTokenRegistry(contracts),
+        method: 'cancelTokenProposal',
+        args: [proposal.address],
+      };
+  }
+}
+
+// Sends the call, or appends it to the Safe batch when one is set
+// Returns the transaction hash, undefined when the call was added to the batch
+async function submit(
+  call: GovernanceCall,
+  contracts: GovernanceContracts
+): Promise<string | undefined> {
+  if (contracts.batch) {
+    await addToBatch(contracts.batch, call.contract, call.method, call.args);
+    return undefined;
+  }
+  const tx: ContractTransactionResponse = await call.contract.getFunction(call.method)(
+    ...call.args
+  );
+  await tx.wait();
+  return tx.hash;
+}
+
+/**
+ * Checks whether a proposal has been applied on chain (added, granted, approved...)
+ * Used to tell executed proposals apart from cancelled ones once they are no longer pending
+ * @param proposal The proposal
+ * @param contracts The governance contracts
+ * @returns True when the proposed change is in effect
+ */
+export async function isProposalApplied(
+  proposal: QueuedProposal,
+  contracts: GovernanceContracts
+): Promise<boolean> {
+  const { adminVault } = contracts;
+  switch (proposal.kind) {
+    case 'action':
+      return (
+        (await adminVault.actionAddresses(proposal.actionId!)).toLowerCase() ===
+        proposal.address!.toLowerCase()
+      );
+    case 'pool': {
+      const protocolId = BigInt(
+        ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['string'], [proposal.protocol]))
+      );
+      const pool = await adminVault.protocolPools(protocolId, getBytes4(proposal.address!));
+      return pool.toLowerCase() === proposal.address!.toLowerCase();
+    }
+    case 'feeConfig': {
+      const config = await adminVault.feeConfig();
+      return (
+        config.recipient.toLowerCase() === proposal.recipient!.toLowerCase() &&
+        config.minBasis.toString() === proposal.minBasis &&
+        config.maxBasis.toString() === proposal.maxBasis
+      );
+    }
+    case 'role':
+      return adminVault.hasRole(ethers.id(proposal.role!), proposal.account!);
+    case 'token':
+      return requireTokenRegistry(contracts).isApprovedToken(proposal.address!);
+  }
+}
+
+/**
+ * Sends a proposal and records it in the queue
+ * Proposals already pending on chain are recorded without sending a new transaction
+ * @param queue The governance queue, saved after the proposal is recorded
+ * @param contracts The governance contracts, connected to a signer with the proposer role or
+ * holding the Safe batch the proposal is added to
+ * @param proposal The proposal parameters
+ * @returns The queued proposal
+ */
+export async function propose(
+  queue: GovernanceQueue,
+  contracts: GovernanceContracts,
+  proposal: Omit<QueuedProposal, 'executableAt' | 'status'>
+): Promise<QueuedProposal> {
+  const entry: QueuedProposal = { ...proposal, executableAt: 0, status: 'pending' };
+  const key = getProposalKey(entry);
+
+  let proposalTime = await getOnChainProposalTime(entry, contracts);
+  if (proposalTime === 0) {
+    entry.proposeTxHash = await submit(getProposalCall(entry, contracts), contracts);
+    proposalTime = await getOnChainProposalTime(entry, contracts);
+  } else {
+    entry.proposeTxHash = queue.proposals[key]?.proposeTxHash;
+  }
+
+  entry.executableAt = proposalTime;
+  queue.proposals[key] = entry;
+  saveQueue(queue);
+  if (proposalTime === 0) {
+    console.log(`Added proposal ${key} to the Safe batch`);
+  } else {
+    console.log(`Proposed ${key}, executable after ${new Date(proposalTime * 1000).toISOString()}`);
+  }
+  return entry;
+}
+
+/**
+ * Adds the action and pool proposals the deployment ledger still has as proposed to the queue
+ * Entries already in the queue are kept, unless the ledger holds a later proposal for the same
+ * action or pool (a different propose transaction, e.g. after a cancellation)
+ * @param queue The governance queue, saved when proposals are added
+ * @param ledger The deployment ledger the deploy scripts registered actions and pools in
+ * @returns The keys of the added proposals
+ */
+export function addLedgerProposals(queue: GovernanceQueue, ledger: DeploymentLedger): string[] {
+  const proposals: QueuedProposal[] = [
+    ...Object.values(ledger.actions)
+      .filter((action) => action.status === 'proposed')
+      .map(({ actionId, address, executableAt, proposeTxHash }) => ({
+        kind: 'action' as const,
+        actionId,
+        address,
+        executableAt: executableAt ?? 0,
+        status: 'pending' as const,
+        proposeTxHash,
+      })),
+    ...Object.values(ledger.pools)
+      .filter((pool) => pool.status === 'proposed')
+      .map(({ protocol, address, executableAt, proposeTxHash }) => ({
+        kind: 'pool' as const,
+        protocol,
+        address,
+        executableAt: executableAt ?? 0,
+        status: 'pending' as const,
+        proposeTxHash,
+      })),
+  ];
+
+  const added: string[] = [];
+  for (const proposal of proposals) {
+    const key = getProposalKey(proposal);
+    const existing = queue.proposals[key];
+    if (existing && existing.proposeTxHash === proposal.proposeTxHash) {
+      continue;
+    }
+    queue.proposals[key] = proposal;
+    added.push(key);
+  }
+  if (added.length > 0) {
+    saveQueue(queue);
+  }
+  return added;
+}
+
+/**
+ * Checks every pending proposal against the chain
+ * @param queue The governance queue
+ * @param contracts The governance contracts
+ * @returns The proposals that are ready, still waiting, or missing on chain
+ */
+export async function getQueueReport(
+  queue: GovernanceQueue,
+  contracts: GovernanceContracts
+): Promise<QueueReport> {
+  const block = await ethers.provider.getBlock('latest');
+  const timestamp = block ? block.timestamp : Math.floor(Date.now() / 1000);
+  const report: QueueReport = {
+    timestamp,
+    nextDelayTimestamp: Number(await contracts.adminVault.getDelayTimestamp.staticCall()),
+    ready: [],
+    waiting: [],
+    missing: [],
+  };
+
+  for (const [key, proposal] of Object.entries(queue.proposals)) {
+    if (proposal.status !== 'pending') {
+      continue;
+    }
+    if (proposal.kind === 'token' && !contracts.tokenRegistry) {
+      continue;
+    }
+    const onChainTime = await getOnChainProposalTime(proposal, contracts);
+    if (proposal.executableAt === 0 && onChainTime !== 0) {
+      // The Safe batch holding the proposal has been executed
+      proposal.executableAt = onChainTime;
+    }
+    const state: ProposalState = {
+      key,
+      proposal,
+      onChainTime,
+      ready: onChainTime !== 0 && timestamp >= onChainTime,
+      secondsRemaining: Math.max(onChainTime - timestamp, 0),
+    };
+    if (
+      onChainTime === 0 &&
+      proposal.executableAt === 0 &&
+      !(await isProposalApplied(proposal, contracts))
+    ) {
+      report.waiting.push(state);
+    } else if (onChainTime === 0) {
+      report.missing.push(state);
+    } else if (state.ready) {
+      report.ready.push(state);
+    } else {
+      report.waiting.push(state);
+    }
+  }
+  return report;
+}
+
+/**
+ * Executes every pending proposal whose delay has passed
+ * Proposals no longer found on chain are marked executed or cancelled, depending on their on chain state
+ * With a Safe batch the executions are added to the batch and the proposals stay pending until
+ * a later run finds them applied
+ * @param queue The governance queue, saved after each execution
+ * @param contracts The governance contracts, connected to a signer with the executor roles
+ * @returns The keys of the executed (or batched) proposals
+ */
+export async function executeReady(
+  queue: GovernanceQueue,
+  contracts: GovernanceContracts
+): Promise<string[]> {
+  const report = await getQueueReport(queue, contracts);
+  for (const { key, proposal } of report.missing) {
+    proposal.status = (await isProposalApplied(proposal, contracts)) ? 'executed' : 'cancelled';
+    console.log(`${key} is no longer proposed on chain, marking as ${proposal.status}`);
+  }
+  saveQueue(queue);
+
+  const executed: string[] = [];
+  for (const { key, proposal } of report.ready) {
+    const txHash = await submit(getExecutionCall(proposal, contracts), contracts);
+    executed.push(key);
+    if (!txHash) {
+      console.log(`Added execution of ${key} to the Safe batch`);
+      continue;
+    }
+    proposal.executeTxHash = txHash;
+    proposal.status = 'executed';
+    saveQueue(queue);
+    console.log(`Executed ${key}`);
+  }
+  return executed;
+}
+
+/**
+ * Cancels pending proposals that have been executable for longer than maxAge without being executed
+ * With a Safe batch the cancellations are added to the batch instead
+ * @param queue The governance queue, saved after each cancellation
+ * @param contracts The governance contracts, connected to a signer with the canceler roles
+ * @param maxAge Seconds a proposal may stay executable before it is considered stale
+ * @returns The keys of the cancelled proposals
+ */
+export async function cancelStale(
+  queue: GovernanceQueue,
+  contracts: GovernanceContracts,
+  maxAge: number
+): Promise<string[]> {
+  const report = await getQueueReport(queue, contracts);
+  const cancelled: string[] = [];
+  for (const { key, proposal, onChainTime } of report.ready) {
+    if (report.timestamp - onChainTime <= maxAge) {
+      continue;
+    }
+    const txHash = await submit(getCancellationCall(proposal, contracts), contracts);
+    cancelled.push(key);
+    if (!txHash) {
+      console.log(`Added cancellation of stale proposal ${key} to the Safe batch`);
+      continue;
+    }
+    proposal.cancelTxHash = txHash;
+    proposal.status = 'cancelled';
+    saveQueue(queue);
+    console.log(`Cancelled stale proposal ${key}`);
+  }
+  return cancelled;
+}
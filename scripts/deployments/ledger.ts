@@ -0,0 +1,325 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseContract, Signer } from 'ethers';
+import { ethers, network } from 'hardhat';
+import { getBytes4 } from '../../test/shared-utils';
+import { AdminVault } from '../../typechain-types';
+import { SafeBatch, addToBatch } from './safe-batch';
+
+/**
+ * Deployment ledger
+ *
+ * A per-network JSON file (deployments/<network>.json) recording every contract deployed,
+ * and every action and pool registered, by the deployment scripts. Each step is written
+ * as soon as it completes, so a run that fails halfway can be re-run and will pick up at
+ * the first missing step instead of redeploying everything.
+ */
+
+// Directory (relative to the repo root) the ledgers are written to
+export const DEPLOYMENTS_DIR = path.join(__dirname, '..', '..', 'deployments');
+
+export interface LedgerContract {
+  contract: string;
+  address: string;
+  args: string[];
+  // keccak256 of the creation bytecode, changes when the contract source changes
+  bytecodeHash: string;
+  // keccak256 of the runtime code found on chain after deployment
+  codeHash: string;
+  txHash: string;
+  timestamp: number;
+}
+
+export type RegistrationStatus = 'proposed' | 'added';
+
+export interface LedgerAction {
+  actionId: string;
+  address: string;
+  status: RegistrationStatus;
+  // Timestamp from which the proposal can be executed
+  executableAt?: number;
+  proposeTxHash?: string;
+  addTxHash?: string;
+}
+
+export interface LedgerPool {
+  protocol: string;
+  token?: string;
+  address: string;
+  poolId: string;
+  status: RegistrationStatus;
+  executableAt?: number;
+  proposeTxHash?: string;
+  addTxHash?: string;
+}
+
+export interface DeploymentLedger {
+  network: string;
+  chainId: number;
+  deployer?: string;
+  // Addresses supplied by the caller (AdminVault, Logger, ...)
+  external: Record<string, string>;
+  contracts: Record<string, LedgerContract>;
+  actions: Record<string, LedgerAction>;
+  pools: Record<string, LedgerPool>;
+}
+
+/**
+ * Returns the path of the ledger file for a network
+ * @param networkName The hardhat network name
+ * @returns The ledger file path
+ */
+export function getLedgerPath(networkName: string = network.name): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+}
+
+/**
+ * Loads the ledger for the current network, or starts an empty one
+ * @returns The deployment ledger
+ */
+export async function loadLedger(): Promise<DeploymentLedger> {
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const file = getLedgerPath();
+  if (!fs.existsSync(file)) {
+    return { network: network.name, chainId, external: {}, contracts: {}, actions: {}, pools: {} };
+  }
+
+  const ledger = JSON.parse(fs.readFileSync(file, 'utf8')) as DeploymentLedger;
+  if (ledger.chainId !== chainId) {
+    throw new Error(
+      `Ledger ${file} was written for chain ${ledger.chainId}, connected to chain ${chainId}`
+    );
+  }
+  return ledger;
+}
+
+/**
+ * Writes the ledger to disk
+ * @param ledger The deployment ledger
+ * @returns The path of the written file
+ */
+export function saveLedger(ledger: DeploymentLedger): string {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const file = getLedgerPath(ledger.network);
+  fs.writeFileSync(file, JSON.stringify(ledger, null, 2));
+  return file;
+}
+
+function poolKey(protocol: string, address: string): string {
+  return `${protocol}:${address.toLowerCase()}`;
+}
+
+async function getCodeHash(address: string): Promise<string> {
+  const code = await ethers.provider.getCode(address);
+  return code === '0x' ? '' : ethers.keccak256(code);
+}
+
+async function getExecutableAt(proposalTime: bigint): Promise<{ ready: boolean; at: number }> {
+  const block = await ethers.provider.getBlock('latest');
+  return { ready: !!block && BigInt(block.timestamp) >= proposalTime, at: Number(proposalTime) };
+}
+
+/**
+ * Deploys a contract unless the ledger already holds a matching deployment
+ * A recorded deployment is reused when the constructor args and creation bytecode are unchanged
+ * and the code on chain still matches what was deployed
+ * @param ledger The deployment ledger, updated and saved after a deployment
+ * @param name The key of the contract in the ledger
+ * @param contractName The artifact name
+ * @param signer The deployer
+ * @param args The constructor arguments
+ * @returns The contract instance and whether an existing deployment was reused
+ */
+export async function deployWithLedger<T extends BaseContract>(
+  ledger: DeploymentLedger,
+  name: string,
+  contractName: string,
+  signer: Signer,
+  args: unknown[]
+): Promise<{ contract: T; reused: boolean }> {
+  const factory = await ethers.getContractFactory(contractName, signer);
+  const bytecodeHash = ethers.keccak256(factory.bytecode);
+  const argStrings = args.map((arg) => String(arg));
+
+  const existing = ledger.contracts[name];
+  if (
+    existing &&
+    existing.contract === contractName &&
+    existing.bytecodeHash === bytecodeHash &&
+    JSON.stringify(existing.args) === JSON.stringify(argStrings) &&
+    (await getCodeHash(existing.address)) === existing.codeHash
+  ) {
+    console.log(`${name} already deployed at: ${existing.address}`);
+    const contract = await ethers.getContractAt(contractName, existing.address, signer);
+    return { contract: contract as unknown as T, reused: true };
+  }
+
+  console.log(`Deploying ${name}...`);
+  const contract = await factory.deploy(...args);
+  await contract.waitForDeployment();
+  const address = await contract.getAddress();
+  console.log(`${name} deployed at: ${address}`);
+
+  ledger.contracts[name] = {
+    contract: contractName,
+    address,
+    args: argStrings,
+    bytecodeHash,
+    codeHash: await getCodeHash(address),
+    txHash: contract.deploymentTransaction()?.hash ?? '',
+    timestamp: Date.now(),
+  };
+  saveLedger(ledger);
+  return { contract: contract as unknown as T, reused: false };
+}
+
+/**
+ * Proposes and adds an action in the AdminVault, resuming from whatever step was last completed
+ * When the proposal delay has not passed yet the action is left as proposed for a later run
+ * @param ledger The deployment ledger, updated and saved after each step
+ * @param adminVault The AdminVault, connected to a signer with the action proposer/executor roles
+ * @param name The key of the action in the ledger
+ * @param address The action contract address
+ * @param batch Optional Safe batch, the proposal or addition is added to it instead of being sent
+ * @returns The registration status
+ */
+export async function registerActionWithLedger(
+  ledger: DeploymentLedger,
+  adminVault: AdminVault,
+  name: string,
+  address: string,
+  batch?: SafeBatch
+): Promise<RegistrationStatus> {
+  const actionId = getBytes4(address);
+  const entry: LedgerAction =
+    ledger.actions[name]?.address === address
+      ? ledger.actions[name]
+      : { actionId, address, status: 'proposed' };
+  ledger.actions[name] = entry;
+
+  if ((await adminVault.actionAddresses(actionId)).toLowerCase() === address.toLowerCase()) {
+    entry.status = 'added';
+    saveLedger(ledger);
+    return entry.status;
+  }
+
+  let proposalTime = await adminVault.getActionProposalTime(actionId, address);
+  if (proposalTime === 0n && batch) {
+    await addToBatch(batch, adminVault, 'proposeAction', [actionId, address]);
+    console.log(`${name} action proposal added to the Safe batch`);
+    saveLedger(ledger);
+    return entry.status;
+  }
+  if (proposalTime === 0n) {
+    const tx = await adminVault.proposeAction(actionId, address);
+    await tx.wait();
+    entry.proposeTxHash = tx.hash;
+    proposalTime = await adminVault.getActionProposalTime(actionId, address);
+    saveLedger(ledger);
+  }
+
+  const { ready, at } = await getExecutableAt(proposalTime);
+  entry.executableAt = at;
+  if (!ready) {
+    console.log(`${name} action proposed, can be added after ${new Date(at * 1000).toISOString()}`);
+    saveLedger(ledger);
+    return entry.status;
+  }
+
+  if (batch) {
+    await addToBatch(batch, adminVault, 'addAction', [actionId, address]);
+    console.log(`${name} action addition added to the Safe batch`);
+    saveLedger(ledger);
+    return entry.status;
+  }
+  const tx = await adminVault.addAction(actionId, address);
+  await tx.wait();
+  entry.addTxHash = tx.hash;
+  entry.status = 'added';
+  saveLedger(ledger);
+  console.log(`${name} action added. ActionId: ${actionId}`);
+  return entry.status;
+}
+
+/**
+ * Proposes and adds a pool in the AdminVault, resuming from whatever step was last completed
+ * When the proposal delay has not passed yet the pool is left as proposed for a later run
+ * @param ledger The deployment ledger, updated and saved after each step
+ * @param adminVault The AdminVault, connected to a signer with the pool proposer/executor roles
+ * @param protocol The protocol name, must match the protocolName() of its actions
+ * @param address The pool address
+ * @param token Optional tokenConfig key, for readability of the ledger
+ * @param batch Optional Safe batch, the proposal or addition is added to it instead of being sent
+ * @returns The registration status
+ */
+export async function registerPoolWithLedger(
+  ledger: DeploymentLedger,
+  adminVault: AdminVault,
+  protocol: string,
+  address: string,
+  token?: string,
+  batch?: SafeBatch
+): Promise<RegistrationStatus> {
+  const key = poolKey(protocol, address);
+  const poolId = getBytes4(address);
+  const entry: LedgerPool = ledger.pools[key] ?? {
+    protocol,
+    token,
+    address,
+    poolId,
+    status: 'proposed',
+  };
+  ledger.pools[key] = entry;
+
+  const protocolId = BigInt(
+    ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['string'], [protocol]))
+  );
+  if (
+    (await adminVault.protocolPools(protocolId, poolId)).toLowerCase() === address.toLowerCase()
+  ) {
+    entry.status = 'added';
+    saveLedger(ledger);
+    return entry.status;
+  }
+
+  let proposalTime = await adminVault.getPoolProposalTime(protocol, address);
+  if (proposalTime === 0n && batch) {
+    await addToBatch(batch, adminVault, 'proposePool', [protocol, address]);
+    console.log(`${protocol} pool ${address} proposal added to the Safe batch`);
+    saveLedger(ledger);
+    return entry.status;
+  }
+  if (proposalTime === 0n) {
+    const tx = await adminVault.proposePool(protocol, address);
+    await tx.wait();
+    entry.proposeTxHash = tx.hash;
+    proposalTime = await adminVault.getPoolProposalTime(protocol, address);
+    saveLedger(ledger);
+  }
+
+  const { ready, at } = await getExecutableAt(proposalTime);
+  entry.executableAt = at;
+  if (!ready) {
+    console.log(
+      `${protocol} pool ${address} proposed, can be added after ${new Date(
+        at * 1000
+      ).toISOString()}`
+    );
+    saveLedger(ledger);
+    return entry.status;
+  }
+
+  if (batch) {
+    await addToBatch(batch, adminVault, 'addPool', [protocol, address]);
+    console.log(`${protocol} pool ${address} addition added to the Safe batch`);
+    saveLedger(ledger);
+    return entry.status;
+  }
+  const tx = await adminVault.addPool(protocol, address);
+  await tx.wait();
+  entry.addTxHash = tx.hash;
+  entry.status = 'added';
+  saveLedger(ledger);
+  console.log(`${protocol} ${token ?? address} pool added. PoolId: ${poolId}`);
+  return entry.status;
+}
@@ -0,0 +1,166 @@
+import {
+  AAVE_V2_POOL,
+  AAVE_V3_POOL,
+  ACROSS_HUB,
+  CCTP_TOKEN_MESSENGER_V2,
+  CHAINLINK_ETH_USD_ORACLE,
+  CURVE_3POOL_ADDRESS,
+  NOTIONAL_ROUTER,
+  PARASWAP_AUGUSTUS_ROUTER,
+  ZERO_EX_ALLOWANCE_HOLDER,
+  tokenConfig,
+} from '../../test/constants';
+
+/**
+ * Deployment manifest
+ *
+ * Describes every contract the deployment engine should deploy, the constructor
+ * arguments each one takes and the pools to register in the AdminVault.
+ * Adding a protocol should only require adding entries here.
+ *
+ * Constructor arguments are either literal values or references to another
+ * contract by name. A reference resolves to a contract deployed earlier in the
+ * same manifest, or to an address supplied by the caller (AdminVault, Logger, ...).
+ */
+
+export type ManifestRef = { ref: string };
+export type ManifestArg = string | number | bigint | boolean | ManifestRef;
+
+export interface ManifestContract {
+  // Key used for references and in the deployment record
+  name: string;
+  // Artifact name, defaults to name
+  contract?: string;
+  args: ManifestArg[];
+  // Register the deployed contract as an action in the AdminVault
+  action?: boolean;
+}
+
+export interface ManifestPool {
+  // Must match the protocolName() of the actions using the pool
+  protocol: string;
+  token: keyof typeof tokenConfig;
+}
+
+export interface DeploymentManifest {
+  contracts: ManifestContract[];
+  pools: ManifestPool[];
+}
+
+export function ref(name: string): ManifestRef {
+  return { ref: name };
+}
+
+export function isManifestRef(arg: ManifestArg): arg is ManifestRef {
+  return typeof arg === 'object' && arg !== null && 'ref' in arg;
+}
+
+// All actions take the AdminVault and Logger first, followed by their own arguments
+function action(name: string, ...args: ManifestArg[]): ManifestContract {
+  return { name, args: [ref('AdminVault'), ref('Logger'), ...args], action: true };
+}
+
+function pools(protocol: string, tokens: (keyof typeof tokenConfig)[]): ManifestPool[] {
+  return tokens.map((token) => ({ protocol, token }));
+}
+
+export const defaultManifest: DeploymentManifest = {
+  contracts: [
+    // Utility actions
+    action('PullToken'),
+    action('SendToken'),
+    action('UpgradeAction', ref('SafeSetupRegistry')),
+    action(
+      'GasRefundAction',
+      ref('TokenRegistry'),
+      CHAINLINK_ETH_USD_ORACLE,
+      ref('FeeRecipient'),
+      ref('EIP712TypedDataSafeModule')
+    ),
+
+    // Swaps, cover and bridging
+    action('Curve3PoolSwap', CURVE_3POOL_ADDRESS),
+    action('ParaswapSwap', PARASWAP_AUGUSTUS_ROUTER, ref('TokenRegistry')),
+    action('ZeroExSwap', ZERO_EX_ALLOWANCE_HOLDER, ref('TokenRegistry')),
+    action('BuyCover'),
+    action('CCTPBridgeSend', CCTP_TOKEN_MESSENGER_V2),
+
+    // Protocol actions
+    action('AaveV2Supply', AAVE_V2_POOL),
+    action('AaveV2Withdraw', AAVE_V2_POOL),
+    action('AaveV3Supply', AAVE_V3_POOL),
+    action('AaveV3Withdraw', AAVE_V3_POOL),
+    action('AcrossV3Supply', ACROSS_HUB),
+    action('AcrossV3Withdraw', ACROSS_HUB),
+    action('CurveSavingsSupply'),
+    action('CurveSavingsWithdraw'),
+    action('EulerV2Supply'),
+    action('EulerV2Withdraw'),
+    action('FluidV1Supply'),
+    action('FluidV1Withdraw'),
+    action('GearboxPassiveV3Supply'),
+    action('GearboxPassiveV3Withdraw'),
+    action('MapleSupply'),
+    action('MapleWithdrawQueue'),
+    action('MorphoV1Supply'),
+    action('MorphoV1Withdraw'),
+    action('NotionalV3Supply', NOTIONAL_ROUTER),
+    action('NotionalV3Withdraw', NOTIONAL_ROUTER),
+    action('SparkV1Supply'),
+    action('SparkV1Withdraw'),
+    action('StrikeV1Supply'),
+    action('StrikeV1Withdraw'),
+    action('VesperV1Supply'),
+    action('VesperV1Withdraw'),
+    action('YearnV2Supply'),
+    action('YearnV2Withdraw'),
+    action('YearnV3Supply'),
+    action('YearnV3Withdraw'),
+  ],
+  pools: [
+    ...pools('AaveV2', ['AAVE_V2_aUSDC', 'AAVE_V2_aUSDT', 'AAVE_V2_aDAI']),
+    ...pools('AaveV3', ['AAVE_V3_aUSDC', 'AAVE_V3_aUSDT', 'AAVE_V3_aDAI']),
+    ...pools('AcrossV3', ['USDC', 'USDT', 'DAI']),
+    ...pools('CurveSavings', ['CURVE_SAVINGS_scrvUSD', 'CURVE_SAVINGS_cvcrvUSD']),
+    ...pools('EulerV2', [
+      'EULER_V2_PRIME_USDC',
+      'EULER_V2_YIELD_USDC',
+      'EULER_V2_YIELD_USDT',
+      'EULER_V2_YIELD_USDE',
+      'EULER_V2_MAXI_USDC',
+      'EULER_V2_RESOLV_USDC',
+    ]),
+    ...pools('FluidV1', ['FLUID_V1_USDC', 'FLUID_V1_USDT', 'FLUID_V1_GHO']),
+    ...pools('GearboxPassiveV3', [
+      'GEARBOX_PASSIVE_V3_USDC',
+      'GEARBOX_PASSIVE_V3_DAI',
+      'GEARBOX_PASSIVE_V3_K3_USDT',
+      'GEARBOX_PASSIVE_V3_CHAOS_GHO',
+    ]),
+    ...pools('MapleV1', ['MAPLE_V1_HY_USDC', 'MAPLE_V1_BC_USDC', 'MAPLE_V1_HY_SEC_USDC']),
+    ...pools('MorphoV1', [
+      'MORPHO_V1_fxUSDC',
+      'MORPHO_V1_USUALUSDC',
+      'MORPHO_V1_gtUSDCcore',
+      'MORPHO_V1_re7USDT',
+      'MORPHO_V1_reUSDC',
+      'MORPHO_V1_steakUSDT',
+      'MORPHO_V1_steakUSDC',
+      'MORPHO_V1_gtUSDC',
+      'MORPHO_V1_gtUSDT',
+      'MORPHO_V1_smokehouseUSDC',
+      'MORPHO_V1_gtDAIcore',
+    ]),
+    ...pools('NotionalV3', ['NOTIONAL_V3_USDC']),
+    ...pools('SparkV1', ['SPARK_V1_DAI', 'SPARK_V1_USDS']),
+    ...pools('StrikeV1', ['STRIKE_V1_USDC', 'STRIKE_V1_USDT']),
+    ...pools('VesperV1', ['VESPER_V1_USDC']),
+    ...pools('YearnV2', ['YEARN_V2_USDC', 'YEARN_V2_USDT', 'YEARN_V2_DAI']),
+    ...pools('YearnV3', [
+      'YEARN_V3_DAI',
+      'YEARN_V3_AJNA_DAI',
+      'YEARN_V3_USDS',
+      'YEARN_V3_SKY_USDS',
+    ]),
+  ],
+};
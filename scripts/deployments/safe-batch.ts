@@ -0,0 +1,367 @@
+import fs from 'fs';
+import { BaseContract, FunctionFragment, Interface, ethers } from 'ethers';
+import { ROLES, SAFE_MULTI_SEND_CALL_ONLY_ADDRESS } from '../../test/constants';
+import { getBytes4 } from '../../test/shared-utils';
+import {
+  AdminVault__factory,
+  SafeSetupRegistry__factory,
+  TokenRegistry__factory,
+} from '../../typechain-types';
+
+/**
+ * Safe Transaction Builder batches
+ *
+ * The production AdminVault roles are held by a Safe, so governance operations can be collected
+ * into a Transaction Builder JSON batch instead of being sent by an EOA. The batch can be imported
+ * in the Safe Transaction Builder app (which bundles it through MultiSend), or wrapped into a
+ * single MultiSendCallOnly transaction with getMultiSendTransaction.
+ * decodeSafeBatch turns a batch back into readable AdminVault/TokenRegistry/SafeSetupRegistry calls
+ * so signers can review what they are approving.
+ */
+
+export interface SafeBatchMethod {
+  inputs: { internalType: string; name: string; type: string }[];
+  name: string;
+  payable: boolean;
+}
+
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: SafeBatchMethod | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+export interface SafeBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+export interface MultiSendTransaction {
+  to: string;
+  value: string;
+  data: string;
+  // 1 (delegatecall), MultiSendCallOnly must be delegatecalled by the Safe
+  operation: number;
+}
+
+export interface DecodedCall {
+  to: string;
+  value: string;
+  // Name of the contract whose interface matched the call data
+  contractName?: string;
+  method?: string;
+  args: { name: string; type: string; value: string }[];
+  // Problems a signer should look at before approving
+  warnings: string[];
+}
+
+const MULTI_SEND_INTERFACE = new Interface(['function multiSend(bytes transactions)']);
+
+const GOVERNANCE_INTERFACES: { name: string; iface: Interface }[] = [
+  { name: 'AdminVault', iface: AdminVault__factory.createInterface() },
+  { name: 'TokenRegistry', iface: TokenRegistry__factory.createInterface() },
+  { name: 'SafeSetupRegistry', iface: SafeSetupRegistry__factory.createInterface() },
+];
+
+/**
+ * Creates an empty Transaction Builder batch
+ * @param chainId The chain the batch will be executed on
+ * @param safeAddress The Safe that will execute the batch
+ * @param name The batch name shown in the Transaction Builder
+ * @param description Optional description shown in the Transaction Builder
+ * @returns The empty batch
+ */
+export function createSafeBatch(
+  chainId: bigint | number,
+  safeAddress: string,
+  name: string,
+  description = ''
+): SafeBatch {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: ethers.getAddress(safeAddress),
+      createdFromOwnerAddress: '',
+    },
+    transactions: [],
+  };
+}
+
+function formatInputValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map((item) => formatInputValue(item)));
+  }
+  return String(value);
+}
+
+/**
+ * Appends a contract call to a batch
+ * @param batch The batch to append to
+ * @param contract The contract to call
+ * @param method The function name (or signature, for overloaded functions)
+ * @param args The function arguments
+ * @returns The appended transaction
+ */
+export async function addToBatch(
+  batch: SafeBatch,
+  contract: BaseContract,
+  method: string,
+  args: unknown[]
+): Promise<SafeBatchTransaction> {
+  const fragment = contract.interface.getFunction(method, args);
+  if (!fragment) {
+    throw new Error(`Function ${method} not found in contract interface`);
+  }
+
+  const transaction: SafeBatchTransaction = {
+    to: await contract.getAddress(),
+    value: '0',
+    data: contract.interface.encodeFunctionData(fragment, args),
+    contractMethod: {
+      inputs: fragment.inputs.map((input) => ({
+        internalType: input.type,
+        name: input.name,
+        type: input.type,
+      })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues: Object.fromEntries(
+      fragment.inputs.map((input, i) => [input.name, formatInputValue(args[i])])
+    ),
+  };
+  batch.transactions.push(transaction);
+  return transaction;
+}
+
+/**
+ * Writes a batch to disk in the Transaction Builder JSON format
+ * @param batch The batch
+ * @param file The file to write
+ * @returns The path of the written file
+ */
+export function saveSafeBatch(batch: SafeBatch, file: string): string {
+  fs.writeFileSync(file, JSON.stringify(batch, null, 2));
+  return file;
+}
+
+/**
+ * Reads a Transaction Builder JSON batch from disk
+ * @param file The batch file
+ * @returns The batch
+ */
+export function loadSafeBatch(file: string): SafeBatch {
+  const batch = JSON.parse(fs.readFileSync(file, 'utf8')) as SafeBatch;
+  if (!Array.isArray(batch.transactions)) {
+    throw new Error(`${file} is not a Safe Transaction Builder batch`);
+  }
+  return batch;
+}
+
+/**
+ * Packs transactions into the MultiSend encoding (operation, to, value, data length, data)
+ * @param transactions The transactions, all sent as calls
+ * @returns The multiSend(bytes) call data
+ */
+export function encodeMultiSend(transactions: SafeBatchTransaction[]): string {
+  const packed = ethers.concat(
+    transactions.map((tx) =>
+      ethers.solidityPacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [0, tx.to, tx.value, ethers.dataLength(tx.data), tx.data]
+      )
+    )
+  );
+  return MULTI_SEND_INTERFACE.encodeFunctionData('multiSend', [packed]);
+}
+
+/**
+ * Unpacks multiSend(bytes) call data into its transactions
+ * @param data The multiSend call data
+ * @returns The packed transactions
+ */
+export function decodeMultiSend(data: string): (SafeBatchTransaction & { operation: number })[] {
+  const [packed] = MULTI_SEND_INTERFACE.decodeFunctionData('multiSend', data);
+  const bytes = ethers.getBytes(packed);
+  const transactions: (SafeBatchTransaction & { operation: number })[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const operation = bytes[offset];
+    const to = ethers.getAddress(ethers.hexlify(bytes.slice(offset + 1, offset + 21)));
+    const value = BigInt(ethers.hexlify(bytes.slice(offset + 21, offset + 53)));
+    const length = Number(BigInt(ethers.hexlify(bytes.slice(offset + 53, offset + 85))));
+    const callData = ethers.hexlify(bytes.slice(offset + 85, offset + 85 + length));
+    transactions.push({
+      to,
+      value: value.toString(),
+      data: callData,
+      contractMethod: null,
+      contractInputsValues: null,
+      operation,
+    });
+    offset += 85 + length;
+  }
+  return transactions;
+}
+
+/**
+ * Wraps a batch into a single transaction for the Safe, delegatecalling MultiSendCallOnly
+ * @param batch The batch
+ * @param multiSendAddress The MultiSendCallOnly deployment, defaults to Safe v1.4.1
+ * @returns The Safe transaction
+ */
+export function getMultiSendTransaction(
+  batch: SafeBatch,
+  multiSendAddress: string = SAFE_MULTI_SEND_CALL_ONLY_ADDRESS
+): MultiSendTransaction {
+  return {
+    to: multiSendAddress,
+    value: '0',
+    data: encodeMultiSend(batch.transactions),
+    operation: 1,
+  };
+}
+
+function isMultiSend(data: string): boolean {
+  return data.startsWith(MULTI_SEND_INTERFACE.getFunction('multiSend')!.selector);
+}
+
+function labelValue(type: string, value: string, labels: Map<string, string>): string {
+  const label = labels.get(value.toLowerCase());
+  return label && (type === 'address' || type === 'bytes32') ? `${value} (${label})` : value;
+}
+
+function checkCall(
+  contractName: string,
+  fragment: FunctionFragment,
+  args: ethers.Result,
+  to: string,
+  addresses: Record<string, string>
+): string[] {
+  const warnings: string[] = [];
+  const expected = addresses[contractName];
+  if (expected && expected.toLowerCase() !== to.toLowerCase()) {
+    warnings.push(`${contractName} call sent to ${to}, expected ${expected}`);
+  }
+  if (
+    ['proposeAction', 'addAction', 'cancelActionProposal'].includes(fragment.name) &&
+    args[0] !== getBytes4(args[1])
+  ) {
+    warnings.push(`Action ID ${args[0]} does not match the action address ${args[1]}`);
+  }
+  return warnings;
+}
+
+/**
+ * Decodes a single call against the AdminVault, TokenRegistry and SafeSetupRegistry interfaces
+ * @param transaction The call to decode
+ * @param addresses Known addresses keyed by name, used to label arguments and check call targets
+ * @returns The decoded calls, multiSend calls are expanded into the calls they contain
+ */
+export function decodeCall(
+  transaction: Pick<SafeBatchTransaction, 'to' | 'value' | 'data'>,
+  addresses: Record<string, string> = {}
+): DecodedCall[] {
+  if (isMultiSend(transaction.data)) {
+    return decodeMultiSend(transaction.data).flatMap((inner) => {
+      const decoded = decodeCall(inner, addresses);
+      if (inner.operation !== 0) {
+        decoded.forEach((call) => call.warnings.push('Inner transaction uses delegatecall'));
+      }
+      return decoded;
+    });
+  }
+
+  const labels = new Map<string, string>();
+  for (const [name, address] of Object.entries(addresses)) {
+    labels.set(address.toLowerCase(), name);
+  }
+  for (const role of Object.values(ROLES)) {
+    labels.set(ethers.id(role).toLowerCase(), role);
+  }
+
+  const warnings: string[] = [];
+  if (BigInt(transaction.value || 0) !== 0n) {
+    warnings.push(`Call sends ${ethers.formatEther(BigInt(transaction.value))} ETH`);
+  }
+
+  for (const { name, iface } of GOVERNANCE_INTERFACES) {
+    const parsed = iface.parseTransaction({ data: transaction.data, value: transaction.value });
+    if (!parsed) {
+      continue;
+    }
+    return [
+      {
+        to: transaction.to,
+        value: transaction.value,
+        contractName: name,
+        method: parsed.name,
+        args: parsed.fragment.inputs.map((input, i) => ({
+          name: input.name,
+          type: input.type,
+          value: labelValue(input.type, formatInputValue(parsed.args[i]), labels),
+        })),
+        warnings: [
+          ...warnings,
+          ...checkCall(name, parsed.fragment, parsed.args, transaction.to, addresses),
+        ],
+      },
+    ];
+  }
+
+  return [
+    {
+      to: transaction.to,
+      value: transaction.value,
+      args: [],
+      warnings: [...warnings, `Unrecognised call data ${transaction.data.slice(0, 10)}`],
+    },
+  ];
+}
+
+/**
+ * Decodes every transaction in a batch
+ * @param batch The batch
+ * @param addresses Known addresses keyed by name, used to label arguments and check call targets
+ * @returns The decoded calls in execution order
+ */
+export function decodeSafeBatch(
+  batch: SafeBatch,
+  addresses: Record<string, string> = {}
+): DecodedCall[] {
+  return batch.transactions.flatMap((transaction) => decodeCall(transaction, addresses));
+}
+
+/**
+ * Formats a decoded call for review
+ * @param call The decoded call
+ * @param index The position of the call in the batch
+ * @returns A multi-line description of the call
+ */
+export function formatDecodedCall(call: DecodedCall, index: number): string {
+  const target = call.contractName ? `${call.contractName} (${call.to})` : call.to;
+  const lines = [`#${index + 1} ${target}.${call.method ?? '<unknown>'}`];
+  for (const arg of call.args) {
+    lines.push(`    ${arg.name} (${arg.type}): ${arg.value}`);
+  }
+  for (const warning of call.warnings) {
+    lines.push(`    WARNING: ${warning}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,324 @@
+import fs from 'fs';
+import {
+  AbstractSigner,
+  HDNodeWallet,
+  Provider,
+  Signature,
+  Signer,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  VoidSigner,
+  Wallet,
+  ethers,
+} from 'ethers';
+import type Eth from '@ledgerhq/hw-app-eth';
+import { SafeBatch, createSafeBatch, saveSafeBatch } from './safe-batch';
+
+/**
+ * Script signers
+ *
+ * Scripts get their signer from getScriptSigner instead of ethers.getSigners()[0], so the same
+ * script runs with a local key, a Ledger, an encrypted keystore or a Safe multisig. The kind is
+ * read from the --signer flag (for scripts run with ts-node, hardhat run rejects unknown flags),
+ * then SIGNER_TYPE, and defaults to local:
+ * - local:    PRIVATE_KEY, MNEMONIC [DERIVATION_PATH], or the first account of the hardhat network
+ * - ledger:   the Ledger account at DERIVATION_PATH, checked against LEDGER_ACCOUNT when it is set
+ * - keystore: KEYSTORE_FILE (an encrypted JSON keystore) decrypted with KEYSTORE_PASSWORD
+ * - safe:     SAFE_ADDRESS, transactions are proposed in a Safe Transaction Builder batch written
+ *             to SAFE_BATCH_FILE instead of being sent
+ * Code that needs the sending account calls getAddress(), for the safe kind it is the Safe.
+ */
+
+export type SignerKind = 'local' | 'ledger' | 'keystore' | 'safe';
+
+export interface ScriptSigner {
+  kind: SignerKind;
+  // Sends transactions and signs messages. For the safe kind a VoidSigner for the Safe, which
+  // can be used for calls and gas estimates but not to send or sign
+  signer: Signer;
+  // The account transactions come from
+  getAddress(): Promise<string>;
+  // Safe kind only: the batch transactions are proposed in
+  batch?: SafeBatch;
+  // Writes the batch to SAFE_BATCH_FILE, returns the file or undefined when nothing was written
+  save(): string | undefined;
+}
+
+export interface ScriptSignerOptions {
+  // Overrides the --signer flag and SIGNER_TYPE
+  kind?: SignerKind;
+  // Provider the signer is connected to, undefined for offline signing
+  provider?: Provider;
+  // Accounts of the hardhat network, the local signer when no key is configured
+  getAccounts?: () => Promise<Signer[]>;
+  // Name of the Safe batch shown in the Transaction Builder
+  batchName?: string;
+}
+
+export const SIGNER_KINDS: SignerKind[] = ['local', 'ledger', 'keystore', 'safe'];
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+const LEDGER_TROUBLESHOOTING = [
+  'Please check:',
+  '1. Your Ledger device is connected and unlocked',
+  '2. The Ethereum app is open on your Ledger',
+  "3. 'Blind Signing' is enabled in the Ethereum app settings",
+  '4. No other application (like MetaMask or Ledger Live) is connected to your Ledger',
+].join('\n');
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Reads the signer kind from --signer=<kind> (or --signer <kind>), then SIGNER_TYPE
+ * @param argv The command line arguments
+ * @returns The kind, local when neither is set
+ */
+export function getSignerKind(argv: string[] = process.argv): SignerKind {
+  const flagIndex = argv.findIndex((arg) => arg === '--signer' || arg.startsWith('--signer='));
+  const flag =
+    flagIndex === -1
+      ? undefined
+      : argv[flagIndex].startsWith('--signer=')
+      ? argv[flagIndex].slice('--signer='.length)
+      : argv[flagIndex + 1];
+  // bundle-signer's former SIGNER_TYPE=mnemonic is a local signer
+  const kind = flag ?? (process.env.SIGNER_TYPE === 'mnemonic' ? 'local' : process.env.SIGNER_TYPE);
+  if (kind === undefined) {
+    return 'local';
+  }
+  if (!SIGNER_KINDS.includes(kind as SignerKind)) {
+    throw new Error(`Unknown signer ${kind}, expected ${SIGNER_KINDS.join(', ')}`);
+  }
+  return kind as SignerKind;
+}
+
+// Ledger paths are written without the m/ prefix
+function toLedgerPath(path: string): string {
+  return path.replace(/^m\//, '');
+}
+
+async function withLedger<T>(fn: (eth: Eth) => Promise<T>): Promise<T> {
+  // Installed with @nomicfoundation/hardhat-ledger, loaded lazily so the other signers don't need HID
+  const { default: TransportNodeHid } = await import('@ledgerhq/hw-transport-node-hid');
+  const { default: EthApp } = await import('@ledgerhq/hw-app-eth');
+  let transport;
+  try {
+    transport = await TransportNodeHid.create();
+  } catch (error) {
+    throw new Error(
+      `Could not connect to the Ledger: ${
+        error instanceof Error ? error.message : String(error)
+      }\n` + LEDGER_TROUBLESHOOTING
+    );
+  }
+  try {
+    return await fn(new EthApp(transport));
+  } finally {
+    await transport.close();
+  }
+}
+
+/**
+ * Signer for a Ledger account, every transaction, message and typed data is confirmed on the
+ * device. Transactions are blind signed, the device shows their hash rather than the decoded call.
+ */
+export class LedgerSigner extends AbstractSigner {
+  readonly path: string;
+  #address?: Promise<string>;
+
+  constructor(path: string = DEFAULT_DERIVATION_PATH, provider: Provider | null = null) {
+    super(provider);
+    this.path = path;
+  }
+
+  connect(provider: Provider | null): LedgerSigner {
+    return new LedgerSigner(this.path, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    this.#address ??= withLedger(async (eth) =>
+      ethers.getAddress((await eth.getAddress(toLedgerPath(this.path))).address)
+    );
+    return this.#address;
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    const populated = await this.populateTransaction(tx);
+    const { from, ...unsigned } = populated;
+    if (from && ethers.getAddress(from) !== (await this.getAddress())) {
+      throw new Error(`Transaction from ${from} can't be signed by ${await this.getAddress()}`);
+    }
+    const transaction = Transaction.from(unsigned as TransactionLike<string>);
+    const { v, r, s } = await withLedger((eth) =>
+      eth.signTransaction(toLedgerPath(this.path), transaction.unsignedSerialized.slice(2), null)
+    );
+    transaction.signature = Signature.from({ r: `0x${r}`, s: `0x${s}`, v: parseInt(v, 16) });
+    return transaction.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const { v, r, s } = await withLedger((eth) =>
+      eth.signPersonalMessage(toLedgerPath(this.path), ethers.hexlify(bytes).slice(2))
+    );
+    return Signature.from({ r: `0x${r}`, s: `0x${s}`, v }).serialized;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    // The hashed variant works on every device, the clear signing variant needs a Nano S Plus or newer
+    const { v, r, s } = await withLedger((eth) =>
+      eth.signEIP712HashedMessage(
+        toLedgerPath(this.path),
+        TypedDataEncoder.hashDomain(domain).slice(2),
+        TypedDataEncoder.from(types).hash(value).slice(2)
+      )
+    );
+    return Signature.from({ r: `0x${r}`, s: `0x${s}`, v }).serialized;
+  }
+}
+
+/**
+ * VoidSigner for a Safe whose transactions are proposed in a Transaction Builder batch. Calls and
+ * gas estimates run from the Safe, sending or signing fails with a pointer to the batch.
+ */
+export class SafeProposalSigner extends VoidSigner {
+  readonly batch: SafeBatch;
+
+  constructor(safeAddress: string, batch: SafeBatch, provider: Provider | null = null) {
+    super(safeAddress, provider);
+    this.batch = batch;
+  }
+
+  connect(provider: Provider | null): SafeProposalSigner {
+    return new SafeProposalSigner(this.address, this.batch, provider);
+  }
+
+  async sendTransaction(): Promise<never> {
+    throw new Error(
+      `Transactions from the Safe ${this.address} are proposed in its batch, add them with addToBatch`
+    );
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error(`The Safe ${this.address} can't sign messages, sign with one of its owners`);
+  }
+
+  async signTypedData(): Promise<string> {
+    throw new Error(`The Safe ${this.address} can't sign typed data, sign with one of its owners`);
+  }
+}
+
+function fromSigner(kind: SignerKind, signer: Signer): ScriptSigner {
+  return { kind, signer, getAddress: () => signer.getAddress(), save: () => undefined };
+}
+
+async function createLocalSigner(options: ScriptSignerOptions): Promise<ScriptSigner> {
+  const provider = options.provider ?? null;
+  if (process.env.PRIVATE_KEY) {
+    return fromSigner('local', new Wallet(process.env.PRIVATE_KEY, provider));
+  }
+  if (process.env.MNEMONIC) {
+    const wallet = HDNodeWallet.fromPhrase(
+      process.env.MNEMONIC,
+      undefined,
+      process.env.DERIVATION_PATH ?? DEFAULT_DERIVATION_PATH
+    );
+    return fromSigner('local', wallet.connect(provider));
+  }
+  const [account] = (await options.getAccounts?.()) ?? [];
+  if (!account) {
+    throw new Error('No local signer, set PRIVATE_KEY or MNEMONIC');
+  }
+  return fromSigner('local', account);
+}
+
+async function createLedgerSigner(options: ScriptSignerOptions): Promise<ScriptSigner> {
+  const signer = new LedgerSigner(
+    process.env.DERIVATION_PATH ?? DEFAULT_DERIVATION_PATH,
+    options.provider ?? null
+  );
+  const expected = process.env.LEDGER_ACCOUNT;
+  if (expected) {
+    const address = await signer.getAddress();
+    if (address !== ethers.getAddress(expected)) {
+      throw new Error(
+        `The Ledger account at ${signer.path} is ${address}, not LEDGER_ACCOUNT ${expected}. ` +
+          'Set DERIVATION_PATH to the path of LEDGER_ACCOUNT'
+      );
+    }
+  }
+  return fromSigner('ledger', signer);
+}
+
+async function createKeystoreSigner(options: ScriptSignerOptions): Promise<ScriptSigner> {
+  const keystore = fs.readFileSync(requireEnv('KEYSTORE_FILE'), 'utf8');
+  const wallet = await Wallet.fromEncryptedJson(keystore, requireEnv('KEYSTORE_PASSWORD'));
+  return fromSigner('keystore', wallet.connect(options.provider ?? null));
+}
+
+async function createSafeSigner(options: ScriptSignerOptions): Promise<ScriptSigner> {
+  const safeAddress = ethers.getAddress(requireEnv('SAFE_ADDRESS'));
+  const file = requireEnv('SAFE_BATCH_FILE');
+  if (!options.provider) {
+    throw new Error('Proposing to a Safe needs a provider for the chain ID');
+  }
+  const { chainId } = await options.provider.getNetwork();
+  const batch = createSafeBatch(chainId, safeAddress, options.batchName ?? 'Brava script');
+  return {
+    kind: 'safe',
+    signer: new SafeProposalSigner(safeAddress, batch, options.provider),
+    getAddress: async () => safeAddress,
+    batch,
+    save: () => (batch.transactions.length > 0 ? saveSafeBatch(batch, file) : undefined),
+  };
+}
+
+/**
+ * Creates the signer a script sends its transactions with
+ * @param options The kind (default: --signer, then SIGNER_TYPE, then local), provider and
+ * hardhat accounts
+ * @returns The signer
+ */
+export async function getScriptSigner(options: ScriptSignerOptions = {}): Promise<ScriptSigner> {
+  const kind = options.kind ?? getSignerKind();
+  if (kind === 'ledger') {
+    return createLedgerSigner(options);
+  }
+  if (kind === 'keystore') {
+    return createKeystoreSigner(options);
+  }
+  if (kind === 'safe') {
+    return createSafeSigner(options);
+  }
+  return createLocalSigner(options);
+}
+
+/**
+ * Returns the signer of a script that has to send its transactions itself
+ * @param scriptSigner The script signer
+ * @param operation What is sent, for the error message
+ * @returns The signer, throws for the safe kind
+ */
+export function getSendingSigner(scriptSigner: ScriptSigner, operation: string): Signer {
+  if (scriptSigner.kind === 'safe') {
+    throw new Error(
+      `${operation} can't be proposed to a Safe, use a local, ledger or keystore signer`
+    );
+  }
+  return scriptSigner.signer;
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import {
+  FeeTarget,
+  executeFeeTakes,
+  formatFeeTakePlan,
+  getDepositActionIds,
+  getTargetsFromIndexer,
+  planFeeTakes,
+} from '../test/fee-taker';
+import { loadIndexerState } from '../test/logger-indexer';
+import { AdminVault, FeeTakeSafeModule } from '../typechain-types';
+import { loadLedger } from './deployments/ledger';
+import { getScriptSigner, getSendingSigner } from './deployments/signers';
+
+// Takes fees from every Safe with an open deposit through FeeTakeSafeModule.takeFees
+// Usage:
+// INDEX_STATE_FILE=logger-index.json DRY_RUN=true npx hardhat run scripts/fee-taker.ts --network localhost
+// Targets come from a Logger indexer state (scripts/index-logger.ts) or TARGETS_FILE, a JSON list
+// of { safeAddress, poolId }. Pools and deposit action IDs come from the network's deployment
+// ledger, FEE_TAKE_MODULE_ADDRESS and ADMIN_VAULT_ADDRESS default to the ledger addresses.
+// FEE_BASIS (default 100) is the annual fee in basis points, MIN_INTERVAL (default 86400) the
+// seconds since the last fee, MIN_FEE (default 1) the smallest expected fee worth the gas and
+// MAX_POOLS_PER_CALL (default 10) the batch size.
+// DRY_RUN=true prints the planned calls and expected fees without sending them. Otherwise the
+// calls are sent by the SIGNER_TYPE signer (see scripts/deployments/signers.ts), which must hold
+// the FEE_TAKER_ROLE.
+
+function getTargets(): FeeTarget[] {
+  if (process.env.TARGETS_FILE) {
+    return JSON.parse(fs.readFileSync(process.env.TARGETS_FILE, 'utf8'));
+  }
+  if (process.env.INDEX_STATE_FILE) {
+    const state = loadIndexerState(process.env.INDEX_STATE_FILE);
+    if (!state) {
+      throw new Error(`${process.env.INDEX_STATE_FILE} not found`);
+    }
+    return getTargetsFromIndexer(state);
+  }
+  throw new Error('Set TARGETS_FILE or INDEX_STATE_FILE');
+}
+
+async function main() {
+  const ledger = await loadLedger();
+  const adminVaultAddress =
+    process.env.ADMIN_VAULT_ADDRESS ??
+    ledger.external.AdminVault ??
+    ledger.contracts.AdminVault?.address;
+  const feeTakeModuleAddress =
+    process.env.FEE_TAKE_MODULE_ADDRESS ?? ledger.contracts.FeeTakeSafeModule?.address;
+  if (!adminVaultAddress || !feeTakeModuleAddress) {
+    throw new Error('ADMIN_VAULT_ADDRESS and FEE_TAKE_MODULE_ADDRESS are required');
+  }
+  const adminVault = (await ethers.getContractAt(
+    'AdminVault',
+    adminVaultAddress
+  )) as unknown as AdminVault;
+
+  const plans = await planFeeTakes(adminVault, getTargets(), {
+    pools: Object.values(ledger.pools)
+      .filter((pool) => pool.status === 'added')
+      .map((pool) => ({ protocol: pool.protocol, poolId: pool.poolId, poolAddress: pool.address })),
+    depositActionIds: getDepositActionIds(
+      Object.fromEntries(
+        Object.entries(ledger.actions)
+          .filter(([, action]) => action.status === 'added')
+          .map(([name, action]) => [name, action.actionId])
+      )
+    ),
+    feeBasis: Number(process.env.FEE_BASIS ?? 100),
+    minInterval: process.env.MIN_INTERVAL ? Number(process.env.MIN_INTERVAL) : undefined,
+    minFee: process.env.MIN_FEE ? BigInt(process.env.MIN_FEE) : undefined,
+    maxPoolsPerCall: process.env.MAX_POOLS_PER_CALL
+      ? Number(process.env.MAX_POOLS_PER_CALL)
+      : undefined,
+  });
+  for (const plan of plans) {
+    console.log(formatFeeTakePlan(plan));
+  }
+
+  const calls = plans.reduce((total, plan) => total + plan.batches.length, 0);
+  if (process.env.DRY_RUN === 'true') {
+    console.log(`\nDry run: ${calls} takeFees calls planned`);
+    return;
+  }
+  const signer = getSendingSigner(
+    await getScriptSigner({ provider: ethers.provider, getAccounts: () => ethers.getSigners() }),
+    'takeFees calls'
+  );
+  const feeTakeModule = (await ethers.getContractAt(
+    'FeeTakeSafeModule',
+    feeTakeModuleAddress
+  )) as unknown as FeeTakeSafeModule;
+  const receipts = await executeFeeTakes(feeTakeModule, adminVault, signer, plans);
+  for (const receipt of receipts) {
+    console.log(`takeFees ${receipt.hash} used ${receipt.gasUsed} gas`);
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
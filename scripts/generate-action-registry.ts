@@ -0,0 +1,24 @@
+import fs from 'fs';
+import path from 'path';
+import hre from 'hardhat';
+import { collectActionMetadata, renderActionRegistry } from './codegen/action-registry';
+
+// Regenerates test/action-registry.ts from the compiled action contracts
+// Usage:
+// npx hardhat compile && npx hardhat run scripts/generate-action-registry.ts
+// Run it after adding an action or changing an action's Params struct, protocolName or actionType.
+
+const OUTPUT_FILE = path.join(__dirname, '..', 'test', 'action-registry.ts');
+
+async function main() {
+  const actions = await collectActionMetadata(hre);
+  fs.writeFileSync(OUTPUT_FILE, renderActionRegistry(actions));
+  console.log(`Wrote ${actions.length} actions to ${OUTPUT_FILE}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
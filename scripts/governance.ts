@@ -0,0 +1,112 @@
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import { AdminVault, TokenRegistry } from '../typechain-types';
+import {
+  GovernanceContracts,
+  ProposalState,
+  addLedgerProposals,
+  cancelStale,
+  executeReady,
+  getQueueReport,
+  loadQueue,
+} from './deployments/governance-queue';
+import { DeploymentLedger, loadLedger } from './deployments/ledger';
+import { ScriptSigner, getScriptSigner } from './deployments/signers';
+
+// Runs the second phase of the governance flow against the proposals recorded in the queue,
+// including the action and pool proposals the deploy scripts left pending in the ledger
+// Usage:
+// GOVERNANCE_COMMAND=status|execute|cancel-stale npx hardhat run scripts/governance.ts --network mainnet
+// Contract addresses are read from the deployment ledger, or from ADMIN_VAULT_ADDRESS and
+// TOKEN_REGISTRY_ADDRESS. cancel-stale cancels proposals executable for more than
+// STALE_AFTER_DAYS (default 7) days.
+// SIGNER_TYPE selects the signer (see scripts/deployments/signers.ts). When the roles are held by
+// a Safe, set SIGNER_TYPE=safe, SAFE_ADDRESS and SAFE_BATCH_FILE: the transactions are written to
+// a Safe Transaction Builder batch instead of being sent.
+
+function describe(state: ProposalState): string {
+  if (state.onChainTime === 0) {
+    return `  ${state.key} (waiting for the Safe batch to be executed)`;
+  }
+  const at = new Date(state.onChainTime * 1000).toISOString();
+  return `  ${state.key} (executable after ${at})`;
+}
+
+async function getContracts(
+  scriptSigner: ScriptSigner,
+  ledger: DeploymentLedger
+): Promise<GovernanceContracts> {
+  const { signer, batch } = scriptSigner;
+  const adminVaultAddress = process.env.ADMIN_VAULT_ADDRESS ?? ledger.external.AdminVault;
+  const tokenRegistryAddress = process.env.TOKEN_REGISTRY_ADDRESS ?? ledger.external.TokenRegistry;
+  if (!adminVaultAddress) {
+    throw new Error('AdminVault address not found, set ADMIN_VAULT_ADDRESS');
+  }
+
+  const adminVault = (await ethers.getContractAt(
+    'AdminVault',
+    adminVaultAddress,
+    signer
+  )) as unknown as AdminVault;
+
+  const tokenRegistry = tokenRegistryAddress
+    ? ((await ethers.getContractAt(
+        'TokenRegistry',
+        tokenRegistryAddress,
+        signer
+      )) as unknown as TokenRegistry)
+    : undefined;
+  return { adminVault, tokenRegistry, batch };
+}
+
+async function main() {
+  const command = process.env.GOVERNANCE_COMMAND ?? 'status';
+  const scriptSigner = await getScriptSigner({
+    provider: ethers.provider,
+    getAccounts: () => ethers.getSigners(),
+    batchName: `Governance ${command}`,
+  });
+  const ledger = await loadLedger();
+  const contracts = await getContracts(scriptSigner, ledger);
+  const queue = await loadQueue();
+  const imported = addLedgerProposals(queue, ledger);
+  if (imported.length > 0) {
+    console.log(`Queued ${imported.length} proposals from the deployment ledger`);
+  }
+
+  if (command === 'status') {
+    const report = await getQueueReport(queue, contracts);
+    console.log(
+      `New proposals would be executable after ${new Date(
+        report.nextDelayTimestamp * 1000
+      ).toISOString()}`
+    );
+    console.log(`Ready (${report.ready.length}):`);
+    report.ready.forEach((state) => console.log(describe(state)));
+    console.log(`Waiting (${report.waiting.length}):`);
+    report.waiting.forEach((state) => console.log(describe(state)));
+    console.log(`No longer proposed on chain (${report.missing.length}):`);
+    report.missing.forEach((state) => console.log(`  ${state.key}`));
+  } else if (command === 'execute') {
+    const executed = await executeReady(queue, contracts);
+    console.log(`Executed ${executed.length} proposals`);
+  } else if (command === 'cancel-stale') {
+    const days = Number(process.env.STALE_AFTER_DAYS ?? 7);
+    const cancelled = await cancelStale(queue, contracts, days * 24 * 60 * 60);
+    console.log(`Cancelled ${cancelled.length} stale proposals`);
+  } else {
+    throw new Error(`Unknown GOVERNANCE_COMMAND: ${command}`);
+  }
+
+  const batchFile = scriptSigner.save();
+  if (batchFile) {
+    console.log(`Wrote ${contracts.batch!.transactions.length} transactions to ${batchFile}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,75 @@
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import {
+  createIndexerState,
+  getSafePositions,
+  indexLoggerLogs,
+  loadIndexerState,
+  saveIndexerState,
+} from '../test/logger-indexer';
+import { loadLedger } from './deployments/ledger';
+
+// Rebuilds per-Safe positions from the Logger's ActionEvent logs
+// Usage:
+// STATE_FILE=logger-index.json npx hardhat run scripts/index-logger.ts --network localhost
+// LOGGER_ADDRESS defaults to the Logger in the network's deployment ledger.
+// FROM_BLOCK sets the first block of a new index, an existing STATE_FILE resumes from the
+// block after its last indexed block. TO_BLOCK defaults to the latest block and BATCH_SIZE
+// (blocks per eth_getLogs request) to 2000. The state is saved after every batch.
+// SAFE_ADDRESS prints the positions of one Safe instead of every Safe.
+
+async function main() {
+  const file = process.env.STATE_FILE;
+  if (!file) {
+    throw new Error('STATE_FILE is required');
+  }
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+  let state = loadIndexerState(file);
+  if (state) {
+    console.log(`Resuming ${file} from block ${state.lastIndexedBlock + 1}`);
+  } else {
+    const ledger = await loadLedger();
+    const loggerAddress =
+      process.env.LOGGER_ADDRESS ?? ledger.external.Logger ?? ledger.contracts.Logger?.address;
+    if (!loggerAddress) {
+      throw new Error('LOGGER_ADDRESS is required when the ledger has no Logger');
+    }
+    state = createIndexerState(loggerAddress, chainId, Number(process.env.FROM_BLOCK ?? 0));
+  }
+
+  await indexLoggerLogs(ethers.provider, state, {
+    toBlock: process.env.TO_BLOCK ? Number(process.env.TO_BLOCK) : undefined,
+    batchSize: process.env.BATCH_SIZE ? Number(process.env.BATCH_SIZE) : undefined,
+    onCheckpoint: (checkpoint) => {
+      saveIndexerState(file, checkpoint);
+      console.log(`Indexed up to block ${checkpoint.lastIndexedBlock}`);
+    },
+  });
+
+  const safes = process.env.SAFE_ADDRESS
+    ? [ethers.getAddress(process.env.SAFE_ADDRESS)]
+    : [...new Set(Object.values(state.positions).map((position) => position.safeAddress))];
+  for (const safe of safes) {
+    console.log(`\nSafe ${safe}`);
+    for (const position of getSafePositions(state, safe)) {
+      console.log(
+        `  strategy ${position.strategyId} pool ${position.poolId}: balance ${position.balance}, fees ${position.cumulativeFees} (${position.updates} updates, last block ${position.lastBlock})`
+      );
+    }
+    const pending = state.withdrawalRequests.filter((request) => request.safeAddress === safe);
+    if (pending.length > 0) {
+      console.log(`  ${pending.length} withdrawal requests`);
+    }
+  }
+  if (state.skippedLogs > 0) {
+    console.log(`\n${state.skippedLogs} logs were not folded into the state`);
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,88 @@
+import 'dotenv/config';
+import { nexusMutualQuotes } from '../test/actions/nexus-mutual/nexusCache';
+import { paraswapQuotes } from '../test/actions/swap/swapCache';
+import { zeroExQuotes } from '../test/actions/swap/zeroExCache';
+import { FORK_BLOCK_NUMBER } from '../test/constants';
+import {
+  DEFAULT_BLOCK_TOLERANCE,
+  QuoteCacheEntry,
+  QuoteProvider,
+  invalidateQuotes,
+  loadQuoteCache,
+  pruneQuoteCache,
+  saveQuoteCache,
+} from '../test/quote-cache';
+
+// Lists, prunes and invalidates the cached third-party quotes (test/quote-cache.ts)
+// Usage:
+// npx ts-node scripts/quote-cache.ts list|prune|invalidate
+//
+// list:       prints every entry with its block distance to BLOCK_NUMBER
+// prune:      removes the entries too far from BLOCK_NUMBER to be used, and duplicates farther from it
+// invalidate: removes the entries involving TOKEN (either side) and whose key contains KEY,
+//             every entry of the selected providers if neither is set
+// PROVIDER (paraswap, zeroEx or nexusMutual) selects one provider, all by default.
+// BLOCK_NUMBER defaults to the fork block, DRY_RUN=true prints the changes without saving them.
+
+const PROVIDERS: QuoteProvider<never, unknown>[] = [
+  paraswapQuotes,
+  zeroExQuotes,
+  nexusMutualQuotes,
+];
+
+function getProviders() {
+  const name = process.env.PROVIDER;
+  if (!name) {
+    return PROVIDERS;
+  }
+  const provider = PROVIDERS.find((p) => p.name.toLowerCase() === name.toLowerCase());
+  if (!provider) {
+    const names = PROVIDERS.map((p) => p.name).join(', ');
+    throw new Error(`Unknown provider: ${name}, expected one of ${names}`);
+  }
+  return [provider];
+}
+
+function formatEntry(entry: QuoteCacheEntry, blockNumber: number): string {
+  const distance = entry.blockNumber - blockNumber;
+  const offset = distance >= 0 ? `+${distance}` : `${distance}`;
+  const recorded = new Date(entry.timestamp).toISOString();
+  return `  ${entry.key}  block ${entry.blockNumber} (${offset}), recorded ${recorded}`;
+}
+
+async function main() {
+  const command = process.argv[2];
+  if (!['list', 'prune', 'invalidate'].includes(command)) {
+    throw new Error(`Unknown command: ${command}, expected list, prune or invalidate`);
+  }
+  const blockNumber = Number(process.env.BLOCK_NUMBER ?? FORK_BLOCK_NUMBER);
+  const dryRun = process.env.DRY_RUN === 'true';
+
+  for (const provider of getProviders()) {
+    const cache = loadQuoteCache(provider);
+    const tolerance = provider.blockTolerance ?? DEFAULT_BLOCK_TOLERANCE;
+    console.log(`${provider.name}: ${cache.entries.length} entries in ${provider.cacheFile}`);
+
+    if (command === 'list') {
+      cache.entries.forEach((entry) => console.log(formatEntry(entry, blockNumber)));
+      continue;
+    }
+
+    const removed =
+      command === 'prune'
+        ? pruneQuoteCache(cache, blockNumber, tolerance)
+        : invalidateQuotes(cache, { token: process.env.TOKEN, key: process.env.KEY });
+    removed.forEach((entry) => console.log(`- ${formatEntry(entry, blockNumber).trim()}`));
+    console.log(`${removed.length} entries removed${dryRun ? ' (dry run)' : ''}`);
+    if (removed.length > 0 && !dryRun) {
+      saveQuoteCache(provider.cacheFile, cache);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
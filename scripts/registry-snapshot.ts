@@ -0,0 +1,89 @@
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import {
+  RegistrySnapshot,
+  diffRegistrySnapshots,
+  formatRegisteredAction,
+  formatRegisteredPool,
+  formatRegistryDiff,
+  getRegistrySnapshot,
+  loadRegistrySnapshot,
+  saveRegistrySnapshot,
+} from '../test/registry-snapshot';
+import { AdminVault } from '../typechain-types';
+import { loadLedger } from './deployments/ledger';
+
+// Snapshots the actions and pools registered in an AdminVault, and diffs snapshots
+// Usage:
+// SNAPSHOT_FILE=registry-mainnet.json npx hardhat run scripts/registry-snapshot.ts --network mainnet
+// COMPARE_FILE=registry-staging.json npx hardhat run scripts/registry-snapshot.ts --network mainnet
+// BEFORE_FILE=before.json AFTER_FILE=after.json npx hardhat run scripts/registry-snapshot.ts
+// ADMIN_VAULT_ADDRESS defaults to the AdminVault in the network's deployment ledger, whose pool
+// protocols are also used to name protocol IDs. FROM_BLOCK (default 0) should be at or before the
+// AdminVault deployment, TO_BLOCK defaults to the latest block and BATCH_SIZE to 2000.
+// SNAPSHOT_FILE saves the snapshot, COMPARE_FILE diffs a saved snapshot against it.
+// BEFORE_FILE and AFTER_FILE diff two saved snapshots without connecting to the network.
+
+async function takeSnapshot(): Promise<RegistrySnapshot> {
+  const ledger = await loadLedger();
+  const adminVaultAddress =
+    process.env.ADMIN_VAULT_ADDRESS ??
+    ledger.external.AdminVault ??
+    ledger.contracts.AdminVault?.address;
+  if (!adminVaultAddress) {
+    throw new Error('ADMIN_VAULT_ADDRESS is required when the ledger has no AdminVault');
+  }
+  const adminVault = (await ethers.getContractAt(
+    'AdminVault',
+    adminVaultAddress
+  )) as unknown as AdminVault;
+
+  return getRegistrySnapshot(adminVault, {
+    fromBlock: Number(process.env.FROM_BLOCK ?? 0),
+    toBlock: process.env.TO_BLOCK ? Number(process.env.TO_BLOCK) : undefined,
+    batchSize: process.env.BATCH_SIZE ? Number(process.env.BATCH_SIZE) : undefined,
+    protocolNames: Object.values(ledger.pools).map((pool) => pool.protocol),
+  });
+}
+
+async function main() {
+  if (process.env.BEFORE_FILE && process.env.AFTER_FILE) {
+    const diff = diffRegistrySnapshots(
+      loadRegistrySnapshot(process.env.BEFORE_FILE),
+      loadRegistrySnapshot(process.env.AFTER_FILE)
+    );
+    console.log(formatRegistryDiff(diff));
+    return;
+  }
+
+  const snapshot = await takeSnapshot();
+  const pools = Object.values(snapshot.pools).flatMap((protocolPools) =>
+    Object.values(protocolPools)
+  );
+  const actions = Object.values(snapshot.actions);
+  console.log(
+    `${actions.length} actions and ${pools.length} pools at block ${snapshot.blockNumber}`
+  );
+  actions.forEach((action) => console.log(`  ${formatRegisteredAction(action)}`));
+  pools.forEach((pool) => console.log(`  ${formatRegisteredPool(pool)}`));
+  for (const issue of snapshot.issues) {
+    console.log(`Issue: ${issue}`);
+  }
+
+  if (process.env.SNAPSHOT_FILE) {
+    saveRegistrySnapshot(process.env.SNAPSHOT_FILE, snapshot);
+    console.log(`Snapshot written to ${process.env.SNAPSHOT_FILE}`);
+  }
+  if (process.env.COMPARE_FILE) {
+    const diff = diffRegistrySnapshots(loadRegistrySnapshot(process.env.COMPARE_FILE), snapshot);
+    console.log(`\nChanges from ${process.env.COMPARE_FILE}:`);
+    console.log(formatRegistryDiff(diff));
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
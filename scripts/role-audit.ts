@@ -0,0 +1,58 @@
+import fs from 'fs';
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import { formatRoleAuditMarkdown, getRoleAudit } from '../test/role-audit';
+import { AdminVault } from '../typechain-types';
+import { loadLedger } from './deployments/ledger';
+
+// Prints the role holders, pending role proposals, delay and proposer/executor conflicts of an AdminVault
+// Usage:
+// JSON_FILE=role-audit.json MARKDOWN_FILE=role-audit.md npx hardhat run scripts/role-audit.ts --network mainnet
+// ADMIN_VAULT_ADDRESS defaults to the AdminVault in the network's deployment ledger.
+// FROM_BLOCK (default 0) should be at or before the AdminVault deployment, TO_BLOCK defaults to the
+// latest block and BATCH_SIZE (blocks per eth_getLogs request) to 2000.
+// The Markdown report is always printed, JSON_FILE and MARKDOWN_FILE also write it to disk.
+
+async function main() {
+  const ledger = await loadLedger();
+  const adminVaultAddress =
+    process.env.ADMIN_VAULT_ADDRESS ??
+    ledger.external.AdminVault ??
+    ledger.contracts.AdminVault?.address;
+  if (!adminVaultAddress) {
+    throw new Error('ADMIN_VAULT_ADDRESS is required when the ledger has no AdminVault');
+  }
+  const adminVault = (await ethers.getContractAt(
+    'AdminVault',
+    adminVaultAddress
+  )) as unknown as AdminVault;
+
+  const report = await getRoleAudit(adminVault, {
+    fromBlock: Number(process.env.FROM_BLOCK ?? 0),
+    toBlock: process.env.TO_BLOCK ? Number(process.env.TO_BLOCK) : undefined,
+    batchSize: process.env.BATCH_SIZE ? Number(process.env.BATCH_SIZE) : undefined,
+  });
+  const markdown = formatRoleAuditMarkdown(report);
+  console.log(markdown);
+
+  if (process.env.JSON_FILE) {
+    fs.writeFileSync(process.env.JSON_FILE, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`Report written to ${process.env.JSON_FILE}`);
+  }
+  if (process.env.MARKDOWN_FILE) {
+    fs.writeFileSync(process.env.MARKDOWN_FILE, markdown);
+    console.log(`Report written to ${process.env.MARKDOWN_FILE}`);
+  }
+  if (report.conflicts.length > 0) {
+    console.log(
+      `${report.conflicts.length} accounts hold a proposer and executor role of the same family`
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,86 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import 'dotenv/config';
+import { FORK_BLOCK_NUMBER } from '../test/constants';
+import {
+  DEFAULT_RPC_FIXTURE,
+  RpcCacheMode,
+  createRpcFixture,
+  loadRpcFixture,
+  saveRpcFixture,
+  startRpcCacheProxy,
+} from '../test/rpc-cache';
+
+// Runs the forked test suites through the RPC cache proxy (test/rpc-cache.ts)
+// Usage:
+// RPC_CACHE_MODE=record npm run test:cached -- --grep Curve    record the responses the tests need
+// npm run test:cached -- --grep Curve                          replay the recorded fixture
+// RPC_CACHE_FILE defaults to test/fixtures/mainnet-fork.json.gz, which is not committed and has to
+// be recorded (with RPC access) before anything can be replayed. Recording adds to the fixture, or
+// starts a new one when FORK_BLOCK_NUMBER (test/constants.ts) has changed, and forwards misses to
+// RPC_CACHE_UPSTREAM, which defaults to the Tenderly gateway with TENDERLY_API_KEY.
+// Recording clears hardhat's own fork cache first, otherwise its hits never reach the proxy.
+
+async function main() {
+  const mode = (process.env.RPC_CACHE_MODE ?? 'replay') as RpcCacheMode;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`RPC_CACHE_MODE must be record or replay, got ${mode}`);
+  }
+  const fixtureFile = process.env.RPC_CACHE_FILE ?? DEFAULT_RPC_FIXTURE;
+
+  let fixture = loadRpcFixture(fixtureFile);
+  if (fixture && fixture.blockNumber !== FORK_BLOCK_NUMBER) {
+    if (mode === 'replay') {
+      throw new Error(
+        `${fixtureFile} was recorded at block ${fixture.blockNumber}, the fork is pinned at ${FORK_BLOCK_NUMBER}. Re-record it with RPC_CACHE_MODE=record`
+      );
+    }
+    console.log(`Fork block changed from ${fixture.blockNumber}, recording a new fixture`);
+    fixture = undefined;
+  }
+  if (!fixture) {
+    if (mode === 'replay') {
+      throw new Error(`${fixtureFile} does not exist, record it with RPC_CACHE_MODE=record`);
+    }
+    fixture = createRpcFixture(FORK_BLOCK_NUMBER);
+  }
+
+  const upstreamUrl =
+    process.env.RPC_CACHE_UPSTREAM ??
+    'https://mainnet.gateway.tenderly.co/' + process.env.TENDERLY_API_KEY;
+  if (mode === 'record') {
+    fs.rmSync(path.join(__dirname, '..', 'cache', 'hardhat-network-fork'), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  const proxy = await startRpcCacheProxy({ fixture, mode, upstreamUrl });
+  console.log(`RPC cache proxy (${mode}) listening on ${proxy.url}`);
+
+  const exitCode = await new Promise<number>((resolve, reject) => {
+    const child = spawn('npx', ['hardhat', 'test', ...process.argv.slice(2)], {
+      stdio: 'inherit',
+      env: { ...process.env, FORK_RPC_URL: proxy.url },
+    });
+    child.on('error', reject);
+    child.on('exit', (code) => resolve(code ?? 1));
+  });
+  await proxy.close();
+
+  const { hits, misses, recorded } = proxy.stats;
+  console.log(`RPC cache: ${hits} hits, ${misses} misses, ${recorded} responses recorded`);
+  if (mode === 'record' && recorded > 0) {
+    saveRpcFixture(fixtureFile, fixture);
+    console.log(`Fixture written to ${fixtureFile}`);
+  }
+  process.exitCode = exitCode;
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,15 +1,21 @@
 import { ethers } from 'hardhat';
-import { constants } from '../tests';
+import { constants } from '../test';
 import { deposit } from './deposit';
+import { getScriptSigner, getSendingSigner } from './deployments/signers';
 import { approveTokenForSafe, deploySafeForSigner } from './safe-setup';
 import { deployAndFundTestnet } from './testnet-deploy-and-fund';
 
 async function testnetSetup() {
-  const [deployer, ...testAccounts] = await ethers.getSigners();
+  const deployer = getSendingSigner(
+    await getScriptSigner({ provider: ethers.provider, getAccounts: () => ethers.getSigners() }),
+    'Deployments'
+  );
+  // The funded test accounts are the hardhat accounts after the first
+  const [, ...testAccounts] = await ethers.getSigners();
   const contracts = await deployAndFundTestnet(deployer, testAccounts);
   const safeAddress = await deploySafeForSigner(
     testAccounts[0],
-    await contracts.baseSetup.safeProxyFactory.getAddress()
+    constants.SAFE_PROXY_FACTORY_ADDRESS
   );
 
   // Approve USDC for the Safe
@@ -27,7 +33,7 @@ async function testnetSetup() {
   await deposit(
     testAccounts[0],
     safeAddress,
-    await contracts.sequenceExecutor.getAddress(),
+    await contracts.baseSetup.sequenceExecutor.getAddress(),
     pool,
     depositAmount,
     strategyId
@@ -44,7 +50,7 @@ async function testnetSetup() {
   await deposit(
     testAccounts[0],
     safeAddress,
-    await contracts.sequenceExecutor.getAddress(),
+    await contracts.baseSetup.sequenceExecutor.getAddress(),
     'fluid-usdt-5',
     depositAmount,
     strategyId
@@ -0,0 +1,56 @@
+import { ethers } from 'hardhat';
+import 'dotenv/config';
+import { loadLedger } from './deployments/ledger';
+import {
+  decodeSafeBatch,
+  formatDecodedCall,
+  getMultiSendTransaction,
+  loadSafeBatch,
+} from './deployments/safe-batch';
+
+// Decodes a Safe Transaction Builder batch into readable AdminVault/TokenRegistry/SafeSetupRegistry
+// calls, so signers can review what they are approving
+// Usage:
+// SAFE_BATCH_FILE=batch.json npx hardhat run scripts/verify-safe-batch.ts --network mainnet
+// Addresses in the network's deployment ledger are used to label arguments and to check that
+// every call goes to the expected contract.
+
+async function main() {
+  const file = process.env.SAFE_BATCH_FILE;
+  if (!file) {
+    throw new Error('SAFE_BATCH_FILE is required');
+  }
+  const batch = loadSafeBatch(file);
+  const ledger = await loadLedger();
+
+  const addresses: Record<string, string> = { ...ledger.external };
+  for (const [name, entry] of Object.entries(ledger.contracts)) {
+    addresses[name] = entry.address;
+  }
+
+  console.log(`Batch: ${batch.meta.name}`);
+  console.log(`Safe: ${batch.meta.createdFromSafeAddress}`);
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  if (batch.chainId !== chainId.toString()) {
+    console.log(`WARNING: batch is for chain ${batch.chainId}, connected to chain ${chainId}`);
+  }
+
+  const calls = decodeSafeBatch(batch, addresses);
+  calls.forEach((call, i) => console.log(formatDecodedCall(call, i)));
+
+  const multiSend = getMultiSendTransaction(batch);
+  console.log(`MultiSendCallOnly data hash: ${ethers.keccak256(multiSend.data)}`);
+
+  const warnings = calls.reduce((total, call) => total + call.warnings.length, 0);
+  console.log(`${calls.length} calls, ${warnings} warnings`);
+  if (warnings > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,81 @@
+import { ethers, expect } from '.';
+import {
+  ActionEncoderContext,
+  decodeActionCall,
+  encodeActionCall,
+  encodeActionCallForTypedData,
+  getActionEncoder,
+} from './action-encoders';
+import { actionDefaults } from './actions';
+import { CURVE_3POOL_INDICES, tokenConfig } from './constants';
+import { getBytes4 } from './shared-utils';
+
+describe('Action encoder tests', () => {
+  const context: ActionEncoderContext = {
+    getActionAddress: () => ethers.ZeroAddress,
+    getSafeAddress: async () => ethers.ZeroAddress,
+  };
+
+  it('Should encode and decode actions using the encoding of their defaults', async () => {
+    const callData = await encodeActionCall(
+      { type: 'FluidV1Supply', amount: 1000n, minSharesReceived: 1n },
+      context
+    );
+    const [poolId, feeBasis, amount, minSharesReceived] = decodeActionCall(
+      'FluidV1Supply',
+      callData
+    );
+    expect(poolId).to.equal(getBytes4(tokenConfig.FLUID_V1_USDC.address));
+    expect(feeBasis).to.equal(0n);
+    expect(amount).to.equal(1000n);
+    expect(minSharesReceived).to.equal(1n);
+  });
+
+  it('Should encode actions without defaults encoding from their generated Params struct', async () => {
+    const callData = await encodeActionCall(
+      { type: 'GasRefundAction', refundToken: tokenConfig.USDC.address, maxRefundAmount: 5n },
+      context
+    );
+    const decoded = decodeActionCall('GasRefundAction', callData);
+    expect(decoded.refundToken).to.equal(tokenConfig.USDC.address);
+    expect(decoded.maxRefundAmount).to.equal(5n);
+    expect(decoded.refundRecipient).to.equal(0n);
+  });
+
+  it('Should map Curve tokens to their pool indices', async () => {
+    const callData = await encodeActionCall(
+      { type: 'Curve3PoolSwap', tokenIn: 'DAI', tokenOut: 'USDT', amount: 10n },
+      context
+    );
+    const [fromToken, toToken] = decodeActionCall('Curve3PoolSwap', callData);
+    expect(fromToken).to.equal(BigInt(CURVE_3POOL_INDICES.DAI));
+    expect(toToken).to.equal(BigInt(CURVE_3POOL_INDICES.USDT));
+
+    await expect(
+      encodeActionCall(
+        { type: 'Curve3PoolSwap', tokenIn: 'WETH', tokenOut: 'USDT', amount: 10n },
+        context
+      )
+    ).to.be.rejectedWith('Invalid token parameter for Curve3PoolSwap');
+  });
+
+  it('Should use the bare CCTP input in typed data sequences', async () => {
+    const callData = await encodeActionCall(actionDefaults.CCTPBridgeSend, context);
+    const typedDataCallData = await encodeActionCallForTypedData(
+      actionDefaults.CCTPBridgeSend,
+      context
+    );
+    const [inputs] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ['bytes', 'uint16'],
+      ethers.dataSlice(callData, 4)
+    );
+    expect(typedDataCallData).to.equal(inputs);
+    expect(decodeActionCall('CCTPBridgeSend', typedDataCallData).toArray()).to.deep.equal(
+      decodeActionCall('CCTPBridgeSend', callData).toArray()
+    );
+  });
+
+  it('Should reject actions without an encoder', async () => {
+    expect(() => getActionEncoder('UnknownV1Supply')).to.throw('No encoding found');
+  });
+});
@@ -0,0 +1,448 @@
+import { CoverAsset } from '@nexusmutual/sdk';
+import * as bravaSdk from 'brava-ts-client';
+import { Interface, Result } from 'ethers';
+import { ethers } from 'hardhat';
+import { getCoverQuote } from './actions/nexus-mutual/nexusCache';
+import { ActionParamsMap } from './action-registry';
+import {
+  ActionArgs,
+  actionDefaults,
+  decodeActionInputs,
+  encodeActionInputs,
+  hasActionParams,
+} from './actions';
+import { CURVE_3POOL_INDICES, tokenConfig } from './constants';
+import {
+  BuyCoverInputTypes,
+  NexusMutualBuyCoverParamTypes,
+  NexusMutualPoolAllocationRequestTypes,
+  ParaswapSwapParams,
+} from './params';
+import { getBytes4, log } from './shared-utils';
+
+/**
+ * Action encoders
+ *
+ * Each action type is encoded by the ActionEncoder registered for it. encodeAction and
+ * encodeActionWithTypedData in test/utils.ts merge the action defaults and dispatch here, so an
+ * action with unusual inputs registers its own encoder instead of adding a case to a shared function.
+ * Actions without a registered encoder use the `encoding` of their defaults, or their generated
+ * Params struct (test/action-registry.ts) when they have no `encoding`.
+ */
+
+// The args of an action type, also for args interfaces shared by several action types
+export type ActionArgsOf<T extends ActionArgs['type']> = ActionArgs extends infer A
+  ? A extends { type: infer U }
+    ? [T] extends [U]
+      ? A
+      : never
+    : never
+  : never;
+
+// What the encoders need from the test environment
+export interface ActionEncoderContext {
+  // Address of the deployed action, throws when the action is not deployed
+  getActionAddress(actionType: string): string;
+  // The Safe that executes the actions
+  getSafeAddress(): Promise<string>;
+}
+
+export interface ActionEncoder<T extends ActionArgs = ActionArgs> {
+  // Throws when the args (merged with the action defaults) can't be encoded
+  validate(args: T): void;
+  // Encodes the bytes the action decodes in executeAction
+  encodeInputs(args: T, context: ActionEncoderContext): Promise<string>;
+  // Decodes bytes produced by encodeInputs
+  decodeInputs(inputs: string): Result;
+  // Strategy ID passed to executeAction, defaults to 42
+  strategyId?: number;
+  // Call data put in a typed data sequence, defaults to the executeAction call data
+  encodeForTypedData?(args: T, context: ActionEncoderContext): Promise<string>;
+}
+
+const ACTION_INTERFACE = new Interface([
+  'function executeAction(bytes _callData, uint16 _strategyId)',
+]);
+const DEFAULT_STRATEGY_ID = 42;
+
+const encoders: Partial<Record<string, ActionEncoder>> = {};
+
+/**
+ * Registers the encoder for an action type, replacing the default encoding
+ * @param actionType The action type (contract name)
+ * @param encoder The encoder
+ */
+export function registerActionEncoder<T extends ActionArgs['type']>(
+  actionType: T,
+  encoder: ActionEncoder<ActionArgsOf<T>>
+): void {
+  encoders[actionType] = encoder;
+}
+
+/**
+ * Returns the encoder for an action type
+ * @param actionType The action type (contract name)
+ * @returns The registered encoder, or the default encoder for the action
+ */
+export function getActionEncoder(actionType: string): ActionEncoder {
+  const registered = encoders[actionType];
+  if (registered) {
+    return registered;
+  }
+  if (actionDefaults[actionType]?.encoding) {
+    return createDefaultsEncoder(actionType);
+  }
+  if (hasActionParams(actionType)) {
+    return createGeneratedEncoder(actionType);
+  }
+  throw new Error(`No encoding found for action type: ${actionType}`);
+}
+
+function mergeDefaults(args: ActionArgs): ActionArgs {
+  const defaults = actionDefaults[args.type];
+  if (!defaults) {
+    throw new Error(`Unknown action type: ${args.type}`);
+  }
+  return { ...defaults, ...args } as ActionArgs;
+}
+
+// Reads an arg by the name listed in sdkArgs or encodingVariables
+function getArg(args: ActionArgs, name: string): unknown {
+  return Object.entries(args).find(([key]) => key === name)?.[1];
+}
+
+type SdkActionClass = new (...args: unknown[]) => { encodeArgs(): string };
+
+async function encodeWithSdk(args: ActionArgs): Promise<string> {
+  const ActionClass: unknown = Reflect.get(bravaSdk, `${args.type}Action`);
+  if (typeof ActionClass !== 'function') {
+    throw new Error(`Brava SDK function not found for action type: ${args.type}`);
+  }
+  // Use sdkArgs to order the arguments correctly
+  const orderedArgs = args.sdkArgs?.map((argName) => getArg(args, argName)) || [];
+  return new (ActionClass as SdkActionClass)(...orderedArgs).encodeArgs();
+}
+
+/**
+ * Encodes the executeAction call data for an action
+ * Actions without a registered encoder are encoded with the Brava SDK when useSDK is set
+ * @param args The action args, missing values are taken from the action defaults
+ * @param context The test environment
+ * @returns The executeAction call data
+ */
+export async function encodeActionCall(
+  args: ActionArgs,
+  context: ActionEncoderContext
+): Promise<string> {
+  const mergedArgs = mergeDefaults(args);
+  if (mergedArgs.useSDK && !encoders[args.type]) {
+    return encodeWithSdk(mergedArgs);
+  }
+
+  const encoder = getActionEncoder(args.type);
+  encoder.validate(mergedArgs);
+  const inputs = await encoder.encodeInputs(mergedArgs, context);
+  const actionAddress = context.getActionAddress(args.type);
+  const payload = ACTION_INTERFACE.encodeFunctionData('executeAction', [
+    inputs,
+    encoder.strategyId ?? DEFAULT_STRATEGY_ID,
+  ]);
+  log('Action contract:', actionAddress);
+  log('Encoded payload:', payload);
+  return payload;
+}
+
+/**
+ * Encodes the call data for an action in a typed data sequence
+ * @param args The action args, missing values are taken from the action defaults
+ * @param context The test environment
+ * @returns The sequence call data
+ */
+export async function encodeActionCallForTypedData(
+  args: ActionArgs,
+  context: ActionEncoderContext
+): Promise<string> {
+  const encoder = encoders[args.type];
+  if (!encoder?.encodeForTypedData) {
+    return encodeActionCall(args, context);
+  }
+  const mergedArgs = mergeDefaults(args);
+  encoder.validate(mergedArgs);
+  return encoder.encodeForTypedData(mergedArgs, context);
+}
+
+/**
+ * Decodes the input of an action
+ * @param actionType The action type (contract name)
+ * @param callData The executeAction call data, or the encoded input itself
+ * @returns The decoded input
+ */
+export function decodeActionCall(actionType: string, callData: string): Result {
+  const executeAction = ACTION_INTERFACE.getFunction('executeAction')!;
+  const inputs = callData.startsWith(executeAction.selector)
+    ? ACTION_INTERFACE.decodeFunctionData(executeAction, callData)[0]
+    : callData;
+  return getActionEncoder(actionType).decodeInputs(inputs);
+}
+
+// Encoding variables that are derived from other args when they are not given directly
+const derivedVariables: Record<string, (args: ActionArgs) => unknown> = {
+  poolId: (args) => {
+    if ('poolId' in args && args.poolId !== undefined) {
+      return args.poolId;
+    }
+    if ('poolAddress' in args && args.poolAddress) {
+      return getBytes4(args.poolAddress);
+    }
+    throw new Error(`Missing required parameter: poolId or poolAddress for ${args.type}`);
+  },
+};
+
+function getEncodingValues(args: ActionArgs): unknown[] {
+  const { encoding } = args;
+  if (!encoding) {
+    throw new Error(`No encoding found for action type: ${args.type}`);
+  }
+  return encoding.encodingVariables.map((variable) => {
+    const value = derivedVariables[variable]?.(args) ?? getArg(args, variable);
+    if (value === undefined) {
+      throw new Error(`Missing required parameter: ${variable} for ${args.type}`);
+    }
+    return value;
+  });
+}
+
+// Encodes the `encoding.encodingVariables` of the args as `encoding.inputParams`
+function createDefaultsEncoder(actionType: string): ActionEncoder {
+  return {
+    validate: (args) => {
+      getEncodingValues(args);
+    },
+    encodeInputs: async (args) => {
+      const { inputParams } = args.encoding!;
+      const values = getEncodingValues(args);
+      log('Encoding action:', actionType);
+      log('Encoding params:', inputParams);
+      log('Encoding values:', values);
+      return ethers.AbiCoder.defaultAbiCoder().encode(inputParams, values);
+    },
+    decodeInputs: (inputs) =>
+      ethers.AbiCoder.defaultAbiCoder().decode(
+        actionDefaults[actionType].encoding!.inputParams,
+        inputs
+      ),
+  };
+}
+
+// Encodes the args as the generated Params struct of the action
+function createGeneratedEncoder(actionType: string): ActionEncoder {
+  if (!hasActionParams(actionType)) {
+    throw new Error(`No encoding found for action type: ${actionType}`);
+  }
+  return {
+    validate: () => {},
+    encodeInputs: async (args) =>
+      encodeActionInputs(actionType, args as Partial<ActionParamsMap[typeof actionType]>),
+    decodeInputs: (inputs) => decodeActionInputs(actionType, inputs),
+  };
+}
+
+function getTokenAddress(token: string | undefined, actionType: string): string {
+  if (!token || !(token in tokenConfig)) {
+    throw new Error(`Unknown token ${token} for ${actionType}`);
+  }
+  return tokenConfig[token as keyof typeof tokenConfig].address;
+}
+
+function getCurveIndex(token: string): number {
+  if (!(token in CURVE_3POOL_INDICES)) {
+    throw new Error('Invalid token parameter for Curve3PoolSwap');
+  }
+  return CURVE_3POOL_INDICES[token as keyof typeof CURVE_3POOL_INDICES];
+}
+
+const CURVE_INPUT_TYPES = ['int128', 'int128', 'uint256', 'uint256'];
+
+registerActionEncoder('Curve3PoolSwap', {
+  validate: (args) => {
+    getCurveIndex(args.tokenIn);
+    getCurveIndex(args.tokenOut);
+  },
+  encodeInputs: async (args) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(CURVE_INPUT_TYPES, [
+      getCurveIndex(args.tokenIn),
+      getCurveIndex(args.tokenOut),
+      args.amount,
+      args.minAmount,
+    ]),
+  decodeInputs: (inputs) => ethers.AbiCoder.defaultAbiCoder().decode(CURVE_INPUT_TYPES, inputs),
+});
+
+const TOKEN_TRANSFER_INPUT_TYPES = ['address', 'address', 'uint256'];
+
+function createTokenTransferEncoder(
+  counterparty: 'from' | 'to'
+): ActionEncoder<ActionArgsOf<'PullToken' | 'SendToken'>> {
+  const getValues = (args: ActionArgsOf<'PullToken' | 'SendToken'>) => {
+    const tokenAddress = args.tokenAddress ?? (args.token && tokenConfig[args.token]?.address);
+    if (!tokenAddress) {
+      throw new Error(`Missing required parameter: token for ${args.type}`);
+    }
+    if (args[counterparty] === undefined) {
+      throw new Error(`Missing required parameter: ${counterparty} for ${args.type}`);
+    }
+    return [tokenAddress, args[counterparty], args.amount];
+  };
+  return {
+    validate: (args) => {
+      getValues(args);
+    },
+    encodeInputs: async (args) =>
+      ethers.AbiCoder.defaultAbiCoder().encode(TOKEN_TRANSFER_INPUT_TYPES, getValues(args)),
+    decodeInputs: (inputs) =>
+      ethers.AbiCoder.defaultAbiCoder().decode(TOKEN_TRANSFER_INPUT_TYPES, inputs),
+  };
+}
+
+registerActionEncoder('PullToken', createTokenTransferEncoder('from'));
+registerActionEncoder('SendToken', createTokenTransferEncoder('to'));
+
+registerActionEncoder('ParaswapSwap', {
+  strategyId: 1,
+  validate: (args) => {
+    getTokenAddress(args.tokenIn, args.type);
+    getTokenAddress(args.tokenOut, args.type);
+  },
+  encodeInputs: async (args) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      [ParaswapSwapParams],
+      [
+        {
+          ...args,
+          tokenInAddress: getTokenAddress(args.tokenIn, args.type),
+          tokenOutAddress: getTokenAddress(args.tokenOut, args.type),
+        },
+      ]
+    ),
+  decodeInputs: (inputs) => ethers.AbiCoder.defaultAbiCoder().decode([ParaswapSwapParams], inputs),
+});
+
+const ZERO_EX_INPUT_TYPE = 'tuple(address,address,uint256,uint256,uint256,address,bytes)';
+
+registerActionEncoder('ZeroExSwap', {
+  validate: (args) => {
+    for (const field of ['tokenIn', 'tokenOut', 'swapTarget'] as const) {
+      if (!ethers.isAddress(args[field])) {
+        throw new Error(`Missing required parameter: ${field} for ZeroExSwap`);
+      }
+    }
+  },
+  encodeInputs: async (args) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      [ZERO_EX_INPUT_TYPE],
+      [
+        [
+          args.tokenIn,
+          args.tokenOut,
+          args.fromAmount,
+          args.minToAmount,
+          args.value ?? 0,
+          args.swapTarget,
+          args.swapCallData,
+        ],
+      ]
+    ),
+  decodeInputs: (inputs) => ethers.AbiCoder.defaultAbiCoder().decode([ZERO_EX_INPUT_TYPE], inputs),
+});
+
+const CCTP_INPUT_TYPES = [
+  'address usdcToken',
+  'uint256 amount',
+  'uint32 destinationDomain',
+  'bytes32 destinationCaller',
+  'uint256 maxFee',
+  'uint32 minFinalityThreshold',
+];
+
+function encodeCCTPInputs(args: ActionArgsOf<'CCTPBridgeSend'>): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(CCTP_INPUT_TYPES, [
+    args.usdcToken,
+    args.amount,
+    args.destinationDomain,
+    ethers.zeroPadValue(args.destinationCaller, 32),
+    args.maxFee,
+    args.minFinalityThreshold,
+  ]);
+}
+
+// executeAction decodes the CCTPParamsV2 tuple, which has the same encoding as its fields since it
+// is static. In a typed data bundle the action reads the fields directly from the sequence call
+// data, so the bare input is used there instead of the executeAction call.
+registerActionEncoder('CCTPBridgeSend', {
+  validate: (args) => {
+    if (
+      !ethers.isHexString(args.destinationCaller) ||
+      ethers.dataLength(args.destinationCaller) > 32
+    ) {
+      throw new Error('Invalid destinationCaller for CCTPBridgeSend');
+    }
+  },
+  encodeInputs: async (args) => encodeCCTPInputs(args),
+  decodeInputs: (inputs) => ethers.AbiCoder.defaultAbiCoder().decode(CCTP_INPUT_TYPES, inputs),
+  encodeForTypedData: async (args) => encodeCCTPInputs(args),
+});
+
+function getCoverAssetDecimals(coverAsset: CoverAsset): number {
+  switch (coverAsset) {
+    case CoverAsset.DAI:
+      return tokenConfig.DAI.decimals;
+    case CoverAsset.USDC:
+      return tokenConfig.USDC.decimals;
+    default:
+      return 18;
+  }
+}
+
+// Nexus Mutual covers are priced by their API, the quote is cached by getCoverQuote
+registerActionEncoder('BuyCover', {
+  strategyId: 1,
+  validate: (args) => {
+    if (!args.amountToInsure || !args.daysToInsure) {
+      throw new Error('Missing required parameter: amountToInsure or daysToInsure for BuyCover');
+    }
+  },
+  encodeInputs: async (args, context) => {
+    const { productId, amountToInsure, daysToInsure, coverAsset, coverAddress } = args;
+
+    // Use coverAddress if provided, otherwise fall back to the safe
+    const coverOwnerAddress = coverAddress || (await context.getSafeAddress());
+    log('Cover owner address:', coverOwnerAddress);
+
+    // Parse the amount to the decimals of the cover asset
+    const coverAmount = ethers
+      .parseUnits(amountToInsure, getCoverAssetDecimals(coverAsset))
+      .toString();
+    const { buyCoverParams, poolAllocationRequests } = await getCoverQuote(
+      productId,
+      coverAmount,
+      daysToInsure,
+      coverAsset,
+      coverOwnerAddress
+    );
+
+    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+    return abiCoder.encode(
+      [BuyCoverInputTypes],
+      [
+        {
+          owner: coverOwnerAddress,
+          buyCoverParams: abiCoder.encode([NexusMutualBuyCoverParamTypes], [buyCoverParams]),
+          poolAllocationRequests: poolAllocationRequests.map((request) =>
+            abiCoder.encode([NexusMutualPoolAllocationRequestTypes], [request])
+          ),
+        },
+      ]
+    );
+  },
+  decodeInputs: (inputs) => ethers.AbiCoder.defaultAbiCoder().decode([BuyCoverInputTypes], inputs),
+});
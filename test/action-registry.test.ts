@@ -0,0 +1,50 @@
+import hre from 'hardhat';
+import { ethers, expect } from '.';
+import { collectActionMetadata } from '../scripts/codegen/action-registry';
+import { actionRegistry } from './action-registry';
+import {
+  actionTypes,
+  encodeActionInputs,
+  getActionTypeForProtocolAction,
+  getProtocolNameForAction,
+} from './actions';
+import { tokenConfig } from './constants';
+import { getBytes4 } from './shared-utils';
+
+describe('Action registry tests', () => {
+  it('Should match the compiled action contracts', async () => {
+    // If this fails, run: npx hardhat run scripts/generate-action-registry.ts
+    const collected = await collectActionMetadata(hre);
+    const registry = Object.entries(actionRegistry).map(([contract, metadata]) => ({
+      contract,
+      ...metadata,
+    }));
+    expect(JSON.parse(JSON.stringify(registry))).to.deep.equal(collected);
+  });
+
+  it('Should return the protocol name and action type reported by the contracts', async () => {
+    expect(getProtocolNameForAction('Curve3PoolSwap')).to.equal('Curve');
+    expect(getProtocolNameForAction('ZeroExSwap')).to.equal('0x');
+    expect(getProtocolNameForAction('BuyCover')).to.equal('Nexus');
+    expect(getProtocolNameForAction('MapleSupply')).to.equal('MapleV1');
+    expect(getActionTypeForProtocolAction('MapleWithdrawQueue')).to.equal(
+      actionTypes.WITHDRAW_ACTION
+    );
+    expect(getActionTypeForProtocolAction('UpgradeAction')).to.equal(actionTypes.CUSTOM_ACTION);
+  });
+
+  it('Should reject unknown actions instead of guessing', async () => {
+    expect(() => getProtocolNameForAction('UnknownV1Supply')).to.throw('Unknown action');
+  });
+
+  it('Should encode inputs like the hand written encodings', async () => {
+    const poolId = getBytes4(tokenConfig.FLUID_V1_USDC.address);
+    const expected = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes4', 'uint16', 'uint256', 'uint256'],
+      [poolId, 10, 1000, 0]
+    );
+    expect(encodeActionInputs('FluidV1Supply', { poolId, feeBasis: 10, amount: 1000 })).to.equal(
+      expected
+    );
+  });
+});
@@ -0,0 +1,769 @@
+// Generated by scripts/generate-action-registry.ts from the compiled action contracts, do not edit.
+// Re-run `npx hardhat run scripts/generate-action-registry.ts` after adding or changing an action.
+import { BigNumberish } from 'ethers';
+
+export interface AaveV2SupplyParams {
+  assetId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+}
+
+export interface AaveV2WithdrawParams {
+  assetId: string;
+  feeBasis: BigNumberish;
+  withdrawAmount: BigNumberish;
+}
+
+export interface AaveV3SupplyParams {
+  assetId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+}
+
+export interface AaveV3WithdrawParams {
+  assetId: string;
+  feeBasis: BigNumberish;
+  withdrawAmount: BigNumberish;
+}
+
+export interface AcrossV3SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface AcrossV3WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawAmount: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface BuyCoverParams {
+  owner: string;
+  buyCoverParams: string;
+  poolAllocationRequests: string[];
+}
+
+export interface Curve3PoolSwapParams {
+  fromToken: BigNumberish;
+  toToken: BigNumberish;
+  amountIn: BigNumberish;
+  minAmountOut: BigNumberish;
+}
+
+export interface CurveSavingsSupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface CurveSavingsWithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface EulerV2SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface EulerV2WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface FluidV1SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface FluidV1WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface GasRefundActionParams {
+  refundToken: string;
+  maxRefundAmount: BigNumberish;
+  refundRecipient: BigNumberish;
+}
+
+export interface GearboxPassiveV3SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface GearboxPassiveV3WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface MapleSupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface MapleWithdrawQueueParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  sharesToBurn: BigNumberish;
+  minUnderlyingReceived: BigNumberish;
+}
+
+export interface MorphoV1SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface MorphoV1WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface NotionalV3SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface NotionalV3WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  sharesToBurn: BigNumberish;
+  minUnderlyingReceived: BigNumberish;
+}
+
+export interface ParaswapSwapParams {
+  tokenIn: string;
+  tokenOut: string;
+  fromAmount: BigNumberish;
+  minToAmount: BigNumberish;
+  swapCallData: string;
+}
+
+export interface PullTokenParams {
+  tokenAddr: string;
+  from: string;
+  amount: BigNumberish;
+}
+
+export interface SendTokenParams {
+  tokenAddr: string;
+  to: string;
+  amount: BigNumberish;
+}
+
+export interface SparkV1SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface SparkV1WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface StrikeV1SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+}
+
+export interface StrikeV1WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawAmount: BigNumberish;
+}
+
+export interface VesperV1SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface VesperV1WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  sharesToBurn: BigNumberish;
+  minUnderlyingReceived: BigNumberish;
+}
+
+export interface YearnV2SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface YearnV2WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  sharesToBurn: BigNumberish;
+  minUnderlyingReceived: BigNumberish;
+}
+
+export interface YearnV3SupplyParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  amount: BigNumberish;
+  minSharesReceived: BigNumberish;
+}
+
+export interface YearnV3WithdrawParams {
+  poolId: string;
+  feeBasis: BigNumberish;
+  withdrawRequest: BigNumberish;
+  maxSharesBurned: BigNumberish;
+}
+
+export interface ZeroExSwapParams {
+  tokenIn: string;
+  tokenOut: string;
+  fromAmount: BigNumberish;
+  minToAmount: BigNumberish;
+  callValue: BigNumberish;
+  swapTarget: string;
+  swapCallData: string;
+}
+
+export interface ActionParamsMap {
+  AaveV2Supply: AaveV2SupplyParams;
+  AaveV2Withdraw: AaveV2WithdrawParams;
+  AaveV3Supply: AaveV3SupplyParams;
+  AaveV3Withdraw: AaveV3WithdrawParams;
+  AcrossV3Supply: AcrossV3SupplyParams;
+  AcrossV3Withdraw: AcrossV3WithdrawParams;
+  BuyCover: BuyCoverParams;
+  Curve3PoolSwap: Curve3PoolSwapParams;
+  CurveSavingsSupply: CurveSavingsSupplyParams;
+  CurveSavingsWithdraw: CurveSavingsWithdrawParams;
+  EulerV2Supply: EulerV2SupplyParams;
+  EulerV2Withdraw: EulerV2WithdrawParams;
+  FluidV1Supply: FluidV1SupplyParams;
+  FluidV1Withdraw: FluidV1WithdrawParams;
+  GasRefundAction: GasRefundActionParams;
+  GearboxPassiveV3Supply: GearboxPassiveV3SupplyParams;
+  GearboxPassiveV3Withdraw: GearboxPassiveV3WithdrawParams;
+  MapleSupply: MapleSupplyParams;
+  MapleWithdrawQueue: MapleWithdrawQueueParams;
+  MorphoV1Supply: MorphoV1SupplyParams;
+  MorphoV1Withdraw: MorphoV1WithdrawParams;
+  NotionalV3Supply: NotionalV3SupplyParams;
+  NotionalV3Withdraw: NotionalV3WithdrawParams;
+  ParaswapSwap: ParaswapSwapParams;
+  PullToken: PullTokenParams;
+  SendToken: SendTokenParams;
+  SparkV1Supply: SparkV1SupplyParams;
+  SparkV1Withdraw: SparkV1WithdrawParams;
+  StrikeV1Supply: StrikeV1SupplyParams;
+  StrikeV1Withdraw: StrikeV1WithdrawParams;
+  VesperV1Supply: VesperV1SupplyParams;
+  VesperV1Withdraw: VesperV1WithdrawParams;
+  YearnV2Supply: YearnV2SupplyParams;
+  YearnV2Withdraw: YearnV2WithdrawParams;
+  YearnV3Supply: YearnV3SupplyParams;
+  YearnV3Withdraw: YearnV3WithdrawParams;
+  ZeroExSwap: ZeroExSwapParams;
+}
+
+export const actionRegistry = {
+  AaveV2Supply: {
+    protocolName: 'AaveV2',
+    actionType: 0,
+    params: [
+      { name: 'assetId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  AaveV2Withdraw: {
+    protocolName: 'AaveV2',
+    actionType: 1,
+    params: [
+      { name: 'assetId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawAmount', type: 'uint256' },
+    ],
+  },
+  AaveV3Supply: {
+    protocolName: 'AaveV3',
+    actionType: 0,
+    params: [
+      { name: 'assetId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  AaveV3Withdraw: {
+    protocolName: 'AaveV3',
+    actionType: 1,
+    params: [
+      { name: 'assetId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawAmount', type: 'uint256' },
+    ],
+  },
+  AcrossV3Supply: {
+    protocolName: 'AcrossV3',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  AcrossV3Withdraw: {
+    protocolName: 'AcrossV3',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawAmount', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  BuyCover: {
+    protocolName: 'Nexus',
+    actionType: 3,
+    params: [
+      { name: 'owner', type: 'address' },
+      { name: 'buyCoverParams', type: 'bytes' },
+      { name: 'poolAllocationRequests', type: 'bytes[]' },
+    ],
+  },
+  CCTPBridgeSend: {
+    protocolName: 'CCTP_V2',
+    actionType: 12,
+    params: null,
+  },
+  Curve3PoolSwap: {
+    protocolName: 'Curve',
+    actionType: 2,
+    params: [
+      { name: 'fromToken', type: 'int128' },
+      { name: 'toToken', type: 'int128' },
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'minAmountOut', type: 'uint256' },
+    ],
+  },
+  CurveSavingsSupply: {
+    protocolName: 'CurveSavings',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  CurveSavingsWithdraw: {
+    protocolName: 'CurveSavings',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  EulerV2Supply: {
+    protocolName: 'EulerV2',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  EulerV2Withdraw: {
+    protocolName: 'EulerV2',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  FluidV1Supply: {
+    protocolName: 'FluidV1',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  FluidV1Withdraw: {
+    protocolName: 'FluidV1',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  GasRefundAction: {
+    protocolName: 'Brava',
+    actionType: 4,
+    params: [
+      { name: 'refundToken', type: 'address' },
+      { name: 'maxRefundAmount', type: 'uint256' },
+      { name: 'refundRecipient', type: 'uint8' },
+    ],
+  },
+  GearboxPassiveV3Supply: {
+    protocolName: 'GearboxPassiveV3',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  GearboxPassiveV3Withdraw: {
+    protocolName: 'GearboxPassiveV3',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  MapleSupply: {
+    protocolName: 'MapleV1',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  MapleWithdrawQueue: {
+    protocolName: 'MapleV1',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'sharesToBurn', type: 'uint256' },
+      { name: 'minUnderlyingReceived', type: 'uint256' },
+    ],
+  },
+  MorphoV1Supply: {
+    protocolName: 'MorphoV1',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  MorphoV1Withdraw: {
+    protocolName: 'MorphoV1',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  NotionalV3Supply: {
+    protocolName: 'NotionalV3',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  NotionalV3Withdraw: {
+    protocolName: 'NotionalV3',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'sharesToBurn', type: 'uint256' },
+      { name: 'minUnderlyingReceived', type: 'uint256' },
+    ],
+  },
+  ParaswapSwap: {
+    protocolName: 'Paraswap',
+    actionType: 2,
+    params: [
+      { name: 'tokenIn', type: 'address' },
+      { name: 'tokenOut', type: 'address' },
+      { name: 'fromAmount', type: 'uint256' },
+      { name: 'minToAmount', type: 'uint256' },
+      { name: 'swapCallData', type: 'bytes' },
+    ],
+  },
+  PullToken: {
+    protocolName: 'Brava',
+    actionType: 5,
+    params: [
+      { name: 'tokenAddr', type: 'address' },
+      { name: 'from', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  SendToken: {
+    protocolName: 'Brava',
+    actionType: 5,
+    params: [
+      { name: 'tokenAddr', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  SparkV1Supply: {
+    protocolName: 'SparkV1',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  SparkV1Withdraw: {
+    protocolName: 'SparkV1',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  StrikeV1Supply: {
+    protocolName: 'StrikeV1',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+  StrikeV1Withdraw: {
+    protocolName: 'StrikeV1',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawAmount', type: 'uint256' },
+    ],
+  },
+  UpgradeAction: {
+    protocolName: 'UpgradeAction',
+    actionType: 6,
+    params: null,
+  },
+  VesperV1Supply: {
+    protocolName: 'VesperV1',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  VesperV1Withdraw: {
+    protocolName: 'VesperV1',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'sharesToBurn', type: 'uint256' },
+      { name: 'minUnderlyingReceived', type: 'uint256' },
+    ],
+  },
+  YearnV2Supply: {
+    protocolName: 'YearnV2',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  YearnV2Withdraw: {
+    protocolName: 'YearnV2',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'sharesToBurn', type: 'uint256' },
+      { name: 'minUnderlyingReceived', type: 'uint256' },
+    ],
+  },
+  YearnV3Supply: {
+    protocolName: 'YearnV3',
+    actionType: 0,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'minSharesReceived', type: 'uint256' },
+    ],
+  },
+  YearnV3Withdraw: {
+    protocolName: 'YearnV3',
+    actionType: 1,
+    params: [
+      { name: 'poolId', type: 'bytes4' },
+      { name: 'feeBasis', type: 'uint16' },
+      { name: 'withdrawRequest', type: 'uint256' },
+      { name: 'maxSharesBurned', type: 'uint256' },
+    ],
+  },
+  ZeroExSwap: {
+    protocolName: '0x',
+    actionType: 2,
+    params: [
+      { name: 'tokenIn', type: 'address' },
+      { name: 'tokenOut', type: 'address' },
+      { name: 'fromAmount', type: 'uint256' },
+      { name: 'minToAmount', type: 'uint256' },
+      { name: 'callValue', type: 'uint256' },
+      { name: 'swapTarget', type: 'address' },
+      { name: 'swapCallData', type: 'bytes' },
+    ],
+  },
+} as const;
+
+// Zero values for every input, merged under the values passed to the builders
+export const actionParamDefaults: ActionParamsMap = {
+  AaveV2Supply: { assetId: '0x00000000', feeBasis: 0, amount: 0 },
+  AaveV2Withdraw: { assetId: '0x00000000', feeBasis: 0, withdrawAmount: 0 },
+  AaveV3Supply: { assetId: '0x00000000', feeBasis: 0, amount: 0 },
+  AaveV3Withdraw: { assetId: '0x00000000', feeBasis: 0, withdrawAmount: 0 },
+  AcrossV3Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  AcrossV3Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawAmount: 0, maxSharesBurned: 0 },
+  BuyCover: {
+    owner: '0x0000000000000000000000000000000000000000',
+    buyCoverParams: '0x',
+    poolAllocationRequests: [],
+  },
+  Curve3PoolSwap: { fromToken: 0, toToken: 0, amountIn: 0, minAmountOut: 0 },
+  CurveSavingsSupply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  CurveSavingsWithdraw: {
+    poolId: '0x00000000',
+    feeBasis: 0,
+    withdrawRequest: 0,
+    maxSharesBurned: 0,
+  },
+  EulerV2Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  EulerV2Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawRequest: 0, maxSharesBurned: 0 },
+  FluidV1Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  FluidV1Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawRequest: 0, maxSharesBurned: 0 },
+  GasRefundAction: {
+    refundToken: '0x0000000000000000000000000000000000000000',
+    maxRefundAmount: 0,
+    refundRecipient: 0,
+  },
+  GearboxPassiveV3Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  GearboxPassiveV3Withdraw: {
+    poolId: '0x00000000',
+    feeBasis: 0,
+    withdrawRequest: 0,
+    maxSharesBurned: 0,
+  },
+  MapleSupply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  MapleWithdrawQueue: {
+    poolId: '0x00000000',
+    feeBasis: 0,
+    sharesToBurn: 0,
+    minUnderlyingReceived: 0,
+  },
+  MorphoV1Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  MorphoV1Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawRequest: 0, maxSharesBurned: 0 },
+  NotionalV3Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  NotionalV3Withdraw: {
+    poolId: '0x00000000',
+    feeBasis: 0,
+    sharesToBurn: 0,
+    minUnderlyingReceived: 0,
+  },
+  ParaswapSwap: {
+    tokenIn: '0x0000000000000000000000000000000000000000',
+    tokenOut: '0x0000000000000000000000000000000000000000',
+    fromAmount: 0,
+    minToAmount: 0,
+    swapCallData: '0x',
+  },
+  PullToken: {
+    tokenAddr: '0x0000000000000000000000000000000000000000',
+    from: '0x0000000000000000000000000000000000000000',
+    amount: 0,
+  },
+  SendToken: {
+    tokenAddr: '0x0000000000000000000000000000000000000000',
+    to: '0x0000000000000000000000000000000000000000',
+    amount: 0,
+  },
+  SparkV1Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  SparkV1Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawRequest: 0, maxSharesBurned: 0 },
+  StrikeV1Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0 },
+  StrikeV1Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawAmount: 0 },
+  VesperV1Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  VesperV1Withdraw: {
+    poolId: '0x00000000',
+    feeBasis: 0,
+    sharesToBurn: 0,
+    minUnderlyingReceived: 0,
+  },
+  YearnV2Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  YearnV2Withdraw: { poolId: '0x00000000', feeBasis: 0, sharesToBurn: 0, minUnderlyingReceived: 0 },
+  YearnV3Supply: { poolId: '0x00000000', feeBasis: 0, amount: 0, minSharesReceived: 0 },
+  YearnV3Withdraw: { poolId: '0x00000000', feeBasis: 0, withdrawRequest: 0, maxSharesBurned: 0 },
+  ZeroExSwap: {
+    tokenIn: '0x0000000000000000000000000000000000000000',
+    tokenOut: '0x0000000000000000000000000000000000000000',
+    fromAmount: 0,
+    minToAmount: 0,
+    callValue: 0,
+    swapTarget: '0x0000000000000000000000000000000000000000',
+    swapCallData: '0x',
+  },
+};
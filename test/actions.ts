@@ -1,8 +1,10 @@
 import { CoverAsset } from '@nexusmutual/sdk';
+import { ParamType, Result, Signer } from 'ethers';
 import { ethers } from 'hardhat';
 import { tokenConfig } from './constants';
 import { getBytes4 } from './shared-utils';
 import { ParaswapSwapParams } from './params';
+import { ActionParamsMap, actionParamDefaults, actionRegistry } from './action-registry';
 
 export const actionTypes = {
   DEPOSIT_ACTION: 0,
@@ -15,91 +17,72 @@ export const actionTypes = {
   BRIDGE_ACTION: 12, // CCTP cross-chain bridging
 };
 
-// Protocol name mappings for TypedData structures
-export const protocolNames = {
-  // Core protocols
-  FluidV1: 'FluidV1',
-  YearnV2: 'YearnV2',
-  YearnV3: 'YearnV3',
-  VesperV1: 'VesperV1',
-  ClearpoolV1: 'ClearpoolV1',
-  SparkV1: 'SparkV1',
-  AcrossV3: 'AcrossV3',
-  MorphoV1: 'MorphoV1',
-  NotionalV3: 'NotionalV3',
-  GearboxPassiveV3: 'GearboxPassiveV3',
-  EulerV2: 'EulerV2',
-  CurveSavings: 'CurveSavings',
-  MapleV1: 'MapleV1',
-  AaveV2: 'AaveV2',
-  AaveV3: 'AaveV3',
-  StrikeV1: 'StrikeV1',
-  UwULendV1: 'UwULendV1',
-  BendDaoV1: 'BendDaoV1',
-
-  // Special protocols
-  Curve: 'Curve',
-  Paraswap: 'Paraswap',
-  ZeroEx: 'ZeroEx',
-  NexusMutual: 'NexusMutual',
-  Brava: 'Brava', // For internal actions like PullToken, SendToken
-  CCTP: 'CCTP_V2', // For CCTP cross-chain bridging
-} as const;
-
-// Action type mapping for TypedData
-export function getActionTypeForProtocolAction(actionName: string): number {
-  if (actionName.includes('Supply') || actionName.includes('Deposit')) {
-    return actionTypes.DEPOSIT_ACTION;
-  }
-  if (actionName.includes('Withdraw')) {
-    return actionTypes.WITHDRAW_ACTION;
-  }
-  if (actionName.includes('Swap')) {
-    return actionTypes.SWAP_ACTION;
-  }
-  if (actionName.includes('Cover')) {
-    return actionTypes.COVER_ACTION;
-  }
-  if (actionName.includes('PullToken') || actionName.includes('SendToken')) {
-    return actionTypes.TRANSFER_ACTION;
-  }
-  if (actionName.includes('CCTP') || actionName === 'CCTPBridgeSend') {
-    return actionTypes.BRIDGE_ACTION;
+type ActionMetadata = (typeof actionRegistry)[keyof typeof actionRegistry];
+
+function getActionMetadata(actionName: string): ActionMetadata {
+  const metadata = (actionRegistry as Record<string, ActionMetadata>)[actionName];
+  if (!metadata) {
+    throw new Error(
+      `Unknown action ${actionName}, run scripts/generate-action-registry.ts after adding an action`
+    );
   }
-  return actionTypes.CUSTOM_ACTION;
+  return metadata;
 }
 
-// Protocol name extraction from action name
+/**
+ * Checks whether an action decodes its call data into a Params struct known to the registry
+ * @param actionName The action contract name
+ * @returns True when the action can be encoded with encodeActionInputs
+ */
+export function hasActionParams(actionName: string): actionName is keyof ActionParamsMap {
+  return !!(actionRegistry as Record<string, ActionMetadata>)[actionName]?.params;
+}
+
+// Action type for TypedData, as returned by the action contract's actionType()
+export function getActionTypeForProtocolAction(actionName: string): number {
+  return getActionMetadata(actionName).actionType;
+}
+
+// Protocol name for TypedData, as returned by the action contract's protocolName()
 export function getProtocolNameForAction(actionName: string): string {
-  // Handle special cases first
-  if (actionName.includes('PullToken') || actionName.includes('SendToken')) {
-    return protocolNames.Brava;
-  }
-  if (actionName.includes('CCTP') || actionName === 'CCTPBridgeSend') {
-    return protocolNames.CCTP;
-  }
-  if (actionName.includes('Curve')) {
-    return protocolNames.Curve;
-  }
-  if (actionName.includes('Paraswap')) {
-    return protocolNames.Paraswap;
-  }
-  if (actionName.includes('BuyCover')) {
-    return protocolNames.NexusMutual;
-  }
+  return getActionMetadata(actionName).protocolName;
+}
 
-  // Extract protocol from action name (e.g., "FluidV1Supply" -> "FluidV1")
-  const protocolMatch = actionName.match(/^([A-Za-z0-9]+)[A-Z]/);
-  if (protocolMatch) {
-    const protocolKey = protocolMatch[1];
-    const protocolNameKey = protocolKey as keyof typeof protocolNames;
-    if (protocolNames[protocolNameKey]) {
-      return protocolNames[protocolNameKey];
-    }
-  }
+/**
+ * Encodes the input of an action from the fields of its Params struct
+ * Fields that are not given default to zero values
+ * @param actionName The action contract name
+ * @param params The Params struct fields
+ * @returns The encoded input, to be passed to executeAction
+ */
+export function encodeActionInputs<T extends keyof ActionParamsMap>(
+  actionName: T,
+  params: Partial<ActionParamsMap[T]>
+): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    [getInputType(actionName)],
+    [{ ...actionParamDefaults[actionName], ...params }]
+  );
+}
+
+/**
+ * Decodes the input of an action into the fields of its Params struct
+ * @param actionName The action contract name
+ * @param inputs The encoded input, as passed to executeAction
+ * @returns The decoded Params struct
+ */
+export function decodeActionInputs<T extends keyof ActionParamsMap>(
+  actionName: T,
+  inputs: string
+): Result {
+  return ethers.AbiCoder.defaultAbiCoder().decode([getInputType(actionName)], inputs)[0];
+}
 
-  // Fallback
-  return protocolNames.Brava;
+function getInputType(actionName: keyof ActionParamsMap): ParamType {
+  return ParamType.from({
+    type: 'tuple',
+    components: actionRegistry[actionName].params,
+  });
 }
 
 // Base interface for common properties
@@ -108,7 +91,7 @@ interface BaseActionArgs {
   value?: number;
   safeOperation?: number;
   safeAddress?: string;
-  signer?: any; // ethers.Signer type from hardhat
+  signer?: Signer;
   encoding?: {
     inputParams: string[];
     encodingVariables: string[];
@@ -123,8 +106,41 @@ interface BaseActionArgs {
   actionType?: number;
 }
 
+type ActionName = keyof typeof actionRegistry;
+type ProtocolName = (typeof actionRegistry)[ActionName]['protocolName'];
+type RegistryParam<T extends string, N extends string = string> = {
+  readonly name: N;
+  readonly type: T;
+};
+// The actions whose generated registry entry has the given shape
+type ActionsMatching<M> = {
+  [K in ActionName]: (typeof actionRegistry)[K] extends M ? K : never;
+}[ActionName];
+
+// Params of the pool actions: (poolId, feeBasis, amount, limit)
+type PoolParams<N extends string = string> = readonly [
+  RegistryParam<'bytes4'>,
+  RegistryParam<'uint16'>,
+  RegistryParam<'uint256', N>,
+  RegistryParam<'uint256'>
+];
+// Action types grouped by their Params struct, the same grouping getBaseDefaultsKey makes at runtime
+type SupplyAction = ActionsMatching<{ actionType: 0; params: PoolParams }>;
+type ShareBasedWithdrawAction = ActionsMatching<{
+  actionType: 1;
+  params: PoolParams<'sharesToBurn'>;
+}>;
+type ERC4626WithdrawAction = Exclude<
+  ActionsMatching<{ actionType: 1; params: PoolParams }>,
+  ShareBasedWithdrawAction
+>;
+type AssetAction = ActionsMatching<{
+  params: readonly [RegistryParam<'bytes4'>, RegistryParam<'uint16'>, RegistryParam<'uint256'>];
+}>;
+
 // Share-based withdraw specific args
 interface ShareBasedWithdrawArgs extends BaseActionArgs {
+  type: ShareBasedWithdrawAction;
   poolAddress?: string;
   feeBasis?: number;
   sharesToBurn?: string | bigint;
@@ -133,52 +149,30 @@ interface ShareBasedWithdrawArgs extends BaseActionArgs {
 
 // Standard ERC4626 withdraw args
 interface ERC4626WithdrawArgs extends BaseActionArgs {
+  type: ERC4626WithdrawAction;
   poolAddress?: string;
   feeBasis?: number;
   amount?: string | bigint;
   maxSharesBurned?: string | bigint;
 }
 
-// Union type for different withdraw implementations
-type WithdrawArgs =
-  | (ERC4626WithdrawArgs & {
-      type:
-        | 'FluidV1Withdraw'
-        | 'ClearpoolWithdraw'
-        | 'SparkV1Withdraw'
-        | 'AcrossV3Withdraw'
-        | 'MorphoV1Withdraw'
-        | 'YearnV3Withdraw'
-        | 'GearboxPassiveV3Withdraw'
-        | 'EulerV2Withdraw'
-        | 'CurveSavingsWithdraw';
-    })
-  | (ShareBasedWithdrawArgs & {
-      type: 'MapleWithdrawQueue' | 'NotionalV3Withdraw' | 'YearnV2Withdraw' | 'VesperV1Withdraw';
-    });
-
 // Specific interfaces for each action type
 interface SupplyArgs extends BaseActionArgs {
-  type:
-    | 'FluidV1Supply'
-    | 'YearnV2Supply'
-    | 'ClearpoolSupply'
-    | 'SparkV1Supply'
-    | 'AcrossV3Supply'
-    | 'MorphoV1Supply'
-    | 'VesperV1Supply'
-    | 'NotionalV3Supply'
-    | 'YearnV3Supply'
-    | 'GearboxPassiveV3Supply'
-    | 'EulerV2Supply'
-    | 'CurveSavingsSupply'
-    | 'MapleSupply';
+  type: SupplyAction;
   poolAddress?: string;
   feeBasis?: number;
   amount?: string | bigint;
   minSharesReceived?: string | bigint;
 }
 
+// Asset-based actions (Aave-like protocols)
+export interface AssetActionArgs extends BaseActionArgs {
+  type: AssetAction;
+  assetId: string;
+  amount: string | bigint;
+  feeBasis?: number;
+}
+
 interface SwapArgs extends BaseActionArgs {
   type: 'Curve3PoolSwap';
   tokenIn: keyof typeof tokenConfig;
@@ -226,54 +220,11 @@ export interface BuyCoverArgs extends BaseActionArgs {
   coverAsset: CoverAsset;
 }
 
-export interface AaveV3Args extends BaseActionArgs {
-  type: 'AaveV3Supply' | 'AaveV3Withdraw';
-  assetId: string;
-  amount: string | bigint;
-  feeBasis?: number;
-}
-
-export interface AaveV2Args extends BaseActionArgs {
-  type: 'AaveV2Supply' | 'AaveV2Withdraw';
-  assetId: string;
-  amount: string | bigint;
-  feeBasis?: number;
-}
-
-interface StrikeArgs extends BaseActionArgs {
-  type: 'StrikeV1Supply' | 'StrikeV1Withdraw';
-  assetId: string;
-  amount: string | bigint;
-  feeBasis?: number;
-}
-
-export interface UwULendV1Args extends BaseActionArgs {
-  type: 'UwULendV1Supply' | 'UwULendV1Withdraw';
-  assetId: string;
-  amount: string | bigint;
-  feeBasis?: number;
-}
-
-export interface BendDaoV1Args extends BaseActionArgs {
-  type: 'BendDaoV1Supply' | 'BendDaoV1Withdraw';
-  assetId?: string;
-  amount?: string | bigint;
-  feeBasis?: number;
-}
-
 interface UpgradeArgs extends BaseActionArgs {
   type: 'UpgradeAction';
   data: string;
 }
 
-export interface ClearpoolV1Args extends BaseActionArgs {
-  poolAddress: string;
-  amount: string | bigint;
-  feeBasis?: number;
-  minSharesReceived?: string | bigint;
-  maxSharesBurned?: string | bigint;
-}
-
 export interface CCTPBridgeSendArgs extends BaseActionArgs {
   type: 'CCTPBridgeSend';
   usdcToken: string;
@@ -282,71 +233,53 @@ export interface CCTPBridgeSendArgs extends BaseActionArgs {
   destinationCaller: string;
   maxFee: number;
   minFinalityThreshold: number;
-  cctpParams?: any; // For encoding
 }
 
-// Union type for all action args
-export type ActionArgs =
-  | (ClearpoolV1Args & { type: 'ClearpoolV1Supply' | 'ClearpoolV1Withdraw' })
-  | (AaveV2Args & { type: 'AaveV2Supply' | 'AaveV2Withdraw' })
-  | (AaveV3Args & { type: 'AaveV3Supply' | 'AaveV3Withdraw' })
-  | (BendDaoV1Args & { type: 'BendDaoV1Supply' | 'BendDaoV1Withdraw' })
+// Action args with hand written interfaces
+type TypedActionArgs =
   | SupplyArgs
-  | WithdrawArgs
+  | ERC4626WithdrawArgs
+  | ShareBasedWithdrawArgs
+  | AssetActionArgs
   | SwapArgs
   | ParaswapSwapArgs
   | ZeroExSwapArgs
   | TokenTransferArgs
   | BuyCoverArgs
-  | StrikeArgs
-  | UwULendV1Args
   | UpgradeArgs
   | CCTPBridgeSendArgs;
 
-// Default pool addresses for test cases
-const defaultPools: Record<string, string> = {
-  // ERC4626 style protocols (using poolAddress)
-  FluidV1Supply: tokenConfig.FLUID_V1_USDC.address,
-  FluidV1Withdraw: tokenConfig.FLUID_V1_USDC.address,
-  YearnV2Supply: tokenConfig.YEARN_V2_USDC.address,
-  YearnV2Withdraw: tokenConfig.YEARN_V2_USDC.address,
-  VesperV1Supply: tokenConfig.VESPER_V1_USDC.address,
-  VesperV1Withdraw: tokenConfig.VESPER_V1_USDC.address,
-  ClearpoolV1Supply: tokenConfig.CLEARPOOL_V1_ALP_USDC.address,
-  ClearpoolV1Withdraw: tokenConfig.CLEARPOOL_V1_ALP_USDC.address,
-  SparkV1Supply: tokenConfig.SPARK_V1_DAI.address,
-  SparkV1Withdraw: tokenConfig.SPARK_V1_DAI.address,
-  AcrossV3Supply: tokenConfig.ACROSS_V3_lpUSDC.address,
-  AcrossV3Withdraw: tokenConfig.ACROSS_V3_lpUSDC.address,
-  MorphoV1Supply: tokenConfig.MORPHO_V1_fxUSDC.address,
-  MorphoV1Withdraw: tokenConfig.MORPHO_V1_fxUSDC.address,
-  YearnV3Supply: tokenConfig.YEARN_V3_DAI.address,
-  YearnV3Withdraw: tokenConfig.YEARN_V3_DAI.address,
-  NotionalV3Supply: tokenConfig.NOTIONAL_V3_USDC.address,
-  NotionalV3Withdraw: tokenConfig.NOTIONAL_V3_USDC.address,
-  GearboxPassiveV3Supply: tokenConfig.GEARBOX_PASSIVE_V3_USDC.address,
-  GearboxPassiveV3Withdraw: tokenConfig.GEARBOX_PASSIVE_V3_USDC.address,
-  EulerV2Supply: tokenConfig.EULER_V2_PRIME_USDC.address,
-  EulerV2Withdraw: tokenConfig.EULER_V2_PRIME_USDC.address,
-  CurveSavingsSupply: tokenConfig.CURVE_SAVINGS_scrvUSD.address,
-  CurveSavingsWithdraw: tokenConfig.CURVE_SAVINGS_scrvUSD.address,
-  MapleSupply: '', // To be set in test
-  MapleWithdrawQueue: '', // To be set in test
-
-  // Asset-based protocols (using assetId)
-  AaveV3Supply: getBytes4(tokenConfig.AAVE_V3_aUSDC.address),
-  AaveV3Withdraw: getBytes4(tokenConfig.AAVE_V3_aUSDC.address),
-  AaveV2Supply: getBytes4(tokenConfig.AAVE_V2_aUSDC.address),
-  AaveV2Withdraw: getBytes4(tokenConfig.AAVE_V2_aUSDC.address),
-  StrikeV1Supply: getBytes4(tokenConfig.STRIKE_V1_USDC.address),
-  StrikeV1Withdraw: getBytes4(tokenConfig.STRIKE_V1_USDC.address),
-  UwULendV1Supply: getBytes4(tokenConfig.UWU_V1_USDT.address),
-  UwULendV1Withdraw: getBytes4(tokenConfig.UWU_V1_USDT.address),
-  BendDaoV1Supply: getBytes4(tokenConfig.BEND_V1_USDT.address),
-  BendDaoV1Withdraw: getBytes4(tokenConfig.BEND_V1_USDT.address),
+// Actions without a hand written interface take the fields of their generated Params struct
+type GeneratedActionName = Exclude<keyof ActionParamsMap, TypedActionArgs['type']>;
+type GeneratedActionArgs = {
+  [K in GeneratedActionName]: BaseActionArgs & { type: K } & Partial<ActionParamsMap[K]>;
+}[GeneratedActionName];
+
+// Union type for all action args
+export type ActionArgs = TypedActionArgs | GeneratedActionArgs;
+
+// Default pool of each protocol, used by all of its supply and withdraw actions
+// These read tokenConfig at load time, so with FORK=false they already point at the mocks
+const defaultPools: Partial<Record<ProtocolName, keyof typeof tokenConfig>> = {
+  FluidV1: 'FLUID_V1_USDC',
+  YearnV2: 'YEARN_V2_USDC',
+  VesperV1: 'VESPER_V1_USDC',
+  SparkV1: 'SPARK_V1_DAI',
+  AcrossV3: 'ACROSS_V3_lpUSDC',
+  MorphoV1: 'MORPHO_V1_fxUSDC',
+  YearnV3: 'YEARN_V3_DAI',
+  NotionalV3: 'NOTIONAL_V3_USDC',
+  GearboxPassiveV3: 'GEARBOX_PASSIVE_V3_USDC',
+  EulerV2: 'EULER_V2_PRIME_USDC',
+  CurveSavings: 'CURVE_SAVINGS_scrvUSD',
+  // MapleV1 pools are set in the test
+  AaveV3: 'AAVE_V3_aUSDC',
+  AaveV2: 'AAVE_V2_aUSDC',
+  StrikeV1: 'STRIKE_V1_USDC',
 };
 
 // Base configurations for different action types
+// The encoding input types are read from the Params struct of each action, only the args are listed
 const baseDefaults = {
   // Common defaults for all actions
   common: {
@@ -360,40 +293,28 @@ const baseDefaults = {
   supply: {
     amount: '0',
     minSharesReceived: '0',
-    encoding: {
-      inputParams: ['bytes4', 'uint16', 'uint256', 'uint256'],
-      encodingVariables: ['poolId', 'feeBasis', 'amount', 'minSharesReceived'],
-    },
+    encodingVariables: ['poolId', 'feeBasis', 'amount', 'minSharesReceived'],
   },
 
   // ERC4626 style withdraw base config
   withdrawERC4626: {
     amount: '0',
     maxSharesBurned: ethers.MaxUint256.toString(),
-    encoding: {
-      inputParams: ['bytes4', 'uint16', 'uint256', 'uint256'],
-      encodingVariables: ['poolId', 'feeBasis', 'amount', 'maxSharesBurned'],
-    },
+    encodingVariables: ['poolId', 'feeBasis', 'amount', 'maxSharesBurned'],
   },
 
   // Share-based withdraw base config
   withdrawShareBased: {
     sharesToBurn: '0',
     minUnderlyingReceived: '0',
-    encoding: {
-      inputParams: ['bytes4', 'uint16', 'uint256', 'uint256'],
-      encodingVariables: ['poolId', 'feeBasis', 'sharesToBurn', 'minUnderlyingReceived'],
-    },
+    encodingVariables: ['poolId', 'feeBasis', 'sharesToBurn', 'minUnderlyingReceived'],
   },
 
   // Asset-based action config (for Aave-like protocols)
   assetAction: {
     amount: '0',
     feeBasis: 0,
-    encoding: {
-      inputParams: ['bytes4', 'uint16', 'uint256'],
-      encodingVariables: ['assetId', 'feeBasis', 'amount'],
-    },
+    encodingVariables: ['assetId', 'feeBasis', 'amount'],
   },
 
   // Token transfer base config
@@ -419,10 +340,6 @@ const specialCases = {
     destinationCaller: '0xc3cd4f2e31f9b4c64fc54bc5e20281ec7e869941', // Exact destinationCaller from working example
     maxFee: 0, // 0 fee (from working example)
     minFinalityThreshold: 2000,
-    encoding: {
-      inputParams: ['tuple(address,uint256,uint32,bytes32,uint256,uint32)'],
-      encodingVariables: ['cctpParams'],
-    },
   },
   Curve3PoolSwap: {
     type: 'Curve3PoolSwap',
@@ -432,10 +349,6 @@ const specialCases = {
     minAmount: '1', //must be non-zero
     value: 0,
     safeOperation: 1,
-    encoding: {
-      inputParams: ['int128', 'int128', 'uint256', 'uint256'],
-      encodingVariables: ['fromToken', 'toToken', 'amount', 'minAmount'],
-    },
   },
   ParaswapSwap: {
     type: 'ParaswapSwap',
@@ -447,16 +360,6 @@ const specialCases = {
     fromAmount: '0',
     minToAmount: '1',
     swapCallData: '0x',
-    encoding: {
-      inputParams: ['address', 'address', 'uint256', 'uint256', 'bytes'],
-      encodingVariables: [
-        'tokenInAddress',
-        'tokenOutAddress',
-        'fromAmount',
-        'minToAmount',
-        'swapCallData',
-      ],
-    },
   },
   ZeroExSwap: {
     type: 'ZeroExSwap',
@@ -469,10 +372,6 @@ const specialCases = {
     minToAmount: '1',
     swapTarget: '',
     swapCallData: '0x',
-    encoding: {
-      inputParams: ['tuple(address,address,uint256,uint256,uint256,address,bytes)'],
-      encodingVariables: ['swapParams'],
-    },
   },
   PullToken: {
     type: 'PullToken',
@@ -481,10 +380,6 @@ const specialCases = {
     safeOperation: 1,
     token: 'USDC',
     amount: '0',
-    encoding: {
-      inputParams: ['address', 'address', 'uint256'],
-      encodingVariables: ['tokenAddress', 'from', 'amount'],
-    },
   },
   SendToken: {
     type: 'SendToken',
@@ -493,10 +388,6 @@ const specialCases = {
     safeOperation: 1,
     token: 'USDC',
     amount: '0',
-    encoding: {
-      inputParams: ['address', 'address', 'uint256'],
-      encodingVariables: ['tokenAddress', 'to', 'amount'],
-    },
   },
   BuyCover: {
     type: 'BuyCover',
@@ -519,127 +410,55 @@ const specialCases = {
   },
 };
 
-// Action type categorization for building standard defaults
-const actionCategories = {
-  // Standard ERC4626 supply actions
-  supply: [
-    'FluidV1Supply',
-    'YearnV2Supply',
-    'VesperV1Supply',
-    'ClearpoolV1Supply',
-    'SparkV1Supply',
-    'AcrossV3Supply',
-    'MorphoV1Supply',
-    'YearnV3Supply',
-    'NotionalV3Supply',
-    'GearboxPassiveV3Supply',
-    'EulerV2Supply',
-    'CurveSavingsSupply',
-    'MapleSupply',
-  ],
-
-  // ERC4626-style withdraw actions
-  withdrawERC4626: [
-    'FluidV1Withdraw',
-    'ClearpoolV1Withdraw',
-    'SparkV1Withdraw',
-    'AcrossV3Withdraw',
-    'MorphoV1Withdraw',
-    'YearnV3Withdraw',
-    'GearboxPassiveV3Withdraw',
-    'EulerV2Withdraw',
-    'CurveSavingsWithdraw',
-  ],
-
-  // Share-based withdraw actions
-  withdrawShareBased: [
-    'MapleWithdrawQueue',
-    'NotionalV3Withdraw',
-    'YearnV2Withdraw',
-    'VesperV1Withdraw',
-  ],
-
-  // Asset-based actions (for protocols like Aave that use assetId)
-  assetAction: [
-    'AaveV3Supply',
-    'AaveV3Withdraw',
-    'AaveV2Supply',
-    'AaveV2Withdraw',
-    'StrikeV1Supply',
-    'StrikeV1Withdraw',
-    'UwULendV1Supply',
-    'UwULendV1Withdraw',
-    'BendDaoV1Supply',
-    'BendDaoV1Withdraw',
-  ],
-};
+// Picks the base defaults for an action from the shape of its Params struct
+function getBaseDefaultsKey(
+  metadata: ActionMetadata
+): 'supply' | 'withdrawERC4626' | 'withdrawShareBased' | 'assetAction' | undefined {
+  const types = metadata.params?.map((param) => param.type).join(',');
+  if (types === 'bytes4,uint16,uint256') {
+    return 'assetAction';
+  }
+  if (types !== 'bytes4,uint16,uint256,uint256') {
+    return undefined;
+  }
+  if (metadata.actionType === actionTypes.DEPOSIT_ACTION) {
+    return 'supply';
+  }
+  if (metadata.actionType !== actionTypes.WITHDRAW_ACTION) {
+    return undefined;
+  }
+  return metadata.params![2].name === 'sharesToBurn' ? 'withdrawShareBased' : 'withdrawERC4626';
+}
 
 // Function to create the full actionDefaults object
 function buildActionDefaults() {
   const actionDefaults: Record<string, ActionArgs> = {};
 
-  // Build supply-type actions
-  actionCategories.supply.forEach((actionType) => {
-    const defaultConfig: any = {
-      type: actionType,
-      ...baseDefaults.common,
-      ...baseDefaults.supply,
-    };
-
-    // Add default pool address if available
-    if (defaultPools[actionType]) {
-      defaultConfig.poolAddress = defaultPools[actionType];
-    }
-
-    actionDefaults[actionType] = defaultConfig as ActionArgs;
-  });
-
-  // Build ERC4626-style withdraw actions
-  actionCategories.withdrawERC4626.forEach((actionType) => {
-    const defaultConfig: any = {
-      type: actionType,
-      ...baseDefaults.common,
-      ...baseDefaults.withdrawERC4626,
-    };
-
-    // Add default pool address if available
-    if (defaultPools[actionType]) {
-      defaultConfig.poolAddress = defaultPools[actionType];
-    }
-
-    actionDefaults[actionType] = defaultConfig as ActionArgs;
-  });
-
-  // Build share-based withdraw actions
-  actionCategories.withdrawShareBased.forEach((actionType) => {
-    const defaultConfig: any = {
-      type: actionType,
-      ...baseDefaults.common,
-      ...baseDefaults.withdrawShareBased,
-    };
-
-    // Add default pool address if available
-    if (defaultPools[actionType]) {
-      defaultConfig.poolAddress = defaultPools[actionType];
+  // Build the standard actions from the generated registry
+  Object.entries(actionRegistry).forEach(([actionType, metadata]) => {
+    const baseDefaultsKey = getBaseDefaultsKey(metadata);
+    const pool = defaultPools[metadata.protocolName];
+    const poolDefaults = !pool
+      ? {}
+      : baseDefaultsKey === 'assetAction'
+      ? { assetId: getBytes4(tokenConfig[pool].address) }
+      : { poolAddress: tokenConfig[pool].address };
+
+    if (!baseDefaultsKey) {
+      actionDefaults[actionType] = { type: actionType, ...baseDefaults.common } as ActionArgs;
+      return;
     }
-
-    actionDefaults[actionType] = defaultConfig as ActionArgs;
-  });
-
-  // Build asset-based actions
-  actionCategories.assetAction.forEach((actionType) => {
-    const defaultConfig: any = {
+    const { encodingVariables, ...values } = baseDefaults[baseDefaultsKey];
+    actionDefaults[actionType] = {
       type: actionType,
       ...baseDefaults.common,
-      ...baseDefaults.assetAction,
-    };
-
-    // Add default assetId if available
-    if (defaultPools[actionType]) {
-      defaultConfig.assetId = defaultPools[actionType];
-    }
-
-    actionDefaults[actionType] = defaultConfig as ActionArgs;
+      ...values,
+      ...poolDefaults,
+      encoding: {
+        inputParams: metadata.params!.map((param) => param.type),
+        encodingVariables,
+      },
+    } as ActionArgs;
   });
 
   // Add special cases
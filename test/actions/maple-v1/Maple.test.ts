@@ -1,5 +1,6 @@
 import { network } from 'hardhat';
-import { ethers, expect, Signer } from '../..';
+import { Signer } from 'ethers';
+import { ethers, expect } from '../..';
 import {
   AdminVault,
   MapleSupply,
@@ -3,8 +3,20 @@ import { network } from 'hardhat';
 import { ethers, expect, HardhatEthersSigner } from '..';
 import { AdminVault, FluidV1Supply, IERC20, IFluidLending } from '../../typechain-types';
 import { tokenConfig } from '../constants';
+import {
+  ActionAddedLog,
+  ActionProposedLog,
+  ActionRemovedLog,
+  ADMIN_VAULT_LOG_IDS,
+  DelayChangedLog,
+  FeeConfigSetLog,
+  PoolAddedLog,
+  RoleGrantedLog,
+  RoleRevokedLog,
+} from '../logs';
 import {
   calculateExpectedFee,
+  decodeAdminVaultLogs,
   deploy,
   executeAction,
   getBaseSetup,
@@ -837,6 +849,84 @@ describe('AdminVault', function () {
       });
     });
 
+    describe('Governance logs', function () {
+      it('should log the action lifecycle', async function () {
+        const actionId = getBytes4(alice.address);
+        const proposeTx = await adminVault.connect(admin).proposeAction(actionId, alice.address);
+        const addTx = await adminVault.connect(admin).addAction(actionId, alice.address);
+        const removeTx = await adminVault.connect(admin).removeAction(actionId);
+
+        const [proposed] = (await decodeAdminVaultLogs(proposeTx)) as ActionProposedLog[];
+        const [added] = (await decodeAdminVaultLogs(addTx)) as ActionAddedLog[];
+        const [removed] = (await decodeAdminVaultLogs(removeTx)) as ActionRemovedLog[];
+        expect(proposed).to.deep.equal({
+          eventId: BigInt(ADMIN_VAULT_LOG_IDS.ACTION_PROPOSED),
+          actionId,
+          actionAddress: alice.address,
+        });
+        expect(added.eventId).to.equal(ADMIN_VAULT_LOG_IDS.ACTION_ADDED);
+        expect(added.actionAddress).to.equal(alice.address);
+        expect(removed).to.deep.equal({
+          eventId: BigInt(ADMIN_VAULT_LOG_IDS.ACTION_REMOVED),
+          actionId,
+        });
+      });
+
+      it('should log pool additions', async function () {
+        await adminVault.connect(admin).proposePool('FluidV1', alice.address);
+        const tx = await adminVault.connect(admin).addPool('FluidV1', alice.address);
+
+        const [added] = (await decodeAdminVaultLogs(tx)) as PoolAddedLog[];
+        expect(added.eventId).to.equal(ADMIN_VAULT_LOG_IDS.POOL_ADDED);
+        expect(added.protocolId).to.equal(
+          BigInt(
+            ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['FluidV1']))
+          )
+        );
+        expect(added.poolAddress).to.equal(alice.address);
+      });
+
+      it('should log fee config changes', async function () {
+        await adminVault.connect(admin).proposeFeeConfig(alice.address, 100, 200);
+        const tx = await adminVault.connect(admin).setFeeConfig();
+
+        const [set] = (await decodeAdminVaultLogs(tx)) as FeeConfigSetLog[];
+        expect(set).to.deep.equal({
+          eventId: BigInt(ADMIN_VAULT_LOG_IDS.FEE_CONFIG_SET),
+          recipient: alice.address,
+          minBasis: 100n,
+          maxBasis: 200n,
+        });
+      });
+
+      it('should log role grants and revocations', async function () {
+        const role = getRoleBytes('ROLE_MANAGER_ROLE');
+        const grantTx = await adminVault.connect(admin).grantRole(role, alice.address);
+        const revokeTx = await adminVault.connect(admin).revokeRole(role, alice.address);
+
+        const [granted] = (await decodeAdminVaultLogs(grantTx)) as RoleGrantedLog[];
+        const [revoked] = (await decodeAdminVaultLogs(revokeTx)) as RoleRevokedLog[];
+        expect(granted).to.deep.equal({
+          eventId: BigInt(ADMIN_VAULT_LOG_IDS.ROLE_GRANTED),
+          role,
+          account: alice.address,
+        });
+        expect(revoked.eventId).to.equal(ADMIN_VAULT_LOG_IDS.ROLE_REVOKED);
+      });
+
+      it('should log delay changes', async function () {
+        const oldDelay = await adminVault.delay();
+        const tx = await adminVault.connect(admin).changeDelay(oldDelay + 60n);
+
+        const [changed] = (await decodeAdminVaultLogs(tx)) as DelayChangedLog[];
+        expect(changed).to.deep.equal({
+          eventId: BigInt(ADMIN_VAULT_LOG_IDS.DELAY_CHANGED),
+          oldDelay,
+          newDelay: oldDelay + 60n,
+        });
+      });
+    });
+
     // TODO: Update test to use AccessControl
     it('should set fee percentage correctly', async function () {
       await expect(
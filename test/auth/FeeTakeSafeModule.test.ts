@@ -15,6 +15,7 @@ import {
   SequenceExecutor,
 } from '../../typechain-types';
 import { tokenConfig } from '../constants';
+import { executeFeeTakes, getDepositActionIds, planFeeTakes } from '../fee-taker';
 import { deploy, executeAction, getBaseSetup, getBytes4, getTypedContract, log } from '../utils';
 import { fundAccountWithToken, getTokenContract } from '../utils-stable';
 
@@ -230,5 +231,42 @@ describe('FeeTakeSafeModule', function () {
       expect(fUSDCBalanceAfterFee).to.be.lessThan(fUSDCBalanceBeforeFee);
       this.test!.ctx!.proposed = true;
     });
+
+    it('should take the fees planned by the fee-taking bot', async function () {
+      await executeAction({
+        type: 'FluidV1Supply',
+        amount: ethers.parseUnits('100', tokenConfig.USDC.decimals),
+      });
+      await adminVault.connect(admin).proposeFeeConfig(bob.address, 0, 1000);
+      await adminVault.connect(admin).setFeeConfig();
+
+      const lastFeeTimestamp = await adminVault.lastFeeTimestamp(
+        safeAddr,
+        tokenConfig.FLUID_V1_USDC.address
+      );
+      const feeTimestamp = Number(lastFeeTimestamp) + 60 * 60 * 24 * 365;
+      const plans = await planFeeTakes(
+        adminVault,
+        [{ safeAddress: safeAddr, poolId: poolId.toString() }],
+        {
+          pools: [
+            {
+              protocol: 'FluidV1',
+              poolId: poolId.toString(),
+              poolAddress: tokenConfig.FLUID_V1_USDC.address,
+            },
+          ],
+          depositActionIds: getDepositActionIds({ FluidV1Supply: fluidSupplyId.toString() }),
+          feeBasis: 100,
+        },
+        feeTimestamp
+      );
+      expect(plans[0].batches).to.have.length(1);
+
+      await network.provider.send('evm_setNextBlockTimestamp', [feeTimestamp]);
+      await executeFeeTakes(feeTakeSafeModule, adminVault, alice, plans);
+
+      expect(await fUSDC.balanceOf(bob.address)).to.equal(plans[0].batches[0][0].expectedFee);
+    });
   });
 });
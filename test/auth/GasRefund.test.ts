@@ -7,6 +7,7 @@ import { network } from 'hardhat';
 import * as utils from '../utils';
 import * as eip712Utils from '../utils-eip712';
 import { fundAccountWithToken } from '../utils-stable';
+import { estimateGasRefund } from '../gas-refund-estimator';
 import { tokenConfig } from '../constants';
 
 import {
@@ -251,6 +252,63 @@ describe('Gas Refund via GasRefundAction', function () {
     expect(executorAfter).to.equal(executorBefore);
   });
 
+  it('estimates a maxRefundAmount that covers the refund', async function () {
+    await fundAccountWithToken(aliceSafeAddress, 'USDC', ethers.parseUnits('1000', 6));
+    const gasPrice = ethers.parseUnits('100', 9);
+    const currentNonce = await eip712Module.getSequenceNonce(aliceSafeAddress);
+    const draftBundle = eip712Utils.createBundle({
+      ...(await buildRefundOnlySequence(gasRefundActionAddress, {
+        refundToken: tokenConfig.USDC.address,
+        maxRefundAmount: 0n,
+        refundRecipient: eip712Utils.RefundRecipient.EXECUTOR,
+      })),
+      chainId: BigInt(31337),
+      sequenceNonce: currentNonce,
+      sequenceName: 'Gas Refund',
+      enableGasRefund: true,
+      refundToken: tokenConfig.USDC.address,
+      refundRecipient: eip712Utils.RefundRecipient.EXECUTOR,
+    });
+
+    const estimate = await estimateGasRefund(eip712Module, draftBundle, {
+      safeAddress: aliceSafeAddress,
+      owner: alice,
+      executor: bobAddress,
+      gasPrice,
+    });
+    expect(estimate.refundAmount).to.be.gt(0);
+    expect(estimate.maxRefundAmount).to.equal((estimate.refundAmount * 12000n) / 10000n);
+
+    const balanceBefore = await usdc.balanceOf(bobAddress);
+    await executeBundleWithRefund({
+      refundToken: tokenConfig.USDC.address,
+      maxRefundAmount: estimate.maxRefundAmount,
+      refundRecipient: eip712Utils.RefundRecipient.EXECUTOR,
+    });
+    const refunded = (await usdc.balanceOf(bobAddress)) - balanceBefore;
+    expect(refunded).to.be.gt(0);
+    expect(refunded).to.be.lt(estimate.maxRefundAmount);
+  });
+
+  it('rejects refund estimates for unapproved tokens', async function () {
+    const randomToken = ethers.Wallet.createRandom().address;
+    const bundle = eip712Utils.createBundle({
+      ...(await buildRefundOnlySequence(gasRefundActionAddress, {
+        refundToken: randomToken,
+        maxRefundAmount: 0n,
+        refundRecipient: eip712Utils.RefundRecipient.EXECUTOR,
+      })),
+      chainId: BigInt(31337),
+      sequenceNonce: await eip712Module.getSequenceNonce(aliceSafeAddress),
+      enableGasRefund: true,
+      refundToken: randomToken,
+    });
+
+    await expect(
+      estimateGasRefund(eip712Module, bundle, { safeAddress: aliceSafeAddress, owner: alice })
+    ).to.be.rejectedWith(`Refund token ${randomToken} is not approved in the TokenRegistry`);
+  });
+
   it('no refund if refund action not included', async function () {
     await setGasPrice(ethers.parseUnits('100', 9));
 
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  ChainContracts,
+  ComposerSequence,
+  composeAndSignBundle,
+  composeBundle,
+  validateBundleOrder,
+} from './bundle-composer';
+import { recoverBundleSigner } from './utils-eip712';
+
+describe('Bundle composer tests', () => {
+  const owner = '0x2000000000000000000000000000000000000002';
+  const safeAddress = '0x1000000000000000000000000000000000000001';
+
+  function fakeChain(deployed: boolean, nonce: bigint, predicted = safeAddress): ChainContracts {
+    return {
+      getSequenceNonce: async () => nonce,
+      isSafeDeployed: async () => deployed,
+      predictSafeAddress: async () => predicted,
+    };
+  }
+
+  function sequence(chainId: number, name: string): ComposerSequence {
+    return {
+      chainId,
+      sequence: {
+        name,
+        actions: [{ protocolName: 'FluidV1', actionType: 0 }],
+        actionIds: ['0x12345678'],
+        callData: ['0x1234'],
+      },
+    };
+  }
+
+  const chains = { '1': fakeChain(true, 4n), '8453': fakeChain(false, 0n) };
+
+  it('Should resolve nonces and Safe deployment per chain', async () => {
+    const { bundle, startNonces } = await composeBundle(
+      [
+        sequence(1, 'Withdraw'),
+        sequence(1, 'Bridge'),
+        sequence(8453, 'Deposit'),
+        sequence(8453, 'Swap'),
+      ],
+      { owner, chains }
+    );
+
+    expect(
+      bundle.sequences.map(({ chainId, sequenceNonce, deploySafe }) => [
+        chainId,
+        sequenceNonce,
+        deploySafe,
+      ])
+    ).to.deep.equal([
+      [1n, 4n, false],
+      [1n, 5n, false],
+      [8453n, 0n, true],
+      [8453n, 1n, false],
+    ]);
+    expect(startNonces).to.deep.equal({ '1': 4n, '8453': 0n });
+  });
+
+  it('Should keep the order of the sequences across chains', async () => {
+    // Listed with the higher chain ID first and the chains interleaved
+    const { bundle } = await composeBundle(
+      [
+        sequence(8453, 'Withdraw'),
+        sequence(1, 'Deposit'),
+        sequence(8453, 'Swap'),
+        sequence(1, 'Bridge'),
+      ],
+      { owner, chains }
+    );
+
+    expect(
+      bundle.sequences.map(({ chainId, sequenceNonce, deploySafe, sequence: { name } }) => [
+        name,
+        chainId,
+        sequenceNonce,
+        deploySafe,
+      ])
+    ).to.deep.equal([
+      ['Withdraw', 8453n, 0n, true],
+      ['Deposit', 1n, 4n, false],
+      ['Swap', 8453n, 1n, false],
+      ['Bridge', 1n, 5n, false],
+    ]);
+  });
+
+  it('Should reject chains with a different Safe address', async () => {
+    await expect(
+      composeBundle([sequence(1, 'Withdraw'), sequence(10, 'Deposit')], {
+        owner,
+        chains: { ...chains, '10': fakeChain(false, 0n, owner) },
+      })
+    ).to.be.rejectedWith(`Safe address on chain 10 is ${owner}`);
+  });
+
+  it('Should report sequences out of order', async () => {
+    const { bundle } = await composeBundle(
+      [sequence(1, 'Withdraw'), sequence(1, 'Bridge'), sequence(8453, 'Deposit')],
+      { owner, chains }
+    );
+    [bundle.sequences[0], bundle.sequences[1]] = [bundle.sequences[1], bundle.sequences[0]];
+    bundle.sequences[0].deploySafe = true;
+    bundle.sequences[2].deploySafe = true;
+    bundle.sequences[2].enableGasRefund = true;
+
+    expect(validateBundleOrder(bundle, { '1': 4n })).to.deep.equal([
+      'Sequence 0 (Bridge) on chain 1 has nonce 5, expected 4',
+      'Sequence 1 (Withdraw) on chain 1 has nonce 4, expected 6',
+      'Sequence 2 (Deposit) on chain 8453 enables gas refunds without a refund token',
+    ]);
+  });
+
+  it('Should sign the composed bundle with the owner', async () => {
+    const [signer] = await ethers.getSigners();
+    const composed = await composeAndSignBundle([sequence(8453, 'Deposit')], signer, {
+      chains,
+    });
+
+    expect(composed.safeAddress).to.equal(safeAddress);
+    expect(recoverBundleSigner(composed.bundle, composed.signature, safeAddress)).to.equal(
+      signer.address
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { ContractRunner, ethers } from 'ethers';
+import { EIP712TypedDataSafeModule__factory, SafeDeployment__factory } from '../typechain-types';
+import {
+  Bundle,
+  ChainSequence,
+  RefundRecipient,
+  Sequence,
+  hashBundleForSigning,
+  signBundle,
+} from './utils-eip712';
+
+/**
+ * Multi-chain bundle composer
+ *
+ * Builds one Bundle from a list of sequences, each for a chain ID. The bundle keeps the order of the
+ * list, so sequences on different chains can be interleaved. For every chain the Safe's next
+ * sequence nonce is read from that chain's EIP712TypedDataSafeModule and deploySafe is set on the
+ * first sequence of the chain when the Safe is not deployed there yet. The composed bundle is checked with
+ * validateBundleOrder before it is returned or signed.
+ */
+
+// What the composer reads from each chain
+export interface ChainContracts {
+  getSequenceNonce(safeAddress: string): Promise<bigint>;
+  isSafeDeployed(owner: string): Promise<boolean>;
+  predictSafeAddress(owner: string): Promise<string>;
+}
+
+// A sequence, the chain it runs on and the gas refund settings of its ChainSequence
+export interface ComposerSequence {
+  chainId: number | bigint;
+  sequence: Sequence;
+  enableGasRefund?: boolean;
+  refundToken?: string;
+  maxRefundAmount?: bigint;
+  refundRecipient?: RefundRecipient;
+}
+
+export interface ComposeBundleOptions {
+  // The Safe owner that signs the bundle, the Safe address is predicted from it
+  owner: string;
+  // Contracts of every chain that has sequences, keyed by chain ID
+  chains: Record<string, ChainContracts>;
+  // Seconds from now until the bundle expires (default: 1 hour)
+  expiryOffset?: number;
+}
+
+export interface ComposedBundle {
+  bundle: Bundle;
+  safeAddress: string;
+  // The nonce of the first sequence on each chain, keyed by chain ID
+  startNonces: Record<string, bigint>;
+}
+
+/**
+ * Connects to the module and SafeDeployment of a chain
+ * @param runner Provider (or signer) for the chain
+ * @param addresses The EIP712TypedDataSafeModule and SafeDeployment addresses on the chain
+ * @returns The chain contracts
+ */
+export function connectChainContracts(
+  runner: ContractRunner,
+  addresses: { eip712Module: string; safeDeployment: string }
+): ChainContracts {
+  const eip712Module = EIP712TypedDataSafeModule__factory.connect(addresses.eip712Module, runner);
+  const safeDeployment = SafeDeployment__factory.connect(addresses.safeDeployment, runner);
+  return {
+    getSequenceNonce: (safeAddress) => eip712Module.getSequenceNonce(safeAddress),
+    isSafeDeployed: (owner) => safeDeployment.isSafeDeployed(owner),
+    predictSafeAddress: (owner) => safeDeployment.predictSafeAddress(owner),
+  };
+}
+
+/**
+ * Checks that a bundle can be executed in order: on every chain the nonces are consecutive,
+ * start at the expected nonce and appear in execution order, and only the first sequence of a
+ * chain deploys the Safe
+ * @param bundle The bundle
+ * @param startNonces The next nonce of each chain keyed by chain ID, not checked when missing
+ * @returns The problems found, empty when the bundle is consistent
+ */
+export function validateBundleOrder(
+  bundle: Bundle,
+  startNonces: Record<string, bigint> = {}
+): string[] {
+  const problems: string[] = [];
+  const lastNonces = new Map<string, bigint>();
+
+  bundle.sequences.forEach((chainSequence, index) => {
+    const chainId = chainSequence.chainId.toString();
+    const { name, actions, actionIds, callData } = chainSequence.sequence;
+    const label = `Sequence ${index} (${name}) on chain ${chainId}`;
+    const previous = lastNonces.get(chainId);
+    const expected = previous === undefined ? startNonces[chainId] : previous + 1n;
+
+    if (expected !== undefined && chainSequence.sequenceNonce !== expected) {
+      problems.push(`${label} has nonce ${chainSequence.sequenceNonce}, expected ${expected}`);
+    }
+    if (previous !== undefined && chainSequence.deploySafe) {
+      problems.push(`${label} deploys the Safe but is not the first sequence on its chain`);
+    }
+    if (actions.length !== actionIds.length || actions.length !== callData.length) {
+      problems.push(
+        `${label} has ${actions.length} actions, ${actionIds.length} action IDs and ${callData.length} call data`
+      );
+    }
+    if (chainSequence.enableGasRefund && chainSequence.refundToken === ethers.ZeroAddress) {
+      problems.push(`${label} enables gas refunds without a refund token`);
+    }
+    lastNonces.set(chainId, chainSequence.sequenceNonce);
+  });
+
+  return problems;
+}
+
+/**
+ * Composes a bundle from sequences on one or more chains
+ * @param sequences The sequences in execution order, the bundle keeps this order
+ * @param options The owner, the contracts of each chain and the expiry
+ * @returns The bundle, the Safe it is for and the nonces it starts at
+ */
+export async function composeBundle(
+  sequences: ComposerSequence[],
+  options: ComposeBundleOptions
+): Promise<ComposedBundle> {
+  const { owner, chains, expiryOffset = 3600 } = options;
+  const startNonces: Record<string, bigint> = {};
+  // The next nonce of each chain and whether its next sequence deploys the Safe
+  const chainStates = new Map<string, { nonce: bigint; deploySafe: boolean }>();
+  let safeAddress: string | undefined;
+
+  for (const chainId of new Set(sequences.map((entry) => entry.chainId.toString()))) {
+    const contracts = chains[chainId];
+    if (!contracts) {
+      throw new Error(`No contracts configured for chain ${chainId}`);
+    }
+
+    // The bundle is signed for one Safe address, so it must be the same on every chain
+    const predicted = await contracts.predictSafeAddress(owner);
+    if (safeAddress && predicted !== safeAddress) {
+      throw new Error(`Safe address on chain ${chainId} is ${predicted}, expected ${safeAddress}`);
+    }
+    safeAddress = predicted;
+
+    const deployed = await contracts.isSafeDeployed(owner);
+    startNonces[chainId] = deployed ? await contracts.getSequenceNonce(predicted) : 0n;
+    chainStates.set(chainId, { nonce: startNonces[chainId], deploySafe: !deployed });
+  }
+
+  const chainSequences = sequences.map((entry): ChainSequence => {
+    const state = chainStates.get(entry.chainId.toString())!;
+    const chainSequence: ChainSequence = {
+      chainId: BigInt(entry.chainId),
+      sequenceNonce: state.nonce,
+      deploySafe: state.deploySafe,
+      enableGasRefund: entry.enableGasRefund ?? false,
+      refundToken: entry.refundToken ?? ethers.ZeroAddress,
+      maxRefundAmount: entry.maxRefundAmount ?? 0n,
+      refundRecipient: entry.refundRecipient ?? RefundRecipient.EXECUTOR,
+      sequence: entry.sequence,
+    };
+    state.nonce += 1n;
+    state.deploySafe = false;
+    return chainSequence;
+  });
+  if (!safeAddress) {
+    throw new Error('No sequences to compose');
+  }
+
+  const bundle: Bundle = {
+    expiry: BigInt(Math.floor(Date.now() / 1000) + expiryOffset),
+    sequences: chainSequences,
+  };
+  const problems = validateBundleOrder(bundle, startNonces);
+  if (problems.length > 0) {
+    throw new Error(`Invalid bundle:\n${problems.join('\n')}`);
+  }
+  return { bundle, safeAddress, startNonces };
+}
+
+/**
+ * Composes a bundle and signs it with the Safe owner
+ * @param sequences The sequences in execution order
+ * @param signer The Safe owner
+ * @param options The contracts of each chain and the expiry
+ * @returns The composed bundle with its digest and signature
+ */
+export async function composeAndSignBundle(
+  sequences: ComposerSequence[],
+  signer: ethers.Signer,
+  options: Omit<ComposeBundleOptions, 'owner'>
+): Promise<ComposedBundle & { digest: string; signature: string }> {
+  const composed = await composeBundle(sequences, {
+    ...options,
+    owner: await signer.getAddress(),
+  });
+  return {
+    ...composed,
+    digest: hashBundleForSigning(composed.bundle, composed.safeAddress),
+    signature: await signBundle(signer, composed.bundle, composed.safeAddress),
+  };
+}
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { EIP712TypedDataSafeModule } from '../typechain-types';
+import {
+  createBundle,
+  hashBundleForSigning,
+  parseBundle,
+  recoverBundleSigner,
+  serializeBundle,
+  signBundle,
+} from './utils-eip712';
+
+describe('Bundle signing tests', () => {
+  const safeAddress = '0x1000000000000000000000000000000000000001';
+  let eip712Module: EIP712TypedDataSafeModule;
+
+  const bundle = createBundle({
+    chainId: 1n,
+    sequenceNonce: 3n,
+    sequenceName: 'Deposit',
+    actions: [
+      { protocolName: 'Brava', actionType: 5 },
+      { protocolName: 'FluidV1', actionType: 0 },
+    ],
+    actionIds: ['0x12345678', '0x9abcdef0'],
+    callData: ['0x1234', '0x'],
+    enableGasRefund: true,
+    maxRefundAmount: 10n ** 6n,
+  });
+
+  before(async () => {
+    const [deployer] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory('EIP712TypedDataSafeModule', deployer);
+    eip712Module = (await factory.deploy(deployer.address)) as unknown as EIP712TypedDataSafeModule;
+    // Only the domain fields are used for hashing, the other references just need to be set
+    await eip712Module.initializeConfig(
+      deployer.address,
+      deployer.address,
+      deployer.address,
+      deployer.address,
+      deployer.address,
+      deployer.address,
+      'BravaSafeModule',
+      '1.0.0'
+    );
+  });
+
+  it('Should compute the digest the module signs over', async () => {
+    expect(hashBundleForSigning(bundle, safeAddress)).to.equal(
+      await eip712Module.getBundleHash(safeAddress, bundle)
+    );
+  });
+
+  it('Should recover the signer of a bundle', async () => {
+    const [, signer] = await ethers.getSigners();
+    const signature = await signBundle(signer, bundle, safeAddress);
+    expect(recoverBundleSigner(bundle, signature, safeAddress)).to.equal(signer.address);
+    expect(recoverBundleSigner(bundle, signature, ethers.ZeroAddress)).to.not.equal(signer.address);
+  });
+
+  it('Should read back a serialized bundle', async () => {
+    const parsed = parseBundle(JSON.parse(JSON.stringify(serializeBundle(bundle))));
+    expect(parsed).to.deep.equal(bundle);
+    expect(hashBundleForSigning(parsed, safeAddress)).to.equal(
+      hashBundleForSigning(bundle, safeAddress)
+    );
+  });
+
+  it('Should reject sequences with mismatched action arrays', async () => {
+    const json: any = serializeBundle(bundle);
+    json.sequences[0].sequence.actionIds.pop();
+    expect(() => parseBundle(json)).to.throw('has 2 actions, 1 action IDs and 2 call data');
+  });
+});
@@ -0,0 +1,217 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import {
+  AdminVault,
+  EIP712TypedDataSafeModule,
+  ISafe,
+  MockERC20,
+  SendToken,
+  SequenceExecutor,
+} from '../typechain-types';
+import { simulateBundle, simulateSequence } from './bundle-simulator';
+import { SAFE_PROXY_FACTORY_ADDRESS, SAFE_SINGLETON_ADDRESS } from './constants';
+import { ACTION_LOG_IDS, SendTokenLog } from './logs';
+import { getInnermostError } from './revert-decoder';
+import safeContracts from './safe-contracts.json';
+import { getBytes4 } from './shared-utils';
+import { createBundle } from './utils-eip712';
+
+describe('Bundle simulator tests', () => {
+  let owner: string;
+  let safe: ISafe;
+  let safeAddress: string;
+  let token: MockERC20;
+  let sendToken: SendToken;
+  let sequenceExecutor: SequenceExecutor;
+  let eip712Module: EIP712TypedDataSafeModule;
+  let actionId: string;
+  const stranger = '0x000000000000000000000000000000000000dEaD';
+  const placeholder = '0x0000000000000000000000000000000000000001';
+  const resolveAction = async (id: string) =>
+    id === actionId ? { name: 'SendToken', address: await sendToken.getAddress() } : undefined;
+
+  // execTransaction signed by the sender (pre-validated signature)
+  const execTransaction = async (to: string, data: string) => {
+    const signature =
+      ethers.AbiCoder.defaultAbiCoder().encode(['address', 'bytes32'], [owner, ethers.ZeroHash]) +
+      '01';
+    await (
+      await safe.execTransaction(
+        to,
+        0,
+        data,
+        0,
+        0,
+        0,
+        0,
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+        signature
+      )
+    ).wait();
+  };
+
+  before(async () => {
+    const [signer] = await ethers.getSigners();
+    owner = signer.address;
+    // The fork has the Safe contracts, without a fork they are placed like in mock-protocols.ts
+    if ((await ethers.provider.getCode(SAFE_SINGLETON_ADDRESS)) === '0x') {
+      for (const { address, deployedBytecode } of Object.values(safeContracts.contracts)) {
+        await network.provider.send('hardhat_setCode', [address, deployedBytecode]);
+      }
+    }
+
+    const loggerImplementation = await (await ethers.getContractFactory('Logger')).deploy();
+    const loggerProxy = await (
+      await ethers.getContractFactory('ERC1967Proxy')
+    ).deploy(
+      await loggerImplementation.getAddress(),
+      loggerImplementation.interface.encodeFunctionData('initialize')
+    );
+    const logger = await loggerProxy.getAddress();
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(owner, 0, logger)) as unknown as AdminVault;
+    const adminVaultAddress = await adminVault.getAddress();
+    sequenceExecutor = (await (
+      await ethers.getContractFactory('SequenceExecutor')
+    ).deploy(adminVaultAddress)) as unknown as SequenceExecutor;
+    sendToken = (await (
+      await ethers.getContractFactory('SendToken')
+    ).deploy(adminVaultAddress, logger)) as unknown as SendToken;
+    actionId = getBytes4(await sendToken.getAddress());
+    await adminVault.proposeAction(actionId, await sendToken.getAddress());
+    await adminVault.addAction(actionId, await sendToken.getAddress());
+    eip712Module = (await (
+      await ethers.getContractFactory('EIP712TypedDataSafeModule')
+    ).deploy(owner)) as unknown as EIP712TypedDataSafeModule;
+    await eip712Module.initializeConfig(
+      adminVaultAddress,
+      await sequenceExecutor.getAddress(),
+      placeholder,
+      placeholder,
+      placeholder,
+      placeholder,
+      'BravaSafeModule',
+      '1.0.0'
+    );
+
+    const singleton = await ethers.getContractAt('ISafe', SAFE_SINGLETON_ADDRESS);
+    const setup = singleton.interface.encodeFunctionData('setup', [
+      [owner],
+      1,
+      ethers.ZeroAddress,
+      '0x',
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      0,
+      ethers.ZeroAddress,
+    ]);
+    const factory = await ethers.getContractAt('ISafeProxyFactory', SAFE_PROXY_FACTORY_ADDRESS);
+    safeAddress = await factory.createProxyWithNonce.staticCall(SAFE_SINGLETON_ADDRESS, setup, 1);
+    await factory.createProxyWithNonce(SAFE_SINGLETON_ADDRESS, setup, 1);
+    safe = await ethers.getContractAt('ISafe', safeAddress);
+    await execTransaction(
+      safeAddress,
+      safe.interface.encodeFunctionData('enableModule', [await eip712Module.getAddress()])
+    );
+
+    token = (await (
+      await ethers.getContractFactory('MockERC20')
+    ).deploy('Mock', 'MOCK', 18)) as unknown as MockERC20;
+    await token.mint(safeAddress, 1000);
+  });
+
+  const send = (to: string, amount: number) =>
+    sendToken.interface.encodeFunctionData('executeAction', [
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['tuple(address,address,uint256)'],
+        [[token.target, to, amount]]
+      ),
+      0,
+    ]);
+
+  it('Should split the logs, transfers and gas of a sequence by action', async () => {
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const code = await ethers.provider.getCode(await sequenceExecutor.getAddress());
+    const simulation = await simulateSequence(
+      {
+        name: 'Send',
+        callData: [send(owner, 40), send(owner, 60)],
+        actionIds: [actionId, actionId],
+      },
+      safeAddress,
+      { sequenceExecutor: await sequenceExecutor.getAddress(), resolveAction }
+    );
+
+    expect(simulation.success).to.be.true;
+    expect(simulation.gasUsed).to.be.greaterThan(0n);
+    expect(simulation.actions.map((action) => [action.index, action.name])).to.deep.equal([
+      [0, 'SendToken'],
+      [1, 'SendToken'],
+    ]);
+    const [first, second] = simulation.actions;
+    expect(first.logs.map((log) => Number(log.eventId))).to.deep.equal([ACTION_LOG_IDS.SEND_TOKEN]);
+    expect((second.logs[0] as SendTokenLog).amount).to.equal('60');
+    expect(first.transfers).to.deep.equal([
+      { account: safeAddress, token: token.target, delta: -40n },
+      { account: owner, token: token.target, delta: 40n },
+    ]);
+    expect(first.gasUsed).to.be.greaterThan(0n);
+    expect(first.gasUsed + second.gasUsed).to.be.lessThan(simulation.gasUsed);
+    expect(simulation.balanceChanges).to.deep.equal([
+      { account: safeAddress, token: token.target, before: 1000n, after: 900n, delta: -100n },
+      { account: owner, token: token.target, before: 0n, after: 100n, delta: 100n },
+    ]);
+    expect(simulation.fees).to.deep.equal([]);
+
+    // Nothing is left behind
+    expect(await token.balanceOf(safeAddress)).to.equal(1000n);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    expect(await ethers.provider.getCode(await sequenceExecutor.getAddress())).to.equal(code);
+  });
+
+  it('Should simulate a bundle before it is signed', async () => {
+    const bundle = createBundle({
+      actions: [
+        {
+          protocolName: await sendToken.protocolName(),
+          actionType: Number(await sendToken.actionType()),
+        },
+      ],
+      actionIds: [actionId],
+      callData: [send(owner, 25)],
+      chainId: (await ethers.provider.getNetwork()).chainId,
+    });
+    bundle.expiry = BigInt((await ethers.provider.getBlock('latest'))!.timestamp + 3600);
+
+    const simulation = await simulateBundle(bundle, safeAddress, {
+      eip712Module: await eip712Module.getAddress(),
+    });
+    expect(simulation.success).to.be.true;
+    expect(simulation.actions).to.have.length(1);
+    expect(simulation.actions[0].actionId).to.equal(actionId);
+    expect(simulation.balanceChanges.map((change) => change.delta)).to.deep.equal([-25n, 25n]);
+
+    // The temporary owner and the nonce are reverted
+    expect(await safe.getOwners()).to.deep.equal([owner]);
+    expect(await eip712Module.sequenceNonces(safeAddress)).to.equal(0n);
+  });
+
+  it('Should decode why an execution fails', async () => {
+    const simulation = await simulateSequence(
+      {
+        name: 'Send',
+        callData: [send(owner, 1), send(stranger, 1)],
+        actionIds: [actionId, actionId],
+      },
+      safeAddress,
+      { sequenceExecutor: await sequenceExecutor.getAddress(), resolveAction }
+    );
+    expect(simulation.success).to.be.false;
+    expect(simulation.actions).to.deep.equal([]);
+    const innermost = getInnermostError(simulation.revert!);
+    expect(innermost?.label).to.equal('action #2 SendToken');
+    expect(innermost?.error?.name).to.equal('Action_InvalidRecipient');
+  });
+});
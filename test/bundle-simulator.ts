@@ -0,0 +1,471 @@
+import { Log, TransactionReceipt, ethers } from 'ethers';
+import { ethers as hardhatEthers, network } from 'hardhat';
+import {
+  EIP712TypedDataSafeModule__factory,
+  ISafe__factory,
+  SequenceExecutor,
+  SequenceExecutorProfiler__factory,
+  SequenceExecutor__factory,
+} from '../typechain-types';
+import { ETH_ADDRESS } from './constants';
+import {
+  ACTION_LOG_IDS,
+  BalanceUpdateLog,
+  BaseLog,
+  GasRefundLog,
+  SendTokenLog,
+  decodeLoggerLog,
+} from './logs';
+import { RevertFrame, decodeCallRevert, getRevertData } from './revert-decoder';
+import type { ActionResolver } from './sequence-decoder';
+import { Bundle, EIP712_TYPES, createEIP712Domain } from './utils-eip712';
+
+/**
+ * Bundle simulator
+ *
+ * Shows what a bundle (EIP712TypedDataSafeModule.executeBundle) or a sequence
+ * (SequenceExecutor.executeSequence through the Safe) will do, by executing it on a local hardhat
+ * node inside evm_snapshot/evm_revert, so the node is left as it was. It is executed twice:
+ * - as is, for the outcome, the total gas and the balance changes of the Safe and every account it
+ *   sends tokens to (read on the blocks before and after the transaction)
+ * - with the SequenceExecutor code swapped for SequenceExecutorProfiler, which emits an
+ *   ActionProfiled event after each action, to split the Logger events, ERC20 transfers and gas
+ *   by action
+ * A failed execution is explained with the revert decoder instead.
+ * Bundles are signed by a temporary Safe owner when no signature is given, so they can be shown
+ * before the user signs. That needs the Safe to be deployed, as the module predicts the address of
+ * Safes it deploys from the signer.
+ */
+
+export interface SimulationOptions {
+  // Sends the transaction, impersonated (default: the first hardhat signer, or a Safe owner for
+  // sequences, which go through execTransaction)
+  from?: string;
+  value?: bigint;
+  // Tokens and accounts to report balance changes for, in addition to the ones seen in transfers
+  tokens?: string[];
+  accounts?: string[];
+  // Names the actions
+  resolveAction?: ActionResolver;
+}
+
+// The change in an account's balance of a token, ETH_ADDRESS for ETH
+export interface BalanceDelta {
+  account: string;
+  token: string;
+  delta: bigint;
+}
+
+// The sender's ETH balance is reported without the gas it paid
+export interface BalanceChange extends BalanceDelta {
+  before: bigint;
+  after: bigint;
+}
+
+export interface FeeTaken {
+  actionIndex: number;
+  type: 'fee' | 'gasRefund';
+  amount: bigint;
+  // Fees are taken in pool tokens of this pool
+  poolId?: string;
+  // Gas refunds are paid in this token to this recipient
+  token?: string;
+  recipient?: string;
+}
+
+export interface ActionSimulation {
+  index: number;
+  actionId: string;
+  name?: string; // from the resolver
+  gasUsed: bigint; // measured by SequenceExecutorProfiler, including the AdminVault lookup
+  logs: BaseLog[]; // the decoded Logger events of the action
+  transfers: BalanceDelta[]; // ERC20 only, from the Transfer events of the action
+}
+
+export interface BundleSimulation {
+  success: boolean;
+  gasUsed: bigint; // of the whole transaction, 0 when it failed
+  revert?: RevertFrame[]; // why it failed, outermost first
+  actions: ActionSimulation[];
+  balanceChanges: BalanceChange[]; // non zero changes only
+  fees: FeeTaken[];
+}
+
+interface Execution {
+  safe: string;
+  to: string;
+  data: string;
+  value: bigint;
+  from?: string;
+  sequenceExecutor: string;
+  actionIds: string[];
+  // Runs in the snapshot before the transaction, e.g. to add the temporary owner
+  prepare?: () => Promise<void>;
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const ERC20_INTERFACE = new ethers.Interface([
+  'function balanceOf(address account) view returns (uint256)',
+]);
+const PROFILER_INTERFACE = SequenceExecutorProfiler__factory.createInterface();
+const PROFILED_TOPIC = PROFILER_INTERFACE.getEvent('ActionProfiled')!.topicHash;
+const SEQUENCE_EXECUTOR_INTERFACE = SequenceExecutor__factory.createInterface();
+const FUNDED_BALANCE = ethers.parseEther('100');
+
+async function inSnapshot<T>(run: () => Promise<T>): Promise<T> {
+  const snapshotId = await network.provider.send('evm_snapshot', []);
+  try {
+    return await run();
+  } finally {
+    await network.provider.send('evm_revert', [snapshotId]);
+  }
+}
+
+// Impersonates an account, funding it if needed (in its own block, so it isn't in the deltas)
+async function getImpersonatedSigner(address: string) {
+  await network.provider.request({ method: 'hardhat_impersonateAccount', params: [address] });
+  const balance = await hardhatEthers.provider.getBalance(address);
+  if (balance < FUNDED_BALANCE) {
+    await network.provider.send('hardhat_setBalance', [address, ethers.toQuantity(FUNDED_BALANCE)]);
+  }
+  return hardhatEthers.getSigner(address);
+}
+
+async function getSender(execution: Execution) {
+  if (execution.from) {
+    return getImpersonatedSigner(execution.from);
+  }
+  const [signer] = await hardhatEthers.getSigners();
+  return signer;
+}
+
+function decodeTransfer(log: Log): { token: string; from: string; to: string; amount: bigint } {
+  return {
+    token: ethers.getAddress(log.address),
+    from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+    to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+    amount: BigInt(log.data),
+  };
+}
+
+// ERC721 transfers have a fourth topic (the token ID) and are skipped
+function getTransfers(logs: readonly Log[]) {
+  return logs
+    .filter((log) => log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3)
+    .map(decodeTransfer);
+}
+
+async function getBalance(account: string, token: string, blockTag: number): Promise<bigint> {
+  if (token === ETH_ADDRESS) {
+    return hardhatEthers.provider.getBalance(account, blockTag);
+  }
+  const result = await hardhatEthers.provider.call({
+    to: token,
+    data: ERC20_INTERFACE.encodeFunctionData('balanceOf', [account]),
+    blockTag,
+  });
+  return BigInt(result);
+}
+
+// Reads the balances of the tracked accounts around the transaction's block
+async function getBalanceChanges(
+  receipt: TransactionReceipt,
+  logs: BaseLog[],
+  execution: Execution,
+  options: SimulationOptions
+): Promise<BalanceChange[]> {
+  const transfers = getTransfers(receipt.logs);
+  const safe = ethers.getAddress(execution.safe);
+  const accounts = new Set([safe, ...(options.accounts ?? []).map(ethers.getAddress)]);
+  for (const transfer of transfers) {
+    if (transfer.from === safe) {
+      accounts.add(transfer.to);
+    }
+  }
+  for (const sendLog of logs.filter((log) => Number(log.eventId) === ACTION_LOG_IDS.SEND_TOKEN)) {
+    accounts.add(ethers.getAddress((sendLog as SendTokenLog).to));
+  }
+  const tokens = new Set([ETH_ADDRESS, ...(options.tokens ?? []).map(ethers.getAddress)]);
+  for (const transfer of transfers) {
+    if (accounts.has(transfer.from) || accounts.has(transfer.to)) {
+      tokens.add(transfer.token);
+    }
+  }
+
+  const changes: BalanceChange[] = [];
+  for (const account of accounts) {
+    for (const token of tokens) {
+      const before = await getBalance(account, token, receipt.blockNumber - 1);
+      let after = await getBalance(account, token, receipt.blockNumber);
+      if (token === ETH_ADDRESS && account === ethers.getAddress(receipt.from)) {
+        after += receipt.fee;
+      }
+      if (after !== before) {
+        changes.push({ account, token, before, after, delta: after - before });
+      }
+    }
+  }
+  return changes;
+}
+
+function getFees(actions: ActionSimulation[]): FeeTaken[] {
+  return actions.flatMap((action) =>
+    action.logs.flatMap((log): FeeTaken[] => {
+      switch (Number(log.eventId)) {
+        case ACTION_LOG_IDS.BALANCE_UPDATE: {
+          const { poolId, feeInTokens } = log as BalanceUpdateLog;
+          return feeInTokens > 0n
+            ? [{ actionIndex: action.index, type: 'fee', amount: feeInTokens, poolId }]
+            : [];
+        }
+        case ACTION_LOG_IDS.GAS_REFUND: {
+          const { refundToken, refundAmount, recipient } = log as GasRefundLog;
+          return [
+            {
+              actionIndex: action.index,
+              type: 'gasRefund',
+              amount: refundAmount,
+              token: refundToken,
+              recipient,
+            },
+          ];
+        }
+        default:
+          return [];
+      }
+    })
+  );
+}
+
+// Sums the ERC20 transfers of the tracked accounts
+function getTransferDeltas(logs: Log[], accounts: Set<string>): BalanceDelta[] {
+  const deltas = new Map<string, BalanceDelta>();
+  const add = (account: string, token: string, amount: bigint) => {
+    if (!accounts.has(account)) {
+      return;
+    }
+    const key = `${account}:${token}`;
+    const entry = deltas.get(key) ?? { account, token, delta: 0n };
+    entry.delta += amount;
+    deltas.set(key, entry);
+  };
+  for (const transfer of getTransfers(logs)) {
+    add(transfer.from, transfer.token, -transfer.amount);
+    add(transfer.to, transfer.token, transfer.amount);
+  }
+  return [...deltas.values()].filter((entry) => entry.delta !== 0n);
+}
+
+// Runs the transaction with SequenceExecutorProfiler and splits its logs by action
+async function profileActions(
+  execution: Execution,
+  accounts: Set<string>,
+  options: SimulationOptions
+): Promise<ActionSimulation[]> {
+  return inSnapshot(async () => {
+    await execution.prepare?.();
+    const sender = await getSender(execution);
+    const sequenceExecutor = SequenceExecutor__factory.connect(
+      execution.sequenceExecutor,
+      hardhatEthers.provider
+    );
+    const profiler = await (
+      await hardhatEthers.getContractFactory('SequenceExecutorProfiler', sender)
+    ).deploy(await sequenceExecutor.ADMIN_VAULT());
+    const code = await hardhatEthers.provider.getCode(await profiler.getAddress());
+    await network.provider.send('hardhat_setCode', [execution.sequenceExecutor, code]);
+
+    const tx = await sender.sendTransaction({
+      to: execution.to,
+      data: execution.data,
+      value: execution.value,
+    });
+    const receipt = (await tx.wait())!;
+
+    const actions: ActionSimulation[] = [];
+    let segment: Log[] = [];
+    for (const log of receipt.logs) {
+      if (
+        log.topics[0] !== PROFILED_TOPIC ||
+        ethers.getAddress(log.address) !== ethers.getAddress(execution.safe)
+      ) {
+        segment.push(log);
+        continue;
+      }
+      const { index, gasUsed } = PROFILER_INTERFACE.parseLog(log)!.args;
+      const actionId = execution.actionIds[Number(index)];
+      actions.push({
+        index: Number(index),
+        actionId,
+        name: (await options.resolveAction?.(actionId))?.name,
+        gasUsed,
+        logs: await decodeLoggerLog(segment),
+        transfers: getTransferDeltas(segment, accounts),
+      });
+      segment = [];
+    }
+    return actions;
+  });
+}
+
+async function simulate(
+  execution: Execution,
+  options: SimulationOptions
+): Promise<BundleSimulation> {
+  const outcome = await inSnapshot(async () => {
+    await execution.prepare?.();
+    const sender = await getSender(execution);
+    try {
+      const tx = await sender.sendTransaction({
+        to: execution.to,
+        data: execution.data,
+        value: execution.value,
+      });
+      const receipt = (await tx.wait())!;
+      const logs = await decodeLoggerLog(receipt);
+      return {
+        receipt,
+        balanceChanges: await getBalanceChanges(receipt, logs, execution, options),
+      };
+    } catch (error) {
+      const revertData = getRevertData(error);
+      if (revertData === undefined) {
+        throw error;
+      }
+      // Decoded here, the revert decoder re-runs the call on the prepared state
+      const call = { ...execution, from: await sender.getAddress() };
+      return { revert: await decodeCallRevert(call, revertData, options) };
+    }
+  });
+
+  if (!outcome.receipt) {
+    return {
+      success: false,
+      gasUsed: 0n,
+      revert: outcome.revert,
+      actions: [],
+      balanceChanges: [],
+      fees: [],
+    };
+  }
+  const accounts = new Set(outcome.balanceChanges.map((change) => change.account));
+  const actions = await profileActions(execution, accounts, options);
+  return {
+    success: true,
+    gasUsed: outcome.receipt.gasUsed,
+    actions,
+    balanceChanges: outcome.balanceChanges,
+    fees: getFees(actions),
+  };
+}
+
+/**
+ * Simulates EIP712TypedDataSafeModule.executeBundle on the local hardhat node
+ * @param bundle The bundle
+ * @param safeAddress The Safe the bundle is executed on
+ * @param options The module, the signature (signed by a temporary owner when missing) and what to
+ * report
+ * @returns What the sequence for this chain and the Safe's next nonce does
+ */
+export async function simulateBundle(
+  bundle: Bundle,
+  safeAddress: string,
+  options: SimulationOptions & { eip712Module: string; signature?: string }
+): Promise<BundleSimulation> {
+  const provider = hardhatEthers.provider;
+  const module = EIP712TypedDataSafeModule__factory.connect(options.eip712Module, provider);
+  const [nonce, { chainId }, sequenceExecutor] = await Promise.all([
+    module.sequenceNonces(safeAddress),
+    provider.getNetwork(),
+    module.SEQUENCE_EXECUTOR_ADDR(),
+  ]);
+  const target = bundle.sequences.find(
+    (chainSequence) => chainSequence.chainId === chainId && chainSequence.sequenceNonce === nonce
+  );
+
+  let signature = options.signature;
+  let prepare: (() => Promise<void>) | undefined;
+  if (!signature) {
+    const owner = ethers.Wallet.createRandom();
+    const domain = createEIP712Domain(
+      safeAddress,
+      1,
+      await module.domainName(),
+      await module.domainVersion()
+    );
+    signature = await owner.signTypedData(domain, EIP712_TYPES, bundle);
+    prepare = async () => {
+      // The Safe adds the owner itself, its ETH balance is restored after paying for the gas
+      const balance = await provider.getBalance(safeAddress);
+      const safeSigner = await getImpersonatedSigner(safeAddress);
+      const safe = ISafe__factory.connect(safeAddress, safeSigner);
+      await (await safe.addOwnerWithThreshold(owner.address, await safe.getThreshold())).wait();
+      await network.provider.send('hardhat_setBalance', [safeAddress, ethers.toQuantity(balance)]);
+    };
+  }
+
+  return simulate(
+    {
+      safe: safeAddress,
+      to: options.eip712Module,
+      data: module.interface.encodeFunctionData('executeBundle', [safeAddress, bundle, signature]),
+      value: options.value ?? 0n,
+      from: options.from,
+      sequenceExecutor,
+      actionIds: target?.sequence.actionIds ?? [],
+      prepare,
+    },
+    options
+  );
+}
+
+/**
+ * Simulates SequenceExecutor.executeSequence through the Safe's execTransaction on the local
+ * hardhat node, sent by a Safe owner (the Safe's threshold must be 1)
+ * @param sequence The sequence
+ * @param safeAddress The Safe
+ * @param options The SequenceExecutor and what to report
+ * @returns What the sequence does
+ */
+export async function simulateSequence(
+  sequence: SequenceExecutor.SequenceStruct,
+  safeAddress: string,
+  options: SimulationOptions & { sequenceExecutor: string }
+): Promise<BundleSimulation> {
+  const safe = ISafe__factory.connect(safeAddress, hardhatEthers.provider);
+  const from = options.from ?? (await safe.getOwners())[0];
+  const payload = SEQUENCE_EXECUTOR_INTERFACE.encodeFunctionData('executeSequence', [
+    sequence,
+    { expiry: 0, sequences: [] },
+    '0x',
+    0,
+  ]);
+  // Pre-validated signature: the sender is the owner
+  const signature =
+    ethers.AbiCoder.defaultAbiCoder().encode(['address', 'bytes32'], [from, ethers.ZeroHash]) +
+    '01';
+
+  return simulate(
+    {
+      safe: safeAddress,
+      to: safeAddress,
+      data: safe.interface.encodeFunctionData('execTransaction', [
+        options.sequenceExecutor,
+        0,
+        payload,
+        1,
+        0,
+        0,
+        0,
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+        signature,
+      ]),
+      value: options.value ?? 0n,
+      from,
+      sequenceExecutor: options.sequenceExecutor,
+      actionIds: sequence.actionIds.map((actionId) => ethers.hexlify(actionId)),
+    },
+    options
+  );
+}
@@ -0,0 +1,189 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { AdminVault, EIP712TypedDataSafeModule } from '../typechain-types';
+import { validateBundle } from './bundle-validator';
+import { getBytes4 } from './shared-utils';
+import { Bundle, RefundRecipient, createBundle } from './utils-eip712';
+
+describe('Bundle validator tests', () => {
+  let adminVault: AdminVault;
+  let eip712Module: EIP712TypedDataSafeModule;
+  let chainId: bigint;
+  let sendToken: { id: string; protocolName: string; actionType: number };
+  let gasRefund: { id: string; protocolName: string; actionType: number };
+  const safeAddress = '0x000000000000000000000000000000000000bEEF';
+  // Only the AdminVault is read, the rest of the module config is never called
+  const placeholder = '0x0000000000000000000000000000000000000001';
+
+  before(async () => {
+    const [signer] = await ethers.getSigners();
+    chainId = (await ethers.provider.getNetwork()).chainId;
+    const loggerImplementation = await (await ethers.getContractFactory('Logger')).deploy();
+    const loggerProxy = await (
+      await ethers.getContractFactory('ERC1967Proxy')
+    ).deploy(
+      await loggerImplementation.getAddress(),
+      loggerImplementation.interface.encodeFunctionData('initialize')
+    );
+    const logger = await loggerProxy.getAddress();
+    adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(signer.address, 0, logger)) as unknown as AdminVault;
+    eip712Module = (await (
+      await ethers.getContractFactory('EIP712TypedDataSafeModule')
+    ).deploy(signer.address)) as unknown as EIP712TypedDataSafeModule;
+    await eip712Module.initializeConfig(
+      await adminVault.getAddress(),
+      placeholder,
+      placeholder,
+      placeholder,
+      placeholder,
+      placeholder,
+      'BravaSafeModule',
+      '1.0.0'
+    );
+
+    const sendTokenContract = await (
+      await ethers.getContractFactory('SendToken')
+    ).deploy(await adminVault.getAddress(), logger);
+    const gasRefundContract = await (
+      await ethers.getContractFactory('GasRefundAction')
+    ).deploy(
+      await adminVault.getAddress(),
+      logger,
+      placeholder,
+      placeholder,
+      placeholder,
+      await eip712Module.getAddress()
+    );
+    for (const contract of [sendTokenContract, gasRefundContract]) {
+      const address = await contract.getAddress();
+      await adminVault.proposeAction(getBytes4(address), address);
+      await adminVault.addAction(getBytes4(address), address);
+    }
+    sendToken = {
+      id: getBytes4(await sendTokenContract.getAddress()),
+      protocolName: await sendTokenContract.protocolName(),
+      actionType: Number(await sendTokenContract.actionType()),
+    };
+    gasRefund = {
+      id: getBytes4(await gasRefundContract.getAddress()),
+      protocolName: await gasRefundContract.protocolName(),
+      actionType: Number(await gasRefundContract.actionType()),
+    };
+  });
+
+  // The expiry is set from the block time, earlier tests may have moved it past the wall clock
+  const bundleOf = async (
+    actions: { id: string; protocolName: string; actionType: number }[],
+    options: Parameters<typeof createBundle>[0] = {}
+  ): Promise<Bundle> => {
+    const { expiryOffset = 3600, ...rest } = options;
+    const bundle = createBundle({
+      actions: actions.map(({ protocolName, actionType }) => ({ protocolName, actionType })),
+      actionIds: actions.map(({ id }) => id),
+      callData: actions.map(() => '0x'),
+      chainId,
+      sequenceNonce: 0n,
+      ...rest,
+    });
+    const block = await ethers.provider.getBlock('latest');
+    bundle.expiry = BigInt(block!.timestamp + expiryOffset);
+    return bundle;
+  };
+
+  const validate = async (bundle: Bundle) =>
+    validateBundle(bundle, safeAddress, ethers.provider, {
+      eip712Module: await eip712Module.getAddress(),
+    });
+
+  it('Should accept a bundle executeBundle would run', async () => {
+    const validation = await validate(await bundleOf([sendToken, sendToken]));
+    expect(validation.problems).to.deep.equal([]);
+    expect(validation.targetIndex).to.equal(0);
+    expect(validation.sequenceNonce).to.equal(0n);
+
+    const withRefund = await bundleOf([sendToken, gasRefund], {
+      enableGasRefund: true,
+      refundRecipient: RefundRecipient.FEE_RECIPIENT,
+    });
+    expect((await validate(withRefund)).problems).to.deep.equal([]);
+  });
+
+  it('Should report the expiry and a missing sequence for the chain and nonce', async () => {
+    const expired = await bundleOf([sendToken], { expiryOffset: -60 });
+    expect((await validate(expired)).problems.map((problem) => problem.code)).to.deep.equal([
+      'BundleExpired',
+    ]);
+
+    const wrongNonce = await validate(await bundleOf([sendToken], { sequenceNonce: 1n }));
+    expect(wrongNonce.targetIndex).to.be.undefined;
+    expect(wrongNonce.problems.map((problem) => problem.code)).to.deep.equal([
+      'ChainSequenceNotFound',
+    ]);
+  });
+
+  it('Should report every action problem by sequence and action index', async () => {
+    const unknownId = '0x12345678';
+    const bundle = await bundleOf([
+      sendToken,
+      { ...sendToken, id: unknownId },
+      { ...sendToken, protocolName: 'Other' },
+      { ...sendToken, actionType: 0 },
+    ]);
+    const validation = await validate(bundle);
+    expect(
+      validation.problems.map(({ code, sequenceIndex, actionIndex }) => ({
+        code,
+        sequenceIndex,
+        actionIndex,
+      }))
+    ).to.deep.equal([
+      { code: 'ActionNotFound', sequenceIndex: 0, actionIndex: 1 },
+      { code: 'ActionMismatch', sequenceIndex: 0, actionIndex: 2 },
+      { code: 'ActionMismatch', sequenceIndex: 0, actionIndex: 3 },
+    ]);
+    expect(validation.problems[0].message).to.contain(unknownId);
+  });
+
+  it('Should report length mismatches and inconsistent gas refund settings', async () => {
+    const mismatched = await bundleOf([sendToken]);
+    mismatched.sequences[0].sequence.callData.push('0x');
+    expect((await validate(mismatched)).problems).to.deep.equal([
+      {
+        code: 'LengthMismatch',
+        message: '1 actions, 1 action IDs and 2 call data',
+        sequenceIndex: 0,
+      },
+    ]);
+
+    const refundRequired = await bundleOf([sendToken], { enableGasRefund: true });
+    const refundNotAllowed = await bundleOf([sendToken, gasRefund]);
+    const invalidRecipient = await bundleOf([sendToken, gasRefund], {
+      enableGasRefund: true,
+      refundRecipient: 2 as RefundRecipient,
+    });
+    expect((await validate(refundRequired)).problems.map((p) => p.code)).to.deep.equal([
+      'RefundActionRequired',
+    ]);
+    expect((await validate(refundNotAllowed)).problems.map((p) => p.code)).to.deep.equal([
+      'RefundActionNotAllowed',
+    ]);
+    expect((await validate(invalidRecipient)).problems).to.deep.equal([
+      {
+        code: 'InvalidRefundRecipient',
+        message: `Refund recipient 2 is not accepted by ${gasRefund.protocolName}`,
+        sequenceIndex: 0,
+        actionIndex: 1,
+      },
+    ]);
+  });
+
+  it('Should only check the lengths of sequences for other chains', async () => {
+    const bundle = await bundleOf([{ ...sendToken, id: '0x12345678' }], { chainId: chainId + 1n });
+    const validation = await validate(bundle);
+    expect(validation.problems.map((problem) => problem.code)).to.deep.equal([
+      'ChainSequenceNotFound',
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+import { BlockTag, Interface, Provider, ethers } from 'ethers';
+import {
+  ActionBase__factory,
+  AdminVault__factory,
+  EIP712TypedDataSafeModule__factory,
+  GasRefundAction__factory,
+} from '../typechain-types';
+import { Bundle, ChainSequence } from './utils-eip712';
+
+/**
+ * Bundle pre-flight validation
+ *
+ * Repeats the checks EIP712TypedDataSafeModule.executeBundle makes before it executes anything,
+ * against the live module and AdminVault state: the expiry, a sequence for the current chain and
+ * the Safe's next nonce, the sequence lengths, the registration, protocolName and actionType of
+ * every action, and the gas refund settings. Unlike the module, which reverts on the first
+ * failure, every problem is reported, by sequence and action index.
+ * Sequences of other chains only get the checks that need no chain state (the lengths).
+ * The signature and the Safe ownership are not checked, see validateBundleSignature.
+ */
+
+// Named after the EIP712TypedDataSafeModule error each problem would revert with
+export type BundleProblemCode =
+  | 'BundleExpired'
+  | 'ChainSequenceNotFound'
+  | 'LengthMismatch'
+  | 'ActionNotFound'
+  | 'ActionMismatch'
+  | 'RefundActionRequired'
+  | 'RefundActionNotAllowed'
+  | 'InvalidRefundRecipient';
+
+export interface BundleProblem {
+  code: BundleProblemCode;
+  message: string;
+  // Index in bundle.sequences, undefined for problems of the whole bundle
+  sequenceIndex?: number;
+  // Index in the sequence's actions, undefined for problems of the whole sequence
+  actionIndex?: number;
+}
+
+export interface BundleValidation {
+  chainId: bigint;
+  // The Safe's next sequence nonce on this chain
+  sequenceNonce: bigint;
+  // Index in bundle.sequences of the sequence executeBundle would run, undefined when none
+  targetIndex?: number;
+  problems: BundleProblem[];
+}
+
+export interface ValidateBundleOptions {
+  // The EIP712TypedDataSafeModule the bundle is executed through
+  eip712Module: string;
+  // Block to read the state at (default: latest)
+  blockTag?: BlockTag;
+  // Execution time the expiry is checked against (default: the timestamp of blockTag)
+  timestamp?: bigint;
+}
+
+// ActionBase.ActionType.FEE_ACTION, the action type of GasRefundAction
+const FEE_ACTION = 4;
+
+const REFUND_PROBE_INTERFACE = new Interface(GasRefundAction__factory.abi);
+
+interface ActionInfo {
+  address: string;
+  // Undefined when the contract doesn't implement ActionBase
+  protocolName?: string;
+  actionType?: number;
+}
+
+// Reads each action ID once, all sequences of a bundle usually share their actions
+function createActionReader(adminVault: string, provider: Provider, blockTag?: BlockTag) {
+  const vault = AdminVault__factory.connect(adminVault, provider);
+  const cache = new Map<string, Promise<ActionInfo | undefined>>();
+  const read = async (actionId: string): Promise<ActionInfo | undefined> => {
+    // actionAddresses rather than getActionAddress, which reverts for unknown IDs
+    const address = await vault.actionAddresses(actionId, { blockTag });
+    if (address === ethers.ZeroAddress) {
+      return undefined;
+    }
+    const action = ActionBase__factory.connect(address, provider);
+    try {
+      const [protocolName, actionType] = await Promise.all([
+        action.protocolName({ blockTag }),
+        action.actionType({ blockTag }),
+      ]);
+      return { address, protocolName, actionType: Number(actionType) };
+    } catch {
+      return { address };
+    }
+  };
+  return (actionId: string) => {
+    const key = actionId.toLowerCase();
+    if (!cache.has(key)) {
+      cache.set(key, read(key));
+    }
+    return cache.get(key)!;
+  };
+}
+
+// Mirrors the module's staticcall probe: a refund action that can't answer accepts any recipient
+async function isValidRefundRecipient(
+  action: string,
+  refundRecipient: number,
+  provider: Provider,
+  blockTag?: BlockTag
+): Promise<boolean> {
+  try {
+    const result = await provider.call({
+      to: action,
+      data: REFUND_PROBE_INTERFACE.encodeFunctionData('isValidRefundRecipient', [refundRecipient]),
+      blockTag,
+    });
+    if (ethers.dataLength(result) < 32) {
+      return true;
+    }
+    return BigInt(ethers.dataSlice(result, 0, 32)) !== 0n;
+  } catch {
+    return true;
+  }
+}
+
+async function validateChainSequence(
+  chainSequence: ChainSequence,
+  sequenceIndex: number,
+  readAction: ReturnType<typeof createActionReader>,
+  provider: Provider,
+  blockTag?: BlockTag
+): Promise<BundleProblem[]> {
+  const actionProblems: BundleProblem[] = [];
+  const { actions, actionIds } = chainSequence.sequence;
+  let hasRefundAction = false;
+
+  // The module scans from the last action, only the last FEE_ACTION has its recipient probed
+  for (let actionIndex = actions.length - 1; actionIndex >= 0; actionIndex--) {
+    const expected = actions[actionIndex];
+    const actionId = actionIds[actionIndex];
+    const action = await readAction(actionId);
+    if (!action) {
+      actionProblems.push({
+        code: 'ActionNotFound',
+        message: `Action ${actionId} is not registered in the AdminVault`,
+        sequenceIndex,
+        actionIndex,
+      });
+      continue;
+    }
+    if (
+      action.protocolName !== expected.protocolName ||
+      action.actionType !== Number(expected.actionType)
+    ) {
+      const actual =
+        action.protocolName === undefined
+          ? `${action.address}, which is not an action`
+          : `${action.protocolName} type ${action.actionType}`;
+      actionProblems.push({
+        code: 'ActionMismatch',
+        message: `Action ${actionId} is signed as ${expected.protocolName} type ${expected.actionType} but resolves to ${actual}`,
+        sequenceIndex,
+        actionIndex,
+      });
+      continue;
+    }
+    if (!hasRefundAction && action.actionType === FEE_ACTION) {
+      hasRefundAction = true;
+      if (
+        !(await isValidRefundRecipient(
+          action.address,
+          chainSequence.refundRecipient,
+          provider,
+          blockTag
+        ))
+      ) {
+        actionProblems.push({
+          code: 'InvalidRefundRecipient',
+          message: `Refund recipient ${chainSequence.refundRecipient} is not accepted by ${action.protocolName}`,
+          sequenceIndex,
+          actionIndex,
+        });
+      }
+    }
+  }
+
+  // Reported in action order, the scan above runs backwards
+  const problems = actionProblems.reverse();
+  if (chainSequence.enableGasRefund && !hasRefundAction) {
+    problems.push({
+      code: 'RefundActionRequired',
+      message: 'Gas refunds are enabled but the sequence has no FEE_ACTION',
+      sequenceIndex,
+    });
+  }
+  if (!chainSequence.enableGasRefund && hasRefundAction) {
+    problems.push({
+      code: 'RefundActionNotAllowed',
+      message: 'The sequence has a FEE_ACTION but gas refunds are not enabled',
+      sequenceIndex,
+    });
+  }
+  return problems;
+}
+
+/**
+ * Validates a bundle against the state of the current chain, before it is signed or executed
+ * @param bundle The bundle
+ * @param safeAddress The Safe the bundle is executed on
+ * @param provider Provider for the current chain
+ * @param options The module address, block and execution time
+ * @returns The problems found, empty when executeBundle would get past its checks
+ */
+export async function validateBundle(
+  bundle: Bundle,
+  safeAddress: string,
+  provider: Provider,
+  options: ValidateBundleOptions
+): Promise<BundleValidation> {
+  const { blockTag } = options;
+  const eip712Module = EIP712TypedDataSafeModule__factory.connect(options.eip712Module, provider);
+  const [{ chainId }, sequenceNonce, adminVault, block] = await Promise.all([
+    provider.getNetwork(),
+    eip712Module.sequenceNonces(safeAddress, { blockTag }),
+    eip712Module.ADMIN_VAULT({ blockTag }),
+    provider.getBlock(blockTag ?? 'latest'),
+  ]);
+  const problems: BundleProblem[] = [];
+
+  const timestamp = options.timestamp ?? BigInt(block?.timestamp ?? 0);
+  if (bundle.expiry <= timestamp) {
+    problems.push({
+      code: 'BundleExpired',
+      message: `The bundle expired at ${bundle.expiry}, the block time is ${timestamp}`,
+    });
+  }
+
+  // executeBundle runs the first sequence for this chain with the Safe's next nonce
+  const targetIndex = bundle.sequences.findIndex(
+    (chainSequence) =>
+      chainSequence.chainId === chainId && chainSequence.sequenceNonce === sequenceNonce
+  );
+  if (targetIndex === -1) {
+    problems.push({
+      code: 'ChainSequenceNotFound',
+      message: `No sequence for chain ${chainId} with nonce ${sequenceNonce}`,
+    });
+  }
+
+  const readAction = createActionReader(adminVault, provider, blockTag);
+  for (const [sequenceIndex, chainSequence] of bundle.sequences.entries()) {
+    const { actions, actionIds, callData } = chainSequence.sequence;
+    if (actions.length !== actionIds.length || actions.length !== callData.length) {
+      problems.push({
+        code: 'LengthMismatch',
+        message: `${actions.length} actions, ${actionIds.length} action IDs and ${callData.length} call data`,
+        sequenceIndex,
+      });
+      continue;
+    }
+    if (chainSequence.chainId === chainId) {
+      problems.push(
+        ...(await validateChainSequence(
+          chainSequence,
+          sequenceIndex,
+          readAction,
+          provider,
+          blockTag
+        ))
+      );
+    }
+  }
+
+  return {
+    chainId,
+    sequenceNonce,
+    targetIndex: targetIndex === -1 ? undefined : targetIndex,
+    problems,
+  };
+}
+
+/**
+ * Formats the problems of a validation, one per line, e.g.
+ * sequence 0 (Supply) action 2: ActionNotFound: Action 0x12345678 is not registered in the AdminVault
+ * @param validation The validation
+ * @param bundle The validated bundle, for the sequence names
+ */
+export function formatBundleProblems(validation: BundleValidation, bundle: Bundle): string {
+  return validation.problems
+    .map((problem) => {
+      const location: string[] = [];
+      if (problem.sequenceIndex !== undefined) {
+        const name = bundle.sequences[problem.sequenceIndex]?.sequence.name;
+        location.push(`sequence ${problem.sequenceIndex} (${name})`);
+      }
+      if (problem.actionIndex !== undefined) {
+        location.push(`action ${problem.actionIndex}`);
+      }
+      const prefix = location.length > 0 ? `${location.join(' ')}: ` : '';
+      return `${prefix}${problem.code}: ${problem.message}`;
+    })
+    .join('\n');
+}
@@ -1,5 +1,10 @@
+import { applyMockTokenConfig, isMockNetwork } from './mock-config';
+
 // CoverAsset import removed - not used in this file
 
+// Mainnet block the hardhat network forks at
+export const FORK_BLOCK_NUMBER = 23096055;
+
 // Contract Addresses
 export const CURVE_3POOL_ADDRESS = '0xbEbc44782C7dB0a1A60Cb6fe97d0b483032FF1C7';
 export const AAVE_V2_POOL = '0x7d2768dE32b0b80b7a3454c06BdAc94A69DDc7A9';
@@ -9,10 +14,21 @@ export const BEND_DAO_V1_POOL = '0x70b97A0da65C15dfb0FFA02aEE6FA36e507C2762';
 export const ACROSS_HUB = '0xc186fA914353c44b2E33eBE05f21846F1048bEda';
 export const SAFE_PROXY_FACTORY_ADDRESS = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67';
 export const SAFE_SINGLETON_ADDRESS = '0x41675C099F32341bf84BFc5382aF534df5C7461a';
+export const SAFE_MULTI_SEND_CALL_ONLY_ADDRESS = '0x9641d764fc13c8B624c04430C7356C1C7C8102e2';
 export const YEARN_REGISTRY_ADDRESS = '0x50c1a2eA0a861A967D9d0FFE2AE4012c2E053804';
 export const OWNER_ADDRESS = '0x47ac0Fb4F2D84898e4D9E7b4DaB3C24507a6D503';
 export const ADMIN_ADDRESS = '0x47ac0Fb4F2D84898e4D9E7b4DaB3C24507a6D503';
 export const CREATE_X_ADDRESS = '0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed';
+// CreateX salt labels of the deterministic proxies, see scripts/deployments/deterministic-proxy.ts
+export const PROXY_LABELS = {
+  Logger: 'brava.Logger.v1',
+  SafeDeployment: 'brava.SafeDeployment.v1',
+} as const;
+export const CHAINLINK_ETH_USD_ORACLE = '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419';
+export const NOTIONAL_ROUTER = '0x6e7058c91F85E0F6db4fc9da2CA41241f5e4263f';
+export const PARASWAP_AUGUSTUS_ROUTER = '0x6A000F20005980200259B80c5102003040001068';
+export const ZERO_EX_ALLOWANCE_HOLDER = '0x0000000000001ff3684f28c67538d4d072c22734';
+export const CCTP_TOKEN_MESSENGER_V2 = '0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d';
 
 // Nexus Mutual
 export const NEXUS_MUTUAL_BROKER_ADDRESS = '0xCB2B736652D2dBf7d72e4dB880Cf6B7d99507814';
@@ -40,6 +56,10 @@ export const ROLES = {
   ACTION_EXECUTOR_ROLE: 'ACTION_EXECUTOR_ROLE',
   ACTION_CANCELER_ROLE: 'ACTION_CANCELER_ROLE',
   ACTION_DISPOSER_ROLE: 'ACTION_DISPOSER_ROLE',
+  TRANSACTION_PROPOSER_ROLE: 'TRANSACTION_PROPOSER_ROLE',
+  TRANSACTION_EXECUTOR_ROLE: 'TRANSACTION_EXECUTOR_ROLE',
+  TRANSACTION_CANCELER_ROLE: 'TRANSACTION_CANCELER_ROLE',
+  TRANSACTION_DISPOSER_ROLE: 'TRANSACTION_DISPOSER_ROLE',
   FEE_TAKER_ROLE: 'FEE_TAKER_ROLE',
   // Add more roles as needed
 } as const;
@@ -433,3 +453,81 @@ export const tokenConfig = {
     decimals: 6,
   },
 };
+
+// Pool tokens are the tokenConfig keys with an underscore, the others are base tokens
+export type PoolTokenKey = Extract<keyof typeof tokenConfig, `${string}_${string}`>;
+export type BaseTokenKey = Exclude<keyof typeof tokenConfig, PoolTokenKey>;
+
+// The underlying token of every pool token, a new pool token must be added here
+export const POOL_UNDERLYING_TOKENS: Record<PoolTokenKey, BaseTokenKey> = {
+  FLUID_V1_USDC: 'USDC',
+  FLUID_V1_USDT: 'USDT',
+  FLUID_V1_GHO: 'GHO',
+  YEARN_V2_USDC: 'USDC',
+  YEARN_V2_USDT: 'USDT',
+  YEARN_V2_DAI: 'DAI',
+  VESPER_V1_USDC: 'USDC',
+  AAVE_V2_aDAI: 'DAI',
+  AAVE_V2_aUSDC: 'USDC',
+  AAVE_V2_aUSDT: 'USDT',
+  AAVE_V3_aDAI: 'DAI',
+  AAVE_V3_aUSDC: 'USDC',
+  AAVE_V3_aUSDT: 'USDT',
+  STRIKE_V1_USDC: 'USDC',
+  STRIKE_V1_USDT: 'USDT',
+  CLEARPOOL_V1_ALP_USDC: 'USDC',
+  CLEARPOOL_V1_AUR_USDC: 'USDC',
+  UWU_V1_DAI: 'DAI',
+  UWU_V1_USDT: 'USDT',
+  BEND_V1_USDT: 'USDT',
+  SPARK_V1_DAI: 'DAI',
+  SPARK_V1_USDS: 'USDS',
+  ACROSS_V3_lpUSDC: 'USDC',
+  ACROSS_V3_lpUSDT: 'USDT',
+  ACROSS_V3_lpDAI: 'DAI',
+  MORPHO_V1_fxUSDC: 'USDC',
+  MORPHO_V1_USUALUSDC: 'USDC',
+  MORPHO_V1_gtUSDCcore: 'USDC',
+  NOTIONAL_V3_USDC: 'USDC',
+  YEARN_V3_DAI: 'DAI',
+  YEARN_V3_AJNA_DAI: 'DAI',
+  YEARN_V3_USDS: 'USDS',
+  YEARN_V3_SKY_USDS: 'USDS',
+  MORPHO_V1_re7USDT: 'USDT',
+  MORPHO_V1_reUSDC: 'USDC',
+  MORPHO_V1_steakUSDT: 'USDT',
+  MORPHO_V1_steakUSDC: 'USDC',
+  MORPHO_V1_gtUSDC: 'USDC',
+  MORPHO_V1_gtUSDT: 'USDT',
+  MORPHO_V1_smokehouseUSDC: 'USDC',
+  MORPHO_V1_gtDAIcore: 'DAI',
+  GEARBOX_PASSIVE_V3_USDC: 'USDC',
+  GEARBOX_PASSIVE_V3_DAI: 'DAI',
+  GEARBOX_PASSIVE_V3_K3_USDT: 'USDT',
+  GEARBOX_PASSIVE_V3_CHAOS_GHO: 'GHO',
+  MORPHO_V1_coinshiftUSDC: 'USDC',
+  MORPHO_V1_steakhouseUSDC_RWA: 'USDC',
+  MORPHO_V1_9S_MountDenali_USDC: 'USDC',
+  MORPHO_V1_9Summits_USDC: 'USDC',
+  MORPHO_V1_smokehouseUSDT: 'USDT',
+  MORPHO_V1_flagshipUSDT: 'USDT',
+  EULER_V2_PRIME_USDC: 'USDC',
+  EULER_V2_YIELD_USDC: 'USDC',
+  EULER_V2_YIELD_USDT: 'USDT',
+  EULER_V2_YIELD_USDE: 'USDE',
+  EULER_V2_MAXI_USDC: 'USDC',
+  EULER_V2_RESOLV_USDC: 'USDC',
+  MORPHO_V1_steakhouserUSD: 'rUSD',
+  MORPHO_V1_steakhousePYUSD: 'PYUSD',
+  MORPHO_V1_coinshiftUSDL: 'wUSDL',
+  CURVE_SAVINGS_scrvUSD: 'crvUSD',
+  CURVE_SAVINGS_cvcrvUSD: 'crvUSD',
+  MAPLE_V1_HY_USDC: 'USDC',
+  MAPLE_V1_BC_USDC: 'USDC',
+  MAPLE_V1_HY_SEC_USDC: 'USDC',
+};
+
+// Without a fork the mocked tokens live at local addresses, see mock-protocols.ts
+if (isMockNetwork()) {
+  applyMockTokenConfig(tokenConfig);
+}
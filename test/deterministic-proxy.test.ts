@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import { artifacts, ethers, network } from 'hardhat';
+import {
+  deployDeterministicProxy,
+  getGuardedSalt,
+  getProxyInitCode,
+  getProxySalt,
+  predictProxyAddress,
+  predictProxyAdminAddress,
+  readProxySlots,
+  verifyProxySlots,
+} from '../scripts/deployments/deterministic-proxy';
+import { CREATE_X_ADDRESS } from './constants';
+
+describe('Deterministic proxy tests', () => {
+  const label = 'brava.test.Logger.v1';
+
+  before(async () => {
+    // The fork has the real CreateX, without a fork the mock computes the same addresses
+    if ((await ethers.provider.getCode(CREATE_X_ADDRESS)) === '0x') {
+      const { deployedBytecode } = await artifacts.readArtifact('MockCreateX');
+      await network.provider.send('hardhat_setCode', [CREATE_X_ADDRESS, deployedBytecode]);
+    }
+  });
+
+  it('Should predict the address CreateX deploys to from the label and deployer', async () => {
+    const [deployer, other] = await ethers.getSigners();
+    const createX = await ethers.getContractAt('ICreateX', CREATE_X_ADDRESS);
+    const guardedSalt = getGuardedSalt(getProxySalt(label));
+    const initCodeHash = ethers.keccak256(getProxyInitCode(deployer.address));
+
+    expect(
+      await createX['computeCreate2Address(bytes32,bytes32)'](guardedSalt, initCodeHash)
+    ).to.equal(predictProxyAddress(label, deployer.address));
+    expect(predictProxyAddress(label, other.address)).to.not.equal(
+      predictProxyAddress(label, deployer.address)
+    );
+    expect(predictProxyAddress('brava.test.Logger.v2', deployer.address)).to.not.equal(
+      predictProxyAddress(label, deployer.address)
+    );
+    expect(() => getProxySalt('brava.test.Logger')).to.throw('must end with a version');
+  });
+
+  it('Should deploy, initialize and upgrade the proxy through its ProxyAdmin', async () => {
+    const [deployer] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory('Logger', deployer);
+    const implementation = await (await factory.deploy()).getAddress();
+    const initData = factory.interface.encodeFunctionData('initialize');
+
+    const deployment = await deployDeterministicProxy({
+      label,
+      implementation,
+      initData,
+      signer: deployer,
+    });
+    const proxy = predictProxyAddress(label, deployer.address);
+    expect(deployment.proxy).to.equal(proxy);
+    expect(deployment.admin).to.equal(predictProxyAdminAddress(proxy));
+    expect(deployment.deployTxHash).to.not.be.undefined;
+    expect(deployment.upgradeTxHash).to.not.be.undefined;
+    expect(await readProxySlots(proxy, ethers.provider)).to.deep.equal({
+      implementation,
+      admin: deployment.admin,
+    });
+    const proxyAdmin = await ethers.getContractAt('ProxyAdmin', deployment.admin);
+    expect(await proxyAdmin.owner()).to.equal(deployer.address);
+    // initialize ran through the first upgrade
+    const logger = await ethers.getContractAt('Logger', proxy);
+    await expect(logger.initialize()).to.be.revertedWithCustomError(
+      logger,
+      'InvalidInitialization'
+    );
+
+    // Re-running sends nothing
+    const rerun = await deployDeterministicProxy({
+      label,
+      implementation,
+      initData,
+      signer: deployer,
+    });
+    expect(rerun.deployTxHash).to.be.undefined;
+    expect(rerun.upgradeTxHash).to.be.undefined;
+
+    // A new implementation is upgraded to without calling initialize again, init data for an
+    // initialized proxy is refused instead of dropped
+    const newImplementation = await (await factory.deploy()).getAddress();
+    await expect(
+      deployDeterministicProxy({
+        label,
+        implementation: newImplementation,
+        initData,
+        signer: deployer,
+      })
+    ).to.be.rejectedWith(`${label} proxy ${proxy} is already initialized`);
+    const upgrade = await deployDeterministicProxy({
+      label,
+      implementation: newImplementation,
+      signer: deployer,
+    });
+    expect(upgrade.deployTxHash).to.be.undefined;
+    expect(upgrade.upgradeTxHash).to.not.be.undefined;
+    await verifyProxySlots(
+      proxy,
+      { implementation: newImplementation, admin: deployment.admin },
+      ethers.provider
+    );
+    await expect(
+      verifyProxySlots(proxy, { implementation, admin: deployment.admin }, ethers.provider)
+    ).to.be.rejectedWith(`implementation slot is ${newImplementation}`);
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { AdminVault, Logger } from '../typechain-types';
+import {
+  BalanceUpdateEntry,
+  FEE_PERIOD,
+  calculateFee,
+  forecastPoolFees,
+  getBalanceUpdateHistory,
+  getFeeContext,
+  reconcileFees,
+} from './fee-forecaster';
+import { ACTION_LOG_IDS } from './logs';
+
+describe('Fee forecaster tests', () => {
+  const poolId = '0x12345678';
+  const day = 24 * 60 * 60;
+
+  function entry(
+    timestamp: number,
+    balanceBefore: bigint,
+    balanceAfter: bigint,
+    feeInTokens: bigint
+  ): BalanceUpdateEntry {
+    return {
+      strategyId: 1,
+      poolId,
+      balanceBefore,
+      balanceAfter,
+      feeInTokens,
+      blockNumber: timestamp,
+      timestamp,
+      txHash: ethers.ZeroHash,
+    };
+  }
+
+  it('Should calculate fees like ActionBase', () => {
+    // 1% a year on 1,000,000 for a full fee period
+    expect(calculateFee(1_000_000n, 100n, 0, Number(FEE_PERIOD))).to.equal(10_000n);
+    // Rounds down like the Solidity integer division
+    expect(calculateFee(1_000_000n, 100n, 0, day)).to.equal(27n);
+    expect(() => calculateFee(1n, 100n, 2, 1)).to.throw('is before the last fee');
+  });
+
+  it('Should project the fee owed per pool', () => {
+    const history = [entry(1000, 0n, 1_000_000n, 0n), entry(2000, 1_000_000n, 0n, 0n)];
+    expect(forecastPoolFees(history, 100n, 2000 + day)).to.deep.equal([]);
+
+    history.push(entry(3000, 0n, 2_000_000n, 0n));
+    const [forecast] = forecastPoolFees(history, 100n, 3000 + 365 * day);
+    expect(forecast.projectedFee).to.equal(20_000n);
+    expect(forecast.lastFeeTimestamp).to.equal(3000);
+
+    expect(() =>
+      forecastPoolFees(history, 100n, 3000, { feeConfig: { minBasis: 0n, maxBasis: 50n } })
+    ).to.throw('Fee basis 100 is outside the allowed range 0-50');
+  });
+
+  it('Should flag fees that differ from the projection', () => {
+    const expected = calculateFee(1_000_000n, 100n, 1000, 1000 + 30 * day);
+    const history = [
+      entry(1000, 0n, 1_000_000n, 0n),
+      entry(1000 + 30 * day, 1_000_000n, 1_500_000n, expected),
+      entry(1000 + 60 * day, 1_500_000n, 1_000_000n, 1n),
+    ];
+
+    expect(reconcileFees(history, 100n).map((result) => result.status)).to.deep.equal([
+      'match',
+      'match',
+      'discrepancy',
+    ]);
+    expect(reconcileFees(history.slice(1), 100n)[0].status).to.equal('no-baseline');
+  });
+
+  it('Should read the balance update history of a Safe from the Logger', async () => {
+    const [, safe, other] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory('Logger');
+    const logger = (await factory.deploy()) as unknown as Logger;
+    const encode = (before: bigint, after: bigint, fee: bigint) =>
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['uint16', 'bytes4', 'uint256', 'uint256', 'uint256'],
+        [1, poolId, before, after, fee]
+      );
+
+    await logger.connect(safe).logActionEvent(ACTION_LOG_IDS.BALANCE_UPDATE, encode(0n, 1000n, 0n));
+    await logger.connect(other).logActionEvent(ACTION_LOG_IDS.BALANCE_UPDATE, encode(0n, 5n, 0n));
+    await time.increase(day);
+    await logger
+      .connect(safe)
+      .logActionEvent(ACTION_LOG_IDS.BALANCE_UPDATE, encode(1000n, 2000n, 1n));
+
+    const history = await getBalanceUpdateHistory(
+      ethers.provider,
+      await logger.getAddress(),
+      safe.address
+    );
+    expect(history.map(({ balanceAfter }) => balanceAfter)).to.deep.equal([1000n, 2000n]);
+    expect(history[1].timestamp - history[0].timestamp).to.be.gte(day);
+  });
+
+  it('Should read the fee config and the last fee timestamp of a Safe from the AdminVault', async () => {
+    const [owner, safe] = await ethers.getSigners();
+    const logger = await (await ethers.getContractFactory('Logger')).deploy();
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(owner.address, 0, await logger.getAddress())) as unknown as AdminVault;
+    const pool = '0x000000000000000000000000000000000000bEEF';
+    await adminVault.proposePool('Test', pool);
+    await adminVault.addPool('Test', pool);
+
+    const before = await getFeeContext(adminVault, safe.address, pool);
+    expect(before).to.deep.equal({ minBasis: 0n, maxBasis: 1000n, lastFeeTimestamp: 0 });
+
+    // The timestamp is stored per caller, only the Safe's own one is returned
+    await adminVault.connect(safe).setFeeTimestamp(pool);
+    const timestamp = await time.latest();
+    expect((await getFeeContext(adminVault, safe.address, pool)).lastFeeTimestamp).to.equal(
+      timestamp
+    );
+    expect((await getFeeContext(adminVault, owner.address, pool)).lastFeeTimestamp).to.equal(0);
+  });
+});
@@ -0,0 +1,256 @@
+import { Provider, ethers } from 'ethers';
+import { AdminVault } from '../typechain-types';
+import { ACTION_LOG_IDS, BalanceUpdateLog, LOGGER_INTERFACE, decodeActionEventLog } from './logs';
+
+/**
+ * Fee forecaster and reconciliation
+ *
+ * Rebuilds a Safe's BALANCE_UPDATE history and applies the ActionBase._calculateFee formula to it:
+ * - forecastPoolFees projects the fee owed on every pool at a future timestamp
+ * - reconcileFees recomputes the fee of every logged update and flags the ones whose
+ *   feeInTokens differs from the expected fee
+ * ActionBase charges the fee on the balance before the action, which is the balanceBefore of the
+ * log, for the time since the previous fee collection on the same pool. The fee timestamp is
+ * stored per Safe and pool, so updates are grouped by poolId whatever their strategyId.
+ */
+
+// Matches ActionBase
+export const FEE_BASIS_POINTS = 10000n;
+export const FEE_PERIOD = 365n * 24n * 60n * 60n;
+
+export interface BalanceUpdateEntry {
+  strategyId: number;
+  poolId: string;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  feeInTokens: bigint;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface FeeConfig {
+  minBasis: bigint;
+  maxBasis: bigint;
+}
+
+export interface PoolFeeForecast {
+  poolId: string;
+  balance: bigint;
+  lastFeeTimestamp: number;
+  timestamp: number;
+  feeBasis: bigint;
+  projectedFee: bigint;
+}
+
+export type ReconciliationStatus = 'match' | 'discrepancy' | 'no-baseline';
+
+export interface FeeReconciliation {
+  entry: BalanceUpdateEntry;
+  // Undefined when the previous fee collection is outside the history
+  expectedFee?: bigint;
+  difference?: bigint;
+  status: ReconciliationStatus;
+}
+
+/**
+ * Calculates a fee the way ActionBase._calculateFee does
+ * @param totalDeposit The balance the fee is charged on
+ * @param feeBasis The annual fee in basis points
+ * @param lastFeeTimestamp When the fee was last taken
+ * @param currentTimestamp When the fee is taken
+ * @returns The fee in the pool token
+ */
+export function calculateFee(
+  totalDeposit: bigint,
+  feeBasis: bigint,
+  lastFeeTimestamp: number,
+  currentTimestamp: number
+): bigint {
+  if (currentTimestamp < lastFeeTimestamp) {
+    throw new Error(`Timestamp ${currentTimestamp} is before the last fee at ${lastFeeTimestamp}`);
+  }
+  const secondsPassed = BigInt(currentTimestamp - lastFeeTimestamp);
+  const annualFee = (totalDeposit * feeBasis) / FEE_BASIS_POINTS;
+  return (annualFee * secondsPassed) / FEE_PERIOD;
+}
+
+/**
+ * Checks a fee basis against the fee config, like AdminVault.checkFeeBasis
+ * @param feeBasis The fee basis
+ * @param feeConfig The AdminVault fee config
+ */
+export function checkFeeBasis(feeBasis: bigint, feeConfig: FeeConfig) {
+  if (feeBasis < feeConfig.minBasis || feeBasis > feeConfig.maxBasis) {
+    throw new Error(
+      `Fee basis ${feeBasis} is outside the allowed range ${feeConfig.minBasis}-${feeConfig.maxBasis}`
+    );
+  }
+}
+
+/**
+ * Reads the BALANCE_UPDATE history of a Safe from the Logger
+ * @param provider Provider of the Logger's chain
+ * @param loggerAddress The Logger
+ * @param safeAddress The Safe
+ * @param range The block range (default: the whole chain)
+ * @returns The updates in the order they were logged
+ */
+export async function getBalanceUpdateHistory(
+  provider: Provider,
+  loggerAddress: string,
+  safeAddress: string,
+  range: { fromBlock?: number; toBlock?: number } = {}
+): Promise<BalanceUpdateEntry[]> {
+  const safe = ethers.getAddress(safeAddress);
+  const logs = await provider.getLogs({
+    address: loggerAddress,
+    topics: [new ethers.Interface(LOGGER_INTERFACE).getEvent('ActionEvent')!.topicHash],
+    fromBlock: range.fromBlock ?? 0,
+    toBlock: range.toBlock ?? 'latest',
+  });
+
+  const timestamps = new Map<number, number>();
+  const history: BalanceUpdateEntry[] = [];
+  for (const log of logs) {
+    const decoded = decodeActionEventLog(log) as BalanceUpdateLog | undefined;
+    if (
+      !decoded ||
+      Number(decoded.eventId) !== ACTION_LOG_IDS.BALANCE_UPDATE ||
+      decoded.safeAddress !== safe
+    ) {
+      continue;
+    }
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block!.timestamp);
+    }
+    history.push({
+      strategyId: Number(decoded.strategyId),
+      poolId: decoded.poolId.toLowerCase(),
+      balanceBefore: decoded.balanceBefore,
+      balanceAfter: decoded.balanceAfter,
+      feeInTokens: decoded.feeInTokens,
+      blockNumber: log.blockNumber,
+      timestamp: timestamps.get(log.blockNumber)!,
+      txHash: log.transactionHash,
+    });
+  }
+  return history;
+}
+
+/**
+ * Reads the fee config and a Safe's last fee timestamp for a pool from the AdminVault
+ * @param adminVault The AdminVault, connected to a provider
+ * @param safeAddress The Safe
+ * @param poolAddress The pool
+ * @returns The fee config and the last fee timestamp (0 when fees were never taken)
+ */
+export async function getFeeContext(
+  adminVault: AdminVault,
+  safeAddress: string,
+  poolAddress: string
+): Promise<FeeConfig & { lastFeeTimestamp: number }> {
+  const [feeConfig, lastFeeTimestamp] = await Promise.all([
+    adminVault.feeConfig(),
+    // The value getLastFeeTimestamp returns when the Safe calls it
+    adminVault.lastFeeTimestamp(safeAddress, poolAddress),
+  ]);
+  return {
+    minBasis: feeConfig.minBasis,
+    maxBasis: feeConfig.maxBasis,
+    lastFeeTimestamp: Number(lastFeeTimestamp),
+  };
+}
+
+/**
+ * Projects the fee owed on every pool of a Safe at a timestamp
+ * @param history The Safe's balance update history
+ * @param feeBasis The fee basis the next action will use, per poolId or for every pool
+ * @param timestamp The timestamp to project to
+ * @param options The fee config to check the basis against, and the on-chain last fee timestamp
+ *                per poolId (default: the timestamp of the last update of the pool)
+ * @returns The forecast of every pool with a non-zero balance
+ */
+export function forecastPoolFees(
+  history: BalanceUpdateEntry[],
+  feeBasis: bigint | Record<string, bigint>,
+  timestamp: number,
+  options: { feeConfig?: FeeConfig; lastFeeTimestamps?: Record<string, number> } = {}
+): PoolFeeForecast[] {
+  const latest = new Map<string, BalanceUpdateEntry>();
+  for (const entry of history) {
+    latest.set(entry.poolId, entry);
+  }
+
+  const forecasts: PoolFeeForecast[] = [];
+  for (const [poolId, entry] of latest) {
+    if (entry.balanceAfter === 0n) {
+      continue;
+    }
+    const basis = typeof feeBasis === 'bigint' ? feeBasis : feeBasis[poolId];
+    if (basis === undefined) {
+      throw new Error(`No fee basis for pool ${poolId}`);
+    }
+    if (options.feeConfig) {
+      checkFeeBasis(basis, options.feeConfig);
+    }
+    const lastFeeTimestamp = options.lastFeeTimestamps?.[poolId] ?? entry.timestamp;
+    forecasts.push({
+      poolId,
+      balance: entry.balanceAfter,
+      lastFeeTimestamp,
+      timestamp,
+      feeBasis: basis,
+      projectedFee: calculateFee(entry.balanceAfter, basis, lastFeeTimestamp, timestamp),
+    });
+  }
+  return forecasts;
+}
+
+/**
+ * Recomputes the fee of every balance update and compares it with the logged feeInTokens
+ * @param history The Safe's balance update history
+ * @param feeBasis The fee basis the actions used, per poolId or for every pool
+ * @param toleranceBps Allowed difference in basis points of the expected fee (default: 0)
+ * @returns One reconciliation per update, in history order
+ */
+export function reconcileFees(
+  history: BalanceUpdateEntry[],
+  feeBasis: bigint | Record<string, bigint>,
+  toleranceBps = 0n
+): FeeReconciliation[] {
+  const previous = new Map<string, BalanceUpdateEntry>();
+  return history.map((entry) => {
+    const last = previous.get(entry.poolId);
+    previous.set(entry.poolId, entry);
+
+    if (!last) {
+      // The previous fee collection is outside the history, so this update can't be checked
+      if (entry.balanceBefore !== 0n) {
+        return { entry, status: 'no-baseline' };
+      }
+      // Opening a position only initializes the fee timestamp
+      return {
+        entry,
+        expectedFee: 0n,
+        difference: entry.feeInTokens,
+        status: entry.feeInTokens === 0n ? 'match' : 'discrepancy',
+      };
+    }
+
+    const basis = typeof feeBasis === 'bigint' ? feeBasis : feeBasis[entry.poolId];
+    if (basis === undefined) {
+      throw new Error(`No fee basis for pool ${entry.poolId}`);
+    }
+    const expectedFee = calculateFee(entry.balanceBefore, basis, last.timestamp, entry.timestamp);
+    const difference = entry.feeInTokens - expectedFee;
+    const absolute = difference < 0n ? -difference : difference;
+    return {
+      entry,
+      expectedFee,
+      difference,
+      status: absolute * FEE_BASIS_POINTS <= expectedFee * toleranceBps ? 'match' : 'discrepancy',
+    };
+  });
+}
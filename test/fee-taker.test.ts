@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { AdminVault, FeeTakeSafeModule } from '../typechain-types';
+import {
+  FeePool,
+  FeeTakerConfig,
+  executeFeeTakes,
+  getDepositActionIds,
+  planFeeTakes,
+} from './fee-taker';
+import { getBytes4 } from './shared-utils';
+
+describe('Fee taker tests', () => {
+  const day = 24 * 60 * 60;
+  let adminVault: AdminVault;
+  let pools: FeePool[];
+  let config: FeeTakerConfig;
+
+  before(async () => {
+    const [admin, , , , poolA, poolB, poolC] = await ethers.getSigners();
+    const logger = await (await ethers.getContractFactory('Logger')).deploy();
+    adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(admin.address, 0, await logger.getAddress())) as unknown as AdminVault;
+
+    // Signer addresses stand in for pools, only their registration matters for the fee timestamps
+    pools = [
+      { protocol: 'FluidV1', poolId: getBytes4(poolA.address), poolAddress: poolA.address },
+      { protocol: 'YearnV3', poolId: getBytes4(poolB.address), poolAddress: poolB.address },
+      { protocol: 'Unknown', poolId: getBytes4(poolC.address), poolAddress: poolC.address },
+    ];
+    for (const pool of pools) {
+      await adminVault.proposePool(pool.protocol, pool.poolAddress);
+      await adminVault.addPool(pool.protocol, pool.poolAddress);
+    }
+
+    config = {
+      pools,
+      depositActionIds: getDepositActionIds({
+        FluidV1Supply: '0x11111111',
+        FluidV1Withdraw: '0x22222222',
+        YearnV3Supply: '0x33333333',
+      }),
+      feeBasis: 100,
+      maxPoolsPerCall: 1,
+      getBalance: async () => 1_000_000_000n,
+    };
+  });
+
+  it('Should map protocols to their deposit actions', () => {
+    expect(config.depositActionIds).to.deep.equal({ FluidV1: '0x11111111', YearnV3: '0x33333333' });
+  });
+
+  it('Should plan fee takes and skip pools that are not worth it', async () => {
+    const [, safe, otherSafe] = await ethers.getSigners();
+    // The Safe records its own fee timestamps
+    await adminVault.connect(safe).setFeeTimestamp(pools[0].poolAddress);
+    await adminVault.connect(safe).setFeeTimestamp(pools[1].poolAddress);
+    await adminVault.connect(safe).setFeeTimestamp(pools[2].poolAddress);
+    await time.increase(30 * day);
+    await adminVault.connect(otherSafe).setFeeTimestamp(pools[0].poolAddress);
+
+    const plans = await planFeeTakes(
+      adminVault,
+      [
+        ...pools.map((pool) => ({ safeAddress: safe.address, poolId: pool.poolId })),
+        { safeAddress: otherSafe.address, poolId: pools[0].poolId },
+        { safeAddress: otherSafe.address, poolId: pools[1].poolId },
+        { safeAddress: otherSafe.address, poolId: '0x12345678' },
+      ],
+      config
+    );
+
+    expect(plans).to.have.length(2);
+    const [safePlan, otherPlan] = plans;
+    expect(safePlan.batches.map((batch) => batch[0].actionId)).to.deep.equal([
+      '0x11111111',
+      '0x33333333',
+    ]);
+    // 1% a year on 1,000 tokens for about 30 days
+    expect(safePlan.batches[0][0].expectedFee).to.be.closeTo(821917n, 1000n);
+    expect(safePlan.skipped).to.deep.equal([
+      { poolId: pools[2].poolId, reason: 'no deposit action for Unknown' },
+    ]);
+    expect(otherPlan.batches).to.deep.equal([]);
+    expect(otherPlan.skipped[0].reason).to.match(/^fee taken \d+s ago$/);
+    expect(otherPlan.skipped.slice(1).map(({ reason }) => reason)).to.deep.equal([
+      'fee timestamp not initialized',
+      'unknown pool',
+    ]);
+  });
+
+  it('Should only submit as a FEE_TAKER_ROLE holder', async () => {
+    const [, safe, , bot] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory('FeeTakeSafeModule');
+    const feeTakeModule = (await factory.deploy(
+      await adminVault.getAddress(),
+      ethers.ZeroAddress
+    )) as unknown as FeeTakeSafeModule;
+
+    await expect(
+      executeFeeTakes(feeTakeModule, adminVault, bot, [
+        { safeAddress: safe.address, batches: [], skipped: [] },
+      ])
+    ).to.be.rejectedWith(`${bot.address} does not have the FEE_TAKER_ROLE`);
+  });
+});
@@ -0,0 +1,232 @@
+import { ContractTransactionReceipt, Provider, Signer, ethers } from 'ethers';
+import { AdminVault, FeeTakeSafeModule, IERC20__factory } from '../typechain-types';
+import { actionRegistry } from './action-registry';
+import { ROLES } from './constants';
+import { calculateFee } from './fee-forecaster';
+import { IndexerState } from './logger-indexer';
+
+/**
+ * Fee-taking bot
+ *
+ * Plans and submits FeeTakeSafeModule.takeFees calls. A target is a Safe and a pool it holds,
+ * from the Logger indexer or a supplied list. Every target is matched to the deposit action of
+ * its pool's protocol, and skipped when its fee was taken too recently or the expected fee is too
+ * small to be worth the gas. The remaining targets are batched into one takeFees call per Safe.
+ */
+
+export interface FeePool {
+  protocol: string;
+  poolId: string;
+  poolAddress: string;
+}
+
+export interface FeeTarget {
+  safeAddress: string;
+  poolId: string;
+}
+
+export interface FeeTakerConfig {
+  // The registered pools, e.g. from the deployment ledger
+  pools: FeePool[];
+  // Action ID of the deposit action of each protocol, see getDepositActionIds
+  depositActionIds: Record<string, string>;
+  // Fee basis per poolId, or for every pool
+  feeBasis: number | Record<string, number>;
+  // Seconds that must have passed since the last fee (default: 1 day)
+  minInterval?: number;
+  // Smallest expected fee, in pool tokens, worth taking (default: 1)
+  minFee?: bigint;
+  // Most pools per takeFees call (default: 10)
+  maxPoolsPerCall?: number;
+  // Reads the Safe's pool balance the fee is charged on (default: ERC20 balanceOf of the pool)
+  getBalance?: (safeAddress: string, pool: FeePool) => Promise<bigint>;
+}
+
+export interface PlannedFee {
+  pool: FeePool;
+  actionId: string;
+  feeBasis: number;
+  balance: bigint;
+  lastFeeTimestamp: number;
+  expectedFee: bigint;
+}
+
+export interface SkippedFee {
+  poolId: string;
+  reason: string;
+}
+
+export interface FeeTakePlan {
+  safeAddress: string;
+  // One entry per takeFees call
+  batches: PlannedFee[][];
+  skipped: SkippedFee[];
+}
+
+/**
+ * Finds the deposit action of every protocol
+ * @param actionIds Action ID of every deployed action, keyed by action name
+ * @returns The deposit action ID keyed by protocol name
+ */
+export function getDepositActionIds(actionIds: Record<string, string>): Record<string, string> {
+  const depositActionIds: Record<string, string> = {};
+  for (const [name, definition] of Object.entries(actionRegistry)) {
+    // Only deposits that take a fee basis can be triggered with a zero amount
+    const takesFee = (definition.params ?? []).some((param) => param.name === 'feeBasis');
+    if (definition.actionType === 0 && takesFee && actionIds[name]) {
+      depositActionIds[definition.protocolName] = actionIds[name];
+    }
+  }
+  return depositActionIds;
+}
+
+/**
+ * Returns the Safes and pools with a balance in the indexer state
+ * @param state The Logger indexer state
+ * @returns One target per Safe and pool
+ */
+export function getTargetsFromIndexer(state: IndexerState): FeeTarget[] {
+  const targets = new Map<string, FeeTarget>();
+  for (const position of Object.values(state.positions)) {
+    if (position.balance > 0n) {
+      const key = `${position.safeAddress}:${position.poolId}`;
+      targets.set(key, { safeAddress: position.safeAddress, poolId: position.poolId });
+    }
+  }
+  return [...targets.values()];
+}
+
+/**
+ * Plans the takeFees calls for a set of targets
+ * @param adminVault The AdminVault, connected to a provider
+ * @param targets The Safes and pools to take fees from
+ * @param config The pools, deposit actions, fee basis and thresholds
+ * @param timestamp The time the fees would be taken at (default: the latest block)
+ * @returns One plan per Safe, in the order the Safes first appear in the targets
+ */
+export async function planFeeTakes(
+  adminVault: AdminVault,
+  targets: FeeTarget[],
+  config: FeeTakerConfig,
+  timestamp?: number
+): Promise<FeeTakePlan[]> {
+  const provider = adminVault.runner?.provider as Provider;
+  const {
+    minInterval = 24 * 60 * 60,
+    minFee = 1n,
+    maxPoolsPerCall = 10,
+    getBalance = (safeAddress: string, pool: FeePool) =>
+      IERC20__factory.connect(pool.poolAddress, provider).balanceOf(safeAddress),
+  } = config;
+  const now = timestamp ?? (await provider.getBlock('latest'))!.timestamp;
+  const pools = new Map(config.pools.map((pool) => [pool.poolId.toLowerCase(), pool]));
+
+  const plans = new Map<string, { planned: PlannedFee[]; skipped: SkippedFee[] }>();
+  for (const target of targets) {
+    const safeAddress = ethers.getAddress(target.safeAddress);
+    const plan = plans.get(safeAddress) ?? { planned: [], skipped: [] };
+    plans.set(safeAddress, plan);
+    const skip = (reason: string) => plan.skipped.push({ poolId: target.poolId, reason });
+
+    const pool = pools.get(target.poolId.toLowerCase());
+    if (!pool) {
+      skip('unknown pool');
+      continue;
+    }
+    const actionId = config.depositActionIds[pool.protocol];
+    if (!actionId) {
+      skip(`no deposit action for ${pool.protocol}`);
+      continue;
+    }
+    const feeBasis =
+      typeof config.feeBasis === 'number' ? config.feeBasis : config.feeBasis[pool.poolId];
+    if (feeBasis === undefined) {
+      skip('no fee basis');
+      continue;
+    }
+
+    // The value getLastFeeTimestamp returns when the Safe calls it
+    const lastFeeTimestamp = Number(
+      await adminVault.lastFeeTimestamp(safeAddress, pool.poolAddress)
+    );
+    if (lastFeeTimestamp === 0) {
+      skip('fee timestamp not initialized');
+      continue;
+    }
+    if (now - lastFeeTimestamp < minInterval) {
+      skip(`fee taken ${now - lastFeeTimestamp}s ago`);
+      continue;
+    }
+    const balance = await getBalance(safeAddress, pool);
+    const expectedFee = calculateFee(balance, BigInt(feeBasis), lastFeeTimestamp, now);
+    if (expectedFee < minFee) {
+      skip(`expected fee ${expectedFee} is below ${minFee}`);
+      continue;
+    }
+    plan.planned.push({ pool, actionId, feeBasis, balance, lastFeeTimestamp, expectedFee });
+  }
+
+  return [...plans].map(([safeAddress, { planned, skipped }]) => {
+    const batches: PlannedFee[][] = [];
+    for (let i = 0; i < planned.length; i += maxPoolsPerCall) {
+      batches.push(planned.slice(i, i + maxPoolsPerCall));
+    }
+    return { safeAddress, batches, skipped };
+  });
+}
+
+/**
+ * Formats a plan for dry runs
+ * @param plan The plan of a Safe
+ * @returns The planned calls and skipped pools, one per line
+ */
+export function formatFeeTakePlan(plan: FeeTakePlan): string {
+  const lines = [`Safe ${plan.safeAddress}`];
+  plan.batches.forEach((batch, index) => {
+    lines.push(`  takeFees call ${index + 1}:`);
+    for (const fee of batch) {
+      lines.push(
+        `    ${fee.pool.protocol} pool ${fee.pool.poolId} via action ${fee.actionId}, fee basis ${fee.feeBasis}, balance ${fee.balance}, expected fee ${fee.expectedFee}`
+      );
+    }
+  });
+  for (const { poolId, reason } of plan.skipped) {
+    lines.push(`  skipped pool ${poolId}: ${reason}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Submits the planned takeFees calls
+ * @param feeTakeModule The FeeTakeSafeModule
+ * @param adminVault The AdminVault, to check the signer's role
+ * @param signer A FEE_TAKER_ROLE holder
+ * @param plans The plans from planFeeTakes
+ * @returns The receipt of every call, in plan order
+ */
+export async function executeFeeTakes(
+  feeTakeModule: FeeTakeSafeModule,
+  adminVault: AdminVault,
+  signer: Signer,
+  plans: FeeTakePlan[]
+): Promise<ContractTransactionReceipt[]> {
+  const signerAddress = await signer.getAddress();
+  const feeTakerRole = ethers.keccak256(ethers.toUtf8Bytes(ROLES.FEE_TAKER_ROLE));
+  if (!(await adminVault.hasRole(feeTakerRole, signerAddress))) {
+    throw new Error(`${signerAddress} does not have the FEE_TAKER_ROLE`);
+  }
+
+  const receipts: ContractTransactionReceipt[] = [];
+  for (const plan of plans) {
+    for (const batch of plan.batches) {
+      const tx = await feeTakeModule.connect(signer).takeFees(
+        plan.safeAddress,
+        batch.map((fee) => fee.actionId),
+        batch.map((fee) => fee.pool.poolId),
+        batch.map((fee) => fee.feeBasis)
+      );
+      receipts.push((await tx.wait())!);
+    }
+  }
+  return receipts;
+}
@@ -0,0 +1,170 @@
+import { Signer, ethers } from 'ethers';
+import {
+  EIP712TypedDataSafeModule,
+  IAggregatorV3__factory,
+  IERC20Metadata__factory,
+  ITokenRegistry__factory,
+} from '../typechain-types';
+import { Bundle, signBundle } from './utils-eip712';
+
+/**
+ * Gas refund estimator for EIP-712 bundles
+ *
+ * Simulates executeBundle for the sequence of the current chain and prices the gas in the refund
+ * token the same way GasRefundAction does: gasUsed * gasPrice * ETH/USD answer, scaled from
+ * 18 + oracle decimals down to the token decimals. The ETH/USD feed and TokenRegistry are read
+ * from the module so the estimate uses the same configuration as the refund itself.
+ */
+
+// Matches GasRefundAction
+const ORACLE_STALENESS_THRESHOLD = 3600n;
+const DEFAULT_SAFETY_MARGIN_BPS = 2000n;
+
+export interface GasRefundEstimateOptions {
+  // The Safe the bundle is executed for
+  safeAddress: string;
+  // Signature of the bundle, or the Safe owner to sign it with for the simulation
+  signature?: string;
+  owner?: Signer;
+  // Account that submits the bundle (default: the owner)
+  executor?: string;
+  // Gas price to price the refund at (default: the provider's current gas price)
+  gasPrice?: bigint;
+  // Added on top of the estimated refund, in basis points (default: 2000, 20%)
+  safetyMarginBps?: bigint;
+}
+
+export interface GasRefundEstimate {
+  // Index of the chain sequence executed on this chain
+  sequenceIndex: number;
+  refundToken: string;
+  gasUsed: bigint;
+  gasPrice: bigint;
+  ethUsdPrice: bigint;
+  oracleDecimals: number;
+  tokenDecimals: number;
+  // Refund GasRefundAction would pay for the simulated gas
+  refundAmount: bigint;
+  // refundAmount plus the safety margin, to use as the sequence's maxRefundAmount
+  maxRefundAmount: bigint;
+}
+
+/**
+ * Converts a gas cost to an amount of the refund token, as GasRefundAction does
+ * @param gasUsed Gas used
+ * @param gasPrice Gas price in wei
+ * @param ethUsdPrice ETH/USD answer of the oracle
+ * @param oracleDecimals Decimals of the oracle answer
+ * @param tokenDecimals Decimals of the refund token
+ * @returns The refund amount in the refund token
+ */
+export function calculateRefundAmount(
+  gasUsed: bigint,
+  gasPrice: bigint,
+  ethUsdPrice: bigint,
+  oracleDecimals: number,
+  tokenDecimals: number
+): bigint {
+  const denomExp = 18 + oracleDecimals - tokenDecimals;
+  if (denomExp < 0) {
+    throw new Error(`Token decimals ${tokenDecimals} exceed 18 + oracle decimals`);
+  }
+  return (gasUsed * gasPrice * ethUsdPrice) / 10n ** BigInt(denomExp);
+}
+
+/**
+ * Estimates the gas refund of the sequence a bundle executes on the module's chain
+ * @param eip712Module The module the bundle is executed through, connected to a provider or signer
+ * @param bundle The bundle, with the refund token and recipient already set
+ * @param options The Safe, a signature or the owner to sign with, and the pricing options
+ * @returns The estimated refund and the recommended maxRefundAmount
+ */
+export async function estimateGasRefund(
+  eip712Module: EIP712TypedDataSafeModule,
+  bundle: Bundle,
+  options: GasRefundEstimateOptions
+): Promise<GasRefundEstimate> {
+  const { safeAddress, owner, safetyMarginBps = DEFAULT_SAFETY_MARGIN_BPS } = options;
+  const provider = eip712Module.runner?.provider;
+  if (!provider) {
+    throw new Error('The module must be connected to a provider');
+  }
+
+  // Find the sequence executeBundle will pick on this chain
+  const { chainId } = await provider.getNetwork();
+  const nonce = await eip712Module.getSequenceNonce(safeAddress);
+  const sequenceIndex = bundle.sequences.findIndex(
+    (chainSequence) => chainSequence.chainId === chainId && chainSequence.sequenceNonce === nonce
+  );
+  if (sequenceIndex === -1) {
+    throw new Error(`Bundle has no sequence for chain ${chainId} with nonce ${nonce}`);
+  }
+  const { enableGasRefund, refundToken } = bundle.sequences[sequenceIndex];
+  if (!enableGasRefund) {
+    throw new Error(`Sequence ${sequenceIndex} does not enable gas refunds`);
+  }
+
+  // GasRefundAction skips unapproved tokens, so fail before simulating
+  const tokenRegistry = ITokenRegistry__factory.connect(
+    await eip712Module.TOKEN_REGISTRY(),
+    provider
+  );
+  if (!(await tokenRegistry.isApprovedToken(refundToken))) {
+    throw new Error(`Refund token ${refundToken} is not approved in the TokenRegistry`);
+  }
+
+  // GasRefundAction skips the refund for a non-positive or stale answer
+  const oracle = IAggregatorV3__factory.connect(await eip712Module.ETH_USD_ORACLE(), provider);
+  const [, ethUsdPrice, , updatedAt] = await oracle.latestRoundData();
+  if (ethUsdPrice <= 0n) {
+    throw new Error(`ETH/USD oracle returned ${ethUsdPrice}`);
+  }
+  const block = await provider.getBlock('latest');
+  if (block && BigInt(block.timestamp) - updatedAt > ORACLE_STALENESS_THRESHOLD) {
+    throw new Error(`ETH/USD oracle answer is stale, last updated at ${updatedAt}`);
+  }
+
+  const signature = options.signature ?? (owner && (await signBundle(owner, bundle, safeAddress)));
+  if (!signature) {
+    throw new Error('Pass the bundle signature or the Safe owner to sign it');
+  }
+  // Estimated through the provider, a signer-connected module rejects a different from address
+  const executor = options.executor ?? (await owner?.getAddress());
+  const gasUsed = await provider.estimateGas({
+    to: await eip712Module.getAddress(),
+    data: eip712Module.interface.encodeFunctionData('executeBundle', [
+      safeAddress,
+      bundle,
+      signature,
+    ]),
+    from: executor,
+  });
+  const gasPrice = options.gasPrice ?? (await provider.getFeeData()).gasPrice;
+  if (gasPrice === null) {
+    throw new Error('Gas price unavailable, pass gasPrice');
+  }
+
+  const oracleDecimals = Number(await oracle.decimals());
+  const tokenDecimals = Number(
+    await IERC20Metadata__factory.connect(refundToken, provider).decimals()
+  );
+  const refundAmount = calculateRefundAmount(
+    gasUsed,
+    gasPrice,
+    ethUsdPrice,
+    oracleDecimals,
+    tokenDecimals
+  );
+
+  return {
+    sequenceIndex,
+    refundToken: ethers.getAddress(refundToken),
+    gasUsed,
+    gasPrice,
+    ethUsdPrice,
+    oracleDecimals,
+    tokenDecimals,
+    refundAmount,
+    maxRefundAmount: (refundAmount * (10000n + safetyMarginBps)) / 10000n,
+  };
+}
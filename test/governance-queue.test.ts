@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import { ethers, network } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  GovernanceContracts,
+  GovernanceQueue,
+  addLedgerProposals,
+  cancelStale,
+  executeReady,
+  getQueuePath,
+  getQueueReport,
+  loadQueue,
+  propose,
+} from '../scripts/deployments/governance-queue';
+import {
+  DeploymentLedger,
+  getLedgerPath,
+  registerActionWithLedger,
+  registerPoolWithLedger,
+} from '../scripts/deployments/ledger';
+import { AdminVault, Logger, TokenRegistry } from '../typechain-types';
+import { getBytes4 } from './shared-utils';
+
+describe('Governance queue tests', () => {
+  const delay = 60 * 60;
+  const actionAddress = '0x000000000000000000000000000000000000a11c';
+  const poolAddress = '0x000000000000000000000000000000000000bEEF';
+  let contracts: GovernanceContracts & { tokenRegistry: TokenRegistry };
+  let queue: GovernanceQueue;
+
+  beforeEach(async () => {
+    const [admin] = await ethers.getSigners();
+    const logger = (await (
+      await ethers.getContractFactory('Logger')
+    ).deploy()) as unknown as Logger;
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(admin.address, delay, await logger.getAddress())) as unknown as AdminVault;
+    const tokenRegistry = (await (
+      await ethers.getContractFactory('TokenRegistry')
+    ).deploy(await adminVault.getAddress(), await logger.getAddress())) as unknown as TokenRegistry;
+    contracts = { adminVault, tokenRegistry };
+
+    fs.rmSync(getQueuePath(), { force: true });
+    queue = await loadQueue();
+  });
+
+  after(() => {
+    fs.rmSync(getQueuePath(), { force: true });
+    fs.rmSync(getLedgerPath(), { force: true });
+  });
+
+  it('Should queue the ledger proposals and execute them once their delay has passed', async () => {
+    const { adminVault } = contracts;
+    const ledger: DeploymentLedger = {
+      network: network.name,
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      external: {},
+      contracts: {},
+      actions: {},
+      pools: {},
+    };
+    expect(
+      await registerActionWithLedger(ledger, adminVault, 'TestAction', actionAddress)
+    ).to.equal('proposed');
+    expect(await registerPoolWithLedger(ledger, adminVault, 'Test', poolAddress)).to.equal(
+      'proposed'
+    );
+
+    const actionKey = `action:${getBytes4(actionAddress)}:${actionAddress.toLowerCase()}`;
+    const poolKey = `pool:Test:${poolAddress.toLowerCase()}`;
+    expect(addLedgerProposals(queue, ledger)).to.deep.equal([actionKey, poolKey]);
+    expect((await loadQueue()).proposals[poolKey].executableAt).to.equal(
+      ledger.pools[`Test:${poolAddress.toLowerCase()}`].executableAt
+    );
+
+    let report = await getQueueReport(queue, contracts);
+    expect(report.waiting.map((state) => state.key)).to.deep.equal([actionKey, poolKey]);
+    expect(report.ready).to.be.empty;
+    expect(await executeReady(queue, contracts)).to.be.empty;
+
+    await time.increase(delay);
+    report = await getQueueReport(queue, contracts);
+    expect(report.ready.map((state) => state.key)).to.deep.equal([actionKey, poolKey]);
+    expect(await executeReady(queue, contracts)).to.deep.equal([actionKey, poolKey]);
+    expect(await adminVault.actionAddresses(getBytes4(actionAddress))).to.equal(actionAddress);
+    expect((await loadQueue()).proposals[poolKey]).to.include({ status: 'executed' });
+
+    // The ledger still has them as proposed until the deploy script runs again
+    expect(addLedgerProposals(queue, ledger)).to.be.empty;
+  });
+
+  it('Should cancel stale proposals and settle the ones handled outside the queue', async () => {
+    const { adminVault, tokenRegistry } = contracts;
+    const [, bob] = await ethers.getSigners();
+    const maxAge = 24 * 60 * 60;
+
+    await propose(queue, contracts, { kind: 'role', role: 'FEE_TAKER_ROLE', account: bob.address });
+    await propose(queue, contracts, { kind: 'token', address: poolAddress });
+    await propose(queue, contracts, { kind: 'pool', protocol: 'Test', address: poolAddress });
+    await propose(queue, contracts, {
+      kind: 'action',
+      actionId: '0x12345678',
+      address: actionAddress,
+    });
+    expect(Object.keys(queue.proposals)).to.have.length(4);
+
+    // Proposing again records the pending proposal without sending a transaction
+    const proposed = await propose(queue, contracts, { kind: 'token', address: poolAddress });
+    expect(proposed.proposeTxHash).to.equal(
+      queue.proposals[`token:${poolAddress.toLowerCase()}`].proposeTxHash
+    );
+
+    // One proposal is cancelled and one is executed outside the queue
+    await adminVault.cancelPoolProposal('Test', poolAddress);
+    await time.increase(delay);
+    await adminVault.addAction('0x12345678', actionAddress);
+    expect((await getQueueReport(queue, contracts)).missing).to.have.length(2);
+
+    await time.increase(maxAge);
+    expect(await cancelStale(queue, contracts, maxAge)).to.deep.equal([
+      `role:FEE_TAKER_ROLE:${bob.address.toLowerCase()}`,
+      `token:${poolAddress.toLowerCase()}`,
+    ]);
+    expect(await tokenRegistry.tokenProposals(poolAddress)).to.equal(0n);
+    expect(await adminVault.getRoleProposalTime(ethers.id('FEE_TAKER_ROLE'), bob.address)).to.equal(
+      0n
+    );
+
+    expect(await executeReady(queue, contracts)).to.be.empty;
+    const statuses = Object.fromEntries(
+      Object.entries((await loadQueue()).proposals).map(([key, { status }]) => [key, status])
+    );
+    expect(statuses).to.deep.equal({
+      [`role:FEE_TAKER_ROLE:${bob.address.toLowerCase()}`]: 'cancelled',
+      [`token:${poolAddress.toLowerCase()}`]: 'cancelled',
+      [`pool:Test:${poolAddress.toLowerCase()}`]: 'cancelled',
+      [`action:0x12345678:${actionAddress.toLowerCase()}`]: 'executed',
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { Logger } from '../typechain-types';
+import { tokenConfig } from './constants';
+import {
+  createIndexerState,
+  getPositionKey,
+  getSafePositions,
+  indexLoggerLogs,
+  loadIndexerState,
+  saveIndexerState,
+} from './logger-indexer';
+import { ACTION_LOG_IDS } from './logs';
+
+describe('Logger indexer tests', () => {
+  const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+  const poolId = '0x12345678';
+  let logger: Logger;
+  let startBlock: number;
+
+  // The Logger records msg.sender as the Safe, so signers stand in for Safes
+  async function logBalanceUpdate(
+    safeIndex: number,
+    strategyId: number,
+    balanceAfter: bigint,
+    fee: bigint
+  ) {
+    const safe = (await ethers.getSigners())[safeIndex];
+    await logger
+      .connect(safe)
+      .logActionEvent(
+        ACTION_LOG_IDS.BALANCE_UPDATE,
+        abiCoder.encode(
+          ['uint16', 'bytes4', 'uint256', 'uint256', 'uint256'],
+          [strategyId, poolId, 0n, balanceAfter, fee]
+        )
+      );
+  }
+
+  beforeEach(async () => {
+    const factory = await ethers.getContractFactory('Logger');
+    logger = (await factory.deploy()) as unknown as Logger;
+    startBlock = await ethers.provider.getBlockNumber();
+  });
+
+  it('Should fold balance updates into positions with cumulative fees', async () => {
+    const [, safe] = await ethers.getSigners();
+    await logBalanceUpdate(1, 42, 1000n, 0n);
+    await logBalanceUpdate(1, 42, 1200n, 5n);
+    await logBalanceUpdate(1, 7, 300n, 0n);
+    await logBalanceUpdate(1, 42, 900n, 3n);
+
+    const state = createIndexerState(await logger.getAddress(), 31337, startBlock);
+    await indexLoggerLogs(ethers.provider, state, { batchSize: 2 });
+
+    const positions = getSafePositions(state, safe.address);
+    expect(
+      positions.map(({ strategyId, balance, cumulativeFees, updates }) => [
+        strategyId,
+        balance,
+        cumulativeFees,
+        updates,
+      ])
+    ).to.deep.equal([
+      [7, 300n, 0n, 1],
+      [42, 900n, 8n, 3],
+    ]);
+  });
+
+  it('Should track token flows and withdrawal requests', async () => {
+    const [, safe, other] = await ethers.getSigners();
+    const pool = '0x3000000000000000000000000000000000000003';
+    await logger
+      .connect(safe)
+      .logActionEvent(
+        ACTION_LOG_IDS.PULL_TOKEN,
+        abiCoder.encode(
+          ['address', 'address', 'uint256'],
+          [tokenConfig.USDC.address, other.address, 500n]
+        )
+      );
+    await logger
+      .connect(safe)
+      .logActionEvent(
+        ACTION_LOG_IDS.CURVE_3POOL_SWAP,
+        abiCoder.encode(
+          ['int256', 'int256', 'uint256', 'uint256', 'uint256'],
+          [1, 0, 200n, 190n, 195n]
+        )
+      );
+    await logger
+      .connect(safe)
+      .logActionEvent(
+        ACTION_LOG_IDS.WITHDRAWAL_REQUEST,
+        abiCoder.encode(['address', 'uint256', 'uint256'], [pool, 10n, 1n])
+      );
+
+    const state = createIndexerState(await logger.getAddress(), 31337, startBlock);
+    await indexLoggerLogs(ethers.provider, state);
+
+    const flows = state.tokenFlows[safe.address];
+    expect(flows[tokenConfig.USDC.address]).to.deep.equal({
+      pulled: 500n,
+      sent: 0n,
+      sold: 200n,
+      bought: 0n,
+    });
+    expect(flows[tokenConfig.DAI.address].bought).to.equal(195n);
+    expect(state.withdrawalRequests).to.have.length(1);
+    expect(state.withdrawalRequests[0].poolAddress).to.equal(pool);
+  });
+
+  it('Should resume from a saved checkpoint', async () => {
+    const [, safe] = await ethers.getSigners();
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'logger-index-')), 'state.json');
+    await logBalanceUpdate(1, 42, 1000n, 2n);
+
+    const state = createIndexerState(await logger.getAddress(), 31337, startBlock);
+    await indexLoggerLogs(ethers.provider, state, {
+      onCheckpoint: (checkpoint) => saveIndexerState(file, checkpoint),
+    });
+    await logBalanceUpdate(1, 42, 1100n, 3n);
+
+    const resumed = loadIndexerState(file)!;
+    expect(resumed.lastIndexedBlock).to.equal(state.lastIndexedBlock);
+    await indexLoggerLogs(ethers.provider, resumed);
+
+    const position = resumed.positions[getPositionKey(safe.address, 42, poolId)];
+    expect(position.balance).to.equal(1100n);
+    expect(position.cumulativeFees).to.equal(5n);
+    expect(position.updates).to.equal(2);
+  });
+});
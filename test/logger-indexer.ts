@@ -0,0 +1,326 @@
+import fs from 'fs';
+import { Log, Provider, ethers } from 'ethers';
+import { CURVE_3POOL_INDICES, tokenConfig } from './constants';
+import {
+  ACTION_LOG_IDS,
+  BalanceUpdateLog,
+  BaseLog,
+  Curve3PoolSwapLog,
+  LOGGER_INTERFACE,
+  ParaswapSwapLog,
+  PullTokenLog,
+  SendTokenLog,
+  WithdrawalRequestLog,
+  ZeroExSwapLog,
+  decodeActionEventLog,
+} from './logs';
+
+/**
+ * Logger indexer
+ *
+ * Scans the ActionEvent logs of the Logger and folds them into per-Safe state:
+ * - positions: the latest balance and the cumulative fees of every (Safe, strategyId, poolId),
+ *   from BALANCE_UPDATE logs
+ * - token flows: the tokens pulled into, sent out of, sold and bought by every Safe, from
+ *   PULL_TOKEN, SEND_TOKEN and the swap logs
+ * - withdrawal requests, from WITHDRAWAL_REQUEST logs
+ * The state records the last indexed block so it can be saved and resumed later.
+ */
+
+const LOGGER = new ethers.Interface(LOGGER_INTERFACE);
+const ACTION_EVENT_TOPIC = LOGGER.getEvent('ActionEvent')!.topicHash;
+
+// Token addresses of the Curve 3pool coin indices, in index order
+const CURVE_3POOL_TOKENS = Object.entries(CURVE_3POOL_INDICES)
+  .sort(([, a], [, b]) => a - b)
+  .map(([symbol]) => tokenConfig[symbol as keyof typeof tokenConfig].address);
+
+export interface Position {
+  safeAddress: string;
+  strategyId: number;
+  poolId: string;
+  balance: bigint;
+  cumulativeFees: bigint;
+  updates: number;
+  lastBlock: number;
+}
+
+export interface TokenFlow {
+  pulled: bigint;
+  sent: bigint;
+  sold: bigint;
+  bought: bigint;
+}
+
+export interface WithdrawalRequest {
+  safeAddress: string;
+  poolAddress: string;
+  sharesToBurn: bigint;
+  requestId: bigint;
+  block: number;
+  txHash: string;
+}
+
+export interface IndexerState {
+  loggerAddress: string;
+  chainId: number;
+  // The last block whose logs are included, -1 before anything is indexed
+  lastIndexedBlock: number;
+  // Keyed by getPositionKey
+  positions: Record<string, Position>;
+  // Keyed by Safe address, then token address
+  tokenFlows: Record<string, Record<string, TokenFlow>>;
+  withdrawalRequests: WithdrawalRequest[];
+  // Logs with an ID the indexer doesn't fold, or that failed to decode
+  skippedLogs: number;
+}
+
+export interface IndexOptions {
+  fromBlock?: number;
+  // Defaults to the latest block
+  toBlock?: number;
+  // Blocks per eth_getLogs request
+  batchSize?: number;
+  // Called with the state after every batch, e.g. to save it
+  onCheckpoint?: (state: IndexerState) => void | Promise<void>;
+}
+
+/**
+ * Creates an empty indexer state
+ * @param loggerAddress The Logger to index
+ * @param chainId The chain the Logger is on
+ * @param startBlock The first block to index (default: 0)
+ * @returns The state
+ */
+export function createIndexerState(
+  loggerAddress: string,
+  chainId: number,
+  startBlock = 0
+): IndexerState {
+  return {
+    loggerAddress: ethers.getAddress(loggerAddress),
+    chainId,
+    lastIndexedBlock: startBlock - 1,
+    positions: {},
+    tokenFlows: {},
+    withdrawalRequests: [],
+    skippedLogs: 0,
+  };
+}
+
+/**
+ * Returns the key of a position in IndexerState.positions
+ * @param safeAddress The Safe
+ * @param strategyId The strategy ID of the BALANCE_UPDATE logs
+ * @param poolId The pool ID
+ * @returns The key
+ */
+export function getPositionKey(safeAddress: string, strategyId: number, poolId: string): string {
+  return `${ethers.getAddress(safeAddress)}:${strategyId}:${poolId.toLowerCase()}`;
+}
+
+function getTokenFlow(state: IndexerState, safeAddress: string, token: string): TokenFlow {
+  const flows = (state.tokenFlows[safeAddress] ??= {});
+  return (flows[ethers.getAddress(token)] ??= { pulled: 0n, sent: 0n, sold: 0n, bought: 0n });
+}
+
+function recordSwap(
+  state: IndexerState,
+  safeAddress: string,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  amountOut: bigint
+) {
+  getTokenFlow(state, safeAddress, tokenIn).sold += amountIn;
+  getTokenFlow(state, safeAddress, tokenOut).bought += amountOut;
+}
+
+/**
+ * Folds a decoded ActionEvent log into the state
+ * @param state The state, updated in place
+ * @param decoded The decoded log
+ * @param log The raw log, for the block and transaction
+ * @returns Whether the log changed the state
+ */
+export function applyActionLog(state: IndexerState, decoded: BaseLog, log: Log): boolean {
+  const { safeAddress } = decoded;
+  switch (Number(decoded.eventId)) {
+    case ACTION_LOG_IDS.BALANCE_UPDATE: {
+      const { strategyId, poolId, balanceAfter, feeInTokens } = decoded as BalanceUpdateLog;
+      const key = getPositionKey(safeAddress, Number(strategyId), poolId);
+      const position = (state.positions[key] ??= {
+        safeAddress,
+        strategyId: Number(strategyId),
+        poolId: poolId.toLowerCase(),
+        balance: 0n,
+        cumulativeFees: 0n,
+        updates: 0,
+        lastBlock: log.blockNumber,
+      });
+      position.balance = balanceAfter;
+      position.cumulativeFees += feeInTokens;
+      position.updates += 1;
+      position.lastBlock = log.blockNumber;
+      return true;
+    }
+    case ACTION_LOG_IDS.PULL_TOKEN: {
+      const { tokenAddr, amount } = decoded as PullTokenLog;
+      getTokenFlow(state, safeAddress, tokenAddr).pulled += BigInt(amount);
+      return true;
+    }
+    case ACTION_LOG_IDS.SEND_TOKEN: {
+      const { tokenAddr, amount } = decoded as SendTokenLog;
+      getTokenFlow(state, safeAddress, tokenAddr).sent += BigInt(amount);
+      return true;
+    }
+    case ACTION_LOG_IDS.CURVE_3POOL_SWAP: {
+      const { fromToken, toToken, amountIn, actualAmountOut } = decoded as Curve3PoolSwapLog;
+      const tokenIn = CURVE_3POOL_TOKENS[Number(fromToken)];
+      const tokenOut = CURVE_3POOL_TOKENS[Number(toToken)];
+      if (!tokenIn || !tokenOut) {
+        return false;
+      }
+      recordSwap(state, safeAddress, tokenIn, tokenOut, amountIn, actualAmountOut);
+      return true;
+    }
+    case ACTION_LOG_IDS.PARASWAP_SWAP:
+    case ACTION_LOG_IDS.ZERO_EX_SWAP: {
+      const { tokenIn, tokenOut, fromAmount, amountReceived } = decoded as
+        | ParaswapSwapLog
+        | ZeroExSwapLog;
+      recordSwap(state, safeAddress, tokenIn, tokenOut, fromAmount, amountReceived);
+      return true;
+    }
+    case ACTION_LOG_IDS.WITHDRAWAL_REQUEST: {
+      const { poolAddress, sharesToBurn, requestId } = decoded as WithdrawalRequestLog;
+      state.withdrawalRequests.push({
+        safeAddress,
+        poolAddress: ethers.getAddress(poolAddress),
+        sharesToBurn,
+        requestId,
+        block: log.blockNumber,
+        txHash: log.transactionHash,
+      });
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Indexes the Logger's ActionEvent logs from the block after state.lastIndexedBlock
+ * @param provider Provider of the Logger's chain
+ * @param state The state to resume from, updated in place
+ * @param options The block range, batch size and checkpoint callback
+ * @returns The state
+ */
+export async function indexLoggerLogs(
+  provider: Provider,
+  state: IndexerState,
+  options: IndexOptions = {}
+): Promise<IndexerState> {
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== state.chainId) {
+    throw new Error(`State is for chain ${state.chainId}, provider is on chain ${chainId}`);
+  }
+  const { batchSize = 2000, onCheckpoint } = options;
+  const fromBlock = Math.max(options.fromBlock ?? 0, state.lastIndexedBlock + 1);
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({
+      address: state.loggerAddress,
+      topics: [ACTION_EVENT_TOPIC],
+      fromBlock: start,
+      toBlock: end,
+    });
+    for (const log of logs) {
+      let decoded: BaseLog | undefined;
+      try {
+        decoded = decodeActionEventLog(log);
+      } catch {
+        decoded = undefined;
+      }
+      if (!decoded || !applyActionLog(state, decoded, log)) {
+        state.skippedLogs += 1;
+      }
+    }
+    state.lastIndexedBlock = end;
+    await onCheckpoint?.(state);
+  }
+  return state;
+}
+
+/**
+ * Returns the positions of a Safe
+ * @param state The state
+ * @param safeAddress The Safe
+ * @returns The positions, ordered by strategy ID and pool ID
+ */
+export function getSafePositions(state: IndexerState, safeAddress: string): Position[] {
+  const safe = ethers.getAddress(safeAddress);
+  return Object.values(state.positions)
+    .filter((position) => position.safeAddress === safe)
+    .sort((a, b) => a.strategyId - b.strategyId || a.poolId.localeCompare(b.poolId));
+}
+
+/**
+ * Saves the state as JSON, bigints are written as strings
+ * @param file The file to write
+ * @param state The state
+ */
+export function saveIndexerState(file: string, state: IndexerState) {
+  const json = JSON.stringify(
+    state,
+    (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+    2
+  );
+  // Write to a temporary file first so an interrupted save doesn't lose the checkpoint
+  fs.writeFileSync(`${file}.tmp`, json);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Loads a state saved with saveIndexerState
+ * @param file The file to read
+ * @returns The state, or undefined when the file doesn't exist
+ */
+export function loadIndexerState(file: string): IndexerState | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const json = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const positions: Record<string, Position> = {};
+  for (const [key, position] of Object.entries<any>(json.positions)) {
+    positions[key] = {
+      ...position,
+      balance: BigInt(position.balance),
+      cumulativeFees: BigInt(position.cumulativeFees),
+    };
+  }
+  const tokenFlows: Record<string, Record<string, TokenFlow>> = {};
+  for (const [safe, flows] of Object.entries<any>(json.tokenFlows)) {
+    tokenFlows[safe] = {};
+    for (const [token, flow] of Object.entries<any>(flows)) {
+      tokenFlows[safe][token] = {
+        pulled: BigInt(flow.pulled),
+        sent: BigInt(flow.sent),
+        sold: BigInt(flow.sold),
+        bought: BigInt(flow.bought),
+      };
+    }
+  }
+  return {
+    ...json,
+    positions,
+    tokenFlows,
+    withdrawalRequests: json.withdrawalRequests.map((request: any) => ({
+      ...request,
+      sharesToBurn: BigInt(request.sharesToBurn),
+      requestId: BigInt(request.requestId),
+    })),
+  };
+}
@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { ACTION_LOG_IDS, GasRefundLog, LogDefinitions, UpgradeActionLog } from './logs';
+
+// Reads the LogType enum of ActionBase, the index of each entry is its log ID
+function getSolidityLogTypes(): string[] {
+  const source = fs.readFileSync(
+    path.join(__dirname, '../contracts/actions/ActionBase.sol'),
+    'utf8'
+  );
+  const match = source.match(/enum LogType\s*\{([^}]*)\}/);
+  if (!match) {
+    throw new Error('LogType enum not found in ActionBase.sol');
+  }
+  return match[1]
+    .split(',')
+    .map((entry) => entry.replace(/\/\/.*$/gm, '').trim())
+    .filter((entry) => entry.length > 0);
+}
+
+describe('Log definitions', () => {
+  const safeAddress = '0x1000000000000000000000000000000000000001';
+  const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+  it('Should define every LogType of ActionBase', () => {
+    const logTypes = getSolidityLogTypes();
+    expect(logTypes[0]).to.equal('UNUSED');
+
+    logTypes.slice(1).forEach((logType, index) => {
+      const logId = index + 1;
+      expect(ACTION_LOG_IDS, `ACTION_LOG_IDS is missing ${logType}`).to.have.property(
+        logType,
+        logId
+      );
+      expect(LogDefinitions[logId], `LogDefinitions is missing ${logType}`).to.not.be.undefined;
+    });
+    expect(Object.keys(ACTION_LOG_IDS)).to.have.length(logTypes.length - 1);
+  });
+
+  it('Should decode upgrade logs', () => {
+    const fallbackHandler = '0x2000000000000000000000000000000000000002';
+    const modules = ['0x3000000000000000000000000000000000000003'];
+    const guard = '0x4000000000000000000000000000000000000004';
+    const definition = LogDefinitions[ACTION_LOG_IDS.UPGRADE_ACTION];
+    const data = abiCoder.encode(definition.types, [
+      safeAddress,
+      [fallbackHandler, modules, guard],
+    ]);
+
+    const decoded: UpgradeActionLog = definition.decode(
+      { eventId: BigInt(ACTION_LOG_IDS.UPGRADE_ACTION), safeAddress },
+      abiCoder.decode(definition.types, data)
+    );
+    expect(decoded).to.deep.equal({
+      eventId: BigInt(ACTION_LOG_IDS.UPGRADE_ACTION),
+      safeAddress,
+      fallbackHandler,
+      modules,
+      guard,
+    });
+  });
+
+  it('Should decode gas refund logs', () => {
+    const refundToken = '0x2000000000000000000000000000000000000002';
+    const recipient = '0x3000000000000000000000000000000000000003';
+    const definition = LogDefinitions[ACTION_LOG_IDS.GAS_REFUND];
+    const data = abiCoder.encode(definition.types, [safeAddress, refundToken, 1234n, recipient]);
+
+    const decoded: GasRefundLog = definition.decode(
+      { eventId: BigInt(ACTION_LOG_IDS.GAS_REFUND), safeAddress },
+      abiCoder.decode(definition.types, data)
+    );
+    expect(decoded.refundToken).to.equal(refundToken);
+    expect(decoded.refundAmount).to.equal(1234n);
+    expect(decoded.recipient).to.equal(recipient);
+  });
+});
@@ -1,15 +1,19 @@
-// This file contains the log definitions for the actions
-// TODO: Add definiitions for the AdminVault logs
+// This file contains the log definitions for the actions and the AdminVault
 // Any new logs should have the following:
 // - An entry in the ACTION_LOG_IDS enum
 // - An interface to define how it extends the BaseLog
 // - An entry in the LogDefinitions object
 //     - The types array should contain the expected types in the order they appear in the log
 //     - The decode function should take in the baseLog and the decodedBytes and return the log
+// AdminVault logs follow the same pattern with ADMIN_VAULT_LOG_IDS and AdminVaultLogDefinitions
+// decodeLoggerLog and decodeAdminVaultLogs decode the Logger events with these definitions
+
+import { Log, TransactionReceipt, TransactionResponse, ethers } from 'ethers';
+import { log } from './shared-utils';
 
 export const LOGGER_INTERFACE = [
   'event ActionEvent(address caller, uint8 logId, bytes data)',
-  'event AdminVaultEvent(string logName, bytes data)',
+  'event AdminVaultEvent(uint256 logId, bytes data)',
 ];
 
 export const ACTION_LOG_IDS = {
@@ -22,6 +26,8 @@ export const ACTION_LOG_IDS = {
   UPGRADE_ACTION: 7,
   WITHDRAWAL_REQUEST: 8,
   BUY_COVER_WITH_PREMIUM: 9,
+  ZERO_EX_SWAP: 10,
+  GAS_REFUND: 11,
   // Add more log IDs as needed
 };
 
@@ -81,6 +87,26 @@ export interface ParaswapSwapLog extends BaseLog {
   amountReceived: bigint;
 }
 
+export interface UpgradeActionLog extends BaseLog {
+  fallbackHandler: string;
+  modules: string[];
+  guard: string;
+}
+
+export interface ZeroExSwapLog extends BaseLog {
+  tokenIn: string;
+  tokenOut: string;
+  fromAmount: bigint;
+  minToAmount: bigint;
+  amountReceived: bigint;
+}
+
+export interface GasRefundLog extends BaseLog {
+  refundToken: string;
+  refundAmount: bigint;
+  recipient: string;
+}
+
 export interface WithdrawalRequestLog extends BaseLog {
   poolAddress: string;
   sharesToBurn: bigint;
@@ -167,6 +193,37 @@ export const LogDefinitions: { [key: number]: LogDefinition<any> } = {
       amountReceived: decodedBytes[4],
     }),
   },
+  [ACTION_LOG_IDS.UPGRADE_ACTION]: {
+    // The first value is the Safe, which is already the caller of the log
+    types: ['address', 'tuple(address,address[],address)'],
+    decode: (baseLog, decodedBytes): UpgradeActionLog => ({
+      ...baseLog,
+      fallbackHandler: decodedBytes[1][0].toString(),
+      modules: decodedBytes[1][1].map((module: string) => module.toString()),
+      guard: decodedBytes[1][2].toString(),
+    }),
+  },
+  [ACTION_LOG_IDS.ZERO_EX_SWAP]: {
+    types: ['address', 'address', 'uint256', 'uint256', 'uint256'],
+    decode: (baseLog, decodedBytes): ZeroExSwapLog => ({
+      ...baseLog,
+      tokenIn: decodedBytes[0].toString(),
+      tokenOut: decodedBytes[1].toString(),
+      fromAmount: decodedBytes[2],
+      minToAmount: decodedBytes[3],
+      amountReceived: decodedBytes[4],
+    }),
+  },
+  [ACTION_LOG_IDS.GAS_REFUND]: {
+    // The first value is the Safe, which is already the caller of the log
+    types: ['address', 'address', 'uint256', 'address'],
+    decode: (baseLog, decodedBytes): GasRefundLog => ({
+      ...baseLog,
+      refundToken: decodedBytes[1].toString(),
+      refundAmount: decodedBytes[2],
+      recipient: decodedBytes[3].toString(),
+    }),
+  },
   [ACTION_LOG_IDS.WITHDRAWAL_REQUEST]: {
     types: ['address', 'uint256', 'uint256'],
     decode: (baseLog, decodedBytes): WithdrawalRequestLog => ({
@@ -177,3 +234,346 @@ export const LogDefinitions: { [key: number]: LogDefinition<any> } = {
     }),
   },
 };
+
+// AdminVault log IDs, the first digit is the type of change:
+// 1XX = Proposal, 2XX = Grant, 3XX = Cancel, 4XX = Removal
+// and the last two digits are the category:
+// 00 = Delay, 01 = Action, 02 = Pool, 03 = Fees, 04 = Role, 06 = Token, 07 = Safe setup, 08 = Safe deployment
+export const ADMIN_VAULT_LOG_IDS = {
+  ACTION_PROPOSED: 101,
+  POOL_PROPOSED: 102,
+  FEE_CONFIG_PROPOSED: 103,
+  ROLE_PROPOSED: 104,
+  TOKEN_PROPOSED: 106,
+  SAFE_CONFIGURATION_UPDATED: 107,
+  SAFE_DEPLOYED: 108,
+  ACTION_ADDED: 201,
+  POOL_ADDED: 202,
+  FEE_CONFIG_SET: 203,
+  ROLE_GRANTED: 204,
+  TOKEN_APPROVED: 206,
+  ACTION_PROPOSAL_CANCELLED: 301,
+  POOL_PROPOSAL_CANCELLED: 302,
+  FEE_CONFIG_PROPOSAL_CANCELLED: 303,
+  ROLE_PROPOSAL_CANCELLED: 304,
+  TOKEN_PROPOSAL_CANCELLED: 306,
+  DELAY_CHANGED: 400,
+  ACTION_REMOVED: 401,
+  POOL_REMOVED: 402,
+  ROLE_REVOKED: 404,
+  TOKEN_REVOKED: 406,
+};
+
+// AdminVault logs aren't emitted by a Safe, so they only carry the log ID
+export interface AdminVaultBaseLog {
+  eventId: bigint;
+}
+
+interface ActionChangeLog extends AdminVaultBaseLog {
+  actionId: string;
+  actionAddress: string;
+}
+
+interface PoolChangeLog extends AdminVaultBaseLog {
+  protocolId: bigint;
+  poolAddress: string;
+}
+
+interface FeeConfigChangeLog extends AdminVaultBaseLog {
+  recipient: string;
+  minBasis: bigint;
+  maxBasis: bigint;
+}
+
+interface RoleChangeLog extends AdminVaultBaseLog {
+  role: string;
+  account: string;
+}
+
+interface TokenChangeLog extends AdminVaultBaseLog {
+  token: string;
+}
+
+export type ActionProposedLog = ActionChangeLog;
+export type ActionAddedLog = ActionChangeLog;
+export type ActionProposalCancelledLog = ActionChangeLog;
+
+export interface ActionRemovedLog extends AdminVaultBaseLog {
+  actionId: string;
+}
+
+export type PoolProposedLog = PoolChangeLog;
+export type PoolAddedLog = PoolChangeLog;
+export type PoolProposalCancelledLog = PoolChangeLog;
+export type PoolRemovedLog = PoolChangeLog;
+
+export type FeeConfigProposedLog = FeeConfigChangeLog;
+export type FeeConfigSetLog = FeeConfigChangeLog;
+export type FeeConfigProposalCancelledLog = FeeConfigChangeLog;
+
+export type RoleProposedLog = RoleChangeLog;
+export type RoleGrantedLog = RoleChangeLog;
+export type RoleProposalCancelledLog = RoleChangeLog;
+export type RoleRevokedLog = RoleChangeLog;
+
+export type TokenProposedLog = TokenChangeLog;
+export type TokenApprovedLog = TokenChangeLog;
+export type TokenProposalCancelledLog = TokenChangeLog;
+export type TokenRevokedLog = TokenChangeLog;
+
+export interface DelayChangedLog extends AdminVaultBaseLog {
+  oldDelay: bigint;
+  newDelay: bigint;
+}
+
+export interface SafeConfigurationUpdatedLog extends AdminVaultBaseLog {
+  fallbackHandler: string;
+  modules: string[];
+  guard: string;
+}
+
+export interface SafeDeployedLog extends AdminVaultBaseLog {
+  userAddress: string;
+  safeAddress: string;
+}
+
+export type AdminVaultLog =
+  | ActionProposedLog
+  | ActionRemovedLog
+  | PoolProposedLog
+  | FeeConfigProposedLog
+  | RoleProposedLog
+  | TokenProposedLog
+  | DelayChangedLog
+  | SafeConfigurationUpdatedLog
+  | SafeDeployedLog;
+
+type AdminVaultLogDecoder<T extends AdminVaultBaseLog> = (
+  baseLog: AdminVaultBaseLog,
+  decodedBytes: any[]
+) => T;
+
+interface AdminVaultLogDefinition<T extends AdminVaultBaseLog> {
+  types: string[];
+  decode: AdminVaultLogDecoder<T>;
+}
+
+const actionChangeLog: AdminVaultLogDefinition<ActionChangeLog> = {
+  types: ['bytes4', 'address'],
+  decode: (baseLog, decodedBytes) => ({
+    ...baseLog,
+    actionId: decodedBytes[0].toString(),
+    actionAddress: decodedBytes[1].toString(),
+  }),
+};
+
+const poolChangeLog: AdminVaultLogDefinition<PoolChangeLog> = {
+  types: ['uint256', 'address'],
+  decode: (baseLog, decodedBytes) => ({
+    ...baseLog,
+    protocolId: decodedBytes[0],
+    poolAddress: decodedBytes[1].toString(),
+  }),
+};
+
+const feeConfigChangeLog: AdminVaultLogDefinition<FeeConfigChangeLog> = {
+  types: ['address', 'uint256', 'uint256'],
+  decode: (baseLog, decodedBytes) => ({
+    ...baseLog,
+    recipient: decodedBytes[0].toString(),
+    minBasis: decodedBytes[1],
+    maxBasis: decodedBytes[2],
+  }),
+};
+
+const roleChangeLog: AdminVaultLogDefinition<RoleChangeLog> = {
+  types: ['bytes32', 'address'],
+  decode: (baseLog, decodedBytes) => ({
+    ...baseLog,
+    role: decodedBytes[0].toString(),
+    account: decodedBytes[1].toString(),
+  }),
+};
+
+const tokenChangeLog: AdminVaultLogDefinition<TokenChangeLog> = {
+  types: ['address'],
+  decode: (baseLog, decodedBytes) => ({
+    ...baseLog,
+    token: decodedBytes[0].toString(),
+  }),
+};
+
+export const AdminVaultLogDefinitions: { [key: number]: AdminVaultLogDefinition<any> } = {
+  [ADMIN_VAULT_LOG_IDS.ACTION_PROPOSED]: actionChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ACTION_ADDED]: actionChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ACTION_PROPOSAL_CANCELLED]: actionChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ACTION_REMOVED]: {
+    types: ['bytes4'],
+    decode: (baseLog, decodedBytes): ActionRemovedLog => ({
+      ...baseLog,
+      actionId: decodedBytes[0].toString(),
+    }),
+  },
+  [ADMIN_VAULT_LOG_IDS.POOL_PROPOSED]: poolChangeLog,
+  [ADMIN_VAULT_LOG_IDS.POOL_ADDED]: poolChangeLog,
+  [ADMIN_VAULT_LOG_IDS.POOL_PROPOSAL_CANCELLED]: poolChangeLog,
+  [ADMIN_VAULT_LOG_IDS.POOL_REMOVED]: poolChangeLog,
+  [ADMIN_VAULT_LOG_IDS.FEE_CONFIG_PROPOSED]: feeConfigChangeLog,
+  [ADMIN_VAULT_LOG_IDS.FEE_CONFIG_SET]: feeConfigChangeLog,
+  [ADMIN_VAULT_LOG_IDS.FEE_CONFIG_PROPOSAL_CANCELLED]: feeConfigChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ROLE_PROPOSED]: roleChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ROLE_GRANTED]: roleChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ROLE_PROPOSAL_CANCELLED]: roleChangeLog,
+  [ADMIN_VAULT_LOG_IDS.ROLE_REVOKED]: roleChangeLog,
+  [ADMIN_VAULT_LOG_IDS.TOKEN_PROPOSED]: tokenChangeLog,
+  [ADMIN_VAULT_LOG_IDS.TOKEN_APPROVED]: tokenChangeLog,
+  [ADMIN_VAULT_LOG_IDS.TOKEN_PROPOSAL_CANCELLED]: tokenChangeLog,
+  [ADMIN_VAULT_LOG_IDS.TOKEN_REVOKED]: tokenChangeLog,
+  [ADMIN_VAULT_LOG_IDS.DELAY_CHANGED]: {
+    types: ['uint256', 'uint256'],
+    decode: (baseLog, decodedBytes): DelayChangedLog => ({
+      ...baseLog,
+      oldDelay: decodedBytes[0],
+      newDelay: decodedBytes[1],
+    }),
+  },
+  [ADMIN_VAULT_LOG_IDS.SAFE_CONFIGURATION_UPDATED]: {
+    types: ['address', 'address[]', 'address'],
+    decode: (baseLog, decodedBytes): SafeConfigurationUpdatedLog => ({
+      ...baseLog,
+      fallbackHandler: decodedBytes[0].toString(),
+      modules: decodedBytes[1].map((module: string) => module.toString()),
+      guard: decodedBytes[2].toString(),
+    }),
+  },
+  [ADMIN_VAULT_LOG_IDS.SAFE_DEPLOYED]: {
+    types: ['address', 'address'],
+    decode: (baseLog, decodedBytes): SafeDeployedLog => ({
+      ...baseLog,
+      userAddress: decodedBytes[0].toString(),
+      safeAddress: decodedBytes[1].toString(),
+    }),
+  },
+};
+
+// Get the logs of a TransactionResponse, TransactionReceipt or an array of logs
+async function getLogs(input: TransactionResponse | TransactionReceipt | Log[]): Promise<Log[]> {
+  if (Array.isArray(input)) {
+    return input;
+  }
+  if ('wait' in input) {
+    // It's a TransactionResponse, wait for the receipt
+    const receipt = await input.wait();
+    if (!receipt) {
+      throw new Error('Problem decoding log: Transaction receipt not found');
+    }
+    return receipt.logs as Log[];
+  }
+  // It's a TransactionReceipt
+  return input.logs as Log[];
+}
+
+/**
+ * Decodes an ActionEvent log of the Logger
+ * @param rawLog The raw log
+ * @returns The decoded log, or undefined for other events and unknown log IDs
+ */
+export function decodeActionEventLog(rawLog: Log): BaseLog | undefined {
+  const loggerInterface = new ethers.Interface(LOGGER_INTERFACE);
+  if (rawLog.topics[0] !== loggerInterface.getEvent('ActionEvent')!.topicHash) {
+    return undefined;
+  }
+  const parsedLog = loggerInterface.parseLog({
+    topics: rawLog.topics as string[],
+    data: rawLog.data,
+  })!;
+
+  const eventId = parsedLog.args.logId;
+  const logDefinition = LogDefinitions[eventId];
+  if (!logDefinition) {
+    return undefined;
+  }
+
+  const decodedBytes = new ethers.AbiCoder().decode(logDefinition.types, parsedLog.args.data);
+  return logDefinition.decode({ eventId, safeAddress: parsedLog.args.caller }, decodedBytes);
+}
+
+// Decode a log from the logger
+// This function will take in a TransactionResponse, TransactionReceipt or an array of logs
+// and return an array of decoded logs
+// AdminVaultEvent logs are skipped, use decodeAdminVaultLogs for those
+export async function decodeLoggerLog(
+  input: TransactionResponse | TransactionReceipt | Log[]
+): Promise<BaseLog[]> {
+  log('Decoding logger log');
+
+  const logs = await getLogs(input);
+  const loggerInterface = new ethers.Interface(LOGGER_INTERFACE);
+
+  // The event signature for ActionEvent
+  const actionEventTopic = loggerInterface.getEvent('ActionEvent')!.topicHash;
+
+  const relevantLogs = logs.filter((log: Log) => log.topics[0] === actionEventTopic);
+
+  return relevantLogs.map((log: Log) => {
+    const extendedLog = decodeActionEventLog(log);
+    if (!extendedLog) {
+      const eventId = loggerInterface.parseLog(log)!.args.logId;
+      throw new Error(`Problem decoding log: Unknown event type: ${eventId}`);
+    }
+    return extendedLog;
+  });
+}
+
+/**
+ * Decodes an AdminVaultEvent log of the Logger
+ * The Logger accepts logs from anyone, so a decoded log should be checked against the AdminVault
+ * before it is trusted
+ * @param rawLog The raw log
+ * @returns The decoded log, or undefined for other events and unknown log IDs
+ */
+export function decodeAdminVaultEventLog(rawLog: Log): AdminVaultLog | undefined {
+  const loggerInterface = new ethers.Interface(LOGGER_INTERFACE);
+  if (rawLog.topics[0] !== loggerInterface.getEvent('AdminVaultEvent')!.topicHash) {
+    return undefined;
+  }
+  const parsedLog = loggerInterface.parseLog({
+    topics: rawLog.topics as string[],
+    data: rawLog.data,
+  })!;
+
+  const eventId: bigint = parsedLog.args.logId;
+  const logDefinition = AdminVaultLogDefinitions[Number(eventId)];
+  if (!logDefinition) {
+    return undefined;
+  }
+
+  const decodedBytes = new ethers.AbiCoder().decode(logDefinition.types, parsedLog.args.data);
+  return logDefinition.decode({ eventId }, decodedBytes);
+}
+
+// Decode the AdminVaultEvent logs of the logger
+// Takes the same input as decodeLoggerLog and returns the governance logs in the order
+// they were emitted, ActionEvent logs are skipped
+export async function decodeAdminVaultLogs(
+  input: TransactionResponse | TransactionReceipt | Log[]
+): Promise<AdminVaultLog[]> {
+  log('Decoding admin vault logs');
+
+  const logs = await getLogs(input);
+  const loggerInterface = new ethers.Interface(LOGGER_INTERFACE);
+
+  // The event signature for AdminVaultEvent
+  const adminVaultEventTopic = loggerInterface.getEvent('AdminVaultEvent')!.topicHash;
+
+  const relevantLogs = logs.filter((log: Log) => log.topics[0] === adminVaultEventTopic);
+
+  return relevantLogs.map((log: Log) => {
+    const adminVaultLog = decodeAdminVaultEventLog(log);
+    if (!adminVaultLog) {
+      const eventId = loggerInterface.parseLog(log)!.args.logId;
+      throw new Error(`Problem decoding log: Unknown admin vault event type: ${eventId}`);
+    }
+    return adminVaultLog;
+  });
+}
@@ -0,0 +1,101 @@
+/** Mock token config
+ *
+ * Address table for running the tests without a mainnet fork (FORK=false). Every mocked
+ * tokenConfig entry gets the address its mock contract will have once deployed by
+ * MOCK_DEPLOYER, so tokenConfig (and everything built from it at load time, such as the
+ * default pools in actions.ts) can be rewritten before any contract exists.
+ *
+ * This module only imports ethers so constants.ts can depend on it, deployment lives in
+ * mock-protocols.ts.
+ */
+import { ethers } from 'ethers';
+
+/** Account that deploys every mock, its nonces fix the mock addresses */
+export const MOCK_DEPLOYER = '0x000000000000000000000000000000000000b7a7';
+
+export type MockTokenKind = 'erc20' | 'erc4626' | 'aaveV2' | 'aaveV3';
+
+export interface MockToken {
+  key: string; // tokenConfig key
+  kind: MockTokenKind;
+  underlying?: string; // tokenConfig key of the underlying token, for vaults and aTokens
+}
+
+/**
+ * Tokens replaced by mocks, in deployment order. Underlying tokens come first so vaults and
+ * aTokens can point at them. Protocols without a mock here keep their mainnet addresses and
+ * their tests need a fork.
+ */
+export const MOCK_TOKENS: MockToken[] = [
+  { key: 'USDC', kind: 'erc20' },
+  { key: 'USDT', kind: 'erc20' },
+  { key: 'USDE', kind: 'erc20' },
+  { key: 'DAI', kind: 'erc20' },
+  { key: 'GHO', kind: 'erc20' },
+  { key: 'USDS', kind: 'erc20' },
+  { key: 'WETH', kind: 'erc20' },
+  { key: 'FLUID_V1_USDC', kind: 'erc4626', underlying: 'USDC' },
+  { key: 'FLUID_V1_USDT', kind: 'erc4626', underlying: 'USDT' },
+  { key: 'FLUID_V1_GHO', kind: 'erc4626', underlying: 'GHO' },
+  { key: 'SPARK_V1_DAI', kind: 'erc4626', underlying: 'DAI' },
+  { key: 'SPARK_V1_USDS', kind: 'erc4626', underlying: 'USDS' },
+  { key: 'YEARN_V3_DAI', kind: 'erc4626', underlying: 'DAI' },
+  { key: 'YEARN_V3_USDS', kind: 'erc4626', underlying: 'USDS' },
+  { key: 'MORPHO_V1_fxUSDC', kind: 'erc4626', underlying: 'USDC' },
+  { key: 'GEARBOX_PASSIVE_V3_USDC', kind: 'erc4626', underlying: 'USDC' },
+  { key: 'EULER_V2_PRIME_USDC', kind: 'erc4626', underlying: 'USDC' },
+  { key: 'AAVE_V2_aDAI', kind: 'aaveV2', underlying: 'DAI' },
+  { key: 'AAVE_V2_aUSDC', kind: 'aaveV2', underlying: 'USDC' },
+  { key: 'AAVE_V2_aUSDT', kind: 'aaveV2', underlying: 'USDT' },
+  { key: 'AAVE_V3_aDAI', kind: 'aaveV3', underlying: 'DAI' },
+  { key: 'AAVE_V3_aUSDC', kind: 'aaveV3', underlying: 'USDC' },
+  { key: 'AAVE_V3_aUSDT', kind: 'aaveV3', underlying: 'USDT' },
+  { key: 'YEARN_V3_AJNA_DAI', kind: 'erc4626', underlying: 'DAI' },
+  { key: 'YEARN_V3_SKY_USDS', kind: 'erc4626', underlying: 'USDS' },
+];
+
+/**
+ * Whether the tests run against local mocks instead of a mainnet fork
+ */
+export function isMockNetwork(): boolean {
+  return process.env.FORK === 'false';
+}
+
+/**
+ * Looks up the mock for a tokenConfig key
+ * @param key The tokenConfig key
+ * @returns The mock token, or undefined if the token is not mocked
+ */
+export function getMockToken(key: string): MockToken | undefined {
+  return MOCK_TOKENS.find((token) => token.key === key);
+}
+
+/**
+ * Gets the address a mock token is deployed at
+ * @param key The tokenConfig key
+ * @returns The address of the mock token
+ */
+export function getMockTokenAddress(key: string): string {
+  const index = MOCK_TOKENS.findIndex((token) => token.key === key);
+  if (index === -1) {
+    throw new Error(`Token ${key} has no mock`);
+  }
+  return ethers.getCreateAddress({ from: MOCK_DEPLOYER, nonce: index });
+}
+
+/**
+ * Points the mocked tokenConfig entries at their mock addresses, in place
+ * @param config The tokenConfig to rewrite
+ */
+export function applyMockTokenConfig(
+  config: Record<string, { address: string; whale: string }>
+): void {
+  for (const { key } of MOCK_TOKENS) {
+    const token = config[key];
+    if (!token) {
+      throw new Error(`Mock token ${key} is not in tokenConfig`);
+    }
+    token.address = getMockTokenAddress(key);
+    token.whale = MOCK_DEPLOYER;
+  }
+}
@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import {
+  AAVE_V3_POOL,
+  CHAINLINK_ETH_USD_ORACLE,
+  CREATE_X_ADDRESS,
+  CURVE_3POOL_ADDRESS,
+  CURVE_3POOL_INDICES,
+  SAFE_SINGLETON_ADDRESS,
+  tokenConfig,
+} from './constants';
+import { getMockTokenAddress, isMockNetwork, MOCK_TOKENS } from './mock-config';
+import { deployMockProtocols, mintMockToken } from './mock-protocols';
+
+describe('Mock protocol tests', function () {
+  before(async function () {
+    if (!isMockNetwork()) {
+      this.skip();
+    }
+    await deployMockProtocols();
+  });
+
+  it('Should deploy the mocks at the tokenConfig addresses', async () => {
+    for (const { key } of MOCK_TOKENS) {
+      const address = tokenConfig[key as keyof typeof tokenConfig].address;
+      expect(address).to.equal(getMockTokenAddress(key));
+      expect(await ethers.provider.getCode(address)).to.not.equal('0x');
+    }
+    expect(await ethers.provider.getCode(SAFE_SINGLETON_ADDRESS)).to.not.equal('0x');
+    expect(await ethers.provider.getCode(CREATE_X_ADDRESS)).to.not.equal('0x');
+    const oracle = await ethers.getContractAt('MockAggregatorV3', CHAINLINK_ETH_USD_ORACLE);
+    expect((await oracle.latestRoundData()).answer).to.equal(3000n * 10n ** 8n);
+
+    // Deploying again is a no-op
+    await deployMockProtocols();
+  });
+
+  it('Should mint tokens, vault shares and aTokens', async () => {
+    const [, alice] = await ethers.getSigners();
+    await mintMockToken(alice.address, 'USDC', 100n * 10n ** 6n);
+    await mintMockToken(alice.address, 'MORPHO_V1_fxUSDC', 50n * 10n ** 18n);
+    await mintMockToken(alice.address, 'AAVE_V3_aDAI', 25n * 10n ** 18n);
+
+    const balanceOf = async (key: keyof typeof tokenConfig) =>
+      (await ethers.getContractAt('IERC20', tokenConfig[key].address)).balanceOf(alice.address);
+    expect(await balanceOf('USDC')).to.equal(100n * 10n ** 6n);
+    expect(await balanceOf('MORPHO_V1_fxUSDC')).to.equal(50n * 10n ** 18n);
+    expect(await balanceOf('AAVE_V3_aDAI')).to.equal(25n * 10n ** 18n);
+
+    // Resolved by name like the ERC4626 action tests, the mock must not add a second IERC4626
+    const vault = await ethers.getContractAt('IERC4626', tokenConfig.MORPHO_V1_fxUSDC.address);
+    expect(await vault.totalAssets()).to.equal(50n * 10n ** 6n);
+    expect(await vault.convertToAssets(50n * 10n ** 18n)).to.equal(50n * 10n ** 6n);
+    await expect(mintMockToken(alice.address, 'YEARN_V2_USDC', 1n)).to.be.rejectedWith(
+      'Token YEARN_V2_USDC has no mock'
+    );
+  });
+
+  it('Should swap on the Curve pool and supply to the Aave pool', async () => {
+    const [, , bob] = await ethers.getSigners();
+    await mintMockToken(bob.address, 'USDC', 10n * 10n ** 6n);
+    const usdc = await ethers.getContractAt('IERC20', tokenConfig.USDC.address, bob);
+    const dai = await ethers.getContractAt('IERC20', tokenConfig.DAI.address, bob);
+
+    const curvePool = await ethers.getContractAt('MockCurve3Pool', CURVE_3POOL_ADDRESS, bob);
+    await usdc.approve(CURVE_3POOL_ADDRESS, 10n * 10n ** 6n);
+    await curvePool.exchange(
+      CURVE_3POOL_INDICES.USDC,
+      CURVE_3POOL_INDICES.DAI,
+      10n * 10n ** 6n,
+      10n * 10n ** 18n
+    );
+    expect(await dai.balanceOf(bob.address)).to.equal(10n * 10n ** 18n);
+
+    const aavePool = await ethers.getContractAt('MockAavePool', AAVE_V3_POOL, bob);
+    await dai.approve(AAVE_V3_POOL, 10n * 10n ** 18n);
+    await aavePool.supply(tokenConfig.DAI.address, 10n * 10n ** 18n, bob.address, 0);
+    const aDai = await ethers.getContractAt('IERC20', tokenConfig.AAVE_V3_aDAI.address);
+    expect(await aDai.balanceOf(bob.address)).to.equal(10n * 10n ** 18n);
+    const accountData = await aavePool.getUserAccountData(bob.address);
+    expect(accountData.totalCollateralBase).to.equal(10n * 10n ** 8n);
+    expect(accountData.healthFactor).to.equal(ethers.MaxUint256);
+
+    await aavePool.withdraw(tokenConfig.DAI.address, ethers.MaxUint256, bob.address);
+    expect(await aDai.balanceOf(bob.address)).to.equal(0n);
+    expect((await aavePool.getUserAccountData(bob.address)).totalCollateralBase).to.equal(0n);
+    expect(await dai.balanceOf(bob.address)).to.equal(10n * 10n ** 18n);
+  });
+});
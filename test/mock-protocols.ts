@@ -0,0 +1,162 @@
+/** Mock protocol fixture
+ *
+ * Deploys the local stand-ins used when the tests run without a mainnet fork (FORK=false):
+ * mintable ERC20s, ERC4626 vaults, Aave V2/V3 style pools with their aTokens, a Curve 3pool
+ * style pool, the Chainlink ETH/USD feed, CreateX and the Safe contracts. Tokens land at the
+ * addresses mock-config.ts wrote into tokenConfig, pools and feeds are placed at their
+ * mainnet addresses with hardhat_setCode so the action constructors need no changes.
+ */
+import { artifacts, ethers, network } from 'hardhat';
+import {
+  AAVE_V2_POOL,
+  AAVE_V3_POOL,
+  CHAINLINK_ETH_USD_ORACLE,
+  CREATE_X_ADDRESS,
+  CURVE_3POOL_ADDRESS,
+  tokenConfig,
+} from './constants';
+import { getMockToken, MOCK_DEPLOYER, MOCK_TOKENS } from './mock-config';
+import { log } from './shared-utils';
+import safeContracts from './safe-contracts.json';
+
+type TokenKey = keyof typeof tokenConfig;
+
+const MOCK_ETH_USD_PRICE = 3000n * 10n ** 8n;
+const CURVE_LIQUIDITY = 10_000_000n; // of each coin, in whole tokens
+
+const AAVE_POOLS = {
+  aaveV2: AAVE_V2_POOL,
+  aaveV3: AAVE_V3_POOL,
+} as const;
+
+async function getMockDeployer() {
+  await network.provider.request({ method: 'hardhat_impersonateAccount', params: [MOCK_DEPLOYER] });
+  await network.provider.send('hardhat_setBalance', [MOCK_DEPLOYER, '0x56BC75E2D63100000']);
+  return ethers.getSigner(MOCK_DEPLOYER);
+}
+
+async function setCodeFromArtifact(address: string, contractName: string) {
+  const { deployedBytecode } = await artifacts.readArtifact(contractName);
+  await network.provider.send('hardhat_setCode', [address, deployedBytecode]);
+}
+
+/**
+ * Deploys the mock protocols, does nothing if they are already deployed
+ * (e.g. after reverting to a snapshot taken once they were)
+ */
+export async function deployMockProtocols(): Promise<void> {
+  const firstToken = tokenConfig[MOCK_TOKENS[0].key as TokenKey].address;
+  if ((await ethers.provider.getCode(firstToken)) !== '0x') {
+    return;
+  }
+  log('Deploying mock protocols');
+
+  for (const { address, deployedBytecode } of Object.values(safeContracts.contracts)) {
+    await network.provider.send('hardhat_setCode', [address, deployedBytecode]);
+  }
+  await setCodeFromArtifact(AAVE_V2_POOL, 'MockAavePool');
+  await setCodeFromArtifact(AAVE_V3_POOL, 'MockAavePool');
+  await setCodeFromArtifact(CURVE_3POOL_ADDRESS, 'MockCurve3Pool');
+  await setCodeFromArtifact(CHAINLINK_ETH_USD_ORACLE, 'MockAggregatorV3');
+  await setCodeFromArtifact(CREATE_X_ADDRESS, 'MockCreateX');
+
+  const deployer = await getMockDeployer();
+  if ((await deployer.getNonce()) !== 0) {
+    throw new Error(`Mock deployer ${MOCK_DEPLOYER} has already been used`);
+  }
+
+  // Deploy every token first, the addresses come from the deployer nonce
+  for (const { key, kind, underlying } of MOCK_TOKENS) {
+    const token = tokenConfig[key as TokenKey];
+    const underlyingToken = underlying ? tokenConfig[underlying as TokenKey] : undefined;
+    let deployment;
+    if (kind === 'erc20') {
+      const factory = await ethers.getContractFactory('MockERC20', deployer);
+      deployment = await factory.deploy(key, key, token.decimals);
+    } else if (kind === 'erc4626') {
+      const factory = await ethers.getContractFactory('MockERC4626', deployer);
+      const decimalsOffset = token.decimals - underlyingToken!.decimals;
+      deployment = await factory.deploy(underlyingToken!.address, key, key, decimalsOffset);
+    } else {
+      const factory = await ethers.getContractFactory('MockAToken', deployer);
+      deployment = await factory.deploy(
+        underlyingToken!.address,
+        AAVE_POOLS[kind],
+        key,
+        key,
+        token.decimals
+      );
+    }
+    const address = await deployment.getAddress();
+    if (address.toLowerCase() !== token.address.toLowerCase()) {
+      throw new Error(
+        `Mock ${key} deployed at ${address} instead of ${token.address}, is FORK=false set?`
+      );
+    }
+  }
+
+  for (const { key, kind, underlying } of MOCK_TOKENS) {
+    if (kind === 'aaveV2' || kind === 'aaveV3') {
+      const pool = await ethers.getContractAt('MockAavePool', AAVE_POOLS[kind], deployer);
+      await pool.setReserve(
+        tokenConfig[underlying as TokenKey].address,
+        tokenConfig[key as TokenKey].address
+      );
+    }
+  }
+
+  const curvePool = await ethers.getContractAt('MockCurve3Pool', CURVE_3POOL_ADDRESS, deployer);
+  const coins = [tokenConfig.DAI, tokenConfig.USDC, tokenConfig.USDT];
+  await curvePool.setCoins([coins[0].address, coins[1].address, coins[2].address]);
+  for (const coin of coins) {
+    const token = await ethers.getContractAt('MockERC20', coin.address, deployer);
+    await token.mint(CURVE_3POOL_ADDRESS, CURVE_LIQUIDITY * 10n ** BigInt(coin.decimals));
+  }
+
+  const oracle = await ethers.getContractAt('MockAggregatorV3', CHAINLINK_ETH_USD_ORACLE, deployer);
+  await oracle.setAnswer(MOCK_ETH_USD_PRICE);
+}
+
+/**
+ * Mints a mocked token to an account. Vault shares and aTokens are minted by depositing
+ * freshly minted underlying tokens.
+ * @param recipient The account to fund
+ * @param tokenSymbol The tokenConfig key of the token
+ * @param amount The amount to mint, in token units
+ */
+export async function mintMockToken(
+  recipient: string,
+  tokenSymbol: string,
+  amount: bigint
+): Promise<void> {
+  const mockToken = getMockToken(tokenSymbol);
+  if (!mockToken) {
+    throw new Error(`Token ${tokenSymbol} has no mock, run this test against a fork`);
+  }
+  const deployer = await getMockDeployer();
+  const token = tokenConfig[tokenSymbol as TokenKey];
+
+  if (mockToken.kind === 'erc20') {
+    const erc20 = await ethers.getContractAt('MockERC20', token.address, deployer);
+    await erc20.mint(recipient, amount);
+    return;
+  }
+
+  const underlying = await ethers.getContractAt(
+    'MockERC20',
+    tokenConfig[mockToken.underlying as TokenKey].address,
+    deployer
+  );
+  if (mockToken.kind === 'erc4626') {
+    const vault = await ethers.getContractAt('MockERC4626', token.address, deployer);
+    const assets = await vault.previewMint(amount);
+    await underlying.mint(MOCK_DEPLOYER, assets);
+    await underlying.approve(token.address, assets);
+    await vault.mint(amount, recipient);
+  } else {
+    const pool = await ethers.getContractAt('MockAavePool', AAVE_POOLS[mockToken.kind], deployer);
+    await underlying.mint(MOCK_DEPLOYER, amount);
+    await underlying.approve(AAVE_POOLS[mockToken.kind], amount);
+    await pool.supply(await underlying.getAddress(), amount, recipient, 0);
+  }
+}
@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ParaswapQuote, paraswapQuotes } from './actions/swap/swapCache';
+import { ZeroExQuote, zeroExQuotes } from './actions/swap/zeroExCache';
+import { FORK_BLOCK_NUMBER, tokenConfig } from './constants';
+import {
+  QuoteProvider,
+  findCachedQuote,
+  getQuote,
+  getQuoteCacheStats,
+  invalidateQuotes,
+  loadQuoteCache,
+  pruneQuoteCache,
+  resetQuoteCacheStats,
+} from './quote-cache';
+
+describe('Quote cache tests', () => {
+  interface Request {
+    tokenIn: string;
+    tokenOut: string;
+    amount: string;
+  }
+
+  let fetched: Request[];
+  const provider: QuoteProvider<Request, { amountOut: string }> = {
+    name: 'test',
+    cacheFile: path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'quote-cache-')), 'cache.json'),
+    getKey: (request) => ({ chainId: 1, ...request }),
+    fetchQuote: async (request) => {
+      fetched.push(request);
+      return { amountOut: `${request.amount}0` };
+    },
+  };
+  const usdc = tokenConfig.USDC.address;
+  const dai = tokenConfig.DAI.address;
+
+  beforeEach(() => {
+    fetched = [];
+    resetQuoteCacheStats();
+  });
+
+  it('Should record quotes and replay them within the block tolerance', async () => {
+    const request = { tokenIn: usdc, tokenOut: dai, amount: '100' };
+    expect(await getQuote(provider, request, { blockNumber: 1000 })).to.deep.equal({
+      amountOut: '1000',
+    });
+    // Same key with a lowercase address, 100 blocks later
+    const lowercase = { ...request, tokenIn: usdc.toLowerCase() };
+    expect(await getQuote(provider, lowercase, { blockNumber: 1100 })).to.deep.equal({
+      amountOut: '1000',
+    });
+    expect(fetched).to.have.length(1);
+
+    await getQuote(provider, request, { blockNumber: 1101 });
+    expect(fetched).to.have.length(2);
+    expect(loadQuoteCache(provider).entries.map((entry) => entry.blockNumber)).to.deep.equal([
+      1000, 1101,
+    ]);
+    expect(getQuoteCacheStats('test')).to.deep.equal({ hits: 1, misses: 2, apiCalls: 2 });
+
+    await expect(
+      getQuote(provider, { ...request, amount: '200' }, { blockNumber: 1100, offline: true })
+    ).to.be.rejectedWith(`No cached test quote for 1:${usdc.toLowerCase()}`);
+    expect(fetched).to.have.length(2);
+  });
+
+  it('Should prune and invalidate entries', async () => {
+    const cache = loadQuoteCache<{ amountOut: string }>(provider);
+    // Entries at 1000 and 1101, only the closest one to 1090 is kept
+    expect(pruneQuoteCache(cache, 1090).map((entry) => entry.blockNumber)).to.deep.equal([1000]);
+    expect(cache.entries).to.have.length(1);
+    expect(findCachedQuote(cache, provider.getKey(cache.entries[0]), 1200)!.blockNumber).to.equal(
+      1101
+    );
+
+    expect(invalidateQuotes(cache, { token: tokenConfig.USDT.address })).to.be.empty;
+    expect(invalidateQuotes(cache, { token: dai })).to.have.length(1);
+    expect(cache.entries).to.be.empty;
+  });
+
+  it('Should replay the recorded Paraswap and 0x quotes at the fork block', () => {
+    // The quotes were recorded for the mainnet tokens, which FORK=false points tokenConfig away from
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+    const paraswap = findCachedQuote(
+      loadQuoteCache<ParaswapQuote>(paraswapQuotes),
+      paraswapQuotes.getKey({
+        srcToken: usdc,
+        destToken: dai,
+        amount: '100000000',
+        safeAddr: usdc,
+        dex: 'UniswapV3',
+      }),
+      FORK_BLOCK_NUMBER
+    );
+    expect(paraswap!.quote.dexProtocol.toLowerCase()).to.contain('uniswap');
+
+    const zeroEx = findCachedQuote(
+      loadQuoteCache<ZeroExQuote>(zeroExQuotes),
+      zeroExQuotes.getKey({
+        sellToken: usdc,
+        buyToken: dai,
+        sellAmount: '1000000000',
+        taker: usdc,
+        chainId: 1,
+      }),
+      FORK_BLOCK_NUMBER
+    );
+    expect(zeroEx!.quote.swapTarget).to.equal('0x0000000000001ff3684f28c67538d4d072c22734');
+  });
+});
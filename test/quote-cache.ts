@@ -0,0 +1,278 @@
+import fs from 'fs';
+import { log } from './shared-utils';
+
+/**
+ * Quote cache
+ *
+ * Record/replay layer for the third-party APIs the tests depend on (Paraswap, 0x, Nexus Mutual).
+ * Each provider is a small adapter that maps its request to a QuoteKey and fetches a fresh quote,
+ * the cache handles the rest:
+ * - one JSON file per provider, all in the same format
+ * - one key schema: chain, tokens, amount, taker and a provider specific variant
+ * - a quote recorded at a block is reused within blockTolerance blocks of it
+ * - QUOTE_CACHE_OFFLINE=true fails on a cache miss instead of calling the API
+ * - hit/miss/API call stats per provider
+ * scripts/quote-cache.ts lists, prunes and invalidates the cached entries.
+ */
+
+export const QUOTE_CACHE_VERSION = '2.0';
+export const DEFAULT_BLOCK_TOLERANCE = 100;
+
+export interface QuoteKey {
+  chainId: number;
+  tokenIn: string; // token sold, or the asset paid with
+  tokenOut: string; // token bought, or the product bought
+  amount: string;
+  taker?: string; // only set by providers whose quotes are bound to the taker
+  variant?: string; // provider specific, e.g. the DEX a Paraswap route is restricted to
+}
+
+export interface QuoteCacheEntry<TQuote = unknown> extends QuoteKey {
+  key: string;
+  blockNumber: number;
+  timestamp: number;
+  quote: TQuote;
+}
+
+export interface QuoteCacheFile<TQuote = unknown> {
+  version: string;
+  provider: string;
+  lastUpdated: number;
+  entries: QuoteCacheEntry<TQuote>[];
+}
+
+export interface QuoteProvider<TRequest, TQuote> {
+  name: string;
+  cacheFile: string;
+  blockTolerance?: number; // defaults to DEFAULT_BLOCK_TOLERANCE
+  getKey: (request: TRequest) => QuoteKey;
+  fetchQuote: (request: TRequest) => Promise<TQuote>;
+}
+
+export interface QuoteOptions {
+  blockNumber?: number; // defaults to the current block of the hardhat network
+  offline?: boolean; // defaults to QUOTE_CACHE_OFFLINE=true
+}
+
+export interface QuoteCacheStats {
+  hits: number;
+  misses: number;
+  apiCalls: number;
+}
+
+const stats: Record<string, QuoteCacheStats> = {};
+
+/**
+ * Whether cache misses should fail instead of calling the provider API
+ */
+export function isQuoteCacheOffline(): boolean {
+  return process.env.QUOTE_CACHE_OFFLINE === 'true';
+}
+
+/**
+ * Formats a QuoteKey as the string the cache entries are matched on. Everything is lowercased
+ * so checksummed and lowercase addresses, or 'UniswapV3' and 'uniswapv3', share an entry.
+ * @param key The quote key
+ * @returns The cache key
+ */
+export function formatQuoteKey(key: QuoteKey): string {
+  return [key.chainId, key.tokenIn, key.tokenOut, key.amount, key.taker ?? '', key.variant ?? '']
+    .join(':')
+    .toLowerCase();
+}
+
+/**
+ * Loads a provider's cache file
+ * @param provider The provider name and cache file
+ * @returns The cache, empty if the file does not exist
+ */
+export function loadQuoteCache<TQuote = unknown>(provider: {
+  name: string;
+  cacheFile: string;
+}): QuoteCacheFile<TQuote> {
+  if (!fs.existsSync(provider.cacheFile)) {
+    return { version: QUOTE_CACHE_VERSION, provider: provider.name, lastUpdated: 0, entries: [] };
+  }
+  const cache = JSON.parse(fs.readFileSync(provider.cacheFile, 'utf8')) as QuoteCacheFile<TQuote>;
+  if (cache.version !== QUOTE_CACHE_VERSION) {
+    throw new Error(`${provider.cacheFile} has cache version ${cache.version}`);
+  }
+  return cache;
+}
+
+/**
+ * Writes a cache file, entries sorted by key so re-recording gives small diffs
+ * @param file The cache file
+ * @param cache The cache to write
+ */
+export function saveQuoteCache(file: string, cache: QuoteCacheFile) {
+  const entries = [...cache.entries].sort((a, b) =>
+    a.key === b.key ? a.blockNumber - b.blockNumber : a.key < b.key ? -1 : 1
+  );
+  fs.writeFileSync(file, `${JSON.stringify({ ...cache, entries }, null, 2)}\n`);
+}
+
+/**
+ * Finds the cached quote recorded closest to a block
+ * @param cache The provider cache
+ * @param key The quote key
+ * @param blockNumber The block the quote is needed at
+ * @param blockTolerance The maximum distance between the recorded block and blockNumber
+ * @returns The entry, or undefined on a cache miss
+ */
+export function findCachedQuote<TQuote>(
+  cache: QuoteCacheFile<TQuote>,
+  key: QuoteKey,
+  blockNumber: number,
+  blockTolerance = DEFAULT_BLOCK_TOLERANCE
+): QuoteCacheEntry<TQuote> | undefined {
+  const cacheKey = formatQuoteKey(key);
+  return cache.entries
+    .filter(
+      (entry) =>
+        entry.key === cacheKey && Math.abs(entry.blockNumber - blockNumber) <= blockTolerance
+    )
+    .sort(
+      (a, b) => Math.abs(a.blockNumber - blockNumber) - Math.abs(b.blockNumber - blockNumber)
+    )[0];
+}
+
+/**
+ * Adds a quote to a cache, replacing any entry with the same key and block
+ * @param cache The provider cache
+ * @param key The quote key
+ * @param blockNumber The block the quote was fetched at
+ * @param quote The quote
+ * @returns The new entry
+ */
+export function storeQuote<TQuote>(
+  cache: QuoteCacheFile<TQuote>,
+  key: QuoteKey,
+  blockNumber: number,
+  quote: TQuote
+): QuoteCacheEntry<TQuote> {
+  const entry: QuoteCacheEntry<TQuote> = {
+    key: formatQuoteKey(key),
+    ...key,
+    blockNumber,
+    timestamp: Date.now(),
+    quote,
+  };
+  cache.entries = cache.entries.filter(
+    (existing) => existing.key !== entry.key || existing.blockNumber !== blockNumber
+  );
+  cache.entries.push(entry);
+  cache.lastUpdated = entry.timestamp;
+  return entry;
+}
+
+/**
+ * Removes the entries that can't be used at a block, and the duplicates recorded farther from it
+ * @param cache The provider cache
+ * @param blockNumber The block the tests run at
+ * @param blockTolerance The maximum distance between a recorded block and blockNumber
+ * @returns The removed entries
+ */
+export function pruneQuoteCache<TQuote>(
+  cache: QuoteCacheFile<TQuote>,
+  blockNumber: number,
+  blockTolerance = DEFAULT_BLOCK_TOLERANCE
+): QuoteCacheEntry<TQuote>[] {
+  const kept = new Set<QuoteCacheEntry<TQuote>>();
+  for (const entry of cache.entries) {
+    if (findCachedQuote(cache, entry, blockNumber, blockTolerance) === entry) {
+      kept.add(entry);
+    }
+  }
+  const removed = cache.entries.filter((entry) => !kept.has(entry));
+  cache.entries = cache.entries.filter((entry) => kept.has(entry));
+  return removed;
+}
+
+/**
+ * Removes the entries matching a filter, e.g. after an API change made them stale
+ * @param cache The provider cache
+ * @param filter Entries involving token (either side) and whose key contains key, all if empty
+ * @returns The removed entries
+ */
+export function invalidateQuotes<TQuote>(
+  cache: QuoteCacheFile<TQuote>,
+  filter: { token?: string; key?: string } = {}
+): QuoteCacheEntry<TQuote>[] {
+  const token = filter.token?.toLowerCase();
+  const matches = (entry: QuoteCacheEntry<TQuote>) =>
+    (!token || entry.tokenIn.toLowerCase() === token || entry.tokenOut.toLowerCase() === token) &&
+    (!filter.key || entry.key.includes(filter.key.toLowerCase()));
+  const removed = cache.entries.filter(matches);
+  cache.entries = cache.entries.filter((entry) => !matches(entry));
+  return removed;
+}
+
+/**
+ * Gets the current block number of the hardhat network
+ */
+export async function getCurrentBlockNumber(): Promise<number> {
+  const { ethers } = await import('hardhat');
+  return ethers.provider.getBlockNumber();
+}
+
+/**
+ * Gets a quote from the provider's cache, or from its API on a cache miss. Fresh quotes are
+ * recorded in the cache file.
+ * @param provider The provider adapter
+ * @param request The provider specific request
+ * @param options The block to quote at and whether API calls are allowed
+ * @returns The quote
+ */
+export async function getQuote<TRequest, TQuote>(
+  provider: QuoteProvider<TRequest, TQuote>,
+  request: TRequest,
+  options: QuoteOptions = {}
+): Promise<TQuote> {
+  const providerStats = (stats[provider.name] ??= { hits: 0, misses: 0, apiCalls: 0 });
+  const blockTolerance = provider.blockTolerance ?? DEFAULT_BLOCK_TOLERANCE;
+  const blockNumber = options.blockNumber ?? (await getCurrentBlockNumber());
+  const key = provider.getKey(request);
+
+  const cache = loadQuoteCache<TQuote>(provider);
+  const cached = findCachedQuote(cache, key, blockNumber, blockTolerance);
+  if (cached) {
+    providerStats.hits++;
+    log(`${provider.name} cache hit for ${cached.key} (block ${cached.blockNumber})`);
+    return cached.quote;
+  }
+
+  providerStats.misses++;
+  if (options.offline ?? isQuoteCacheOffline()) {
+    throw new Error(
+      `No cached ${provider.name} quote for ${formatQuoteKey(
+        key
+      )} within ${blockTolerance} blocks of ${blockNumber}`
+    );
+  }
+
+  log(`${provider.name} cache miss for ${formatQuoteKey(key)}, calling the API`);
+  providerStats.apiCalls++;
+  const quote = await provider.fetchQuote(request);
+  storeQuote(cache, key, blockNumber, quote);
+  saveQuoteCache(provider.cacheFile, cache);
+  return quote;
+}
+
+/**
+ * Gets the hit, miss and API call counts since the last reset
+ * @param provider The provider name
+ */
+export function getQuoteCacheStats(provider: string): QuoteCacheStats {
+  return { ...(stats[provider] ?? { hits: 0, misses: 0, apiCalls: 0 }) };
+}
+
+/**
+ * Resets the stats of a provider, or of every provider
+ * @param provider The provider name
+ */
+export function resetQuoteCacheStats(provider?: string) {
+  for (const name of provider ? [provider] : Object.keys(stats)) {
+    delete stats[name];
+  }
+}
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { AdminVault, Logger } from '../typechain-types';
+import { tokenConfig } from './constants';
+import { ADMIN_VAULT_LOG_IDS } from './logs';
+import {
+  diffRegistrySnapshots,
+  formatRegistryDiff,
+  getIdFromAddress,
+  getRegistrySnapshot,
+  resolvePoolToken,
+} from './registry-snapshot';
+
+describe('Registry snapshot tests', () => {
+  it('Should resolve pool tokens from the tokenConfig', () => {
+    expect(resolvePoolToken(tokenConfig.FLUID_V1_USDC.address)).to.deep.equal({
+      token: 'FLUID_V1_USDC',
+      underlying: { symbol: 'USDC', address: tokenConfig.USDC.address },
+    });
+    expect(resolvePoolToken(tokenConfig.AAVE_V3_aUSDT.address)!.underlying!.symbol).to.equal(
+      'USDT'
+    );
+    expect(resolvePoolToken(tokenConfig.MORPHO_V1_USUALUSDC.address)!.underlying!.symbol).to.equal(
+      'USDC'
+    );
+    // Keys that don't end with their underlying token
+    expect(
+      resolvePoolToken(tokenConfig.MORPHO_V1_steakhouseUSDC_RWA.address)!.underlying!.symbol
+    ).to.equal('USDC');
+    expect(
+      resolvePoolToken(tokenConfig.MORPHO_V1_coinshiftUSDL.address)!.underlying!.symbol
+    ).to.equal('wUSDL');
+    expect(resolvePoolToken(ethers.ZeroAddress)).to.be.undefined;
+  });
+
+  it('Should snapshot and diff the registered actions and pools', async () => {
+    const [admin, , unknownPool] = await ethers.getSigners();
+    const logger = (await (
+      await ethers.getContractFactory('Logger')
+    ).deploy()) as unknown as Logger;
+    const loggerAddress = await logger.getAddress();
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(admin.address, 0, loggerAddress)) as unknown as AdminVault;
+    const adminVaultAddress = await adminVault.getAddress();
+
+    const deployAction = async (name: string) => {
+      const factory = await ethers.getContractFactory(name);
+      return (await factory.deploy(adminVaultAddress, loggerAddress)).getAddress();
+    };
+    const addAction = async (actionId: string, address: string) => {
+      await adminVault.proposeAction(actionId, address);
+      await adminVault.addAction(actionId, address);
+    };
+    const addPool = async (protocol: string, address: string) => {
+      await adminVault.proposePool(protocol, address);
+      await adminVault.addPool(protocol, address);
+    };
+
+    const supply = await deployAction('FluidV1Supply');
+    const withdraw = await deployAction('FluidV1Withdraw');
+    await addAction(getIdFromAddress(supply), supply);
+    // Registered under an ID that isn't derived from its address
+    await addAction('0x12345678', withdraw);
+    await addPool('FluidV1', tokenConfig.FLUID_V1_USDC.address);
+    await addPool('FluidV1', unknownPool.address);
+    // Anyone can write to the Logger, this action isn't in the AdminVault
+    await logger.logAdminVaultEvent(
+      ADMIN_VAULT_LOG_IDS.ACTION_ADDED,
+      ethers.AbiCoder.defaultAbiCoder().encode(['bytes4', 'address'], ['0x87654321', supply])
+    );
+
+    const before = await getRegistrySnapshot(adminVault);
+    expect(Object.keys(before.actions)).to.have.members([getIdFromAddress(supply), '0x12345678']);
+    expect(before.actions[getIdFromAddress(supply)]).to.include({
+      protocolName: 'FluidV1',
+      actionType: 0,
+      name: 'FluidV1Supply',
+    });
+    const fluidPoolId = getIdFromAddress(tokenConfig.FLUID_V1_USDC.address);
+    expect(before.pools.FluidV1[fluidPoolId]).to.include({ token: 'FLUID_V1_USDC' });
+    expect(before.issues).to.have.length(2);
+    expect(before.issues[0]).to.contain('Action 0x12345678 is registered at');
+    expect(before.issues[1]).to.contain(`at ${unknownPool.address} isn't in the tokenConfig`);
+
+    await adminVault.removeAction('0x12345678');
+    await adminVault.removePool('FluidV1', unknownPool.address);
+    await addPool('YearnV2', tokenConfig.YEARN_V2_USDC.address);
+
+    const after = await getRegistrySnapshot(adminVault);
+    const diff = diffRegistrySnapshots(before, after);
+    expect(diff.actions.added).to.deep.equal([]);
+    expect(diff.actions.removed.map(({ actionId }) => actionId)).to.deep.equal(['0x12345678']);
+    expect(diff.pools.added.map(({ token }) => token)).to.deep.equal(['YEARN_V2_USDC']);
+    expect(diff.pools.removed.map(({ address }) => address)).to.deep.equal([unknownPool.address]);
+    expect(formatRegistryDiff(diff).split('\n')).to.have.length(3);
+    expect(formatRegistryDiff(diffRegistrySnapshots(after, after))).to.equal('No differences');
+  });
+});
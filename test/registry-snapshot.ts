@@ -0,0 +1,391 @@
+import fs from 'fs';
+import { Provider, ethers } from 'ethers';
+import { ActionBase__factory, AdminVault } from '../typechain-types';
+import { actionRegistry } from './action-registry';
+import { POOL_UNDERLYING_TOKENS, PoolTokenKey, tokenConfig } from './constants';
+import {
+  ADMIN_VAULT_LOG_IDS,
+  ActionAddedLog,
+  ActionRemovedLog,
+  AdminVaultLog,
+  LOGGER_INTERFACE,
+  PoolAddedLog,
+  PoolRemovedLog,
+  decodeAdminVaultEventLog,
+} from './logs';
+
+/**
+ * Pool and action registry snapshots
+ *
+ * Builds the set of actions and pools live in an AdminVault by replaying the Logger's ACTION_ADDED,
+ * ACTION_REMOVED, POOL_ADDED and POOL_REMOVED logs, then confirms every entry against the
+ * AdminVault's actionAddresses and protocolPools, dropping the entries that aren't registered on
+ * chain.
+ * Actions are described with their own protocolName and actionType, pools with the tokenConfig
+ * entry of the pool token and its underlying token. Two snapshots can be diffed, e.g. staging
+ * against mainnet or before and after a governance batch.
+ */
+
+export interface RegisteredAction {
+  actionId: string;
+  address: string;
+  // Undefined when the contract doesn't implement ActionBase
+  protocolName?: string;
+  actionType?: number;
+  // The actionRegistry entry with the same protocol and type, when there is exactly one
+  name?: string;
+}
+
+export interface RegisteredPool {
+  // The protocol name, or the protocol ID when the name is unknown
+  protocol: string;
+  protocolId: string;
+  poolId: string;
+  address: string;
+  // The tokenConfig key of the pool token
+  token?: string;
+  underlying?: { symbol: string; address: string };
+}
+
+export interface RegistrySnapshot {
+  chainId: number;
+  adminVault: string;
+  blockNumber: number;
+  // Keyed by action ID
+  actions: Record<string, RegisteredAction>;
+  // Keyed by protocol, then pool ID
+  pools: Record<string, Record<string, RegisteredPool>>;
+  issues: string[];
+}
+
+export interface SnapshotOptions {
+  // First block to replay (default: 0), should be at or before the AdminVault deployment
+  fromBlock?: number;
+  // Last block to replay (default: the latest block)
+  toBlock?: number;
+  // Blocks per eth_getLogs request (default: 2000)
+  batchSize?: number;
+  // Protocol names to resolve protocol IDs with, in addition to the ones in actionRegistry
+  protocolNames?: string[];
+}
+
+export interface EntryChange<T> {
+  key: string;
+  before: T;
+  after: T;
+}
+
+export interface EntryDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: EntryChange<T>[];
+}
+
+export interface RegistryDiff {
+  actions: EntryDiff<RegisteredAction>;
+  pools: EntryDiff<RegisteredPool>;
+}
+
+const ADMIN_VAULT_EVENT_TOPIC = new ethers.Interface(LOGGER_INTERFACE).getEvent(
+  'AdminVaultEvent'
+)!.topicHash;
+const REGISTRY_LOG_IDS = [
+  ADMIN_VAULT_LOG_IDS.ACTION_ADDED,
+  ADMIN_VAULT_LOG_IDS.ACTION_REMOVED,
+  ADMIN_VAULT_LOG_IDS.POOL_ADDED,
+  ADMIN_VAULT_LOG_IDS.POOL_REMOVED,
+];
+
+/**
+ * Returns the ID AdminVault derives from an address, bytes4(keccak256(address))
+ * @param address The action or pool address
+ * @returns The bytes4 ID
+ */
+export function getIdFromAddress(address: string): string {
+  return ethers.keccak256(ethers.getAddress(address)).slice(0, 10);
+}
+
+/**
+ * Returns the ID AdminVault derives from a protocol name, keccak256(abi.encode(name))
+ * @param protocolName The protocol name
+ * @returns The protocol ID as a hex string
+ */
+export function getProtocolId(protocolName: string): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['string'], [protocolName]));
+}
+
+/**
+ * Finds the tokenConfig entry of a pool token and its underlying token (POOL_UNDERLYING_TOKENS)
+ * @param address The pool token
+ * @returns The tokenConfig key and underlying token, undefined when the pool isn't in tokenConfig
+ */
+export function resolvePoolToken(
+  address: string
+): Pick<RegisteredPool, 'token' | 'underlying'> | undefined {
+  const token = (Object.keys(POOL_UNDERLYING_TOKENS) as PoolTokenKey[]).find(
+    (key) => tokenConfig[key].address.toLowerCase() === address.toLowerCase()
+  );
+  if (!token) {
+    return undefined;
+  }
+  const underlying = POOL_UNDERLYING_TOKENS[token];
+  return {
+    token,
+    underlying: { symbol: underlying, address: ethers.getAddress(tokenConfig[underlying].address) },
+  };
+}
+
+async function describeAction(
+  provider: Provider,
+  actionId: string,
+  address: string,
+  issues: string[]
+): Promise<RegisteredAction> {
+  const action: RegisteredAction = { actionId, address };
+  if (getIdFromAddress(address) !== actionId) {
+    issues.push(
+      `Action ${actionId} is registered at ${address}, whose ID is ${getIdFromAddress(address)}`
+    );
+  }
+  try {
+    const contract = ActionBase__factory.connect(address, provider);
+    action.protocolName = await contract.protocolName();
+    action.actionType = Number(await contract.actionType());
+  } catch {
+    issues.push(`Action ${actionId} at ${address} doesn't implement ActionBase`);
+    return action;
+  }
+  const names = Object.entries(actionRegistry)
+    .filter(
+      ([, definition]) =>
+        definition.protocolName === action.protocolName &&
+        definition.actionType === action.actionType
+    )
+    .map(([name]) => name);
+  if (names.length === 0) {
+    issues.push(
+      `Action ${actionId} (${action.protocolName} type ${action.actionType}) isn't in the actionRegistry`
+    );
+  } else if (names.length === 1) {
+    action.name = names[0];
+  }
+  return action;
+}
+
+/**
+ * Builds the registry snapshot of an AdminVault
+ * @param adminVault The AdminVault, connected to a provider
+ * @param options The block range to replay and extra protocol names
+ * @returns The snapshot as of the last replayed block
+ */
+export async function getRegistrySnapshot(
+  adminVault: AdminVault,
+  options: SnapshotOptions = {}
+): Promise<RegistrySnapshot> {
+  const provider = adminVault.runner?.provider as Provider;
+  const { batchSize = 2000, fromBlock = 0, protocolNames = [] } = options;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const [adminVaultAddress, loggerAddress, { chainId }] = await Promise.all([
+    adminVault.getAddress(),
+    adminVault.LOGGER(),
+    provider.getNetwork(),
+  ]);
+  const overrides = { blockTag: toBlock };
+
+  const protocols = new Map<string, string>();
+  for (const name of [
+    ...Object.values(actionRegistry).map((definition) => definition.protocolName),
+    ...protocolNames,
+  ]) {
+    protocols.set(getProtocolId(name), name);
+  }
+
+  // Replay the logs in order, later logs override earlier ones
+  const actions = new Map<string, string>();
+  const pools = new Map<string, { protocolId: string; address: string }>();
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({
+      address: loggerAddress,
+      topics: [ADMIN_VAULT_EVENT_TOPIC],
+      fromBlock: start,
+      toBlock: end,
+    });
+    for (const log of logs) {
+      let decoded: AdminVaultLog | undefined;
+      try {
+        decoded = decodeAdminVaultEventLog(log);
+      } catch {
+        decoded = undefined;
+      }
+      if (!decoded || !REGISTRY_LOG_IDS.includes(Number(decoded.eventId))) {
+        continue;
+      }
+      switch (Number(decoded.eventId)) {
+        case ADMIN_VAULT_LOG_IDS.ACTION_ADDED: {
+          const { actionId, actionAddress } = decoded as ActionAddedLog;
+          actions.set(actionId.toLowerCase(), ethers.getAddress(actionAddress));
+          break;
+        }
+        case ADMIN_VAULT_LOG_IDS.ACTION_REMOVED:
+          actions.delete((decoded as ActionRemovedLog).actionId.toLowerCase());
+          break;
+        case ADMIN_VAULT_LOG_IDS.POOL_ADDED: {
+          const { protocolId, poolAddress } = decoded as PoolAddedLog;
+          const address = ethers.getAddress(poolAddress);
+          const id = ethers.toBeHex(protocolId, 32);
+          pools.set(`${id}:${getIdFromAddress(address)}`, { protocolId: id, address });
+          break;
+        }
+        case ADMIN_VAULT_LOG_IDS.POOL_REMOVED: {
+          const { protocolId, poolAddress } = decoded as PoolRemovedLog;
+          pools.delete(`${ethers.toBeHex(protocolId, 32)}:${getIdFromAddress(poolAddress)}`);
+          break;
+        }
+      }
+    }
+  }
+
+  const snapshot: RegistrySnapshot = {
+    chainId: Number(chainId),
+    adminVault: adminVaultAddress,
+    blockNumber: toBlock,
+    actions: {},
+    pools: {},
+    issues: [],
+  };
+
+  for (const [actionId, address] of actions) {
+    const registered = await adminVault.actionAddresses(actionId, overrides);
+    if (registered.toLowerCase() !== address.toLowerCase()) {
+      continue;
+    }
+    snapshot.actions[actionId] = await describeAction(provider, actionId, address, snapshot.issues);
+  }
+
+  for (const { protocolId, address } of pools.values()) {
+    const poolId = getIdFromAddress(address);
+    const registered = await adminVault.protocolPools(protocolId, poolId, overrides);
+    if (registered.toLowerCase() !== address.toLowerCase()) {
+      continue;
+    }
+    const protocol = protocols.get(protocolId) ?? protocolId;
+    if (!protocols.has(protocolId)) {
+      snapshot.issues.push(`Pool ${poolId} is registered under an unknown protocol ${protocolId}`);
+    }
+    const token = resolvePoolToken(address);
+    if (!token) {
+      snapshot.issues.push(`Pool ${protocol} ${poolId} at ${address} isn't in the tokenConfig`);
+    }
+    snapshot.pools[protocol] ??= {};
+    snapshot.pools[protocol][poolId] = { protocol, protocolId, poolId, address, ...token };
+  }
+  return snapshot;
+}
+
+function diffEntries<T extends { address: string }>(
+  before: Record<string, T>,
+  after: Record<string, T>
+): EntryDiff<T> {
+  const diff: EntryDiff<T> = { added: [], removed: [], changed: [] };
+  for (const [key, entry] of Object.entries(after)) {
+    if (!before[key]) {
+      diff.added.push(entry);
+    } else if (before[key].address.toLowerCase() !== entry.address.toLowerCase()) {
+      diff.changed.push({ key, before: before[key], after: entry });
+    }
+  }
+  for (const [key, entry] of Object.entries(before)) {
+    if (!after[key]) {
+      diff.removed.push(entry);
+    }
+  }
+  return diff;
+}
+
+// Pools keyed by protocol and pool ID
+function flattenPools(snapshot: RegistrySnapshot): Record<string, RegisteredPool> {
+  return Object.fromEntries(
+    Object.values(snapshot.pools)
+      .flatMap((pools) => Object.values(pools))
+      .map((pool) => [`${pool.protocol}:${pool.poolId}`, pool])
+  );
+}
+
+/**
+ * Diffs two snapshots, actions are matched by action ID and pools by protocol and pool ID
+ * @param before The earlier or reference snapshot
+ * @param after The later or compared snapshot
+ * @returns The added, removed and changed actions and pools
+ */
+export function diffRegistrySnapshots(
+  before: RegistrySnapshot,
+  after: RegistrySnapshot
+): RegistryDiff {
+  return {
+    actions: diffEntries(before.actions, after.actions),
+    pools: diffEntries(flattenPools(before), flattenPools(after)),
+  };
+}
+
+/**
+ * Formats a registered action for the console
+ * @param action The action
+ * @returns The action ID, name and address
+ */
+export function formatRegisteredAction(action: RegisteredAction): string {
+  const name = action.name ?? action.protocolName ?? 'unknown';
+  return `action ${action.actionId} ${name} at ${action.address}`;
+}
+
+/**
+ * Formats a registered pool for the console
+ * @param pool The pool
+ * @returns The protocol, pool ID, tokens and address
+ */
+export function formatRegisteredPool(pool: RegisteredPool): string {
+  const underlying = pool.underlying ? ` (${pool.underlying.symbol})` : '';
+  const token = `${pool.token ?? 'unknown'}${underlying}`;
+  return `pool ${pool.protocol} ${pool.poolId} ${token} at ${pool.address}`;
+}
+
+/**
+ * Formats a diff for the console
+ * @param diff The diff from diffRegistrySnapshots
+ * @returns One line per change, or a single line when the snapshots match
+ */
+export function formatRegistryDiff(diff: RegistryDiff): string {
+  const lines: string[] = [];
+  for (const [entries, describe] of [
+    [diff.actions, formatRegisteredAction],
+    [diff.pools, formatRegisteredPool],
+  ] as [EntryDiff<any>, (entry: any) => string][]) {
+    entries.added.forEach((entry) => lines.push(`+ ${describe(entry)}`));
+    entries.removed.forEach((entry) => lines.push(`- ${describe(entry)}`));
+    entries.changed.forEach(({ before, after }) =>
+      lines.push(`~ ${describe(before)} -> ${after.address}`)
+    );
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No differences';
+}
+
+/**
+ * Saves a snapshot as JSON
+ * @param file The file to write
+ * @param snapshot The snapshot
+ */
+export function saveRegistrySnapshot(file: string, snapshot: RegistrySnapshot) {
+  fs.writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
+
+/**
+ * Loads a snapshot saved with saveRegistrySnapshot
+ * @param file The file to read
+ * @returns The snapshot
+ */
+export function loadRegistrySnapshot(file: string): RegistrySnapshot {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Snapshot ${file} not found`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { AdminVault, ISafe, SendToken, SequenceExecutor } from '../typechain-types';
+import { ETH_ADDRESS, SAFE_PROXY_FACTORY_ADDRESS, SAFE_SINGLETON_ADDRESS } from './constants';
+import {
+  decodeCallRevert,
+  decodeRevertData,
+  formatDecodedError,
+  withDecodedRevert,
+} from './revert-decoder';
+import safeContracts from './safe-contracts.json';
+import { getBytes4 } from './shared-utils';
+
+describe('Revert decoder tests', () => {
+  let owner: string;
+  let safe: ISafe;
+  let sendToken: SendToken;
+  let sequenceExecutor: SequenceExecutor;
+  const stranger = '0x000000000000000000000000000000000000dEaD';
+  const resolveAction = async (actionId: string) =>
+    actionId === getBytes4(await sendToken.getAddress())
+      ? { name: 'SendToken', address: await sendToken.getAddress() }
+      : undefined;
+
+  before(async () => {
+    const [signer] = await ethers.getSigners();
+    owner = signer.address;
+    // The fork has the Safe contracts, without a fork they are placed like in mock-protocols.ts
+    if ((await ethers.provider.getCode(SAFE_SINGLETON_ADDRESS)) === '0x') {
+      for (const { address, deployedBytecode } of Object.values(safeContracts.contracts)) {
+        await network.provider.send('hardhat_setCode', [address, deployedBytecode]);
+      }
+    }
+
+    const loggerImplementation = await (await ethers.getContractFactory('Logger')).deploy();
+    const loggerProxy = await (
+      await ethers.getContractFactory('ERC1967Proxy')
+    ).deploy(
+      await loggerImplementation.getAddress(),
+      loggerImplementation.interface.encodeFunctionData('initialize')
+    );
+    const logger = await loggerProxy.getAddress();
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(owner, 0, logger)) as unknown as AdminVault;
+    sequenceExecutor = (await (
+      await ethers.getContractFactory('SequenceExecutor')
+    ).deploy(await adminVault.getAddress())) as unknown as SequenceExecutor;
+    sendToken = (await (
+      await ethers.getContractFactory('SendToken')
+    ).deploy(await adminVault.getAddress(), logger)) as unknown as SendToken;
+    const sendTokenAddress = await sendToken.getAddress();
+    await adminVault.proposeAction(getBytes4(sendTokenAddress), sendTokenAddress);
+    await adminVault.addAction(getBytes4(sendTokenAddress), sendTokenAddress);
+
+    const singleton = await ethers.getContractAt('ISafe', SAFE_SINGLETON_ADDRESS);
+    const setup = singleton.interface.encodeFunctionData('setup', [
+      [owner],
+      1,
+      ethers.ZeroAddress,
+      '0x',
+      ethers.ZeroAddress,
+      ethers.ZeroAddress,
+      0,
+      ethers.ZeroAddress,
+    ]);
+    const factory = await ethers.getContractAt('ISafeProxyFactory', SAFE_PROXY_FACTORY_ADDRESS);
+    const safeAddress = await factory.createProxyWithNonce.staticCall(
+      SAFE_SINGLETON_ADDRESS,
+      setup,
+      0
+    );
+    await factory.createProxyWithNonce(SAFE_SINGLETON_ADDRESS, setup, 0);
+    safe = await ethers.getContractAt('ISafe', safeAddress);
+  });
+
+  const sendEth = (to: string) =>
+    sendToken.interface.encodeFunctionData('executeAction', [
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['tuple(address,address,uint256)'],
+        [[ETH_ADDRESS, to, 0]]
+      ),
+      0,
+    ]);
+
+  // execTransaction signed by the sender (pre-validated signature)
+  const execTransaction = (to: string, data: string) => {
+    const signature =
+      ethers.AbiCoder.defaultAbiCoder().encode(['address', 'bytes32'], [owner, ethers.ZeroHash]) +
+      '01';
+    const args = [to, 0, data, 1, 0, 0, 0, ethers.ZeroAddress, ethers.ZeroAddress, signature];
+    const call = {
+      from: owner,
+      to: safe.target as string,
+      data: safe.interface.encodeFunctionData('execTransaction', args as never),
+    };
+    return withDecodedRevert(
+      safe.execTransaction(...(args as Parameters<ISafe['execTransaction']>)),
+      (revertData) => decodeCallRevert(call, revertData, { resolveAction })
+    ).then(
+      () => expect.fail('execTransaction should revert'),
+      (error) => error as Error & { revertFrames?: unknown[] }
+    );
+  };
+
+  it('Should decode custom errors, require strings and panics', async () => {
+    const errors = await ethers.getContractAt('contracts/Errors.sol:Errors', ethers.ZeroAddress);
+    const data = errors.interface.encodeErrorResult(
+      'Action_UnderlyingReceivedLessThanExpected',
+      [99, 100]
+    );
+    expect(formatDecodedError((await decodeRevertData(data))!)).to.equal(
+      'Action_UnderlyingReceivedLessThanExpected(99, 100)'
+    );
+    const invalidInput = errors.interface.encodeErrorResult('InvalidInput', ['AdminVault', 'x']);
+    expect(formatDecodedError((await decodeRevertData(invalidInput))!)).to.equal(
+      'InvalidInput("AdminVault", "x")'
+    );
+    const panic = '0x4e487b71' + ethers.toBeHex(0x11, 32).slice(2);
+    expect(formatDecodedError((await decodeRevertData(panic))!)).to.equal('Panic(0x11)');
+    expect(await decodeRevertData('0x')).to.be.undefined;
+    expect(await decodeRevertData('0x12345678')).to.be.undefined;
+  });
+
+  it('Should unwrap a failing action of a sequence behind GS013', async () => {
+    const actionId = getBytes4(await sendToken.getAddress());
+    const sequence = {
+      name: 'Test',
+      callData: [sendEth(owner), sendEth(stranger)],
+      actionIds: [actionId, actionId],
+    };
+    const payload = sequenceExecutor.interface.encodeFunctionData('executeSequence', [
+      sequence,
+      { expiry: 0, sequences: [] },
+      '0x',
+      0,
+    ]);
+
+    const error = await execTransaction(await sequenceExecutor.getAddress(), payload);
+    const actionType = await sendToken.actionType();
+    expect(error.message.split('\n').slice(0, 4)).to.deep.equal([
+      `action #2 SendToken: Action_InvalidRecipient("Brava", ${actionType})`,
+      `  Safe ${safe.target}: Error("GS013")`,
+      '  SequenceExecutor: reverted without data',
+      `  action #2 SendToken: Action_InvalidRecipient("Brava", ${actionType})`,
+    ]);
+    expect(error.revertFrames).to.have.length(3);
+    // The revert data is untouched
+    await expect(Promise.reject(error)).to.be.revertedWith('GS013');
+  });
+
+  it('Should unwrap an action delegatecalled by the Safe', async () => {
+    const error = await execTransaction(await sendToken.getAddress(), sendEth(stranger));
+    expect(error.message.split('\n')[0]).to.match(
+      /^action SendToken: Action_InvalidRecipient\("Brava", \d+\)$/
+    );
+  });
+});
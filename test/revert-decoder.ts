@@ -0,0 +1,519 @@
+import { AbiCoder, BlockTag, ErrorFragment, Interface, Provider, ethers } from 'ethers';
+import { artifacts, ethers as hardhatEthers } from 'hardhat';
+import {
+  EIP712TypedDataSafeModule__factory,
+  ISafe__factory,
+  SequenceExecutor__factory,
+} from '../typechain-types';
+import type { ActionResolver } from './sequence-decoder';
+import { getBytes4, log } from './shared-utils';
+
+/**
+ * Revert decoder
+ *
+ * Safe.execTransaction only reverts with GS013 when the call it makes fails, the
+ * EIP712TypedDataSafeModule with EIP712TypedDataSafeModule_ExecutionFailed, and SequenceExecutor
+ * drops the revert data of failing actions. The decoder re-runs the failed execution layer by
+ * layer with eth_call (Safe.simulateAndRevert, plus SequenceSimulator placed with a state
+ * override, so nothing is written) until it reaches the innermost revert, then decodes it against
+ * every error in the compiled artifacts:
+ *   action #2 FluidV1Supply: Action_UnderlyingReceivedLessThanExpected(99, 100)
+ * The wired helpers (executeAction, executeSequence, executeTypedDataBundle) prepend that line to
+ * the thrown error and keep its revert data, so revertedWith assertions still see GS013.
+ */
+
+export interface DecodedError {
+  name: string; // 'Error' and 'Panic' for require strings and panics
+  signature: string;
+  args: unknown[];
+}
+
+export interface RevertFrame {
+  label: string; // e.g. 'Safe 0x...', 'SequenceExecutor', 'action #2 FluidV1Supply'
+  data: string;
+  error?: DecodedError; // undefined when the data is empty or matches no known error
+}
+
+// A call a Safe makes, through execTransaction or a module
+export interface SafeExecution {
+  safe: string;
+  to: string;
+  data: string;
+  operation: number; // 0 call, 1 delegatecall
+  value?: bigint;
+  from?: string; // msg.sender inside the execution: the transaction sender, or the module
+}
+
+export interface FailedCall {
+  from: string;
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export type RpcProvider = Provider & { send(method: string, params: unknown[]): Promise<unknown> };
+
+export interface RevertDecoderOptions {
+  provider?: RpcProvider; // defaults to the hardhat network
+  blockTag?: BlockTag; // state to simulate on, defaults to latest
+  resolveAction?: ActionResolver; // names the actions in the report
+}
+
+const SAFE_INTERFACE = ISafe__factory.createInterface();
+const SIMULATE_AND_REVERT = new Interface([
+  'function simulateAndRevert(address targetContract, bytes calldataPayload)',
+]);
+const SEQUENCE_EXECUTOR_INTERFACE = SequenceExecutor__factory.createInterface();
+const MODULE_INTERFACE = EIP712TypedDataSafeModule__factory.createInterface();
+const SIMULATOR_ADDRESS = ethers.getAddress(ethers.dataSlice(ethers.id('SequenceSimulator'), 12));
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+let errorInterface: Interface | undefined;
+
+/**
+ * Builds an interface holding every custom error of the compiled contracts, Errors.sol as well as
+ * the OpenZeppelin and protocol interface errors
+ */
+export async function getErrorInterface(): Promise<Interface> {
+  if (!errorInterface) {
+    const fragments = new Map<string, ErrorFragment>();
+    for (const name of await artifacts.getAllFullyQualifiedNames()) {
+      for (const item of (await artifacts.readArtifact(name)).abi) {
+        if (item.type === 'error') {
+          const fragment = ErrorFragment.from(item);
+          fragments.set(fragment.selector, fragment);
+        }
+      }
+    }
+    errorInterface = new Interface([...fragments.values()]);
+  }
+  return errorInterface;
+}
+
+/**
+ * Decodes revert data into a named error
+ * @param data The revert data
+ * @returns The error, undefined when the data is empty or its selector is unknown
+ */
+export async function decodeRevertData(data: string): Promise<DecodedError | undefined> {
+  if (ethers.dataLength(data) < 4) {
+    return undefined;
+  }
+  const coder = AbiCoder.defaultAbiCoder();
+  const selector = ethers.dataSlice(data, 0, 4);
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = coder.decode(['string'], ethers.dataSlice(data, 4));
+      return { name: 'Error', signature: 'Error(string)', args: [reason] };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4));
+      return { name: 'Panic', signature: 'Panic(uint256)', args: [code] };
+    }
+    const parsed = (await getErrorInterface()).parseError(data);
+    return parsed
+      ? { name: parsed.name, signature: parsed.signature, args: parsed.args.toArray(true) }
+      : undefined;
+  } catch {
+    // The selector matched but the data did not decode
+    return undefined;
+  }
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') {
+    return ethers.isHexString(arg) ? arg : JSON.stringify(arg);
+  }
+  if (Array.isArray(arg)) {
+    return `[${arg.map(formatArg).join(', ')}]`;
+  }
+  return String(arg);
+}
+
+/**
+ * Formats a decoded error as a call, e.g. Action_InvalidRecipient("Brava", 1)
+ * @param error The decoded error
+ */
+export function formatDecodedError(error: DecodedError): string {
+  if (error.name === 'Panic') {
+    return `Panic(0x${(error.args[0] as bigint).toString(16)})`;
+  }
+  return `${error.name}(${error.args.map(formatArg).join(', ')})`;
+}
+
+/**
+ * Finds the revert data in an error thrown by ethers or the hardhat provider
+ * @param error The thrown error
+ * @returns The revert data, undefined if the error is not a revert
+ */
+export function getRevertData(error: unknown, depth = 0): string | undefined {
+  if (depth > 5 || typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  const { data } = error as { data?: unknown };
+  if (typeof data === 'string' && ethers.isHexString(data)) {
+    return data;
+  }
+  for (const key of ['data', 'error', 'info', 'cause']) {
+    const found = getRevertData((error as Record<string, unknown>)[key], depth + 1);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+// Runs an eth_call, returning its revert data or undefined when it succeeds
+async function callForRevert(
+  call: { from?: string; to: string; data: string; value?: bigint },
+  options: RevertDecoderOptions,
+  overrides?: Record<string, { code: string }>
+): Promise<string | undefined> {
+  const provider = options.provider ?? (hardhatEthers.provider as unknown as RpcProvider);
+  const tx = {
+    from: call.from,
+    to: call.to,
+    data: call.data,
+    value: call.value ? ethers.toQuantity(call.value) : undefined,
+  };
+  const blockTag =
+    typeof options.blockTag === 'number'
+      ? ethers.toQuantity(options.blockTag)
+      : options.blockTag ?? 'latest';
+  try {
+    await provider.send('eth_call', overrides ? [tx, blockTag, overrides] : [tx, blockTag]);
+    return undefined;
+  } catch (error) {
+    const data = getRevertData(error);
+    if (data === undefined && !String((error as Error).message).includes('revert')) {
+      throw error;
+    }
+    return data ?? '0x';
+  }
+}
+
+// Runs steps in the Safe context with SequenceSimulator, returns the first failing step
+async function simulateSteps(
+  execution: SafeExecution,
+  steps: { target: string; data: string }[],
+  options: RevertDecoderOptions
+): Promise<{ index: number; data: string } | undefined> {
+  const simulator = await artifacts.readArtifact('SequenceSimulator');
+  const simulatorInterface = new Interface(simulator.abi);
+  const payload = simulatorInterface.encodeFunctionData('simulate', [steps]);
+  const reverted = await callForRevert(
+    {
+      from: execution.from,
+      to: execution.safe,
+      data: SIMULATE_AND_REVERT.encodeFunctionData('simulateAndRevert', [
+        SIMULATOR_ADDRESS,
+        payload,
+      ]),
+    },
+    options,
+    { [SIMULATOR_ADDRESS]: { code: simulator.deployedBytecode } }
+  );
+  // simulateAndRevert always reverts with abi.encodePacked(success, returnDataSize, returnData)
+  if (reverted === undefined || ethers.dataLength(reverted) < 64) {
+    throw new Error(`${execution.safe} does not support simulateAndRevert`);
+  }
+  if (BigInt(ethers.dataSlice(reverted, 0, 32)) !== 0n) {
+    return undefined;
+  }
+  const failure = simulatorInterface.parseError(ethers.dataSlice(reverted, 64));
+  if (!failure) {
+    throw new Error(`SequenceSimulator reverted with ${ethers.dataSlice(reverted, 64)}`);
+  }
+  return { index: Number(failure.args.index), data: failure.args.returnData };
+}
+
+async function frame(label: string, data: string): Promise<RevertFrame> {
+  return { label, data, error: await decodeRevertData(data) };
+}
+
+async function getActionLabel(
+  actionId: string,
+  index: number | undefined,
+  options: RevertDecoderOptions
+): Promise<string> {
+  const action = await options.resolveAction?.(actionId).catch(() => undefined);
+  const position = index === undefined ? '' : ` #${index + 1}`;
+  return `action${position} ${action?.name ?? actionId}`;
+}
+
+// Finds the failing action of a SequenceExecutor.executeSequence run in the Safe context
+async function unwrapSequence(
+  execution: SafeExecution,
+  options: RevertDecoderOptions
+): Promise<RevertFrame[]> {
+  const [sequence, bundle, signature, strategyId] = SEQUENCE_EXECUTOR_INTERFACE.decodeFunctionData(
+    'executeSequence',
+    execution.data
+  );
+  const actionIds: string[] = [...sequence.actionIds];
+  const callData: string[] = [...sequence.callData];
+  // Each action as its own sequence keeps the SequenceExecutor dispatch (bundle context or not)
+  const sequenceSteps = actionIds.map((actionId, i) => ({
+    target: execution.to,
+    data: SEQUENCE_EXECUTOR_INTERFACE.encodeFunctionData('executeSequence', [
+      { name: sequence.name, callData: [callData[i]], actionIds: [actionId] },
+      bundle,
+      signature,
+      strategyId,
+    ]),
+  }));
+  const failed = await simulateSteps(execution, sequenceSteps, options);
+  if (!failed) {
+    return [];
+  }
+
+  const { index } = failed;
+  let { data } = failed;
+  if (ethers.dataLength(data) === 0) {
+    // The standard path drops the revert data, call the action directly after the previous ones
+    const sequenceExecutor = SequenceExecutor__factory.connect(
+      execution.to,
+      options.provider ?? hardhatEthers.provider
+    );
+    const adminVault = await sequenceExecutor.ADMIN_VAULT({ blockTag: options.blockTag });
+    const vault = new ethers.Contract(
+      adminVault,
+      ['function getActionAddress(bytes4) view returns (address)'],
+      options.provider ?? hardhatEthers.provider
+    );
+    const actionAddress: string = await vault.getActionAddress(actionIds[index], {
+      blockTag: options.blockTag,
+    });
+    const steps = [
+      ...sequenceSteps.slice(0, index),
+      { target: actionAddress, data: callData[index] },
+    ];
+    data = (await simulateSteps(execution, steps, options))?.data ?? data;
+  }
+  return [await frame(await getActionLabel(actionIds[index], index, options), data)];
+}
+
+/**
+ * Re-runs a call made by a Safe to find why it failed
+ * @param execution The call the Safe made, and who it made it for
+ * @param options Provider, block and action resolver
+ * @returns The frames below the Safe, outermost first, empty if the call succeeds when simulated
+ */
+export async function unwrapSafeExecution(
+  execution: SafeExecution,
+  options: RevertDecoderOptions = {}
+): Promise<RevertFrame[]> {
+  let data: string | undefined;
+  if (execution.operation === 1) {
+    data = (
+      await simulateSteps(execution, [{ target: execution.to, data: execution.data }], options)
+    )?.data;
+  } else {
+    data = await callForRevert(
+      { from: execution.safe, to: execution.to, data: execution.data, value: execution.value },
+      options
+    );
+  }
+  if (data === undefined) {
+    return [];
+  }
+
+  if (
+    execution.data.startsWith(SEQUENCE_EXECUTOR_INTERFACE.getFunction('executeSequence')!.selector)
+  ) {
+    const sequenceFrame = await frame('SequenceExecutor', data);
+    return [sequenceFrame, ...(await unwrapSequence(execution, options))];
+  }
+  return [await frame(await getActionLabel(getBytes4(execution.to), undefined, options), data)];
+}
+
+/**
+ * Unwraps the revert of a Safe execTransaction
+ * @param execution The call passed to execTransaction
+ * @param revertData The data execTransaction reverted with
+ * @param options Provider, block and action resolver
+ * @returns The frames, the Safe first and the innermost revert last
+ */
+export async function decodeSafeRevert(
+  execution: SafeExecution,
+  revertData: string,
+  options: RevertDecoderOptions = {}
+): Promise<RevertFrame[]> {
+  const safeFrame = await frame(`Safe ${execution.safe}`, revertData);
+  // GS013 is the only revert caused by the inner call, anything else failed before it
+  if (safeFrame.error?.name !== 'Error' || safeFrame.error.args[0] !== 'GS013') {
+    return [safeFrame];
+  }
+  return [safeFrame, ...(await unwrapSafeExecution(execution, options))];
+}
+
+// Rebuilds the Safe execution the EIP712TypedDataSafeModule makes for a bundle
+async function getBundleExecution(
+  call: FailedCall,
+  options: RevertDecoderOptions
+): Promise<SafeExecution | undefined> {
+  const [safe, bundle, signature] = MODULE_INTERFACE.decodeFunctionData('executeBundle', call.data);
+  const provider = options.provider ?? hardhatEthers.provider;
+  const module = EIP712TypedDataSafeModule__factory.connect(call.to, provider);
+  const overrides = { blockTag: options.blockTag };
+  const nonce = await module.sequenceNonces(safe, overrides);
+  const { chainId } = await provider.getNetwork();
+  const target = [...bundle.sequences].find(
+    (chainSequence) => chainSequence.chainId === chainId && chainSequence.sequenceNonce === nonce
+  );
+  if (!target) {
+    return undefined;
+  }
+  return {
+    safe,
+    to: await module.SEQUENCE_EXECUTOR_ADDR(overrides),
+    data: SEQUENCE_EXECUTOR_INTERFACE.encodeFunctionData('executeSequence', [
+      {
+        name: target.sequence.name,
+        callData: target.sequence.callData,
+        actionIds: target.sequence.actionIds,
+      },
+      bundle,
+      signature,
+      0,
+    ]),
+    operation: 1,
+    from: call.to,
+  };
+}
+
+/**
+ * Unwraps the revert of a call to a Safe (execTransaction) or to the EIP712TypedDataSafeModule
+ * (executeBundle), other calls only get their own revert decoded
+ * @param call The failed call
+ * @param revertData The data it reverted with, the call is re-run when not given
+ * @param options Provider, block and action resolver
+ * @returns The frames, the called contract first and the innermost revert last
+ */
+export async function decodeCallRevert(
+  call: FailedCall,
+  revertData?: string,
+  options: RevertDecoderOptions = {}
+): Promise<RevertFrame[]> {
+  const data = revertData ?? (await callForRevert(call, options));
+  if (data === undefined) {
+    return [];
+  }
+
+  const selector = ethers.dataSlice(call.data, 0, 4);
+  if (selector === SAFE_INTERFACE.getFunction('execTransaction')!.selector) {
+    const [to, value, innerData, operation] = SAFE_INTERFACE.decodeFunctionData(
+      'execTransaction',
+      call.data
+    );
+    const execution = {
+      safe: call.to,
+      to,
+      data: innerData,
+      operation: Number(operation),
+      value,
+      from: call.from,
+    };
+    return decodeSafeRevert(execution, data, options);
+  }
+
+  if (selector === MODULE_INTERFACE.getFunction('executeBundle')!.selector) {
+    const moduleFrame = await frame('EIP712TypedDataSafeModule', data);
+    if (moduleFrame.error?.name !== 'EIP712TypedDataSafeModule_ExecutionFailed') {
+      return [moduleFrame];
+    }
+    const execution = await getBundleExecution(call, options);
+    return [moduleFrame, ...(execution ? await unwrapSafeExecution(execution, options) : [])];
+  }
+  return [await frame(call.to, data)];
+}
+
+/**
+ * Unwraps the revert of a mined transaction, re-run on the state before its block
+ * @param hash The transaction hash
+ * @param options Provider and action resolver
+ * @returns The frames, empty if the transaction succeeded
+ */
+export async function decodeTransactionRevert(
+  hash: string,
+  options: RevertDecoderOptions = {}
+): Promise<RevertFrame[]> {
+  const provider = options.provider ?? hardhatEthers.provider;
+  const [tx, receipt] = await Promise.all([
+    provider.getTransaction(hash),
+    provider.getTransactionReceipt(hash),
+  ]);
+  if (!tx || !receipt || !tx.to) {
+    throw new Error(`Transaction ${hash} not found`);
+  }
+  if (receipt.status === 1) {
+    return [];
+  }
+  const call = { from: tx.from, to: tx.to, data: tx.data, value: tx.value };
+  return decodeCallRevert(call, undefined, { ...options, blockTag: receipt.blockNumber - 1 });
+}
+
+function describeRevert(revert: RevertFrame): string {
+  if (revert.error) {
+    return formatDecodedError(revert.error);
+  }
+  return ethers.dataLength(revert.data) === 0
+    ? 'reverted without data'
+    : `unknown error ${revert.data}`;
+}
+
+/**
+ * Picks the innermost frame with a decoded error, the root cause
+ * @param frames The frames, outermost first
+ */
+export function getInnermostError(frames: RevertFrame[]): RevertFrame | undefined {
+  return [...frames].reverse().find((revert) => revert.error);
+}
+
+/**
+ * Formats the frames, the root cause first, e.g.
+ * action #2 FluidV1Supply: Action_UnderlyingReceivedLessThanExpected(99, 100)
+ *   Safe 0x...: Error("GS013")
+ *   SequenceExecutor: reverted without data
+ *   action #2 FluidV1Supply: Action_UnderlyingReceivedLessThanExpected(99, 100)
+ * @param frames The frames, outermost first
+ */
+export function formatRevertFrames(frames: RevertFrame[]): string {
+  const describe = (revert: RevertFrame) => `${revert.label}: ${describeRevert(revert)}`;
+  const innermost = getInnermostError(frames) ?? frames[frames.length - 1];
+  return [describe(innermost), ...frames.map((revert) => `  ${describe(revert)}`)].join('\n');
+}
+
+/**
+ * Awaits a transaction and, when it reverts, prepends the decoded revert to the error message
+ * The error is rethrown as is otherwise (same object, same revert data), and decoding failures
+ * are only logged, so they never hide the original error
+ * @param transaction The pending transaction
+ * @param decode Unwraps the revert data the transaction failed with
+ * @returns The transaction result
+ */
+export async function withDecodedRevert<T>(
+  transaction: Promise<T>,
+  decode: (revertData: string) => Promise<RevertFrame[]>
+): Promise<T> {
+  try {
+    return await transaction;
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined || !(error instanceof Error)) {
+      throw error;
+    }
+    try {
+      const frames = await decode(revertData);
+      if (frames.length > 0) {
+        error.message = `${formatRevertFrames(frames)}\n${error.message}`;
+        Object.assign(error, { revertFrames: frames });
+      }
+    } catch (decodeError) {
+      log('Could not decode the revert:', decodeError);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { AdminVault, Logger } from '../typechain-types';
+import { ADMIN_VAULT_LOG_IDS } from './logs';
+import { formatRoleAuditMarkdown, getRoleAudit } from './role-audit';
+
+describe('Role audit tests', () => {
+  const delay = 60 * 60;
+  const role = (name: string) => ethers.id(name);
+
+  it('Should replay role grants, revokes and proposals', async () => {
+    const [admin, alice, bob, carol, dave] = await ethers.getSigners();
+    const logger = (await (
+      await ethers.getContractFactory('Logger')
+    ).deploy()) as unknown as Logger;
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(admin.address, delay, await logger.getAddress())) as unknown as AdminVault;
+
+    // The owner grants immediately
+    await adminVault.grantRole(role('POOL_PROPOSER_ROLE'), alice.address);
+    await adminVault.grantRole(role('POOL_EXECUTOR_ROLE'), alice.address);
+    await adminVault.grantRole(role('FEE_TAKER_ROLE'), carol.address);
+    await adminVault.revokeRole(role('FEE_TAKER_ROLE'), carol.address);
+    await adminVault.proposeRole(role('FEE_TAKER_ROLE'), bob.address);
+    await adminVault.proposeRole(role('ACTION_EXECUTOR_ROLE'), carol.address);
+    await adminVault.cancelRoleProposal(role('ACTION_EXECUTOR_ROLE'), carol.address);
+    // Anyone can write to the Logger, this proposal doesn't exist in the AdminVault
+    await logger.logAdminVaultEvent(
+      ADMIN_VAULT_LOG_IDS.ROLE_PROPOSED,
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['bytes32', 'address'],
+        [role('OWNER_ROLE'), dave.address]
+      )
+    );
+
+    const report = await getRoleAudit(adminVault);
+    const holders = (name: string) => report.roles.find((entry) => entry.role === name)!.holders;
+
+    expect(report.delay).to.deep.equal({ delay, proposedDelay: 0, delayReductionLockTime: 0 });
+    expect(holders('OWNER_ROLE')).to.deep.equal([admin.address]);
+    expect(holders('POOL_EXECUTOR_ROLE')).to.have.members([admin.address, alice.address]);
+    expect(holders('FEE_TAKER_ROLE')).to.deep.equal([admin.address]);
+    expect(holders('TRANSACTION_EXECUTOR_ROLE')).to.deep.equal([admin.address]);
+    expect(report.roles.find((entry) => entry.role === 'FEE_TAKER_ROLE')!.adminRole).to.equal(
+      'ROLE_MANAGER_ROLE'
+    );
+
+    expect(report.pendingProposals).to.have.length(1);
+    expect(report.pendingProposals[0]).to.include({
+      role: 'FEE_TAKER_ROLE',
+      account: bob.address,
+      ready: false,
+    });
+
+    expect(report.conflicts.filter((conflict) => conflict.account === alice.address)).to.deep.equal(
+      [
+        {
+          account: alice.address,
+          family: 'POOL',
+          roles: ['POOL_PROPOSER_ROLE', 'POOL_EXECUTOR_ROLE'],
+        },
+      ]
+    );
+    expect(report.conflicts.map((conflict) => conflict.family)).to.include.members([
+      'FEE',
+      'ACTION',
+      'TRANSACTION',
+    ]);
+
+    const markdown = formatRoleAuditMarkdown(report);
+    expect(markdown).to.contain(`| FEE_TAKER_ROLE | \`${bob.address}\` |`);
+    expect(markdown).to.contain(`| \`${alice.address}\` | POOL |`);
+    expect(JSON.parse(JSON.stringify(report))).to.deep.equal(report);
+  });
+});
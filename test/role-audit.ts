@@ -0,0 +1,290 @@
+import { Provider, ethers } from 'ethers';
+import { AdminVault } from '../typechain-types';
+import { ROLES } from './constants';
+import {
+  ADMIN_VAULT_LOG_IDS,
+  AdminVaultLog,
+  LOGGER_INTERFACE,
+  RoleProposedLog,
+  decodeAdminVaultEventLog,
+} from './logs';
+
+/**
+ * AdminVault role audit
+ *
+ * Rebuilds the role holders of an AdminVault by replaying its RoleGranted and RoleRevoked events,
+ * and finds the pending role proposals from the Logger's ROLE_PROPOSED logs. The Logger accepts
+ * logs from anyone, so every proposal found in the logs is checked against
+ * AdminVault.getRoleProposalTime before it's reported.
+ * The report flags accounts holding both the proposer and the executor role of the same family,
+ * as they can push a change through on their own once the delay has passed.
+ */
+
+export interface RoleHolders {
+  role: string;
+  roleHash: string;
+  adminRole: string;
+  holders: string[];
+}
+
+export interface PendingRoleProposal {
+  role: string;
+  roleHash: string;
+  account: string;
+  // When the role can be granted
+  unlockTime: number;
+  ready: boolean;
+}
+
+export interface RoleConflict {
+  account: string;
+  family: string;
+  roles: string[];
+}
+
+export interface RoleAuditReport {
+  chainId: number;
+  adminVault: string;
+  logger: string;
+  blockNumber: number;
+  timestamp: number;
+  delay: {
+    delay: number;
+    // A shorter delay that applies from delayReductionLockTime, 0 when there is none
+    proposedDelay: number;
+    delayReductionLockTime: number;
+  };
+  roles: RoleHolders[];
+  pendingProposals: PendingRoleProposal[];
+  conflicts: RoleConflict[];
+}
+
+export interface RoleAuditOptions {
+  // First block to replay (default: 0), should be at or before the AdminVault deployment
+  fromBlock?: number;
+  // Last block to replay (default: the latest block)
+  toBlock?: number;
+  // Blocks per eth_getLogs request (default: 2000)
+  batchSize?: number;
+}
+
+const ADMIN_VAULT_EVENT_TOPIC = new ethers.Interface(LOGGER_INTERFACE).getEvent(
+  'AdminVaultEvent'
+)!.topicHash;
+
+const roleNames = new Map<string, string>(
+  Object.values(ROLES).map((role) => [ethers.id(role), role])
+);
+
+/**
+ * Returns the name of a role hash
+ * @param roleHash The keccak256 of the role name
+ * @returns The name from ROLES, or the hash for roles missing from ROLES
+ */
+export function getRoleLabel(roleHash: string): string {
+  return roleNames.get(roleHash.toLowerCase()) ?? roleHash;
+}
+
+/**
+ * Finds the accounts holding the proposer and executor roles of the same family
+ * @param roles The role holders
+ * @returns One conflict per account and family
+ */
+export function findRoleConflicts(roles: RoleHolders[]): RoleConflict[] {
+  const holders = new Map(roles.map((role) => [role.role, role.holders]));
+  const conflicts: RoleConflict[] = [];
+  for (const proposer of Object.values(ROLES)) {
+    const family = proposer.match(/^(\w+)_PROPOSER_ROLE$/)?.[1];
+    const executor = `${family}_EXECUTOR_ROLE`;
+    if (!family || !holders.has(executor)) {
+      continue;
+    }
+    for (const account of holders.get(proposer) ?? []) {
+      if (holders.get(executor)!.includes(account)) {
+        conflicts.push({ account, family, roles: [proposer, executor] });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Builds the role audit report of an AdminVault
+ * @param adminVault The AdminVault, connected to a provider
+ * @param options The block range to replay
+ * @returns The report, holders and proposals are as of the last replayed block
+ */
+export async function getRoleAudit(
+  adminVault: AdminVault,
+  options: RoleAuditOptions = {}
+): Promise<RoleAuditReport> {
+  const provider = adminVault.runner?.provider as Provider;
+  const { batchSize = 2000, fromBlock = 0 } = options;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const [adminVaultAddress, loggerAddress, block, { chainId }] = await Promise.all([
+    adminVault.getAddress(),
+    adminVault.LOGGER(),
+    provider.getBlock(toBlock),
+    provider.getNetwork(),
+  ]);
+  const overrides = { blockTag: toBlock };
+
+  // Every role in ROLES is reported, even without holders
+  const holders = new Map<string, Set<string>>(
+    [...roleNames.keys()].map((roleHash) => [roleHash, new Set<string>()])
+  );
+  const proposals = new Map<string, { roleHash: string; account: string }>();
+  const granted = adminVault.filters.RoleGranted();
+  const revoked = adminVault.filters.RoleRevoked();
+
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, toBlock);
+    const [grantedEvents, revokedEvents, loggerLogs] = await Promise.all([
+      adminVault.queryFilter(granted, start, end),
+      adminVault.queryFilter(revoked, start, end),
+      provider.getLogs({
+        address: loggerAddress,
+        topics: [ADMIN_VAULT_EVENT_TOPIC],
+        fromBlock: start,
+        toBlock: end,
+      }),
+    ]);
+
+    // Replay grants and revokes in the order they were emitted
+    const events = [...grantedEvents, ...revokedEvents].sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+    );
+    for (const event of events) {
+      const roleHash = event.args.role.toLowerCase();
+      const roleHolders = holders.get(roleHash) ?? new Set<string>();
+      holders.set(roleHash, roleHolders);
+      if (event.eventName === 'RoleGranted') {
+        roleHolders.add(ethers.getAddress(event.args.account));
+      } else {
+        roleHolders.delete(ethers.getAddress(event.args.account));
+      }
+    }
+
+    for (const log of loggerLogs) {
+      let decoded: AdminVaultLog | undefined;
+      try {
+        decoded = decodeAdminVaultEventLog(log);
+      } catch {
+        decoded = undefined;
+      }
+      if (Number(decoded?.eventId) === ADMIN_VAULT_LOG_IDS.ROLE_PROPOSED) {
+        const proposed = decoded as RoleProposedLog;
+        const roleHash = proposed.role.toLowerCase();
+        const account = ethers.getAddress(proposed.account);
+        proposals.set(`${roleHash}:${account}`, { roleHash, account });
+      }
+    }
+  }
+
+  const roles: RoleHolders[] = [];
+  for (const [roleHash, roleHolders] of holders) {
+    roles.push({
+      role: getRoleLabel(roleHash),
+      roleHash,
+      adminRole: getRoleLabel(await adminVault.getRoleAdmin(roleHash, overrides)),
+      holders: [...roleHolders].sort(),
+    });
+  }
+
+  // A proposal is pending until it's granted, cancelled or the role is revoked
+  const pendingProposals: PendingRoleProposal[] = [];
+  for (const { roleHash, account } of proposals.values()) {
+    const unlockTime = Number(await adminVault.getRoleProposalTime(roleHash, account, overrides));
+    if (unlockTime !== 0) {
+      pendingProposals.push({
+        role: getRoleLabel(roleHash),
+        roleHash,
+        account,
+        unlockTime,
+        ready: block!.timestamp >= unlockTime,
+      });
+    }
+  }
+  pendingProposals.sort((a, b) => a.unlockTime - b.unlockTime);
+
+  const [delay, proposedDelay, delayReductionLockTime] = await Promise.all([
+    adminVault.delay(overrides),
+    adminVault.proposedDelay(overrides),
+    adminVault.delayReductionLockTime(overrides),
+  ]);
+
+  return {
+    chainId: Number(chainId),
+    adminVault: adminVaultAddress,
+    logger: loggerAddress,
+    blockNumber: toBlock,
+    timestamp: block!.timestamp,
+    delay: {
+      delay: Number(delay),
+      proposedDelay: Number(proposedDelay),
+      delayReductionLockTime: Number(delayReductionLockTime),
+    },
+    roles,
+    pendingProposals,
+    conflicts: findRoleConflicts(roles),
+  };
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Formats a role audit report as Markdown
+ * @param report The report from getRoleAudit
+ * @returns The Markdown document
+ */
+export function formatRoleAuditMarkdown(report: RoleAuditReport): string {
+  const { delay } = report;
+  const lines = [
+    '# AdminVault role audit',
+    '',
+    `- AdminVault: \`${report.adminVault}\` on chain ${report.chainId}`,
+    `- Logger: \`${report.logger}\``,
+    `- Block: ${report.blockNumber} (${formatTimestamp(report.timestamp)})`,
+    `- Delay: ${delay.delay}s`,
+  ];
+  if (delay.proposedDelay !== 0) {
+    lines.push(
+      `- Proposed delay: ${delay.proposedDelay}s from ${formatTimestamp(
+        delay.delayReductionLockTime
+      )}`
+    );
+  }
+
+  lines.push('', '## Role holders', '', '| Role | Admin role | Holders |', '| --- | --- | --- |');
+  for (const role of report.roles) {
+    const holders = role.holders.map((holder) => `\`${holder}\``).join('<br>') || '-';
+    lines.push(`| ${role.role} | ${role.adminRole} | ${holders} |`);
+  }
+
+  lines.push('', '## Pending role proposals', '');
+  if (report.pendingProposals.length === 0) {
+    lines.push('None');
+  } else {
+    lines.push('| Role | Account | Unlock time | Ready |', '| --- | --- | --- | --- |');
+    for (const proposal of report.pendingProposals) {
+      lines.push(
+        `| ${proposal.role} | \`${proposal.account}\` | ${formatTimestamp(proposal.unlockTime)} | ${
+          proposal.ready ? 'yes' : 'no'
+        } |`
+      );
+    }
+  }
+
+  lines.push('', '## Proposer and executor conflicts', '');
+  if (report.conflicts.length === 0) {
+    lines.push('None');
+  } else {
+    lines.push('| Account | Family | Roles |', '| --- | --- | --- |');
+    for (const conflict of report.conflicts) {
+      lines.push(`| \`${conflict.account}\` | ${conflict.family} | ${conflict.roles.join(', ')} |`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  JsonRpcRequest,
+  createRpcFixture,
+  getRpcCacheKey,
+  loadRpcFixture,
+  saveRpcFixture,
+  startRpcCacheProxy,
+} from './rpc-cache';
+
+describe('RPC cache tests', () => {
+  const blockNumber = 23096055;
+  const code = '0x6080';
+  const address = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  let upstream: http.Server;
+  let upstreamUrl: string;
+  let upstreamRequests: JsonRpcRequest[] = [];
+
+  before(async () => {
+    // Answers eth_getCode, fails everything else
+    upstream = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        const requests: JsonRpcRequest[] = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        upstreamRequests.push(...requests);
+        const responses = requests.map(({ id, method }) =>
+          method === 'eth_getCode'
+            ? { jsonrpc: '2.0', id, result: code }
+            : { jsonrpc: '2.0', id, error: { code: -32601, message: 'rate limited' } }
+        );
+        res.end(JSON.stringify(responses));
+      });
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => upstream.close(resolve));
+  });
+
+  const send = async (url: string, body: unknown) =>
+    (await fetch(url, { method: 'POST', body: JSON.stringify(body) })).json();
+  const getCode = (id: number, account: string) => ({
+    jsonrpc: '2.0',
+    id,
+    method: 'eth_getCode',
+    params: [account, `0x${blockNumber.toString(16)}`],
+  });
+
+  it('Should record upstream responses and replay them from the saved fixture', async () => {
+    const fixture = createRpcFixture(blockNumber);
+    const recorder = await startRpcCacheProxy({ fixture, mode: 'record', upstreamUrl });
+    try {
+      expect(await send(recorder.url, getCode(1, address))).to.deep.equal({
+        jsonrpc: '2.0',
+        id: 1,
+        result: code,
+      });
+      // Checksummed and lowercase addresses share an entry, errors are not recorded
+      const batch = await send(recorder.url, [
+        getCode(2, address.toLowerCase()),
+        { jsonrpc: '2.0', id: 3, method: 'eth_chainId', params: [] },
+      ]);
+      expect(batch[0].result).to.equal(code);
+      expect(batch[1].error.message).to.equal('rate limited');
+      expect(upstreamRequests.map(({ method }) => method)).to.deep.equal([
+        'eth_getCode',
+        'eth_chainId',
+      ]);
+      expect(recorder.stats).to.deep.equal({ hits: 1, misses: 2, recorded: 1 });
+    } finally {
+      await recorder.close();
+    }
+
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'rpc-cache-')), 'fixture.json.gz');
+    saveRpcFixture(file, fixture);
+    const loaded = loadRpcFixture(file)!;
+    expect(loaded).to.deep.equal(fixture);
+    expect(Object.keys(loaded.responses)).to.deep.equal([
+      getRpcCacheKey({ method: 'eth_getCode', params: getCode(0, address).params }),
+    ]);
+    expect(loadRpcFixture(path.join(path.dirname(file), 'missing.json.gz'))).to.be.undefined;
+
+    upstreamRequests = [];
+    const replayer = await startRpcCacheProxy({ fixture: loaded, mode: 'replay' });
+    try {
+      expect((await send(replayer.url, getCode(4, address))).result).to.equal(code);
+      const miss = await send(replayer.url, { jsonrpc: '2.0', id: 5, method: 'eth_chainId' });
+      expect(miss.error.message).to.equal(
+        'eth_chainId is not in the RPC fixture, re-record it with RPC_CACHE_MODE=record'
+      );
+      expect(upstreamRequests).to.be.empty;
+    } finally {
+      await replayer.close();
+    }
+  });
+});
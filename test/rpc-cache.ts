@@ -0,0 +1,219 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import zlib from 'zlib';
+
+/**
+ * RPC cache
+ *
+ * A JSON-RPC proxy that sits between the hardhat fork and the mainnet RPC. Responses are
+ * kept in a fixture keyed by method and params, so a fixture recorded once for the pinned
+ * fork block lets the forked suites run offline and deterministically:
+ * - record: answers from the fixture and forwards misses upstream, storing the responses
+ * - replay: answers from the fixture only, misses are returned as JSON-RPC errors
+ * The fixture is saved as gzipped JSON with sorted keys so re-recording gives small diffs.
+ */
+
+export const DEFAULT_RPC_FIXTURE = path.join(__dirname, 'fixtures', 'mainnet-fork.json.gz');
+
+export type RpcCacheMode = 'record' | 'replay';
+
+export interface RpcFixture {
+  blockNumber: number; // fork block the responses were recorded at
+  responses: Record<string, unknown>; // request key => JSON-RPC result
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface RpcCacheProxyOptions {
+  fixture: RpcFixture;
+  mode: RpcCacheMode;
+  upstreamUrl?: string; // required in record mode
+  port?: number; // defaults to a random free port
+}
+
+export interface RpcCacheProxy {
+  url: string;
+  stats: { hits: number; misses: number; recorded: number };
+  close: () => Promise<void>;
+}
+
+/**
+ * Builds the fixture key of a request. Hex strings are lowercased so the same call with a
+ * checksummed or lowercase address hits the same entry.
+ * @param request The JSON-RPC request
+ * @returns The fixture key
+ */
+export function getRpcCacheKey(request: Pick<JsonRpcRequest, 'method' | 'params'>): string {
+  return `${request.method}:${JSON.stringify(request.params ?? []).toLowerCase()}`;
+}
+
+/**
+ * Creates an empty fixture for a fork block
+ * @param blockNumber The pinned fork block
+ */
+export function createRpcFixture(blockNumber: number): RpcFixture {
+  return { blockNumber, responses: {} };
+}
+
+/**
+ * Loads a fixture saved by saveRpcFixture
+ * @param file The gzipped fixture file
+ * @returns The fixture, or undefined if the file does not exist
+ */
+export function loadRpcFixture(file: string): RpcFixture | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(zlib.gunzipSync(fs.readFileSync(file)).toString('utf8'));
+}
+
+/**
+ * Saves a fixture as gzipped JSON with sorted keys
+ * @param file The file to write
+ * @param fixture The fixture to save
+ */
+export function saveRpcFixture(file: string, fixture: RpcFixture) {
+  const responses = Object.fromEntries(
+    Object.keys(fixture.responses)
+      .sort()
+      .map((key) => [key, fixture.responses[key]])
+  );
+  const json = JSON.stringify({ blockNumber: fixture.blockNumber, responses }, null, 1);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, zlib.gzipSync(json, { level: 9 }));
+}
+
+async function forwardRequests(
+  upstreamUrl: string,
+  requests: JsonRpcRequest[]
+): Promise<JsonRpcResponse[]> {
+  const response = await fetch(upstreamUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requests),
+  });
+  if (!response.ok) {
+    throw new Error(`Upstream RPC returned ${response.status} ${response.statusText}`);
+  }
+  const body = await response.json();
+  // Some providers answer a single element batch with a bare response
+  return Array.isArray(body) ? body : [body];
+}
+
+/**
+ * Answers a batch of requests from the fixture, forwarding the misses upstream in record mode
+ * @param options The proxy options
+ * @param stats Counters updated with the hits, misses and recorded responses
+ * @param requests The requests to answer
+ * @returns The responses, in request order
+ */
+export async function handleRpcRequests(
+  options: RpcCacheProxyOptions,
+  stats: RpcCacheProxy['stats'],
+  requests: JsonRpcRequest[]
+): Promise<JsonRpcResponse[]> {
+  const { fixture, mode, upstreamUrl } = options;
+  const responses: (JsonRpcResponse | undefined)[] = requests.map((request) => {
+    const key = getRpcCacheKey(request);
+    if (!(key in fixture.responses)) {
+      return undefined;
+    }
+    stats.hits++;
+    return { jsonrpc: '2.0', id: request.id, result: fixture.responses[key] };
+  });
+
+  const misses = requests.filter((_, i) => responses[i] === undefined);
+  stats.misses += misses.length;
+  if (misses.length === 0) {
+    return responses as JsonRpcResponse[];
+  }
+
+  if (mode === 'replay') {
+    return requests.map(
+      (request, i) =>
+        responses[i] ?? {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: {
+            code: -32000,
+            message: `${request.method} is not in the RPC fixture, re-record it with RPC_CACHE_MODE=record`,
+          },
+        }
+    );
+  }
+
+  if (!upstreamUrl) {
+    throw new Error('An upstream RPC URL is required to record');
+  }
+  const upstream = await forwardRequests(upstreamUrl, misses);
+  const upstreamById = new Map(upstream.map((response) => [response.id, response]));
+  return requests.map((request, i) => {
+    if (responses[i]) {
+      return responses[i]!;
+    }
+    const response = upstreamById.get(request.id) ?? {
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: -32603, message: 'Upstream RPC did not answer the request' },
+    };
+    // Errors are not recorded, they are often transient (rate limits, timeouts)
+    if (response.error === undefined) {
+      fixture.responses[getRpcCacheKey(request)] = response.result;
+      stats.recorded++;
+    }
+    return response;
+  });
+}
+
+/**
+ * Starts the proxy on localhost
+ * @param options The fixture, mode, upstream RPC URL and port
+ * @returns The proxy URL, its hit/miss counters and a function to stop it
+ */
+export async function startRpcCacheProxy(options: RpcCacheProxyOptions): Promise<RpcCacheProxy> {
+  const stats = { hits: 0, misses: 0, recorded: 0 };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', async () => {
+      let body: JsonRpcRequest | JsonRpcRequest[];
+      let reply: JsonRpcResponse | JsonRpcResponse[];
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        const requests = Array.isArray(body) ? body : [body];
+        const responses = await handleRpcRequests(options, stats, requests);
+        reply = Array.isArray(body) ? responses : responses[0];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        reply = { jsonrpc: '2.0', id: null, error: { code: -32603, message } };
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    stats,
+    close: () =>
+      new Promise<void>((resolve, reject) => server.close((e) => (e ? reject(e) : resolve()))),
+  };
+}
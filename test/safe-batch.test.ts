@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import {
+  DeploymentLedger,
+  getLedgerPath,
+  registerActionWithLedger,
+  registerPoolWithLedger,
+} from '../scripts/deployments/ledger';
+import {
+  addToBatch,
+  createSafeBatch,
+  decodeSafeBatch,
+  formatDecodedCall,
+  getMultiSendTransaction,
+  loadSafeBatch,
+  saveSafeBatch,
+} from '../scripts/deployments/safe-batch';
+import { AdminVault, Logger, TokenRegistry } from '../typechain-types';
+import { ROLES } from './constants';
+import { getBytes4 } from './shared-utils';
+
+describe('Safe batch tests', () => {
+  const safeAddress = '0x000000000000000000000000000000000000bEEF';
+  const actionAddress = '0x000000000000000000000000000000000000a11c';
+  const poolAddress = '0x000000000000000000000000000000000000dEaD';
+  let tempDir: string;
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-batch-'));
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getLedgerPath(), { force: true });
+  });
+
+  it('Should decode a saved batch of registrations back into the governance calls', async () => {
+    const [admin, alice] = await ethers.getSigners();
+    const logger = (await (
+      await ethers.getContractFactory('Logger')
+    ).deploy()) as unknown as Logger;
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(admin.address, 0, await logger.getAddress())) as unknown as AdminVault;
+    const tokenRegistry = (await (
+      await ethers.getContractFactory('TokenRegistry')
+    ).deploy(await adminVault.getAddress(), await logger.getAddress())) as unknown as TokenRegistry;
+    const addresses = {
+      AdminVault: await adminVault.getAddress(),
+      TokenRegistry: await tokenRegistry.getAddress(),
+      TestAction: actionAddress,
+    };
+
+    // The ledger adds the proposals to the batch instead of sending them
+    const { chainId } = await ethers.provider.getNetwork();
+    const batch = createSafeBatch(chainId, safeAddress, 'Register');
+    const ledger: DeploymentLedger = {
+      network: network.name,
+      chainId: Number(chainId),
+      external: {},
+      contracts: {},
+      actions: {},
+      pools: {},
+    };
+    await registerActionWithLedger(ledger, adminVault, 'TestAction', actionAddress, batch);
+    await registerPoolWithLedger(ledger, adminVault, 'Test', poolAddress, undefined, batch);
+    await addToBatch(batch, adminVault, 'grantRole', [
+      ethers.id(ROLES.FEE_TAKER_ROLE),
+      alice.address,
+    ]);
+    await addToBatch(batch, tokenRegistry, 'proposeToken', [poolAddress]);
+    expect(
+      await adminVault.getActionProposalTime(getBytes4(actionAddress), actionAddress)
+    ).to.equal(0n);
+
+    const file = saveSafeBatch(batch, path.join(tempDir, 'batch.json'));
+    const loaded = loadSafeBatch(file);
+    expect(loaded).to.deep.equal(batch);
+
+    const calls = decodeSafeBatch(loaded, addresses);
+    expect(calls.map((call) => `${call.contractName}.${call.method}`)).to.deep.equal([
+      'AdminVault.proposeAction',
+      'AdminVault.proposePool',
+      'AdminVault.grantRole',
+      'TokenRegistry.proposeToken',
+    ]);
+    expect(calls.flatMap((call) => call.warnings)).to.be.empty;
+    expect(calls[0].args.map((arg) => arg.value)).to.deep.equal([
+      getBytes4(actionAddress),
+      `${actionAddress} (TestAction)`,
+    ]);
+    expect(calls[2].args[0].value).to.equal(`${ethers.id(ROLES.FEE_TAKER_ROLE)} (FEE_TAKER_ROLE)`);
+    expect(formatDecodedCall(calls[1], 1)).to.contain(
+      `#2 AdminVault (${addresses.AdminVault}).proposePool`
+    );
+
+    // The MultiSendCallOnly wrapper expands into the same calls
+    const multiSend = getMultiSendTransaction(loaded);
+    expect(
+      decodeSafeBatch(
+        {
+          ...loaded,
+          transactions: [{ ...multiSend, contractMethod: null, contractInputsValues: null }],
+        },
+        addresses
+      )
+    ).to.deep.equal(calls);
+  });
+
+  it('Should warn about calls a signer should not approve', async () => {
+    const [admin] = await ethers.getSigners();
+    const logger = (await (
+      await ethers.getContractFactory('Logger')
+    ).deploy()) as unknown as Logger;
+    const adminVault = (await (
+      await ethers.getContractFactory('AdminVault')
+    ).deploy(admin.address, 0, await logger.getAddress())) as unknown as AdminVault;
+
+    const batch = createSafeBatch(1, safeAddress, 'Tampered');
+    await addToBatch(batch, adminVault, 'proposeAction', ['0x12345678', actionAddress]);
+    batch.transactions.push({ ...batch.transactions[0], value: ethers.parseEther('1').toString() });
+    batch.transactions.push({
+      to: safeAddress,
+      value: '0',
+      data: '0xdeadbeef',
+      contractMethod: null,
+      contractInputsValues: null,
+    });
+
+    const calls = decodeSafeBatch(batch, { AdminVault: poolAddress });
+    expect(calls[0].warnings).to.deep.equal([
+      `AdminVault call sent to ${await adminVault.getAddress()}, expected ${poolAddress}`,
+      `Action ID 0x12345678 does not match the action address ${actionAddress}`,
+    ]);
+    expect(calls[1].warnings[0]).to.equal('Call sends 1.0 ETH');
+    expect(calls[2].method).to.be.undefined;
+    expect(calls[2].warnings).to.deep.equal(['Unrecognised call data 0xdeadbeef']);
+  });
+});
@@ -0,0 +1,68 @@
+import { ethers, expect } from '.';
+import { ActionEncoderContext, encodeActionCall } from './action-encoders';
+import { tokenConfig } from './constants';
+import { decodeSequence, formatTokenAmount, resolveActionsFromAddresses } from './sequence-decoder';
+import { getBytes4 } from './shared-utils';
+
+describe('Sequence decoder tests', () => {
+  const actionAddresses = {
+    FluidV1Supply: '0x1000000000000000000000000000000000000001',
+    PullToken: '0x1000000000000000000000000000000000000002',
+  };
+  const context: ActionEncoderContext = {
+    getActionAddress: (actionType) => actionAddresses[actionType as keyof typeof actionAddresses],
+    getSafeAddress: async () => ethers.ZeroAddress,
+  };
+  const resolveAction = resolveActionsFromAddresses(actionAddresses);
+
+  it('Should decode actions into named params and summaries', async () => {
+    const from = '0x2000000000000000000000000000000000000002';
+    const sequence = {
+      name: 'DepositSequence',
+      callData: [
+        await encodeActionCall(
+          { type: 'PullToken', token: 'USDC', amount: 1000_000000n, from },
+          context
+        ),
+        await encodeActionCall(
+          { type: 'FluidV1Supply', amount: 1000_000000n, feeBasis: 10 },
+          context
+        ),
+      ],
+      actionIds: [getBytes4(actionAddresses.PullToken), getBytes4(actionAddresses.FluidV1Supply)],
+    };
+
+    const decoded = await decodeSequence(sequence, resolveAction);
+    expect(decoded.actions.map((action) => action.summary)).to.deep.equal([
+      `PullToken 1,000 USDC from ${from}, strategy 42`,
+      'FluidV1Supply 1,000 USDC into FLUID_V1_USDC, fee 10 bps, strategy 42',
+    ]);
+    expect(decoded.actions[1].params.poolId).to.equal(getBytes4(tokenConfig.FLUID_V1_USDC.address));
+    expect(decoded.actions[1].action?.address).to.equal(actionAddresses.FluidV1Supply);
+  });
+
+  it('Should use the action definitions of EIP-712 sequences for unknown action IDs', async () => {
+    const sequence = {
+      name: 'TypedDataSequence',
+      actions: [{ protocolName: 'FluidV1', actionType: 0 }],
+      callData: [await encodeActionCall({ type: 'FluidV1Supply', amount: 5_000000n }, context)],
+      actionIds: ['0x12345678'],
+    };
+
+    const [action] = (await decodeSequence(sequence, resolveAction)).actions;
+    expect(action.action?.name).to.equal('FluidV1Supply');
+    expect(action.summary).to.contain('FluidV1Supply 5 USDC into FLUID_V1_USDC');
+  });
+
+  it('Should report actions that cannot be resolved', async () => {
+    const sequence = { name: 'Unknown', callData: ['0x'], actionIds: ['0x12345678'] };
+
+    const [action] = (await decodeSequence(sequence, resolveAction)).actions;
+    expect(action.error).to.equal('Action 0x12345678 could not be resolved');
+  });
+
+  it('Should format token amounts with thousands separators', async () => {
+    expect(formatTokenAmount(1234567_500000n, 6)).to.equal('1,234,567.5');
+    expect(formatTokenAmount(10n ** 18n, 18)).to.equal('1');
+  });
+});
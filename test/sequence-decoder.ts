@@ -0,0 +1,382 @@
+import { BytesLike, Contract, Interface, Result, ethers } from 'ethers';
+import { AdminVault } from '../typechain-types';
+import { decodeActionCall } from './action-encoders';
+import { actionRegistry } from './action-registry';
+import { actionTypes, decodeActionInputs, hasActionParams } from './actions';
+import {
+  CURVE_3POOL_INDICES,
+  POOL_UNDERLYING_TOKENS,
+  PoolTokenKey,
+  tokenConfig,
+} from './constants';
+import { getBytes4 } from './shared-utils';
+import { ActionDefinition, Bundle } from './utils-eip712';
+
+/**
+ * Sequence decoder
+ *
+ * Turns the callData[] and actionIds[] of a SequenceExecutor sequence, or of an EIP-712 Sequence
+ * in a signed Bundle, back into named action params and one line summaries such as
+ * "FluidV1Supply 1,000 USDC into FLUID_V1_USDC, fee 0 bps, strategy 42".
+ * Action IDs are resolved to action contracts by an ActionResolver, built from known deployments
+ * (test setup or deployment ledger) or from AdminVault.getActionAddress.
+ */
+
+// Fields shared by SequenceExecutor.SequenceStruct and the EIP-712 Sequence
+export interface EncodedSequence {
+  name: string;
+  callData: BytesLike[];
+  actionIds: BytesLike[];
+  // Only present in EIP-712 sequences
+  actions?: ActionDefinition[];
+}
+
+export interface ResolvedAction {
+  // Action contract name, as used by actionRegistry and encodeAction
+  name: string;
+  address?: string;
+}
+
+// Resolves an action ID to its action contract, undefined when the action is unknown
+export type ActionResolver = (actionId: string) => Promise<ResolvedAction | undefined>;
+
+export interface DecodedAction {
+  index: number;
+  actionId: string;
+  action?: ResolvedAction;
+  // Undefined when the call data is the bare action input (typed data CCTP sequences)
+  strategyId?: number;
+  params: Record<string, unknown>;
+  summary: string;
+  // Set when the action could not be resolved or its call data could not be decoded
+  error?: string;
+}
+
+export interface DecodedSequence {
+  name: string;
+  actions: DecodedAction[];
+}
+
+const ACTION_INTERFACE = new Interface([
+  'function executeAction(bytes _callData, uint16 _strategyId)',
+  'function protocolName() view returns (string)',
+  'function actionType() view returns (uint8)',
+]);
+
+/**
+ * Returns the actions in the registry with the given protocol name and action type
+ * @param protocolName The protocolName() reported by the action
+ * @param actionType The actionType() reported by the action
+ * @returns The matching action contract names
+ */
+export function findActionsByMetadata(protocolName: string, actionType: number): string[] {
+  return Object.entries(actionRegistry)
+    .filter(
+      ([, metadata]) =>
+        metadata.protocolName === protocolName && metadata.actionType === Number(actionType)
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Creates a resolver from known action addresses
+ * @param addresses Action addresses keyed by action contract name (e.g. the ledger actions)
+ * @returns The resolver
+ */
+export function resolveActionsFromAddresses(addresses: Record<string, string>): ActionResolver {
+  const byId = new Map<string, ResolvedAction>();
+  for (const [name, address] of Object.entries(addresses)) {
+    byId.set(getBytes4(address), { name, address });
+  }
+  return async (actionId) => byId.get(actionId.toLowerCase());
+}
+
+/**
+ * Creates a resolver that looks action IDs up in the AdminVault
+ * Actions missing from `addresses` are identified by their protocolName() and actionType()
+ * @param adminVault The AdminVault the actions are registered in
+ * @param addresses Known action addresses keyed by action contract name
+ * @returns The resolver
+ */
+export function resolveActionsFromAdminVault(
+  adminVault: AdminVault,
+  addresses: Record<string, string> = {}
+): ActionResolver {
+  const names = new Map<string, string>();
+  for (const [name, address] of Object.entries(addresses)) {
+    names.set(address.toLowerCase(), name);
+  }
+
+  return async (actionId) => {
+    let address: string;
+    try {
+      address = await adminVault.getActionAddress(actionId);
+    } catch {
+      // Reverts with AdminVault_NotFound for unregistered actions
+      return undefined;
+    }
+    const known = names.get(address.toLowerCase());
+    if (known) {
+      return { name: known, address };
+    }
+
+    const action = new Contract(address, ACTION_INTERFACE, adminVault.runner);
+    const candidates = findActionsByMetadata(
+      await action.protocolName(),
+      Number(await action.actionType())
+    );
+    return candidates.length === 1 ? { name: candidates[0], address } : undefined;
+  };
+}
+
+// Token and pool labels from tokenConfig, pools are the entries with an underlying token
+const tokensByAddress = new Map<string, { symbol: string; decimals: number }>();
+const poolsById = new Map<string, PoolTokenKey>();
+for (const [key, token] of Object.entries(tokenConfig)) {
+  tokensByAddress.set(token.address.toLowerCase(), { symbol: key, decimals: token.decimals });
+  if (key in POOL_UNDERLYING_TOKENS) {
+    poolsById.set(getBytes4(token.address), key as PoolTokenKey);
+  }
+}
+
+// The underlying token of a pool
+function getUnderlying(poolKey: PoolTokenKey): { symbol: string; decimals: number } {
+  const symbol = POOL_UNDERLYING_TOKENS[poolKey];
+  return { symbol, decimals: tokenConfig[symbol].decimals };
+}
+
+/**
+ * Formats a token amount with thousands separators, e.g. 1000000000n with 6 decimals as "1,000"
+ * @param amount The amount in the token's smallest unit
+ * @param decimals The token decimals
+ * @returns The formatted amount
+ */
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+  const [whole, fraction] = ethers.formatUnits(amount, decimals).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction === '0' ? grouped : `${grouped}.${fraction}`;
+}
+
+function formatToken(address: string, amount?: bigint): string {
+  const token = tokensByAddress.get(address.toLowerCase());
+  if (amount === undefined) {
+    return token?.symbol ?? address;
+  }
+  return token
+    ? `${formatTokenAmount(amount, token.decimals)} ${token.symbol}`
+    : `${amount} of ${address}`;
+}
+
+function toParams(result: Result): Record<string, unknown> {
+  try {
+    return result.toObject(true);
+  } catch {
+    // Unnamed inputs (hand written encodings) are keyed by position
+    return Object.fromEntries(result.toArray().map((value, i) => [`arg${i}`, value]));
+  }
+}
+
+function summarisePoolAction(name: string, params: Record<string, any>): string | undefined {
+  const id = params.poolId ?? params.assetId;
+  const amountKey = ['amount', 'withdrawAmount', 'withdrawRequest', 'sharesToBurn'].find(
+    (key) => key in params
+  );
+  if (id === undefined || !amountKey) {
+    return undefined;
+  }
+
+  const poolKey = poolsById.get(id.toLowerCase());
+  const underlying = poolKey ? getUnderlying(poolKey) : undefined;
+  const amount = BigInt(params[amountKey]);
+  // Shares are counted in the pool token, other amounts in the underlying token
+  const formatted =
+    amountKey === 'sharesToBurn' && poolKey
+      ? `${formatTokenAmount(amount, tokenConfig[poolKey].decimals)} shares`
+      : underlying
+      ? `${formatTokenAmount(amount, underlying.decimals)} ${underlying.symbol}`
+      : amount.toString();
+  const direction =
+    actionRegistry[name as keyof typeof actionRegistry]?.actionType === actionTypes.DEPOSIT_ACTION
+      ? 'into'
+      : 'from';
+  return `${name} ${formatted} ${direction} ${poolKey ?? `unknown pool ${id}`}, fee ${
+    params.feeBasis ?? 0
+  } bps`;
+}
+
+function summariseSwap(name: string, params: Record<string, any>): string | undefined {
+  if (name === 'Curve3PoolSwap') {
+    const symbols = Object.keys(CURVE_3POOL_INDICES);
+    const tokenIn = tokenConfig[symbols[Number(params.fromToken)] as keyof typeof tokenConfig];
+    const tokenOut = tokenConfig[symbols[Number(params.toToken)] as keyof typeof tokenConfig];
+    if (!tokenIn || !tokenOut) {
+      return undefined;
+    }
+    return `${name} ${formatToken(tokenIn.address, BigInt(params.amountIn))} to ${formatToken(
+      tokenOut.address,
+      BigInt(params.minAmountOut)
+    )} minimum`;
+  }
+  if (params.tokenIn && params.tokenOut && params.fromAmount !== undefined) {
+    return `${name} ${formatToken(params.tokenIn, BigInt(params.fromAmount))} to ${formatToken(
+      params.tokenOut,
+      BigInt(params.minToAmount)
+    )} minimum`;
+  }
+  return undefined;
+}
+
+function summariseTransfer(name: string, params: Record<string, any>): string | undefined {
+  if (!params.tokenAddr || params.amount === undefined) {
+    return undefined;
+  }
+  const counterparty = params.from ? `from ${params.from}` : `to ${params.to}`;
+  return `${name} ${formatToken(params.tokenAddr, BigInt(params.amount))} ${counterparty}`;
+}
+
+function formatParamValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatParamValue).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{ ${Object.entries(value)
+      .map(([key, item]) => `${key}: ${formatParamValue(item)}`)
+      .join(', ')} }`;
+  }
+  return String(value);
+}
+
+function summarise(name: string, params: Record<string, any>, strategyId?: number): string {
+  const summary =
+    summarisePoolAction(name, params) ??
+    summariseSwap(name, params) ??
+    summariseTransfer(name, params) ??
+    `${name} ${Object.entries(params)
+      .map(([key, value]) => `${key}=${formatParamValue(value)}`)
+      .join(', ')}`;
+  return strategyId === undefined ? summary : `${summary}, strategy ${strategyId}`;
+}
+
+/**
+ * Decodes the call data of a single action
+ * @param actionName The action contract name
+ * @param callData The executeAction call data, or the bare action input
+ * @returns The strategy ID (when the call data is an executeAction call) and the named params
+ */
+export function decodeActionParams(
+  actionName: string,
+  callData: string
+): { strategyId?: number; params: Record<string, unknown> } {
+  const executeAction = ACTION_INTERFACE.getFunction('executeAction')!;
+  let inputs = callData;
+  let strategyId: number | undefined;
+  if (callData.startsWith(executeAction.selector)) {
+    const decoded = ACTION_INTERFACE.decodeFunctionData(executeAction, callData);
+    inputs = decoded[0];
+    strategyId = Number(decoded[1]);
+  }
+  // The generated Params struct names the inputs the way the contract does
+  const params = hasActionParams(actionName)
+    ? decodeActionInputs(actionName, inputs)
+    : decodeActionCall(actionName, inputs);
+  return { strategyId, params: toParams(params) };
+}
+
+/**
+ * Decodes every action in a sequence
+ * @param sequence A SequenceExecutor.SequenceStruct or an EIP-712 Sequence
+ * @param resolveAction Resolves the action IDs to action contracts
+ * @returns The decoded sequence
+ */
+export async function decodeSequence(
+  sequence: EncodedSequence,
+  resolveAction: ActionResolver
+): Promise<DecodedSequence> {
+  if (sequence.callData.length !== sequence.actionIds.length) {
+    throw new Error(
+      `Sequence ${sequence.name} has ${sequence.callData.length} call data and ${sequence.actionIds.length} action IDs`
+    );
+  }
+
+  const actions: DecodedAction[] = [];
+  for (const [index, rawActionId] of sequence.actionIds.entries()) {
+    const actionId = ethers.hexlify(rawActionId);
+    const callData = ethers.hexlify(sequence.callData[index]);
+    let action = await resolveAction(actionId);
+    // EIP-712 sequences carry the protocol name and action type of each action
+    const definition = sequence.actions?.[index];
+    if (!action && definition) {
+      const candidates = findActionsByMetadata(definition.protocolName, definition.actionType);
+      action = candidates.length === 1 ? { name: candidates[0] } : undefined;
+    }
+
+    if (!action) {
+      actions.push({
+        index,
+        actionId,
+        params: {},
+        summary: `Unknown action ${actionId}`,
+        error: `Action ${actionId} could not be resolved`,
+      });
+      continue;
+    }
+
+    try {
+      const { strategyId, params } = decodeActionParams(action.name, callData);
+      actions.push({
+        index,
+        actionId,
+        action,
+        strategyId,
+        params,
+        summary: summarise(action.name, params, strategyId),
+      });
+    } catch (error) {
+      actions.push({
+        index,
+        actionId,
+        action,
+        params: {},
+        summary: `${action.name} with undecodable call data ${callData.slice(0, 10)}`,
+        error: (error as Error).message,
+      });
+    }
+  }
+  return { name: sequence.name, actions };
+}
+
+/**
+ * Decodes every sequence in a bundle
+ * @param bundle The EIP-712 bundle
+ * @param resolveAction Resolves the action IDs to action contracts, used for every chain
+ * @returns The decoded sequences with the chain they run on
+ */
+export async function decodeBundle(
+  bundle: Bundle,
+  resolveAction: ActionResolver
+): Promise<(DecodedSequence & { chainId: bigint })[]> {
+  const decoded = [];
+  for (const chainSequence of bundle.sequences) {
+    decoded.push({
+      chainId: chainSequence.chainId,
+      ...(await decodeSequence(chainSequence.sequence, resolveAction)),
+    });
+  }
+  return decoded;
+}
+
+/**
+ * Formats a decoded sequence for review
+ * @param sequence The decoded sequence
+ * @returns One line per action, errors on their own line
+ */
+export function formatDecodedSequence(sequence: DecodedSequence): string {
+  const lines = [`Sequence ${sequence.name}`];
+  for (const action of sequence.actions) {
+    lines.push(`  #${action.index + 1} ${action.summary}`);
+    if (action.error) {
+      lines.push(`      ERROR: ${action.error}`);
+    }
+  }
+  return lines.join('\n');
+}
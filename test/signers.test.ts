@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'hardhat';
+import { loadSafeBatch } from '../scripts/deployments/safe-batch';
+import {
+  ScriptSigner,
+  getScriptSigner,
+  getSendingSigner,
+  getSignerKind,
+} from '../scripts/deployments/signers';
+import { EIP712_TYPES, createBundle, createEIP712Domain } from './utils-eip712';
+
+describe('Script signer tests', () => {
+  const ENV_KEYS = [
+    'SIGNER_TYPE',
+    'PRIVATE_KEY',
+    'MNEMONIC',
+    'DERIVATION_PATH',
+    'KEYSTORE_FILE',
+    'KEYSTORE_PASSWORD',
+    'SAFE_ADDRESS',
+    'SAFE_BATCH_FILE',
+  ];
+  const savedEnv: Record<string, string | undefined> = {};
+  const safeAddress = '0x000000000000000000000000000000000000bEEF';
+  let tempDir: string;
+
+  const getSigner = (kind?: ScriptSigner['kind']) =>
+    getScriptSigner({
+      kind,
+      provider: ethers.provider,
+      getAccounts: () => ethers.getSigners(),
+      batchName: 'Signer test',
+    });
+
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'signers-'));
+  });
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    }
+  });
+
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('Should select the kind from the --signer flag, then SIGNER_TYPE', () => {
+    expect(getSignerKind([])).to.equal('local');
+    process.env.SIGNER_TYPE = 'keystore';
+    expect(getSignerKind([])).to.equal('keystore');
+    expect(getSignerKind(['node', 'script', '--signer=ledger'])).to.equal('ledger');
+    expect(getSignerKind(['node', 'script', 'sign', '--signer', 'safe'])).to.equal('safe');
+    process.env.SIGNER_TYPE = 'mnemonic';
+    expect(getSignerKind([])).to.equal('local');
+    process.env.SIGNER_TYPE = 'trezor';
+    expect(() => getSignerKind([])).to.throw('Unknown signer trezor');
+  });
+
+  it('Should use a configured key, or the first hardhat account', async () => {
+    const [account] = await ethers.getSigners();
+    expect(await (await getSigner('local')).getAddress()).to.equal(account.address);
+
+    const wallet = ethers.Wallet.createRandom();
+    process.env.PRIVATE_KEY = wallet.privateKey;
+    const local = await getSigner();
+    expect(local.kind).to.equal('local');
+    expect(await local.getAddress()).to.equal(wallet.address);
+    expect(local.signer.provider).to.equal(ethers.provider);
+    expect(local.save()).to.be.undefined;
+  });
+
+  it('Should decrypt a keystore and sign typed data with it', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const file = path.join(tempDir, 'keystore.json');
+    // A cheap scrypt cost keeps the test fast, real keystores use the default
+    fs.writeFileSync(
+      file,
+      ethers.encryptKeystoreJsonSync(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        'password',
+        { scrypt: { N: 1 << 10 } }
+      )
+    );
+    process.env.SIGNER_TYPE = 'keystore';
+    process.env.KEYSTORE_FILE = file;
+    process.env.KEYSTORE_PASSWORD = 'password';
+
+    const keystore = await getSigner();
+    expect(keystore.kind).to.equal('keystore');
+    expect(await keystore.getAddress()).to.equal(wallet.address);
+
+    const bundle = createBundle();
+    const domain = createEIP712Domain(safeAddress);
+    const signature = await keystore.signer.signTypedData(domain, EIP712_TYPES, bundle);
+    expect(ethers.verifyTypedData(domain, EIP712_TYPES, bundle, signature)).to.equal(
+      wallet.address
+    );
+
+    process.env.KEYSTORE_PASSWORD = 'wrong';
+    await getSigner().then(
+      () => expect.fail('Expected the keystore to fail to decrypt'),
+      (error: Error) => expect(error.message).to.contain('incorrect password')
+    );
+  });
+
+  it('Should propose transactions from a Safe in a Transaction Builder batch', async () => {
+    const file = path.join(tempDir, 'batch.json');
+    process.env.SIGNER_TYPE = 'safe';
+    process.env.SAFE_ADDRESS = safeAddress.toLowerCase();
+    process.env.SAFE_BATCH_FILE = file;
+
+    const safe = await getSigner();
+    expect(safe.kind).to.equal('safe');
+    expect(await safe.getAddress()).to.equal(safeAddress);
+    expect(safe.batch!.chainId).to.equal((await ethers.provider.getNetwork()).chainId.toString());
+    expect(safe.batch!.meta.name).to.equal('Signer test');
+    expect(() => getSendingSigner(safe, 'Deployments')).to.throw(
+      "Deployments can't be proposed to a Safe"
+    );
+    await safe.signer.sendTransaction({ to: safeAddress }).then(
+      () => expect.fail('Expected the Safe signer not to send'),
+      (error: Error) => expect(error.message).to.contain('proposed in its batch')
+    );
+
+    // Nothing is written until a transaction is proposed
+    expect(safe.save()).to.be.undefined;
+    safe.batch!.transactions.push({
+      to: safeAddress,
+      value: '0',
+      data: '0x',
+      contractMethod: null,
+      contractInputsValues: null,
+    });
+    expect(safe.save()).to.equal(file);
+    expect(loadSafeBatch(file).transactions).to.have.length(1);
+  });
+});
@@ -1,11 +1,20 @@
-import { ethers } from 'hardhat';
-import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+// Plain ethers (not the hardhat runtime) so the bundle helpers also work in standalone scripts
+import { Signer, TypedDataEncoder, ethers } from 'ethers';
+
+// Domain name and version the EIP712TypedDataSafeModule is initialized with
+export const DEFAULT_DOMAIN_NAME = 'BravaSafeModule';
+export const DEFAULT_DOMAIN_VERSION = '1.0.0';
 
 // EIP-712 Domain definition - uses chainID 1 for cross-chain compatibility
-export function createEIP712Domain(verifyingContract: string, chainId?: number) {
+export function createEIP712Domain(
+  verifyingContract: string,
+  chainId?: number,
+  name: string = DEFAULT_DOMAIN_NAME,
+  version: string = DEFAULT_DOMAIN_VERSION
+) {
   return {
-    name: 'BravaSafeModule',
-    version: '1.0.0',
+    name,
+    version,
     chainId: chainId || 1, // Default to chainID 1 for cross-chain compatibility
     verifyingContract,
     salt: ethers.keccak256(ethers.toUtf8Bytes('BravaSafe')),
@@ -89,7 +98,7 @@ export interface Bundle {
  * @returns The signature string
  */
 export async function signBundle(
-  signer: HardhatEthersSigner,
+  signer: Signer,
   bundle: Bundle,
   verifyingContract: string,
   chainId?: number
@@ -192,3 +201,93 @@ export async function validateBundleSignature(
     return false;
   }
 }
+
+/**
+ * Computes the digest a bundle signature is made over
+ * Matches EIP712TypedDataSafeModule.hashBundleForSigning (and getBundleHash) for the same Safe
+ * @param bundle The bundle
+ * @param safeAddress The Safe the bundle is executed on, the domain's verifying contract
+ * @param domainName The domain name the module was initialized with
+ * @param domainVersion The domain version the module was initialized with
+ * @returns The EIP-712 digest
+ */
+export function hashBundleForSigning(
+  bundle: Bundle,
+  safeAddress: string,
+  domainName: string = DEFAULT_DOMAIN_NAME,
+  domainVersion: string = DEFAULT_DOMAIN_VERSION
+): string {
+  const domain = createEIP712Domain(safeAddress, 1, domainName, domainVersion);
+  return TypedDataEncoder.hash(domain, EIP712_TYPES, bundle);
+}
+
+/**
+ * Recovers the address that signed a bundle
+ * @param bundle The bundle that was signed
+ * @param signature The signature
+ * @param safeAddress The Safe the bundle is executed on, the domain's verifying contract
+ * @param domainName The domain name the module was initialized with
+ * @param domainVersion The domain version the module was initialized with
+ * @returns The signer address
+ */
+export function recoverBundleSigner(
+  bundle: Bundle,
+  signature: string,
+  safeAddress: string,
+  domainName: string = DEFAULT_DOMAIN_NAME,
+  domainVersion: string = DEFAULT_DOMAIN_VERSION
+): string {
+  return ethers.recoverAddress(
+    hashBundleForSigning(bundle, safeAddress, domainName, domainVersion),
+    signature
+  );
+}
+
+/**
+ * Converts a bundle to JSON compatible values (bigints as decimal strings)
+ * @param bundle The bundle
+ * @returns The bundle with every bigint replaced by a string
+ */
+export function serializeBundle(bundle: Bundle): unknown {
+  return JSON.parse(
+    JSON.stringify(bundle, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+  );
+}
+
+/**
+ * Reads a bundle from its JSON form, filling in the createBundle defaults for missing fields
+ * @param json The bundle as parsed from JSON, numbers may be strings or numbers
+ * @returns The bundle
+ */
+export function parseBundle(json: any): Bundle {
+  if (json.expiry === undefined || !Array.isArray(json.sequences)) {
+    throw new Error('A bundle needs an expiry and a sequences array');
+  }
+  return {
+    expiry: BigInt(json.expiry),
+    sequences: json.sequences.map((entry: any) => {
+      const sequence = entry.sequence ?? {};
+      const actionIds: string[] = sequence.actionIds ?? [];
+      const callData: string[] = sequence.callData ?? [];
+      const actions: ActionDefinition[] = (sequence.actions ?? []).map((action: any) => ({
+        protocolName: action.protocolName,
+        actionType: Number(action.actionType),
+      }));
+      if (actions.length !== actionIds.length || callData.length !== actionIds.length) {
+        throw new Error(
+          `Sequence ${sequence.name} has ${actions.length} actions, ${actionIds.length} action IDs and ${callData.length} call data`
+        );
+      }
+      return {
+        chainId: BigInt(entry.chainId),
+        sequenceNonce: BigInt(entry.sequenceNonce ?? 0),
+        deploySafe: entry.deploySafe ?? false,
+        enableGasRefund: entry.enableGasRefund ?? false,
+        refundToken: entry.refundToken ?? ethers.ZeroAddress,
+        maxRefundAmount: BigInt(entry.maxRefundAmount ?? 0),
+        refundRecipient: Number(entry.refundRecipient ?? RefundRecipient.EXECUTOR),
+        sequence: { name: sequence.name ?? 'Sequence', actions, actionIds, callData },
+      };
+    }),
+  };
+}
@@ -4,6 +4,8 @@ import { ethers } from 'hardhat';
 import { formatUnits } from 'ethers';
 import * as constants from './constants';
 import { log, getTypedContract } from './utils';
+import { isMockNetwork } from './mock-config';
+import { mintMockToken } from './mock-protocols';
 import { IERC20, IERC20Metadata } from '../typechain-types';
 
 import hre from 'hardhat';
@@ -74,6 +76,12 @@ async function fundAccountWithToken(
     throw new Error(`Unsupported token: ${tokenSymbol}`);
   }
 
+  if (isMockNetwork()) {
+    await mintMockToken(recipient, tokenSymbol, parsedAmount);
+    log(`Minted ${formatUnits(parsedAmount, token.decimals)} ${tokenSymbol} to ${recipient}`);
+    return;
+  }
+
   const whaleBalance = await ethers.provider.getBalance(token.whale);
   // If the whale doesn't have ETH, lets send them some
   if (whaleBalance < ethers.parseEther('1')) {
@@ -13,7 +13,8 @@
  * - executeDebug.action/sequence: Forces debug execution
  *
  * TypedData utilities:
- * - createSmartBundle: Creates bundles with smart defaults and auto-nonce
+ * - createSmartBundle: Creates bundles with smart defaults and auto-nonce, validate: true checks
+ *   them with validateBundle (test/bundle-validator.ts) first
  * - signAndExecuteBundle: One-call bundle creation and execution
  * - getSequenceNonce: Gets current nonce for a safe/chain combination
  *
@@ -23,13 +24,11 @@
  * 3. Set USE_TYPED_DATA=true to switch entire test suite to TypedData execution
  */
 
-import nexusSdk, { CoverAsset } from '@nexusmutual/sdk';
-import * as bravaSdk from 'brava-ts-client';
 import { deploySafe, executeSafeTransaction } from 'brava-ts-client';
 import {
   BaseContract,
   ContractTransactionResponse,
-  Log,
+  Signer,
   TransactionReceipt,
   TransactionResponse,
 } from 'ethers';
@@ -57,17 +56,21 @@ import {
   TokenRegistry,
   IAggregatorV3,
 } from '../typechain-types';
-import { ActionArgs, actionDefaults, BuyCoverArgs } from './actions';
-import { CREATE_X_ADDRESS, CURVE_3POOL_INDICES, ROLES, tokenConfig, ETH_ADDRESS } from './constants';
-import { BaseLog, LogDefinitions, LOGGER_INTERFACE } from './logs';
+import { deployDeterministicProxy } from '../scripts/deployments/deterministic-proxy';
 import {
-  BuyCoverInputTypes,
-  NexusMutualBuyCoverParamTypes,
-  NexusMutualPoolAllocationRequestTypes,
-  ParaswapSwapParams,
-} from './params';
-import { getCoverQuote } from './actions/nexus-mutual/nexusCache';
-import { SignerWithAddress, HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+  ActionArgs,
+  actionDefaults,
+  getActionTypeForProtocolAction,
+  getProtocolNameForAction,
+} from './actions';
+import { formatBundleProblems, validateBundle } from './bundle-validator';
+import { PROXY_LABELS, ROLES, tokenConfig, ETH_ADDRESS } from './constants';
+import { calculateFee } from './fee-forecaster';
+import { isMockNetwork } from './mock-config';
+import { deployMockProtocols } from './mock-protocols';
+import { decodeCallRevert, decodeSafeRevert, withDecodedRevert } from './revert-decoder';
+import { resolveActionsFromAddresses } from './sequence-decoder';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
 import {
   Bundle,
   ChainSequence,
@@ -76,84 +79,32 @@ import {
   signBundle,
   createBundle,
 } from './utils-eip712';
-import { getProtocolNameForAction, getActionTypeForProtocolAction } from './actions';
+import {
+  ActionEncoderContext,
+  encodeActionCall,
+  encodeActionCallForTypedData,
+} from './action-encoders';
 
 export const USE_BRAVA_SDK = process.env.USE_BRAVA_SDK === 'true';
 export const USE_TYPED_DATA = process.env.USE_TYPED_DATA === 'true';
 
 export { deploySafe, executeSafeTransaction };
 export { log, formatAmount, isLoggingEnabled } from './shared-utils';
+export { decodeLoggerLog, decodeAdminVaultLogs } from './logs';
 import { log, getBytes4 } from './shared-utils';
 
 // Helper function to properly type ethers.getContractAt() results for ethers v6
 export async function getTypedContract<T>(
   contractName: string,
   address: string,
-  signer?: HardhatEthersSigner
+  signer?: Signer
 ): Promise<T> {
   return ethers.getContractAt(contractName, address, signer) as T;
 }
 
-// Decode a log from the logger
-// This function will take in a TransactionResponse, TransactionReceipt or an array of logs
-// and return an array of decoded logs
-export async function decodeLoggerLog(
-  input: TransactionResponse | TransactionReceipt | Log[]
-): Promise<BaseLog[]> {
-  log('Decoding logger log');
-
-  let logs: Log[];
-  if (Array.isArray(input)) {
-    logs = input;
-  } else if ('wait' in input) {
-    // It's a TransactionResponse, wait for the receipt
-    const receipt = await input.wait();
-    if (!receipt) {
-      throw new Error('Problem decoding log: Transaction receipt not found');
-    }
-    logs = receipt.logs as Log[];
-  } else {
-    // It's a TransactionReceipt
-    logs = input.logs as Log[];
-  }
-
-  const abiCoder = new ethers.AbiCoder();
-  const loggerInterface = new ethers.Interface(LOGGER_INTERFACE);
-
-  // TODO: Deal with the AdminVaultEvent logs
-
-  // The event signature for ActionEvent
-  const actionEventTopic = loggerInterface.getEvent('ActionEvent')!.topicHash;
-
-  const relevantLogs = logs.filter((log: Log) => log.topics[0] === actionEventTopic);
-
-  return relevantLogs.map((log: Log) => {
-    const parsedLog = loggerInterface.parseLog({
-      topics: log.topics as string[],
-      data: log.data,
-    })!;
-
-    const eventId = parsedLog.args.logId;
-    const baseLog = {
-      eventId,
-      safeAddress: parsedLog.args.caller,
-    };
-
-    const logDefinition = LogDefinitions[eventId];
-    if (!logDefinition) {
-      throw new Error(`Problem decoding log: Unknown event type: ${eventId}`);
-    }
-
-    const decodedBytes = abiCoder.decode(logDefinition.types, parsedLog.args.data);
-    const extendedLog = logDefinition.decode(baseLog, decodedBytes);
-
-    return extendedLog;
-  });
-}
-
 export async function deploy<T extends BaseContract>(
   contractName: string,
-  signer: HardhatEthersSigner,
+  signer: Signer,
   ...args: unknown[]
 ): Promise<T> {
   log(`Deploying ${contractName} with args:`, ...args);
@@ -211,7 +162,7 @@ type BaseSetup = {
   logger: Logger;
   adminVault: AdminVault;
   safe: ISafe;
-  signer: HardhatEthersSigner;
+  signer: Signer;
   sequenceExecutor: SequenceExecutor;
   safeDeployment: SafeDeployment;
   eip712Module: EIP712TypedDataSafeModule;
@@ -223,7 +174,7 @@ type BaseSetup = {
 // Custom Safe deployment helper that can replace brava-ts-client deploySafe
 // This can be easily switched back to the ts-client when it's updated
 export async function deployBravaSafe(
-  signer: HardhatEthersSigner,
+  signer: Signer,
   safeDeployment?: SafeDeployment,
   eip712Module?: EIP712TypedDataSafeModule
 ): Promise<string> {
@@ -259,23 +210,26 @@ export async function deployBravaSafe(
   return await deploySafe(signer);
 }
 
-export async function deployBaseSetup(signer?: HardhatEthersSigner): Promise<BaseSetup> {
+export async function deployBaseSetup(signer?: Signer): Promise<BaseSetup> {
   const deploySigner = signer ?? (await ethers.getSigners())[0];
 
+  if (isMockNetwork()) {
+    await deployMockProtocols();
+  }
+
   // Deploy Logger with proxy (similar to production setup)
   const loggerImplementation = await deploy<Logger>('Logger', deploySigner);
 
-  // Deploy ERC1967Proxy for Logger
-  const loggerInitData = loggerImplementation.interface.encodeFunctionData('initialize');
-  const ERC1967ProxyFactory = await ethers.getContractFactory('ERC1967Proxy', deploySigner);
-  const loggerProxy = await ERC1967ProxyFactory.deploy(
-    await loggerImplementation.getAddress(),
-    loggerInitData
-  );
-  await loggerProxy.waitForDeployment();
+  // Deploy the Logger proxy through CreateX, at the same address on every chain
+  const loggerProxy = await deployDeterministicProxy({
+    label: PROXY_LABELS.Logger,
+    implementation: await loggerImplementation.getAddress(),
+    initData: loggerImplementation.interface.encodeFunctionData('initialize'),
+    signer: deploySigner,
+  });
 
   // Get Logger interface connected to proxy
-  const logger = await getTypedContract<Logger>('Logger', await loggerProxy.getAddress());
+  const logger = await getTypedContract<Logger>('Logger', loggerProxy.proxy);
 
   const adminVault = await deploy<AdminVault>(
     'AdminVault',
@@ -305,7 +259,7 @@ export async function deployBaseSetup(signer?: HardhatEthersSigner): Promise<Bas
   // Deploy SafeSetup contract first
   const safeSetup = await deploy<SafeSetup>('SafeSetup', deploySigner);
 
-  // Deploy ERC1967Proxy for SafeDeployment with initialization
+  // Deploy the SafeDeployment proxy with initialization
   const SAFE_SINGLETON = '0x41675C099F32341bf84BFc5382aF534df5C7461a';
 
   const safeDeploymentInitData = safeDeploymentImplementation.interface.encodeFunctionData(
@@ -319,16 +273,18 @@ export async function deployBaseSetup(signer?: HardhatEthersSigner): Promise<Bas
     ]
   );
 
-  const safeDeploymentProxy = await ERC1967ProxyFactory.deploy(
-    await safeDeploymentImplementation.getAddress(),
-    safeDeploymentInitData
-  );
-  await safeDeploymentProxy.waitForDeployment();
+  // predictSafeAddress only gives the same Safe address on every chain if SafeDeployment has one
+  const safeDeploymentProxy = await deployDeterministicProxy({
+    label: PROXY_LABELS.SafeDeployment,
+    implementation: await safeDeploymentImplementation.getAddress(),
+    initData: safeDeploymentInitData,
+    signer: deploySigner,
+  });
 
   // Get SafeDeployment interface connected to proxy
   const safeDeployment = await getTypedContract<SafeDeployment>(
     'SafeDeployment',
-    await safeDeploymentProxy.getAddress()
+    safeDeploymentProxy.proxy
   );
 
   // Deploy TokenRegistry for gas refunds
@@ -339,7 +295,8 @@ export async function deployBaseSetup(signer?: HardhatEthersSigner): Promise<Bas
     await logger.getAddress()
   );
 
-  // Use real Chainlink ETH/USD price feed on mainnet (since we're forking)
+  // Use real Chainlink ETH/USD price feed on mainnet (since we're forking),
+  // with FORK=false deployMockProtocols places a mock feed at the same address
   const CHAINLINK_ETH_USD_ORACLE = '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419';
   const mockChainlinkOracle = await getTypedContract<IAggregatorV3>(
     'IAggregatorV3',
@@ -402,7 +359,7 @@ export async function deployBaseSetup(signer?: HardhatEthersSigner): Promise<Bas
 let baseSetupCache: Awaited<ReturnType<typeof deployBaseSetup>> | null = null;
 let baseSetupSnapshotId: string | null = null;
 
-export async function getBaseSetup(signer?: HardhatEthersSigner): Promise<BaseSetup> {
+export async function getBaseSetup(signer?: Signer): Promise<BaseSetup> {
   if (baseSetupCache && baseSetupSnapshotId) {
     log('Reverting to snapshot');
     await network.provider.send('evm_revert', [baseSetupSnapshotId]);
@@ -431,11 +388,12 @@ export async function calculateExpectedFee(
 ): Promise<bigint> {
   const timestamp1 = (await tx1.getBlock()).timestamp;
   const timestamp2 = (await tx2.getBlock()).timestamp;
-  const timeDifference =
-    timestamp2 > timestamp1 ? timestamp2 - timestamp1 : timestamp1 - timestamp2;
-  const annualFee = (balance * BigInt(feePercentage)) / BigInt(10000);
-  const fee = (annualFee * BigInt(timeDifference)) / BigInt(31536000);
-  return fee;
+  return calculateFee(
+    balance,
+    BigInt(feePercentage),
+    Math.min(timestamp1, timestamp2),
+    Math.max(timestamp1, timestamp2)
+  );
 }
 
 // Global setup for the tests
@@ -445,7 +403,7 @@ let globalSetup:
       logger: Logger;
       adminVault: AdminVault;
       safe: ISafe;
-      signer: any;
+      signer: Signer;
       safeDeployment: SafeDeployment;
       eip712Module: EIP712TypedDataSafeModule;
       safeSetupRegistry: SafeSetupRegistry;
@@ -456,7 +414,7 @@ export function setGlobalSetup(params: {
   logger: Logger;
   adminVault: AdminVault;
   safe: ISafe;
-  signer: any;
+  signer: Signer;
   safeDeployment: SafeDeployment;
   eip712Module: EIP712TypedDataSafeModule;
   safeSetupRegistry: SafeSetupRegistry;
@@ -468,7 +426,7 @@ export function getGlobalSetup(): {
   logger: Logger;
   adminVault: AdminVault;
   safe: ISafe;
-  signer: any;
+  signer: Signer;
   safeDeployment: SafeDeployment;
   eip712Module: EIP712TypedDataSafeModule;
   safeSetupRegistry: SafeSetupRegistry;
@@ -497,97 +455,25 @@ export function registerDeployedContract(
   deployedContracts[name] = { address, contract };
 }
 
-async function prepareNexusMutualCoverPurchase(args: Partial<BuyCoverArgs>): Promise<{
-  encodedFunctionCall: string;
-  buyCoverParams: any;
-  poolAllocationRequests: any[];
-}> {
-  const mergedArgs = { ...actionDefaults.BuyCover, ...args } as BuyCoverArgs;
-  const globalSetup = await getGlobalSetup();
-  const safeAddress = await globalSetup.safe.getAddress();
-
-  const { productId, amountToInsure, daysToInsure, coverAsset, coverAddress } = mergedArgs;
-
-  // Use destinationAddress if provided, otherwise fall back to safeAddress
-  const coverOwnerAddress = coverAddress || safeAddress;
-  log('Cover owner address:', coverOwnerAddress);
-
-  // Get token decimals based on cover asset
-  let decimals = 18;
-  switch (coverAsset) {
-    case CoverAsset.ETH:
-      decimals = 18;
-      break;
-    case CoverAsset.DAI:
-      decimals = tokenConfig.DAI.decimals;
-      break;
-    case CoverAsset.USDC:
-      decimals = tokenConfig.USDC.decimals;
-      break;
-  }
-
-  // Parse the amount to the correct decimals
-  const coverAmount = ethers.parseUnits(amountToInsure, decimals).toString();
-
-  // Get quote from cache or API using our new cache system
-  const { buyCoverParams, poolAllocationRequests } = await getCoverQuote(
-    productId,
-    coverAmount,
-    daysToInsure,
-    coverAsset,
-    coverOwnerAddress
-  );
-
-  const abiCoder = new ethers.AbiCoder();
-  const buyCoverParamsEncoded = abiCoder.encode([NexusMutualBuyCoverParamTypes], [buyCoverParams]);
-  const poolAllocationRequestsEncoded = poolAllocationRequests.map((request) =>
-    abiCoder.encode([NexusMutualPoolAllocationRequestTypes], [request])
+// Names the actions of failed sequences after the deployed contracts
+function getRevertDecoderOptions() {
+  const addresses = Object.fromEntries(
+    Object.entries(deployedContracts).map(([name, { address }]) => [name, address])
   );
-
-  const encodedParamsCombined = abiCoder.encode(
-    [BuyCoverInputTypes],
-    [
-      {
-        owner: coverOwnerAddress,
-        buyCoverParams: buyCoverParamsEncoded,
-        poolAllocationRequests: poolAllocationRequestsEncoded,
-      },
-    ]
-  );
-
-  const buyCover = getDeployedContract('BuyCover');
-  if (!buyCover) {
-    throw new Error('BuyCover contract not deployed');
-  }
-
-  const encodedFunctionCall = buyCover.contract.interface.encodeFunctionData('executeAction', [
-    encodedParamsCombined,
-    1,
-  ]);
-
-  return {
-    encodedFunctionCall,
-    buyCoverParams,
-    poolAllocationRequests,
-  };
+  return { resolveAction: resolveActionsFromAddresses(addresses) };
 }
 
-async function prepareParaswapSwap(args: Partial<ActionArgs>): Promise<{
-  encodedFunctionCall: string;
-}> {
-  const mergedArgs = { ...actionDefaults.ParaswapSwap, ...args } as ActionArgs;
-  const abiCoder = new ethers.AbiCoder();
-  const encodedParamsCombined = abiCoder.encode([ParaswapSwapParams], [mergedArgs]);
-  const paraswap = getDeployedContract('ParaswapSwap');
-  if (!paraswap) {
-    throw new Error('ParaswapSwap contract not deployed');
-  }
-  const encodedFunctionCall = paraswap.contract.interface.encodeFunctionData('executeAction', [
-    encodedParamsCombined,
-    1,
-  ]);
-  return { encodedFunctionCall };
-}
+// The deployed actions and global Safe, as used by the action encoders
+const encoderContext: ActionEncoderContext = {
+  getActionAddress: (actionType) => {
+    const actionContract = getDeployedContract(actionType);
+    if (!actionContract) {
+      throw new Error(`Contract ${actionType} not deployed`);
+    }
+    return actionContract.address;
+  },
+  getSafeAddress: async () => (await getGlobalSetup()).safe.getAddress(),
+};
 
 // Enhanced action encoding result that includes both calldata and TypedData
 export interface EncodedActionResult {
@@ -609,43 +495,7 @@ export interface EncodedSequenceResult {
  * @returns Both the encoded calldata and the TypedData ActionDefinition
  */
 export async function encodeActionWithTypedData(args: ActionArgs): Promise<EncodedActionResult> {
-  // Special-case CCTP to emit simplified direct tuple for bundle-context
-  if (args.type === 'CCTPBridgeSend') {
-    const mergedArgs = { ...actionDefaults[args.type], ...args } as any;
-    const cctpParams = [
-      mergedArgs.usdcToken,
-      mergedArgs.amount,
-      mergedArgs.destinationDomain,
-      ethers.zeroPadValue(mergedArgs.destinationCaller, 32),
-      mergedArgs.maxFee,
-      mergedArgs.minFinalityThreshold,
-    ];
-    const directTuple = ethers.AbiCoder.defaultAbiCoder().encode(
-      ['address', 'uint256', 'uint32', 'bytes32', 'uint256', 'uint32'],
-      cctpParams
-    );
-    const callData = directTuple;
-
-    const protocolName = args.protocolName || getProtocolNameForAction(args.type);
-    const actionType = args.actionType ?? getActionTypeForProtocolAction(args.type);
-    const actionContract = getDeployedContract('CCTPBridgeSend');
-    if (!actionContract) {
-      throw new Error('CCTPBridgeSend contract not deployed');
-    }
-    const actionId = getBytes4(actionContract.address);
-
-    return {
-      callData,
-      actionDefinition: {
-        protocolName,
-        actionType,
-      },
-      actionId,
-    };
-  }
-
-  // Get the regular calldata using existing logic
-  const callData = await encodeAction(args);
+  const callData = await encodeActionCallForTypedData(args, encoderContext);
 
   // Extract or generate protocol name and action type
   const protocolName = args.protocolName || getProtocolNameForAction(args.type);
@@ -741,7 +591,7 @@ export async function createTypedDataBundle(
  */
 export async function executeTypedDataBundle(
   bundle: Bundle,
-  signer: any,
+  signer: Signer,
   options: {
     safeAddress?: string;
     safeDeployment?: SafeDeployment;
@@ -755,14 +605,28 @@ export async function executeTypedDataBundle(
   const value = options.value || BigInt(0);
 
   // Get or predict the Safe address
+  const signerAddress = await signer.getAddress();
   const safeAddress =
-    options.safeAddress || (await safeDeployment.predictSafeAddress(signer.address));
+    options.safeAddress || (await safeDeployment.predictSafeAddress(signerAddress));
 
   // Sign the bundle using Safe address as verifying contract with chainID 1 for cross-chain compatibility
   const signature = await signBundle(signer, bundle, safeAddress, 1);
 
   // Execute via EIP712TypedDataSafeModule with explicit Safe address
-  return eip712Module.connect(signer).executeBundle(safeAddress, bundle, signature, { value });
+  const call = {
+    from: signerAddress,
+    to: await eip712Module.getAddress(),
+    data: eip712Module.interface.encodeFunctionData('executeBundle', [
+      safeAddress,
+      bundle,
+      signature,
+    ]),
+    value,
+  };
+  return withDecodedRevert(
+    eip712Module.connect(signer).executeBundle(safeAddress, bundle, signature, { value }),
+    (revertData) => decodeCallRevert(call, revertData, getRevertDecoderOptions())
+  );
 }
 
 /**
@@ -774,7 +638,7 @@ export async function executeTypedDataBundle(
  */
 export async function encodeAndExecuteTypedDataActions(
   actions: ActionArgs[],
-  signer: any,
+  signer: Signer,
   options: {
     sequenceName?: string;
     chainId?: bigint;
@@ -801,7 +665,7 @@ export async function encodeAndExecuteTypedDataActions(
 export async function executeActions(
   actions: ActionArgs[],
   options: TypedDataOptions & {
-    signer?: any;
+    signer?: Signer;
     safeTxGas?: number;
     gasPrice?: number;
     baseGas?: number;
@@ -810,7 +674,7 @@ export async function executeActions(
   const useTypedData = options.useTypedData ?? USE_TYPED_DATA;
 
   if (useTypedData) {
-    const signer = options.signer || ((await getGlobalSetup()).signer as any);
+    const signer = options.signer || getGlobalSetup().signer;
     return encodeAndExecuteTypedDataActions(actions, signer, options);
   }
 
@@ -855,17 +719,16 @@ export async function executeActions(
 export async function getSequenceNonce(
   safeAddress?: string,
   chainId?: bigint, // Parameter kept for backward compatibility but ignored
-  signer?: any
+  signer?: Signer
 ): Promise<bigint> {
   const globalSetup = getGlobalSetup();
   const eip712Module = globalSetup.eip712Module;
 
   let targetSafeAddress = safeAddress;
   if (!targetSafeAddress) {
-    if (!signer) {
-      signer = globalSetup.signer as any;
-    }
-    targetSafeAddress = await globalSetup.safeDeployment.predictSafeAddress(signer.address);
+    targetSafeAddress = await globalSetup.safeDeployment.predictSafeAddress(
+      await (signer ?? globalSetup.signer).getAddress()
+    );
   }
 
   // chainId parameter is now ignored since contract only tracks nonces for its own chain
@@ -882,19 +745,21 @@ export async function createSmartBundle(
   actions: ActionArgs[],
   options: {
     sequenceName?: string;
-    signer?: any;
+    signer?: Signer;
     chainId?: bigint;
     autoSequenceNonce?: boolean; // If true, automatically get the next nonce
     sequenceNonce?: bigint;
     expiryOffset?: number;
+    validate?: boolean; // If true, throws when executeBundle would reject the bundle
   } = {}
 ): Promise<Bundle> {
   const {
     sequenceName = 'SmartBundle',
-    signer = (await getGlobalSetup()).signer as any,
+    signer = getGlobalSetup().signer,
     chainId = BigInt((await ethers.provider.getNetwork()).chainId),
     autoSequenceNonce = true,
     expiryOffset = 3600, // 1 hour
+    validate = false,
   } = options;
 
   let { sequenceNonce } = options;
@@ -903,12 +768,26 @@ export async function createSmartBundle(
     sequenceNonce = await getSequenceNonce(undefined, chainId, signer);
   }
 
-  return createTypedDataBundle(actions, {
+  const bundle = await createTypedDataBundle(actions, {
     sequenceName,
     chainId,
     sequenceNonce: sequenceNonce || BigInt(0),
     expiryOffset,
   });
+
+  if (validate) {
+    const globalSetup = getGlobalSetup();
+    const safeAddress = await globalSetup.safeDeployment.predictSafeAddress(
+      await signer.getAddress()
+    );
+    const validation = await validateBundle(bundle, safeAddress, ethers.provider, {
+      eip712Module: await globalSetup.eip712Module.getAddress(),
+    });
+    if (validation.problems.length > 0) {
+      throw new Error(`Invalid bundle:\n${formatBundleProblems(validation, bundle)}`);
+    }
+  }
+  return bundle;
 }
 
 /**
@@ -920,13 +799,14 @@ export async function createSmartBundle(
  */
 export async function signAndExecuteBundle(
   actions: ActionArgs[],
-  signer: any,
+  signer: Signer,
   options: {
     sequenceName?: string;
     chainId?: bigint;
     autoSequenceNonce?: boolean;
     sequenceNonce?: bigint;
     expiryOffset?: number;
+    validate?: boolean;
     safeDeployment?: SafeDeployment;
     eip712Module?: EIP712TypedDataSafeModule;
     value?: bigint;
@@ -938,188 +818,10 @@ export async function signAndExecuteBundle(
 
 // Helper function to encode an action
 // This function will use default values for any parameters not specified
-// It will also use the global setup to get the safe address and signer
-// It will also get the deployed contract for the action type
+// The args are encoded by the encoder registered for the action type (see test/action-encoders.ts)
 // It is also possible to specify using the SDK or manual encoding
 export async function encodeAction(args: ActionArgs): Promise<string> {
-  const defaults = actionDefaults[args.type];
-  if (!defaults) {
-    throw new Error(`Unknown action type: ${args.type}`);
-  }
-
-  const mergedArgs = { ...defaults, ...args } as ActionArgs;
-
-  // Nexus is special, lets just use their SDK
-  if (mergedArgs.type === 'BuyCover') {
-    const { encodedFunctionCall } = await prepareNexusMutualCoverPurchase(mergedArgs);
-    return encodedFunctionCall;
-  }
-
-  // Paraswap has bytes that need encoding as a tuple
-  if (mergedArgs.type === 'ParaswapSwap') {
-    if ('tokenIn' in mergedArgs && 'tokenOut' in mergedArgs) {
-      // convert tokens to addresses
-      mergedArgs.tokenInAddress =
-        tokenConfig[mergedArgs.tokenIn as keyof typeof tokenConfig].address;
-      mergedArgs.tokenOutAddress =
-        tokenConfig[mergedArgs.tokenOut as keyof typeof tokenConfig].address;
-    }
-    const { encodedFunctionCall } = await prepareParaswapSwap(mergedArgs);
-    return encodedFunctionCall;
-  }
-
-  // ZeroExSwap needs tuple encoding like Paraswap
-  if (mergedArgs.type === 'ZeroExSwap') {
-    const zeroExArgs = mergedArgs as any;
-    // Create the swap params tuple
-    zeroExArgs.swapParams = [
-      zeroExArgs.tokenIn,
-      zeroExArgs.tokenOut,
-      zeroExArgs.fromAmount,
-      zeroExArgs.minToAmount,
-      zeroExArgs.value ?? 0,
-      zeroExArgs.swapTarget,
-      zeroExArgs.swapCallData,
-    ];
-
-    const actionContract = getDeployedContract('ZeroExSwap');
-    if (!actionContract) {
-      throw new Error('ZeroExSwap contract not deployed');
-    }
-
-    const encodedFunctionCall = actionContract.contract.interface.encodeFunctionData(
-      'executeAction',
-      [
-        ethers.AbiCoder.defaultAbiCoder().encode(
-          ['tuple(address,address,uint256,uint256,uint256,address,bytes)'],
-          [zeroExArgs.swapParams]
-        ),
-        42,
-      ]
-    );
-    return encodedFunctionCall;
-  }
-
-  // CCTP Bridge Send needs to create cctpParams tuple
-  if (mergedArgs.type === 'CCTPBridgeSend') {
-    const cctpArgs = mergedArgs as any;
-    cctpArgs.cctpParams = [
-      cctpArgs.usdcToken,
-      cctpArgs.amount,
-      cctpArgs.destinationDomain,
-      ethers.zeroPadValue(cctpArgs.destinationCaller, 32),
-      cctpArgs.maxFee,
-      cctpArgs.minFinalityThreshold,
-    ];
-    // For TypedData execution, simplify encoding to direct tuple so the action can decode without wrapper
-    if (USE_TYPED_DATA) {
-      const actionContract = getDeployedContract('CCTPBridgeSend');
-      if (!actionContract) {
-        throw new Error('CCTPBridgeSend contract not deployed');
-      }
-      const directTuple = ethers.AbiCoder.defaultAbiCoder().encode(
-        ['address', 'uint256', 'uint32', 'bytes32', 'uint256', 'uint32'],
-        cctpArgs.cctpParams
-      );
-      const encodedFunctionCall = actionContract.contract.interface.encodeFunctionData(
-        'executeAction',
-        [directTuple, 42]
-      );
-      return encodedFunctionCall;
-    }
-    // Otherwise use legacy wrapper encoding below
-  }
-
-  // Use Brava SDK if useSDK is true in the action defaults
-  if (mergedArgs.useSDK) {
-    const sdkFunctionName = `${mergedArgs.type}Action`;
-    if (sdkFunctionName in bravaSdk) {
-      const ActionClass = (bravaSdk as any)[sdkFunctionName];
-      if (typeof ActionClass === 'function') {
-        // Use sdkArgs to order the arguments correctly
-        const orderedArgs = defaults.sdkArgs?.map((argName) => (mergedArgs as any)[argName]) || [];
-        const actionInstance = new ActionClass(...orderedArgs);
-        return actionInstance.encodeArgs();
-      }
-    }
-    throw new Error(`Brava SDK function not found for action type: ${mergedArgs.type}`);
-  }
-
-  // Fall back to custom encoding
-  const { encoding } = mergedArgs;
-  if (!encoding) {
-    throw new Error(`No encoding found for action type: ${args.type}`);
-  }
-
-  const encodingValues = encoding.encodingVariables.map((variable) => {
-    const value = (mergedArgs as any)[variable];
-
-    // Handle poolId special case
-    if (variable === 'poolId') {
-      if ('poolId' in mergedArgs) {
-        return mergedArgs.poolId;
-      } else if ('poolAddress' in mergedArgs) {
-        return getBytes4(mergedArgs.poolAddress!);
-      } else {
-        throw new Error(`Missing required parameter: poolId or poolAddress for ${args.type}`);
-      }
-    }
-
-    // Handle Curve swap special case
-    if (variable === 'fromToken' || variable === 'toToken') {
-      if ('tokenIn' in mergedArgs && 'tokenOut' in mergedArgs) {
-        const tokenKey = variable === 'fromToken' ? 'tokenIn' : 'tokenOut';
-        const token = mergedArgs[tokenKey];
-        if (token in CURVE_3POOL_INDICES) {
-          return CURVE_3POOL_INDICES[token as keyof typeof CURVE_3POOL_INDICES];
-        } else {
-          throw new Error(`Invalid token parameter for ${args.type}`);
-        }
-      }
-    }
-
-    // Handle ParaswapSwap special case
-    if (variable === 'tokenIn' || variable === 'tokenOut') {
-      if ('tokenIn' in mergedArgs && 'tokenOut' in mergedArgs) {
-        return tokenConfig[mergedArgs[variable]].address;
-      }
-    }
-
-    // Handle PullToken and SendToken special case
-    if (variable === 'tokenAddress') {
-      if ('tokenAddress' in mergedArgs) {
-        return mergedArgs.tokenAddress;
-      } else if ('token' in mergedArgs && mergedArgs.token && mergedArgs.token in tokenConfig) {
-        return tokenConfig[mergedArgs.token as keyof typeof tokenConfig].address;
-      } else {
-        throw new Error(`Missing required parameter: token for ${args.type}`);
-      }
-    }
-
-    if (value === undefined) {
-      throw new Error(`Missing required parameter: ${variable} for ${args.type}`);
-    }
-    return value;
-  });
-
-  log('Encoding action:', args.type);
-  log('Encoding params:', encoding.inputParams);
-  log('Encoding values:', encodingValues);
-  const inputParams = ethers.AbiCoder.defaultAbiCoder().encode(
-    encoding.inputParams,
-    encodingValues
-  );
-  const actionContract = getDeployedContract(args.type);
-  if (!actionContract) {
-    throw new Error(`Contract ${args.type} not deployed`);
-  }
-  const payload = actionContract.contract.interface.encodeFunctionData('executeAction', [
-    inputParams,
-    42,
-  ]);
-  log('Action contract:', actionContract.address);
-  log('Encoded payload:', payload);
-  return payload;
+  return encodeActionCall(args, encoderContext);
 }
 
 // New executeAction function that uses encodeAction
@@ -1131,7 +833,7 @@ export async function executeAction(
   const useTypedData = typedDataOptions?.useTypedData ?? USE_TYPED_DATA;
 
   if (useTypedData) {
-    const signer = (args.signer as any) || ((await getGlobalSetup()).signer as any);
+    const signer = args.signer || getGlobalSetup().signer;
     return encodeAndExecuteTypedDataActions([args], signer, typedDataOptions || {});
   }
 
@@ -1175,18 +877,30 @@ export async function executeAction(
   };
 
   // Direct Safe execution (delegatecall for most actions)
-  return executeSafeTransaction(
-    await Promise.resolve(safeAddress),
-    actionContract.address,
-    txValue,
-    payload,
-    targetOperation,
-    signer,
-    {
-      safeTxGas,
-      gasPrice,
-      baseGas,
-    }
+  const safe = await Promise.resolve(safeAddress);
+  const execution = {
+    safe,
+    to: actionContract.address,
+    data: payload,
+    operation: targetOperation,
+    value: txValue,
+    from: await signer.getAddress(),
+  };
+  return withDecodedRevert(
+    executeSafeTransaction(
+      safe,
+      actionContract.address,
+      txValue,
+      payload,
+      targetOperation,
+      signer,
+      {
+        safeTxGas,
+        gasPrice,
+        baseGas,
+      }
+    ),
+    (revertData) => decodeSafeRevert(execution, revertData, getRevertDecoderOptions())
   );
 }
 
@@ -1234,11 +948,21 @@ export async function executeSequence(
   log('Executing sequence');
   log('Sequence executor address:', sequenceExecutorAddress);
   log('Safe address:', safeAddr);
-  return executeSafeTransaction(safeAddr, sequenceExecutorAddress, 0, payload, 1, signer, {
-    safeTxGas,
-    gasPrice,
-    baseGas,
-  });
+  const execution = {
+    safe: safeAddr,
+    to: sequenceExecutorAddress,
+    data: payload,
+    operation: 1,
+    from: await signer.getAddress(),
+  };
+  return withDecodedRevert(
+    executeSafeTransaction(safeAddr, sequenceExecutorAddress, 0, payload, 1, signer, {
+      safeTxGas,
+      gasPrice,
+      baseGas,
+    }),
+    (revertData) => decodeSafeRevert(execution, revertData, getRevertDecoderOptions())
+  );
 }
 
 type RoleName = keyof typeof ROLES;